@@ -0,0 +1,258 @@
+"use client";
+
+import { useState, useMemo, useCallback } from "react";
+import { AlertCircle, ChevronDown, ChevronRight } from "lucide-react";
+import { HexViewer, type ByteRange } from "@/components/hex-viewer";
+import {
+  ASN1_TAGS,
+  decodeOid,
+  describeAsn1Tag,
+  describeAsn1Value,
+  parseAsn1,
+  toHexString,
+  type Asn1Node,
+} from "@/lib/asn1";
+import { OID_NAMES } from "@/lib/oids";
+import { cn } from "@/lib/utils";
+
+interface Asn1ViewerProps {
+  bytes: Uint8Array;
+}
+
+interface TreeRow {
+  /** Path of child indexes from the root, e.g. "0.2.1" */
+  id: string;
+  node: Asn1Node;
+  depth: number;
+  /** Parsed from inside an OCTET STRING or BIT STRING */
+  isEncapsulated: boolean;
+  hasChildren: boolean;
+}
+
+/** Huge structures (e.g. CMS with many certificates) are cut off here */
+const MAX_TREE_ROWS = 5000;
+/** Bytes shown inline for opaque values */
+const MAX_INLINE_BYTES = 16;
+
+function childrenOf(node: Asn1Node): Asn1Node[] {
+  return node.children ?? node.encapsulated ?? [];
+}
+
+/** Flatten the expanded part of the tree into rows */
+function flattenTree(root: Asn1Node, collapsed: Set<string>): TreeRow[] {
+  const rows: TreeRow[] = [];
+  const visit = (
+    node: Asn1Node,
+    id: string,
+    depth: number,
+    isEncapsulated: boolean
+  ) => {
+    if (rows.length >= MAX_TREE_ROWS) return;
+    const children = childrenOf(node);
+    rows.push({
+      id,
+      node,
+      depth,
+      isEncapsulated,
+      hasChildren: children.length > 0,
+    });
+    if (collapsed.has(id)) return;
+    children.forEach((child, index) =>
+      visit(child, `${id}.${index}`, depth + 1, !node.children)
+    );
+  };
+  visit(root, "0", 0, false);
+  return rows;
+}
+
+function describeOpaque(content: Uint8Array): string {
+  // Context-specific primitives are often text (e.g. DNS names in SANs)
+  if (
+    content.length > 0 &&
+    content.every((byte) => byte >= 0x20 && byte <= 0x7e)
+  ) {
+    return String.fromCharCode(...content);
+  }
+  const hex = toHexString(content.subarray(0, MAX_INLINE_BYTES), " ");
+  return content.length > MAX_INLINE_BYTES ? `${hex} …` : hex;
+}
+
+/** Value column text for a node, or null for containers */
+function describeNode(node: Asn1Node): string | null {
+  if (
+    node.tagClass === "universal" &&
+    node.tagNumber === ASN1_TAGS.OBJECT_IDENTIFIER
+  ) {
+    const oid = decodeOid(node.content);
+    return OID_NAMES[oid] ? `${OID_NAMES[oid]} (${oid})` : oid;
+  }
+  if (node.constructed || node.encapsulated) return null;
+
+  const value = describeAsn1Value(node);
+  if (value !== null) return value;
+  if (
+    node.tagClass === "universal" &&
+    node.tagNumber === ASN1_TAGS.BIT_STRING
+  ) {
+    return `${describeOpaque(node.content.subarray(1))} (${
+      node.content[0] ?? 0
+    } unused bits)`;
+  }
+  return describeOpaque(node.content);
+}
+
+/**
+ * Interactive TLV tree for DER/BER data. Selecting a node highlights its
+ * bytes (header included) in the hex dump below.
+ */
+export function Asn1Viewer({ bytes }: Asn1ViewerProps) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [selectedId, setSelectedId] = useState("0");
+
+  const parsed = useMemo(() => {
+    try {
+      return { root: parseAsn1(bytes, false), error: null };
+    } catch (err) {
+      return {
+        root: null,
+        error: err instanceof Error ? err.message : "Invalid ASN.1 data",
+      };
+    }
+  }, [bytes]);
+
+  // A new structure starts expanded with the root selected
+  const [prevBytes, setPrevBytes] = useState(bytes);
+  if (bytes !== prevBytes) {
+    setPrevBytes(bytes);
+    setCollapsed(new Set());
+    setSelectedId("0");
+  }
+
+  const rows = useMemo(
+    () => (parsed.root ? flattenTree(parsed.root, collapsed) : []),
+    [parsed.root, collapsed]
+  );
+
+  // Keyed on the node, not the row, so collapsing doesn't re-scroll the dump
+  const selectedNode = rows.find((row) => row.id === selectedId)?.node ?? null;
+  const highlight = useMemo<ByteRange | null>(
+    () =>
+      selectedNode && {
+        start: selectedNode.offset,
+        end:
+          selectedNode.offset +
+          selectedNode.headerLength +
+          selectedNode.length -
+          1,
+      },
+    [selectedNode]
+  );
+
+  const toggle = useCallback((id: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }, []);
+
+  if (!parsed.root) {
+    return (
+      <div
+        className="flex items-center gap-2 rounded-lg border border-border bg-muted/30 p-4 text-sm text-destructive"
+        role="alert"
+      >
+        <AlertCircle className="h-4 w-4 shrink-0" aria-hidden="true" />
+        Not valid ASN.1: {parsed.error}
+      </div>
+    );
+  }
+
+  const { root } = parsed;
+  const trailing =
+    bytes.length - (root.offset + root.headerLength + root.length);
+
+  return (
+    <div className="space-y-3">
+      <div className="rounded-lg border border-border bg-muted/30 overflow-hidden">
+        <div
+          className="max-h-96 overflow-auto py-1 font-mono text-xs"
+          role="tree"
+          aria-label="ASN.1 structure"
+        >
+          {rows.map((row) => {
+            const { node } = row;
+            const isOpen = row.hasChildren && !collapsed.has(row.id);
+            const value = describeNode(node);
+
+            return (
+              <div
+                key={row.id}
+                role="treeitem"
+                aria-level={row.depth + 1}
+                aria-expanded={row.hasChildren ? isOpen : undefined}
+                aria-selected={row.id === selectedId}
+                className={cn(
+                  "flex items-center gap-1.5 pr-3 h-6 whitespace-nowrap",
+                  row.id === selectedId ? "bg-primary/15" : "hover:bg-muted"
+                )}
+                style={{ paddingLeft: `${row.depth + 0.5}rem` }}
+              >
+                {row.hasChildren ? (
+                  <button
+                    type="button"
+                    onClick={() => toggle(row.id)}
+                    className="text-muted-foreground hover:text-foreground"
+                    aria-label={isOpen ? "Collapse" : "Expand"}
+                  >
+                    {isOpen ? (
+                      <ChevronDown className="h-3.5 w-3.5" aria-hidden="true" />
+                    ) : (
+                      <ChevronRight
+                        className="h-3.5 w-3.5"
+                        aria-hidden="true"
+                      />
+                    )}
+                  </button>
+                ) : (
+                  <span className="w-3.5 shrink-0" aria-hidden="true" />
+                )}
+                <button
+                  type="button"
+                  onClick={() => setSelectedId(row.id)}
+                  className="flex items-center gap-2 min-w-0 text-left"
+                >
+                  <span className="font-medium text-foreground">
+                    {describeAsn1Tag(node)}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {node.tagClass} {node.tagNumber}
+                    {node.constructed ? " · constructed" : ""}
+                    {row.isEncapsulated ? " · encapsulated" : ""} · @
+                    {node.offset} · len {node.length}
+                  </span>
+                  {value !== null && value !== "" && (
+                    <span className="text-foreground truncate" title={value}>
+                      {value}
+                    </span>
+                  )}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+        {(rows.length >= MAX_TREE_ROWS || trailing > 0) && (
+          <p className="px-3 py-2 border-t border-border text-xs text-muted-foreground">
+            {rows.length >= MAX_TREE_ROWS &&
+              `Showing the first ${MAX_TREE_ROWS} nodes. `}
+            {trailing > 0 &&
+              `${trailing} trailing bytes after the top-level element.`}
+          </p>
+        )}
+      </div>
+
+      <HexViewer bytes={bytes} highlight={highlight} />
+    </div>
+  );
+}
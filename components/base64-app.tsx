@@ -6,42 +6,63 @@ import { Base64Decoder } from "@/components/base64-decoder";
 import { FileToBase64 } from "@/components/file-to-base64";
 import { FileViewer } from "@/components/file-viewer";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { HistoryPanel } from "@/components/history-panel";
+import { PrivacySettings } from "@/components/privacy-settings";
 import { FileCode2, FileUp, Eye, FileOutput } from "lucide-react";
 import { storage } from "@/lib/file-utils";
+import { fileStore } from "@/lib/file-store";
+import type { HistoryEntry, HistoryReopen } from "@/lib/history";
+import { clearsOnClose } from "@/lib/persistence";
 
 type TabValue = "decode" | "encode" | "view";
 
 export function Base64App() {
   const [activeTab, setActiveTab] = useState<TabValue>("decode");
+  const [reopen, setReopen] = useState<HistoryReopen | null>(null);
 
   // Load saved tab on mount and setup cleanup on tab close
   useEffect(() => {
     // Load saved tab preference
     const saved = storage.loadString("ACTIVE_TAB");
     if (saved && ["decode", "encode", "view"].includes(saved)) {
+      // eslint-disable-next-line react-hooks/set-state-in-effect -- localStorage is only readable after hydration
       setActiveTab(saved as TabValue);
     }
 
-    // Clear all localStorage when tab/window is closed
+    // Clear all localStorage and stored files when tab/window is closed,
+    // unless the user chose to keep them in the privacy settings.
+    // The IndexedDB wipe may not commit during unload; lib/file-store
+    // repeats it when the next tab opens the database.
     // Using pagehide is more reliable than beforeunload (works on mobile, bfcache-aware)
     const handlePageHide = (event: PageTransitionEvent) => {
       // Only clear if the page is actually being unloaded (not entering bfcache)
-      if (!event.persisted) {
+      if (!event.persisted && clearsOnClose()) {
         storage.clearAll();
+        fileStore.clearAll();
       }
     };
 
     // beforeunload as fallback for older browsers
     const handleBeforeUnload = () => {
+      if (!clearsOnClose()) return;
       storage.clearAll();
+      fileStore.clearAll();
     };
 
+    // Auto-expire mode: drop stale files now and while the tab stays open
+    fileStore.pruneExpired();
+    const pruneTimer = window.setInterval(
+      () => fileStore.pruneExpired(),
+      60000
+    );
+
     window.addEventListener("pagehide", handlePageHide);
     window.addEventListener("beforeunload", handleBeforeUnload);
 
     return () => {
       window.removeEventListener("pagehide", handlePageHide);
       window.removeEventListener("beforeunload", handleBeforeUnload);
+      window.clearInterval(pruneTimer);
     };
   }, []);
 
@@ -49,6 +70,14 @@ export function Base64App() {
   const handleTabChange = useCallback((value: string) => {
     setActiveTab(value as TabValue);
     storage.saveString("ACTIVE_TAB", value);
+    // Tabs remount when shown again; don't replay an old reopen request
+    setReopen(null);
+  }, []);
+
+  const handleReopen = useCallback((entry: HistoryEntry) => {
+    setActiveTab(entry.source);
+    storage.saveString("ACTIVE_TAB", entry.source);
+    setReopen({ entry, nonce: Date.now() });
   }, []);
 
   return (
@@ -97,17 +126,22 @@ export function Base64App() {
             </TabsList>
 
             <TabsContent value="decode">
-              <Base64Decoder embedded />
+              <Base64Decoder embedded reopen={reopen} />
             </TabsContent>
 
             <TabsContent value="encode">
-              <FileToBase64 />
+              <FileToBase64 reopen={reopen} />
             </TabsContent>
 
             <TabsContent value="view">
-              <FileViewer />
+              <FileViewer reopen={reopen} />
             </TabsContent>
           </Tabs>
+
+          <div className="mt-10 space-y-4">
+            <HistoryPanel onReopen={handleReopen} />
+            <PrivacySettings />
+          </div>
         </main>
 
         {/* Footer */}
@@ -1,83 +1,328 @@
 "use client";
 
-import { useState, useCallback, useId } from "react";
+import { useState, useCallback, useEffect, useId, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { DocumentPreview } from "@/components/document-preview";
 import { FileTypeIndicator } from "@/components/file-type-indicator";
-import { ClipboardPaste, Download, X, AlertCircle } from "lucide-react";
+import { LayerPipeline } from "@/components/layer-pipeline";
+import { JwtInspector } from "@/components/jwt-inspector";
+import { CertificateViewer } from "@/components/certificate-viewer";
+import { Base64Scanner } from "@/components/base64-scanner";
 import {
-  detectMimeType,
-  cleanBase64,
-  isValidBase64,
+  CopyImageButton,
+  ImageConvertPanel,
+  canConvertImage,
+} from "@/components/image-convert-panel";
+import {
+  ClipboardPaste,
+  Download,
+  X,
+  AlertCircle,
+  FoldVertical,
+  ImageDown,
+} from "lucide-react";
+import {
+  sniffMimeType,
+  SNIFF_BYTES,
+  describeBase64Format,
+  describeMimeConfidence,
   formatBytes,
+  isAbortError,
+  sha256Hex,
+  type MimeConfidence,
 } from "@/lib/file-utils";
+import {
+  decodeBase64InWorker,
+  type DecodeProgress,
+  type DecodeStage,
+} from "@/lib/base64-worker-client";
+import { recordHistory, type HistoryReopen } from "@/lib/history";
+import {
+  COMPRESSION_LABELS,
+  decompress,
+  detectCompression,
+  probeCompression,
+  type CompressionType,
+} from "@/lib/compression";
+import { looksLikeJwt } from "@/lib/jwt";
+import { hasPemArmor } from "@/lib/pem";
 
 interface DecodedDocument {
-  data: string;
+  blob: Blob;
+  /** Object URL for `blob`, revoked when the document is replaced */
+  url: string;
+  /** SHA-256 of the decoded bytes, lowercase hex */
+  sha256: string;
   mimeType: string;
+  /** How `mimeType` was determined */
+  mimeConfidence: MimeConfidence;
   extension: string;
   filename: string;
   size: number;
+  /** Transforms applied so far, starting with the input encoding */
+  transforms: string[];
+  /** Set when the decode worker already looked for a compressed stream */
+  compression?: CompressionType | null;
 }
 
+type DecoderMode = "decode" | "layers" | "jwt" | "pem" | "scan";
+
+const DECODER_MODES: { value: DecoderMode; label: string; action: string }[] = [
+  { value: "decode", label: "Decode", action: "Decode & Preview" },
+  { value: "layers", label: "Peel Layers", action: "Peel Layers" },
+  { value: "jwt", label: "JWT", action: "Inspect Token" },
+  { value: "pem", label: "PEM / X.509", action: "Inspect Certificate" },
+  { value: "scan", label: "Scan", action: "Scan Text" },
+];
+
+const STAGE_LABELS: Record<DecodeStage, string> = {
+  validating: "Validating",
+  decoding: "Decoding",
+  hashing: "Hashing",
+};
+
 interface Base64DecoderProps {
   /** When true, renders without header/footer for use inside tabs */
   embedded?: boolean;
+  /** History entry to load, set by the history panel */
+  reopen?: HistoryReopen | null;
 }
 
-export function Base64Decoder({ embedded = false }: Base64DecoderProps) {
+export function Base64Decoder({
+  embedded = false,
+  reopen = null,
+}: Base64DecoderProps) {
   const [input, setInput] = useState("");
+  const [mode, setMode] = useState<DecoderMode>("decode");
+  /** Snapshot of the input being peeled in layers mode */
+  const [peelInput, setPeelInput] = useState<string | null>(null);
+  /** Snapshot of the token being inspected in JWT mode */
+  const [jwtInput, setJwtInput] = useState<string | null>(null);
+  /** Snapshot of the PEM text being inspected in certificate mode */
+  const [pemInput, setPemInput] = useState<string | null>(null);
+  /** Snapshot of the text being searched in scan mode */
+  const [scanInput, setScanInput] = useState<string | null>(null);
   const [document, setDocument] = useState<DecodedDocument | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [compression, setCompression] = useState<CompressionType | null>(null);
+  // The conversion panel stays with the document it was opened for, so it
+  // closes whenever a new decode, history entry or decompression replaces it
+  // (keyed by its object URL, which is unique to each document)
+  const [convertOpenFor, setConvertOpenFor] = useState<string | null>(null);
+  const showConvert = document !== null && convertOpenFor === document.url;
+
+  const [progress, setProgress] = useState<DecodeProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
-  const processBase64 = useCallback(() => {
+  const processBase64 = useCallback(async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
     setError(null);
     setDocument(null);
     setIsProcessing(true);
+    setProgress({ stage: "validating", fraction: 0 });
 
     try {
-      const cleaned = cleanBase64(input);
+      const { blob, mime, format, sha256, compression } =
+        await decodeBase64InWorker(input, {
+          onProgress: setProgress,
+          signal: controller.signal,
+        });
 
-      if (!isValidBase64(input)) {
-        throw new Error("Invalid base64 string. Please check your input.");
+      setDocument({
+        blob,
+        url: URL.createObjectURL(blob),
+        sha256,
+        mimeType: mime.mime,
+        mimeConfidence: mime.confidence,
+        extension: mime.ext,
+        filename: `document.${mime.ext}`,
+        size: blob.size,
+        transforms: [describeBase64Format(format)],
+        compression,
+      });
+      recordHistory("decode", {
+        name: `document.${mime.ext}`,
+        type: mime.mime,
+        blob,
+      });
+    } catch (err) {
+      if (isAbortError(err)) return;
+      setError(
+        err instanceof Error ? err.message : "Failed to decode base64 string"
+      );
+    } finally {
+      // A newer run owns the processing state once it has started
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsProcessing(false);
+        setProgress(null);
       }
+    }
+  }, [input]);
 
-      const { mime, ext } = detectMimeType(cleaned);
-      const padding = (cleaned.match(/=+$/) || [""])[0].length;
-      const size = Math.floor((cleaned.length * 3) / 4) - padding;
-      const dataUrl = `data:${mime};base64,${cleaned}`;
+  // Show a decoded file picked from the history panel
+  useEffect(() => {
+    if (reopen?.entry.source !== "decode") return;
+    const { entry } = reopen;
+    abortRef.current?.abort();
+    // eslint-disable-next-line react-hooks/set-state-in-effect -- reopening is triggered from outside this component
+    setMode("decode");
+    setError(null);
+
+    let isCurrent = true;
+    entry.blob
+      .arrayBuffer()
+      .then(async (buffer) => {
+        const bytes = new Uint8Array(buffer);
+        const { mime, ext, confidence } = sniffMimeType(bytes);
+        const sha256 = await sha256Hex(bytes);
+        if (!isCurrent) return;
+        setDocument({
+          blob: entry.blob,
+          url: URL.createObjectURL(entry.blob),
+          sha256,
+          mimeType: mime,
+          mimeConfidence: confidence,
+          extension: ext,
+          filename: entry.name,
+          size: entry.size,
+          transforms: ["History"],
+        });
+      })
+      .catch((err) => {
+        console.error("Failed to reopen history entry:", err);
+        if (!isCurrent) return;
+        setDocument(null);
+        setError("This history entry couldn't be read");
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [reopen]);
+
+  const handleCancel = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  // Stop any running decode on unmount
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Release the object URL once the document is replaced or cleared
+  useEffect(() => {
+    if (!document) return;
+    return () => URL.revokeObjectURL(document.url);
+  }, [document]);
+
+  // Look for a compressed stream in the decoded bytes. Worker results come
+  // with the answer; otherwise only the header is checked, since probing
+  // for headerless formats means inflating the whole payload. A zlib header
+  // is easy to hit by chance, so that one is confirmed by inflating.
+  useEffect(() => {
+    // eslint-disable-next-line react-hooks/set-state-in-effect -- the worker's answer is synced before the async probe
+    setCompression(document?.compression ?? null);
+    if (!document || document.compression !== undefined) return;
+
+    let isCurrent = true;
+    document.blob
+      .slice(0, SNIFF_BYTES)
+      .arrayBuffer()
+      .then(async (header) => {
+        const detected = detectCompression(new Uint8Array(header));
+        if (detected !== "zlib") return detected;
+        const bytes = new Uint8Array(await document.blob.arrayBuffer());
+        return probeCompression(bytes, { headerless: false });
+      })
+      .then((detected) => {
+        if (isCurrent) setCompression(detected);
+      })
+      .catch(() => {
+        if (isCurrent) setCompression(null);
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [document]);
+
+  const handleDecompress = useCallback(async () => {
+    if (!document || !compression) return;
+    setError(null);
+    setIsProcessing(true);
+
+    try {
+      const inflated = await decompress(
+        new Uint8Array(await document.blob.arrayBuffer()),
+        compression
+      );
+      const { mime, ext, confidence } = sniffMimeType(inflated);
+      const blob = new Blob([inflated as BlobPart], { type: mime });
 
       setDocument({
-        data: dataUrl,
+        blob,
+        url: URL.createObjectURL(blob),
+        sha256: await sha256Hex(inflated),
         mimeType: mime,
+        mimeConfidence: confidence,
         extension: ext,
         filename: `document.${ext}`,
-        size,
+        size: inflated.length,
+        transforms: [...document.transforms, COMPRESSION_LABELS[compression]],
       });
     } catch (err) {
       setError(
-        err instanceof Error ? err.message : "Failed to decode base64 string"
+        err instanceof Error ? err.message : "Failed to decompress data"
       );
     } finally {
       setIsProcessing(false);
     }
-  }, [input]);
+  }, [document, compression]);
 
   const handleDownload = useCallback(() => {
     if (!document) return;
     const link = window.document.createElement("a");
-    link.href = document.data;
+    link.href = document.url;
     link.download = document.filename;
     window.document.body.appendChild(link);
     link.click();
     window.document.body.removeChild(link);
   }, [document]);
 
+  const handleSubmit = useCallback(() => {
+    setError(null);
+    if (mode === "layers") {
+      setPeelInput(input.trim());
+    } else if (mode === "scan") {
+      setScanInput(input);
+    } else if (mode === "jwt" || looksLikeJwt(input)) {
+      // JWTs fail plain base64 decoding because of the dots, so switch modes
+      setMode("jwt");
+      setJwtInput(input.trim());
+    } else if (mode === "pem" || hasPemArmor(input)) {
+      setMode("pem");
+      // Bare base64 in this mode is taken to be a DER certificate
+      setPemInput(
+        hasPemArmor(input)
+          ? input
+          : `-----BEGIN CERTIFICATE-----\n${input.trim()}\n-----END CERTIFICATE-----`
+      );
+    } else {
+      processBase64();
+    }
+  }, [mode, input, processBase64]);
+
   const handleClear = useCallback(() => {
+    abortRef.current?.abort();
     setInput("");
     setDocument(null);
+    setPeelInput(null);
+    setJwtInput(null);
+    setPemInput(null);
+    setScanInput(null);
     setError(null);
   }, []);
 
@@ -96,6 +341,29 @@ export function Base64Decoder({ embedded = false }: Base64DecoderProps) {
 
   const content = (
     <div className="space-y-6">
+      {/* Mode Toggle */}
+      <div
+        className="inline-flex flex-wrap items-center max-w-full rounded-lg bg-muted p-1"
+        role="group"
+        aria-label="Decoder mode"
+      >
+        {DECODER_MODES.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => setMode(option.value)}
+            aria-pressed={mode === option.value}
+            className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${
+              mode === option.value
+                ? "bg-background text-foreground shadow-sm"
+                : "text-muted-foreground hover:text-foreground"
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
       {/* Input Section */}
       <section aria-labelledby="input-section">
         <div className="flex items-center justify-between mb-2.5">
@@ -120,7 +388,7 @@ export function Base64Decoder({ embedded = false }: Base64DecoderProps) {
 
         <textarea
           id={inputId}
-          placeholder="Paste your base64 string here..."
+          placeholder="Paste your base64, base64url, JWT or PEM string here..."
           value={input}
           onChange={(e) => setInput(e.target.value)}
           aria-describedby={error ? errorId : undefined}
@@ -149,14 +417,21 @@ export function Base64Decoder({ embedded = false }: Base64DecoderProps) {
         <div className="flex items-center gap-2.5 mt-4">
           <Button
             type="button"
-            onClick={processBase64}
+            onClick={handleSubmit}
             disabled={!input.trim() || isProcessing}
             size="lg"
             className="flex-1"
           >
-            {isProcessing ? "Processing..." : "Decode & Preview"}
+            {isProcessing
+              ? "Processing..."
+              : DECODER_MODES.find((option) => option.value === mode)?.action}
           </Button>
-          {(input || document) && (
+          {(input ||
+            document ||
+            peelInput !== null ||
+            jwtInput !== null ||
+            pemInput !== null ||
+            scanInput !== null) && (
             <Button
               type="button"
               variant="outline"
@@ -169,10 +444,81 @@ export function Base64Decoder({ embedded = false }: Base64DecoderProps) {
             </Button>
           )}
         </div>
+
+        {progress && (
+          <div role="status" className="flex items-center gap-3 mt-3">
+            <div
+              role="progressbar"
+              aria-label={`${STAGE_LABELS[progress.stage]} base64`}
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={Math.round(progress.fraction * 100)}
+              className="flex-1 h-1.5 rounded-full bg-muted overflow-hidden"
+            >
+              <div
+                className="h-full bg-primary transition-[width]"
+                style={{ width: `${Math.round(progress.fraction * 100)}%` }}
+              />
+            </div>
+            <span className="text-xs text-muted-foreground tabular-nums">
+              {STAGE_LABELS[progress.stage]}{" "}
+              {Math.round(progress.fraction * 100)}%
+            </span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={handleCancel}
+              className="h-7 px-2 text-xs"
+            >
+              Cancel
+            </Button>
+          </div>
+        )}
       </section>
 
+      {/* Layers Section */}
+      {mode === "layers" && peelInput !== null && (
+        <section
+          aria-label="Decoding layers"
+          className="animate-in fade-in-0 slide-in-from-bottom-2 duration-300"
+        >
+          <LayerPipeline input={peelInput} />
+        </section>
+      )}
+
+      {/* JWT Section */}
+      {mode === "jwt" && jwtInput !== null && (
+        <section
+          aria-label="Decoded JWT"
+          className="animate-in fade-in-0 slide-in-from-bottom-2 duration-300"
+        >
+          <JwtInspector token={jwtInput} />
+        </section>
+      )}
+
+      {/* Certificate Section */}
+      {mode === "pem" && pemInput !== null && (
+        <section
+          aria-label="Decoded certificates and keys"
+          className="animate-in fade-in-0 slide-in-from-bottom-2 duration-300"
+        >
+          <CertificateViewer text={pemInput} />
+        </section>
+      )}
+
+      {/* Scan Section */}
+      {mode === "scan" && scanInput !== null && (
+        <section
+          aria-label="Base64 blobs found in text"
+          className="animate-in fade-in-0 slide-in-from-bottom-2 duration-300"
+        >
+          <Base64Scanner text={scanInput} />
+        </section>
+      )}
+
       {/* Result Section */}
-      {document && (
+      {mode === "decode" && document && (
         <section
           aria-label="Decoded document preview"
           className="animate-in fade-in-0 slide-in-from-bottom-2 duration-300"
@@ -191,24 +537,108 @@ export function Base64Decoder({ embedded = false }: Base64DecoderProps) {
                       {document.filename}
                     </p>
                     <p className="text-xs text-muted-foreground">
-                      {document.mimeType} · {formatBytes(document.size)}
+                      <span
+                        title={describeMimeConfidence(document.mimeConfidence)}
+                      >
+                        {document.mimeType}
+                        {document.mimeConfidence === "guessed" && " (guessed)"}
+                      </span>{" "}
+                      · {formatBytes(document.size)}
+                    </p>
+                    <p
+                      className="text-xs text-muted-foreground/70 truncate"
+                      aria-label="Transforms applied"
+                    >
+                      {[
+                        ...document.transforms,
+                        document.extension.toUpperCase(),
+                      ].join(" → ")}
+                    </p>
+                    <p
+                      className="text-xs font-mono text-muted-foreground/70 truncate"
+                      title={`SHA-256 ${document.sha256}`}
+                    >
+                      SHA-256 {document.sha256}
                     </p>
                   </div>
                 </div>
-                <Button
-                  type="button"
-                  onClick={handleDownload}
-                  variant="outline"
-                  size="sm"
-                >
-                  <Download className="w-3.5 h-3.5 mr-1.5" aria-hidden="true" />
-                  <span>Download</span>
-                </Button>
+                <div className="flex flex-wrap items-center justify-end gap-2 shrink-0">
+                  {canConvertImage(document.mimeType) && (
+                    <>
+                      <CopyImageButton blob={document.blob} />
+                      <Button
+                        type="button"
+                        onClick={() =>
+                          setConvertOpenFor(showConvert ? null : document.url)
+                        }
+                        variant={showConvert ? "secondary" : "outline"}
+                        size="sm"
+                        aria-pressed={showConvert}
+                      >
+                        <ImageDown
+                          className="w-3.5 h-3.5 mr-1.5"
+                          aria-hidden="true"
+                        />
+                        <span>Download as…</span>
+                      </Button>
+                    </>
+                  )}
+                  <Button
+                    type="button"
+                    onClick={handleDownload}
+                    variant="outline"
+                    size="sm"
+                  >
+                    <Download
+                      className="w-3.5 h-3.5 mr-1.5"
+                      aria-hidden="true"
+                    />
+                    <span>Download</span>
+                  </Button>
+                </div>
               </div>
 
+              {/* Format conversion */}
+              {showConvert && canConvertImage(document.mimeType) && (
+                <div className="px-4 py-3 border-b border-border bg-muted/30">
+                  <ImageConvertPanel
+                    blob={document.blob}
+                    filename={document.filename}
+                  />
+                </div>
+              )}
+
+              {/* Compression offer */}
+              {compression && (
+                <div className="flex items-center justify-between gap-3 px-4 py-3 border-b border-border bg-muted/30">
+                  <p className="text-xs text-muted-foreground">
+                    Looks like {COMPRESSION_LABELS[compression]}-compressed data
+                  </p>
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    size="sm"
+                    onClick={handleDecompress}
+                    disabled={isProcessing}
+                  >
+                    <FoldVertical
+                      className="w-3.5 h-3.5 mr-1.5"
+                      aria-hidden="true"
+                    />
+                    <span>Decompress</span>
+                  </Button>
+                </div>
+              )}
+
               {/* Preview Area */}
               <div className="p-4">
-                <DocumentPreview document={document} />
+                <DocumentPreview
+                  document={{
+                    data: document.url,
+                    mimeType: document.mimeType,
+                    extension: document.extension,
+                  }}
+                />
               </div>
             </CardContent>
           </Card>
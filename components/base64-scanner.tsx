@@ -0,0 +1,300 @@
+"use client";
+
+import { useState, useMemo, useCallback, useId } from "react";
+import { Download, Eye, FolderDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { DocumentPreview } from "@/components/document-preview";
+import { base64ToBytes, downloadBlob, formatBytes } from "@/lib/file-utils";
+import {
+  DEFAULT_MIN_SCAN_LENGTH,
+  MAX_SCAN_MATCHES,
+  scanForBase64,
+  type ScanMatch,
+  type ScanMatchKind,
+} from "@/lib/base64-scan";
+import { createZip } from "@/lib/zip";
+import { cn } from "@/lib/utils";
+
+interface Base64ScannerProps {
+  /** Arbitrary text to search, usually the decoder input */
+  text: string;
+}
+
+const KIND_LABELS: Record<ScanMatchKind, string> = {
+  "data-uri": "data URI",
+  base64: "base64",
+  base64url: "base64url",
+};
+
+/** Characters of each match shown in the list */
+const SNIPPET_LENGTH = 32;
+
+/** File name for a match, numbered in scan order */
+function matchFilename(match: ScanMatch, index: number): string {
+  return `blob-${String(index + 1).padStart(3, "0")}-line${match.line}.${
+    match.mime.ext
+  }`;
+}
+
+/**
+ * Lists every base64 blob and data URI found in a piece of text, with
+ * per-blob preview and download, filtering by type, and ZIP export.
+ */
+export function Base64Scanner({ text }: Base64ScannerProps) {
+  const [minLength, setMinLength] = useState(DEFAULT_MIN_SCAN_LENGTH);
+  const [typeFilter, setTypeFilter] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const minLengthId = useId();
+
+  const matches = useMemo(
+    () => scanForBase64(text, minLength),
+    [text, minLength]
+  );
+
+  // New text clears the filter and selection
+  const [prevText, setPrevText] = useState(text);
+  if (text !== prevText) {
+    setPrevText(text);
+    setTypeFilter(null);
+    setSelectedId(null);
+  }
+
+  // Distinct detected types with counts, most common first
+  const types = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const match of matches) {
+      counts.set(match.mime.mime, (counts.get(match.mime.mime) ?? 0) + 1);
+    }
+    return [...counts.entries()].sort((a, b) => b[1] - a[1]);
+  }, [matches]);
+
+  const visible = useMemo(
+    () =>
+      typeFilter
+        ? matches.filter((match) => match.mime.mime === typeFilter)
+        : matches,
+    [matches, typeFilter]
+  );
+
+  const selected = matches.find((match) => match.id === selectedId) ?? null;
+  const selectedDocument = useMemo(
+    () =>
+      selected && {
+        data: `data:${selected.mime.mime};base64,${selected.base64}`,
+        mimeType: selected.mime.mime,
+        extension: selected.mime.ext,
+      },
+    [selected]
+  );
+
+  const handleDownload = useCallback(
+    (match: ScanMatch) => {
+      downloadBlob(
+        new Blob([base64ToBytes(match.base64) as BlobPart], {
+          type: match.mime.mime,
+        }),
+        matchFilename(match, matches.indexOf(match))
+      );
+    },
+    [matches]
+  );
+
+  const handleExportZip = useCallback(() => {
+    const files = visible.map((match) => ({
+      path: matchFilename(match, matches.indexOf(match)),
+      data: base64ToBytes(match.base64),
+    }));
+    downloadBlob(
+      new Blob([createZip(files) as BlobPart], { type: "application/zip" }),
+      "base64-blobs.zip"
+    );
+  }, [visible, matches]);
+
+  return (
+    <div className="space-y-4">
+      <Card className="overflow-hidden shadow-sm py-0">
+        <CardContent className="p-0">
+          {/* Summary and filters */}
+          <div className="flex flex-col gap-3 p-4 border-b border-border">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <p className="text-sm text-foreground" aria-live="polite">
+                {matches.length === 0
+                  ? "No base64 blobs found"
+                  : `${matches.length}${
+                      matches.length >= MAX_SCAN_MATCHES ? "+" : ""
+                    } ${matches.length === 1 ? "blob" : "blobs"} found`}
+              </p>
+              <div className="flex items-center gap-2">
+                <label
+                  htmlFor={minLengthId}
+                  className="text-xs text-muted-foreground"
+                >
+                  Min length
+                </label>
+                <input
+                  id={minLengthId}
+                  type="number"
+                  min={4}
+                  step={4}
+                  value={minLength}
+                  onChange={(e) =>
+                    setMinLength(
+                      Math.max(
+                        4,
+                        Number(e.target.value) || DEFAULT_MIN_SCAN_LENGTH
+                      )
+                    )
+                  }
+                  className="h-8 w-20 px-2 font-mono text-xs bg-background text-foreground border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-ring"
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={handleExportZip}
+                  disabled={visible.length === 0}
+                >
+                  <FolderDown
+                    className="w-3.5 h-3.5 mr-1.5"
+                    aria-hidden="true"
+                  />
+                  <span>Export ZIP</span>
+                </Button>
+              </div>
+            </div>
+
+            {types.length > 1 && (
+              <div
+                className="flex flex-wrap gap-1.5"
+                role="group"
+                aria-label="Filter by type"
+              >
+                <Button
+                  type="button"
+                  variant={typeFilter === null ? "secondary" : "ghost"}
+                  size="sm"
+                  onClick={() => setTypeFilter(null)}
+                  aria-pressed={typeFilter === null}
+                >
+                  All ({matches.length})
+                </Button>
+                {types.map(([mime, count]) => (
+                  <Button
+                    key={mime}
+                    type="button"
+                    variant={typeFilter === mime ? "secondary" : "ghost"}
+                    size="sm"
+                    onClick={() => setTypeFilter(mime)}
+                    aria-pressed={typeFilter === mime}
+                    className="font-mono"
+                  >
+                    {mime} ({count})
+                  </Button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Matches */}
+          {visible.length > 0 && (
+            <div className="max-h-96 overflow-auto">
+              <table className="w-full text-xs">
+                <thead className="sticky top-0 bg-muted text-muted-foreground">
+                  <tr className="text-left">
+                    <th className="px-3 py-2 font-medium">Position</th>
+                    <th className="px-3 py-2 font-medium">Type</th>
+                    <th className="px-3 py-2 font-medium text-right">Size</th>
+                    <th className="px-3 py-2 font-medium hidden md:table-cell">
+                      Content
+                    </th>
+                    <th className="px-3 py-2">
+                      <span className="sr-only">Actions</span>
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visible.map((match) => (
+                    <tr
+                      key={match.id}
+                      className={cn(
+                        "border-t border-border/50",
+                        match.id === selectedId && "bg-muted/60"
+                      )}
+                    >
+                      <td className="px-3 py-1.5 tabular-nums text-muted-foreground whitespace-nowrap">
+                        {match.line}:{match.column}
+                      </td>
+                      <td className="px-3 py-1.5 whitespace-nowrap">
+                        <span className="font-mono text-foreground">
+                          {match.mime.mime}
+                        </span>
+                        <span className="text-muted-foreground">
+                          {" "}
+                          · {KIND_LABELS[match.kind]}
+                        </span>
+                      </td>
+                      <td className="px-3 py-1.5 text-right tabular-nums text-muted-foreground whitespace-nowrap">
+                        {formatBytes(match.decodedSize)}
+                      </td>
+                      <td className="px-3 py-1.5 max-w-0 w-full hidden md:table-cell">
+                        <span className="block truncate font-mono text-muted-foreground">
+                          {match.base64.slice(0, SNIPPET_LENGTH)}
+                        </span>
+                      </td>
+                      <td className="px-2 py-1 whitespace-nowrap">
+                        <div className="flex items-center justify-end gap-0.5">
+                          <Button
+                            type="button"
+                            variant={
+                              match.id === selectedId ? "secondary" : "ghost"
+                            }
+                            size="icon-sm"
+                            onClick={() =>
+                              setSelectedId(
+                                match.id === selectedId ? null : match.id
+                              )
+                            }
+                            aria-label={`Preview blob at line ${match.line}, column ${match.column}`}
+                            aria-pressed={match.id === selectedId}
+                          >
+                            <Eye className="w-3.5 h-3.5" aria-hidden="true" />
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon-sm"
+                            onClick={() => handleDownload(match)}
+                            aria-label={`Download blob at line ${match.line}, column ${match.column}`}
+                          >
+                            <Download
+                              className="w-3.5 h-3.5"
+                              aria-hidden="true"
+                            />
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && selectedDocument && (
+        <section
+          aria-label={`Preview of blob at line ${selected.line}`}
+          className="space-y-2"
+        >
+          <p className="text-xs font-mono text-muted-foreground">
+            Line {selected.line}, column {selected.column} ·{" "}
+            {formatBytes(selected.decodedSize)}
+          </p>
+          <DocumentPreview document={selectedDocument} />
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,408 @@
+"use client";
+
+import { useState, useEffect, type ReactNode } from "react";
+import {
+  AlertCircle,
+  AlertTriangle,
+  ArrowDown,
+  Clock,
+  FileBadge,
+  FileQuestion,
+  KeyRound,
+  Link2Off,
+} from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  describePublicKey,
+  getCertificateStatus,
+  inspectPem,
+  isIssuedBy,
+  type CertificateExtension,
+  type CertificateStatus,
+  type PemObject,
+  type X509Certificate,
+} from "@/lib/x509";
+import { cn } from "@/lib/utils";
+
+interface CertificateViewerProps {
+  /** Text containing one or more PEM blocks */
+  text: string;
+}
+
+const STATUS_STYLES: Record<
+  CertificateStatus,
+  { label: string; className: string }
+> = {
+  valid: {
+    label: "Valid",
+    className: "bg-emerald-500/10 text-emerald-700 dark:text-emerald-400",
+  },
+  expired: {
+    label: "Expired",
+    className: "bg-destructive/10 text-destructive",
+  },
+  "not-yet-valid": {
+    label: "Not yet valid",
+    className: "bg-amber-500/10 text-amber-700 dark:text-amber-400",
+  },
+};
+
+const BADGE_CLASS = "px-2 py-0.5 rounded-md bg-muted text-xs font-mono";
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div className="contents">
+      <dt className="text-muted-foreground">{label}</dt>
+      <dd className="text-foreground min-w-0 break-words">{children}</dd>
+    </div>
+  );
+}
+
+function ExtensionList({ extensions }: { extensions: CertificateExtension[] }) {
+  if (extensions.length === 0) return null;
+
+  return (
+    <div>
+      <h3 className="text-xs font-medium text-muted-foreground mb-1.5">
+        Extensions
+      </h3>
+      <ul className="divide-y divide-border border border-border rounded-lg bg-muted/30 text-xs">
+        {extensions.map((extension, index) => (
+          <li key={`${extension.oid}-${index}`} className="px-3 py-2">
+            <p className="flex items-center gap-2 text-foreground">
+              <span className="font-medium" title={extension.oid}>
+                {extension.name}
+              </span>
+              {extension.critical && (
+                <span className="px-1.5 rounded bg-amber-500/10 text-amber-700 dark:text-amber-400">
+                  critical
+                </span>
+              )}
+            </p>
+            {extension.values.length > 0 && (
+              <ul className="mt-1 font-mono text-muted-foreground break-all">
+                {extension.values.map((value, valueIndex) => (
+                  <li key={valueIndex}>{value}</li>
+                ))}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function CertificateCard({
+  certificate,
+  position,
+}: {
+  certificate: X509Certificate;
+  position: number | null;
+}) {
+  const status = getCertificateStatus(certificate);
+  const commonName = certificate.subject.attributes.find(
+    (attribute) => attribute.name === "CN"
+  )?.value;
+
+  return (
+    <Card className="overflow-hidden shadow-sm py-0">
+      <CardContent className="p-0">
+        <div className="flex flex-wrap items-center gap-2 p-4 border-b border-border">
+          <FileBadge
+            className="w-4 h-4 text-muted-foreground shrink-0"
+            aria-hidden="true"
+          />
+          <h3 className="text-sm font-medium text-foreground truncate min-w-0">
+            {position !== null && (
+              <span className="text-muted-foreground">#{position} </span>
+            )}
+            {commonName ?? (certificate.subject.text || "(empty subject)")}
+          </h3>
+          <span
+            className={cn(
+              "inline-flex items-center gap-1 px-2 py-0.5 rounded-md text-xs font-medium",
+              STATUS_STYLES[status].className
+            )}
+          >
+            <Clock className="w-3 h-3" aria-hidden="true" />
+            {STATUS_STYLES[status].label}
+          </span>
+          {certificate.isCa && (
+            <span className={cn(BADGE_CLASS, "text-foreground")}>CA</span>
+          )}
+          {certificate.isSelfIssued && (
+            <span className={cn(BADGE_CLASS, "text-muted-foreground")}>
+              self-signed
+            </span>
+          )}
+        </div>
+
+        <div className="p-4 space-y-4">
+          <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1.5 text-xs">
+            <Field label="Subject">{certificate.subject.text}</Field>
+            <Field label="Issuer">{certificate.issuer.text}</Field>
+            <Field label="Serial">
+              <span className="font-mono break-all">
+                {certificate.serialNumber}
+              </span>
+            </Field>
+            <Field label="Valid from">
+              <span className="tabular-nums">
+                {certificate.notBefore.toLocaleString()}
+              </span>
+            </Field>
+            <Field label="Valid until">
+              <span className="tabular-nums">
+                {certificate.notAfter.toLocaleString()}
+              </span>
+            </Field>
+            <Field label="Public key">
+              {describePublicKey(certificate.publicKey)}
+            </Field>
+            <Field label="Signature">{certificate.signatureAlgorithm}</Field>
+            <Field label="Version">v{certificate.version}</Field>
+            {certificate.subjectAltNames.length > 0 && (
+              <Field label="Alt names">
+                <ul className="font-mono">
+                  {certificate.subjectAltNames.map((name, index) => (
+                    <li key={index} className="break-all">
+                      {name}
+                    </li>
+                  ))}
+                </ul>
+              </Field>
+            )}
+            {certificate.fingerprintSha256 && (
+              <Field label="SHA-256">
+                <span className="font-mono break-all">
+                  {certificate.fingerprintSha256}
+                </span>
+              </Field>
+            )}
+          </dl>
+
+          <ExtensionList extensions={certificate.extensions} />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/** PEM objects other than certificates, which render as `CertificateCard` */
+type OtherPemObject = Exclude<PemObject, { type: "certificate" }>;
+
+function PemObjectCard({ object }: { object: OtherPemObject }) {
+  if (object.type === "unsupported") {
+    return (
+      <Card className="overflow-hidden shadow-sm py-0">
+        <CardContent className="flex items-start gap-3 p-4">
+          <FileQuestion
+            className="w-4 h-4 mt-0.5 text-muted-foreground shrink-0"
+            aria-hidden="true"
+          />
+          <div className="min-w-0">
+            <p className="text-sm font-medium text-foreground">
+              {object.label}
+            </p>
+            <p className="text-xs text-destructive">{object.error}</p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { title, fields, extensions } =
+    object.type === "csr"
+      ? {
+          title: "Certificate signing request",
+          fields: [
+            ["Subject", object.request.subject.text],
+            ["Public key", describePublicKey(object.request.publicKey)],
+            ["Signature", object.request.signatureAlgorithm],
+          ],
+          extensions: object.request.extensions,
+        }
+      : {
+          title: object.key.isPrivate ? "Private key" : "Public key",
+          fields: [
+            ["Format", object.key.format],
+            [
+              "Key",
+              object.key.publicKey
+                ? describePublicKey(object.key.publicKey)
+                : "Encrypted",
+            ],
+            ...(object.key.encryption
+              ? [["Encryption", object.key.encryption]]
+              : []),
+          ],
+          extensions: [],
+        };
+
+  return (
+    <Card className="overflow-hidden shadow-sm py-0">
+      <CardContent className="p-0">
+        <div className="flex flex-wrap items-center gap-2 p-4 border-b border-border">
+          <KeyRound
+            className="w-4 h-4 text-muted-foreground shrink-0"
+            aria-hidden="true"
+          />
+          <h3 className="text-sm font-medium text-foreground">{title}</h3>
+          <span className={cn(BADGE_CLASS, "text-muted-foreground")}>
+            {object.label}
+          </span>
+        </div>
+        <div className="p-4 space-y-4">
+          {object.type === "key" && object.key.isPrivate && (
+            <div
+              role="alert"
+              className="flex items-start gap-2 p-3 rounded-lg bg-amber-500/10 text-sm text-amber-700 dark:text-amber-400"
+            >
+              <AlertTriangle
+                className="w-4 h-4 mt-0.5 shrink-0"
+                aria-hidden="true"
+              />
+              <span>
+                This is a private key. It was parsed locally and never left your
+                browser, but treat it as compromised if it has been shared
+                anywhere else.
+              </span>
+            </div>
+          )}
+          <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1.5 text-xs">
+            {fields.map(([label, value]) => (
+              <Field key={label} label={label}>
+                {value}
+              </Field>
+            ))}
+          </dl>
+          <ExtensionList extensions={extensions} />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Decoded view of PEM text: certificates (shown as a chain when there are
+ * several), certificate requests and keys. Everything is parsed locally.
+ */
+export function CertificateViewer({ text }: CertificateViewerProps) {
+  const [objects, setObjects] = useState<PemObject[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCurrent = true;
+    // eslint-disable-next-line react-hooks/set-state-in-effect -- clear the last result before parsing
+    setObjects(null);
+    setError(null);
+
+    inspectPem(text)
+      .then((result) => {
+        if (!isCurrent) return;
+        if (result.length === 0) {
+          setError("No complete PEM blocks found");
+        }
+        setObjects(result);
+      })
+      .catch((err) => {
+        if (isCurrent) {
+          setError(err instanceof Error ? err.message : "Invalid PEM data");
+        }
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [text]);
+
+  if (error) {
+    return (
+      <div
+        role="alert"
+        className="flex items-start gap-2 text-sm text-destructive"
+      >
+        <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" aria-hidden="true" />
+        <span>{error}</span>
+      </div>
+    );
+  }
+
+  if (!objects) {
+    return (
+      <div
+        className="flex items-center gap-2 text-xs text-muted-foreground"
+        role="status"
+      >
+        <div className="h-3.5 w-3.5 animate-spin rounded-full border-2 border-foreground/20 border-t-foreground" />
+        Parsing PEM...
+      </div>
+    );
+  }
+
+  const certificates = objects.flatMap((object) =>
+    object.type === "certificate" ? [object.certificate] : []
+  );
+  const others = objects.flatMap((object) =>
+    object.type === "certificate" ? [] : [object]
+  );
+
+  return (
+    <div className="space-y-4">
+      {certificates.length > 1 ? (
+        <section aria-label="Certificate chain">
+          <p className="text-xs text-muted-foreground mb-2">
+            Chain of {certificates.length} certificates, in the order given
+          </p>
+          <ol>
+            {certificates.map((certificate, index) => {
+              const next = certificates[index + 1];
+              return (
+                <li key={`${certificate.fingerprintSha256}-${index}`}>
+                  <CertificateCard
+                    certificate={certificate}
+                    position={index + 1}
+                  />
+                  {next && (
+                    <p className="flex items-center justify-center gap-1.5 py-2 text-xs text-muted-foreground">
+                      {isIssuedBy(certificate, next) ? (
+                        <>
+                          <ArrowDown
+                            className="w-3.5 h-3.5"
+                            aria-hidden="true"
+                          />
+                          Issued by
+                        </>
+                      ) : (
+                        <>
+                          <Link2Off
+                            className="w-3.5 h-3.5 text-amber-600"
+                            aria-hidden="true"
+                          />
+                          Not issued by the next certificate
+                        </>
+                      )}
+                    </p>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        </section>
+      ) : (
+        certificates.map((certificate) => (
+          <CertificateCard
+            key={certificate.fingerprintSha256}
+            certificate={certificate}
+            position={null}
+          />
+        ))
+      )}
+
+      {others.map((object, index) => (
+        <PemObjectCard key={`${object.label}-${index}`} object={object} />
+      ))}
+    </div>
+  );
+}
@@ -1,67 +1,512 @@
 "use client";
 
-import { useState, useCallback, useEffect } from "react";
+import {
+  useState,
+  useCallback,
+  useEffect,
+  useRef,
+  useMemo,
+  useId,
+} from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { SELECT_CLASS } from "@/components/ui/native-select";
 import { FileDropzone } from "@/components/file-dropzone";
 import { FileTypeIndicator } from "@/components/file-type-indicator";
-import { Copy, Check, X, FileUp, Download } from "lucide-react";
+import { ImageOptimizePanel } from "@/components/image-optimize-panel";
+import { AlertTriangle, Copy, Check, X, FileUp, Download } from "lucide-react";
 import {
+  bytesToBase64,
+  dataUrlToBytes,
   fileToBase64,
   formatBytes,
+  isAbortError,
   getRawBase64,
   getExtension,
-  storage,
+  stripBase64Padding,
+  toBase64Url,
   type StoredFile,
 } from "@/lib/file-utils";
+import { fileStore } from "@/lib/file-store";
+import { recordHistory, type HistoryReopen } from "@/lib/history";
+import {
+  canStripImageMetadata,
+  stripImageMetadata,
+  type StripOptions,
+} from "@/lib/image-metadata";
+import { cn } from "@/lib/utils";
+
+type CopyMode =
+  | "raw"
+  | "unpadded"
+  | "base64url"
+  | "dataUri"
+  | "mime"
+  | "css"
+  | "htmlImg"
+  | "htmlIcon"
+  | "htmlDownload"
+  | "markdown"
+  | "json"
+  | "typescript"
+  | "python"
+  | "go";
+
+/** Output formats in display order; snippets go in a separate picker */
+const COPY_MODES: {
+  value: CopyMode;
+  label: string;
+  copyLabel: string;
+  /** Appended to the file name when the output is downloaded */
+  extension: string;
+  snippet?: boolean;
+}[] = [
+  {
+    value: "raw",
+    label: "Raw Base64",
+    copyLabel: "Base64",
+    extension: "base64.txt",
+  },
+  {
+    value: "unpadded",
+    label: "Unpadded",
+    copyLabel: "Base64",
+    extension: "base64.txt",
+  },
+  {
+    value: "base64url",
+    label: "Base64URL",
+    copyLabel: "Base64URL",
+    extension: "base64.txt",
+  },
+  {
+    value: "dataUri",
+    label: "Data URI",
+    copyLabel: "Data URI",
+    extension: "base64.txt",
+  },
+  {
+    value: "mime",
+    label: "MIME",
+    copyLabel: "Base64",
+    extension: "base64.txt",
+  },
+  {
+    value: "css",
+    label: "CSS background",
+    copyLabel: "CSS",
+    extension: "css",
+    snippet: true,
+  },
+  {
+    value: "htmlImg",
+    label: "HTML <img>",
+    copyLabel: "HTML",
+    extension: "html",
+    snippet: true,
+  },
+  {
+    value: "htmlIcon",
+    label: "HTML icon link",
+    copyLabel: "HTML",
+    extension: "html",
+    snippet: true,
+  },
+  {
+    value: "htmlDownload",
+    label: "HTML download link",
+    copyLabel: "HTML",
+    extension: "html",
+    snippet: true,
+  },
+  {
+    value: "markdown",
+    label: "Markdown image",
+    copyLabel: "Markdown",
+    extension: "md",
+    snippet: true,
+  },
+  {
+    value: "json",
+    label: "JSON",
+    copyLabel: "JSON",
+    extension: "json",
+    snippet: true,
+  },
+  {
+    value: "typescript",
+    label: "TypeScript / JavaScript",
+    copyLabel: "Code",
+    extension: "ts",
+    snippet: true,
+  },
+  {
+    value: "python",
+    label: "Python",
+    copyLabel: "Code",
+    extension: "py",
+    snippet: true,
+  },
+  {
+    value: "go",
+    label: "Go []byte",
+    copyLabel: "Code",
+    extension: "go",
+    snippet: true,
+  },
+];
+
+/** MIME (RFC 2045) limits encoded lines to 76 characters */
+const MIME_LINE_LENGTH = 76;
+
+/** Bytes per line in the Go literal, keeping lines under 80 columns */
+const GO_BYTES_PER_LINE = 12;
+
+/** Characters of output shown in the preview; a multiple of 4 */
+const PREVIEW_LENGTH = 2000;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** File name without its extension, for alt text */
+function baseName(name: string): string {
+  return name.replace(/\.[^./]+$/, "") || name;
+}
+
+/** A camelCase or snake_case identifier derived from the file name */
+function toIdentifier(name: string, style: "camel" | "snake"): string {
+  const words = name.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+  const identifier =
+    style === "snake"
+      ? words.join("_")
+      : words
+          .map((word, i) =>
+            i === 0 ? word : word[0].toUpperCase() + word.slice(1)
+          )
+          .join("");
+  if (!identifier) return style === "snake" ? "file_data" : "fileData";
+  return /^[0-9]/.test(identifier) ? `_${identifier}` : identifier;
+}
+
+function wrapLines(text: string, length: number): string {
+  const lines: string[] = [];
+  for (let i = 0; i < text.length; i += length) {
+    lines.push(text.slice(i, i + length));
+  }
+  return lines.join("\n");
+}
+
+function toGoByteSlice(file: StoredFile): string {
+  const bytes = dataUrlToBytes(file.data);
+  const lines: string[] = [];
+  for (let i = 0; i < bytes.length; i += GO_BYTES_PER_LINE) {
+    const row = Array.from(
+      bytes.subarray(i, i + GO_BYTES_PER_LINE),
+      (byte) => `0x${byte.toString(16).padStart(2, "0")},`
+    );
+    lines.push(`\t${row.join(" ")}`);
+  }
+  const name = toIdentifier(file.name, "camel");
+  if (lines.length === 0) return `var ${name} = []byte{}\n`;
+  return `var ${name} = []byte{\n${lines.join("\n")}\n}\n`;
+}
+
+/**
+ * Build the encoder output for the selected mode: a base64 variant, or a
+ * snippet that embeds the file for pasting into code or markup.
+ * Base64URL is emitted without padding, matching JWT/JOSE usage (RFC 7515).
+ */
+function formatOutput(file: StoredFile, mode: CopyMode): string {
+  const { data, name, type } = file;
+  const raw = getRawBase64(data);
+  switch (mode) {
+    case "dataUri":
+      return data;
+    case "unpadded":
+      return stripBase64Padding(raw);
+    case "base64url":
+      return toBase64Url(raw);
+    case "mime":
+      return wrapLines(raw, MIME_LINE_LENGTH);
+    case "css":
+      return `background-image: url("${data}");`;
+    case "htmlImg": {
+      const alt = escapeHtml(baseName(name));
+      return `<img src="${data}" alt="${alt}">`;
+    }
+    case "htmlIcon":
+      return `<link rel="icon" type="${escapeHtml(type)}" href="${data}">`;
+    case "htmlDownload": {
+      const label = escapeHtml(name);
+      return `<a href="${data}" download="${label}">${label}</a>`;
+    }
+    case "markdown": {
+      const alt = baseName(name).replace(/[[\]\\]/g, "\\$&");
+      return `![${alt}](${data})`;
+    }
+    case "json":
+      return JSON.stringify({ name, type, data: raw }, null, 2);
+    case "typescript": {
+      const identifier = toIdentifier(name, "camel");
+      return `export const ${identifier} = ${JSON.stringify(data)};\n`;
+    }
+    case "python": {
+      const identifier = toIdentifier(name, "snake");
+      return `import base64\n\n${identifier} = base64.b64decode(\n    "${raw}"\n)\n`;
+    }
+    case "go":
+      return toGoByteSlice(file);
+    default:
+      return raw;
+  }
+}
+
+/**
+ * The start of `formatOutput`, built from only as much base64 as the
+ * preview can show. Snippets such as the Go literal are several times the
+ * size of the file, so the full text is only generated on copy or download.
+ */
+function formatPreview(file: StoredFile, mode: CopyMode): string {
+  // Cutting on a 4-character boundary keeps the shortened base64 decodable
+  const cut = file.data.indexOf(",") + 1 + PREVIEW_LENGTH;
+  const isCut = file.data.length > cut;
+  const output = formatOutput(
+    isCut ? { ...file, data: file.data.slice(0, cut) } : file,
+    mode
+  );
+  return isCut || output.length > PREVIEW_LENGTH
+    ? `${output.slice(0, PREVIEW_LENGTH)}...`
+    : output;
+}
+
+type StripResult =
+  | { file: StoredFile; removed: string[]; saved: number }
+  | { error: string };
+
+/** The file with its metadata removed, re-encoded */
+function stripFileMetadata(
+  file: StoredFile,
+  options: StripOptions
+): StripResult {
+  try {
+    const bytes = dataUrlToBytes(file.data);
+    const stripped = stripImageMetadata(bytes, options);
+    if (!stripped) return { error: "This image format isn't supported" };
+    return {
+      file: {
+        ...file,
+        size: stripped.bytes.length,
+        data: `data:${file.type};base64,${bytesToBase64(stripped.bytes)}`,
+      },
+      removed: stripped.removed,
+      saved: bytes.length - stripped.bytes.length,
+    };
+  } catch (error) {
+    console.error("Failed to strip metadata:", error);
+    return { error: "The image structure couldn't be parsed" };
+  }
+}
+
+function describeStripped({
+  removed,
+  saved,
+}: {
+  removed: string[];
+  saved: number;
+}): string {
+  if (removed.length === 0) return "No metadata to remove";
+  return `Removed ${removed.join(", ")} · ${formatBytes(saved)} smaller`;
+}
+
+function Switch({
+  checked,
+  onChange,
+  label,
+  description,
+}: {
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+  label: string;
+  description: string;
+}) {
+  const labelId = useId();
 
-export function FileToBase64() {
+  return (
+    <div className="flex items-center gap-2">
+      <button
+        type="button"
+        role="switch"
+        aria-checked={checked}
+        aria-labelledby={labelId}
+        onClick={() => onChange(!checked)}
+        className={cn(
+          "relative inline-flex h-5 w-9 shrink-0 items-center rounded-full transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 focus-visible:ring-offset-background",
+          checked ? "bg-primary" : "bg-muted"
+        )}
+      >
+        <span
+          className={cn(
+            "inline-block h-4 w-4 rounded-full bg-background shadow-sm transition-transform",
+            checked ? "translate-x-4.5" : "translate-x-0.5"
+          )}
+        />
+      </button>
+      <span id={labelId} className="text-xs text-foreground">
+        {label}
+      </span>
+      <span className="text-xs text-muted-foreground">{description}</span>
+    </div>
+  );
+}
+
+interface FileToBase64Props {
+  /** History entry to load, set by the history panel */
+  reopen?: HistoryReopen | null;
+}
+
+export function FileToBase64({ reopen = null }: FileToBase64Props) {
   const [file, setFile] = useState<StoredFile | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  /** Why the current file won't survive a reload, if it won't */
+  const [storageError, setStorageError] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
-  const [copyMode, setCopyMode] = useState<"dataUri" | "raw">("raw");
+  const [copyMode, setCopyMode] = useState<CopyMode>("raw");
+  const [stripMetadata, setStripMetadata] = useState(false);
+  const [keepColorProfile, setKeepColorProfile] = useState(false);
+  const [keepOrientation, setKeepOrientation] = useState(false);
+  const [optimize, setOptimize] = useState(false);
+  const [optimizedFile, setOptimizedFile] = useState<StoredFile | null>(null);
+  /** Fraction of the file read so far, while converting */
+  const [readProgress, setReadProgress] = useState<number | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
-  // Load from localStorage on mount
+  // Restore the last file on mount
   useEffect(() => {
-    const stored = storage.load("ENCODER_FILE");
-    if (stored) {
-      setFile(stored);
-    }
+    let isCurrent = true;
+    fileStore
+      .loadAsDataUrl("ENCODER_FILE")
+      .then((stored) => {
+        // A file picked or reopened meanwhile takes precedence
+        if (stored && isCurrent) setFile((current) => current ?? stored);
+      })
+      .catch(() => {
+        // Nothing restorable
+      });
+    return () => {
+      isCurrent = false;
+    };
   }, []);
 
-  const handleFileSelect = useCallback(async (selectedFile: File) => {
-    setIsProcessing(true);
-    setCopied(false);
+  const handleFileSelect = useCallback(
+    async (selectedFile: File, fromHistory = false) => {
+      const controller = new AbortController();
+      abortRef.current = controller;
+      setIsProcessing(true);
+      setStorageError(null);
+      setReadProgress(0);
+      setCopied(false);
 
-    try {
-      const base64Data = await fileToBase64(selectedFile);
-      const storedFile: StoredFile = {
-        name: selectedFile.name,
-        type: selectedFile.type || "application/octet-stream",
-        size: selectedFile.size,
-        data: base64Data,
-        timestamp: Date.now(),
-      };
-
-      setFile(storedFile);
-      storage.save("ENCODER_FILE", storedFile);
-    } catch (error) {
-      console.error("Failed to convert file:", error);
-    } finally {
-      setIsProcessing(false);
-    }
+      try {
+        const base64Data = await fileToBase64(selectedFile, {
+          onProgress: setReadProgress,
+          signal: controller.signal,
+        });
+        const storedFile: StoredFile = {
+          name: selectedFile.name,
+          type: selectedFile.type || "application/octet-stream",
+          size: selectedFile.size,
+          data: base64Data,
+          timestamp: Date.now(),
+        };
+
+        setFile(storedFile);
+        fileStore
+          .save("ENCODER_FILE", {
+            name: storedFile.name,
+            type: storedFile.type,
+            size: storedFile.size,
+            blob: selectedFile,
+            timestamp: storedFile.timestamp,
+          })
+          .catch((error: Error) => setStorageError(error.message));
+        if (!fromHistory) {
+          recordHistory("encode", {
+            name: storedFile.name,
+            type: storedFile.type,
+            blob: selectedFile,
+          });
+        }
+      } catch (error) {
+        if (!isAbortError(error)) {
+          console.error("Failed to convert file:", error);
+        }
+      } finally {
+        abortRef.current = null;
+        setIsProcessing(false);
+        setReadProgress(null);
+      }
+    },
+    []
+  );
+
+  // Load a file picked from the history panel
+  useEffect(() => {
+    if (reopen?.entry.source !== "encode") return;
+    const { entry } = reopen;
+    // eslint-disable-next-line react-hooks/set-state-in-effect -- reopening is triggered from outside this component
+    handleFileSelect(
+      new File([entry.blob], entry.name, { type: entry.type }),
+      true
+    );
+  }, [reopen, handleFileSelect]);
+
+  const handleCancel = useCallback(() => {
+    abortRef.current?.abort();
   }, []);
 
+  // Stop reading if the tab is switched away mid-conversion
+  useEffect(() => () => abortRef.current?.abort(), []);
+
   const handleClear = useCallback(() => {
     setFile(null);
     setCopied(false);
-    storage.remove("ENCODER_FILE");
+    setStorageError(null);
+    fileStore.remove("ENCODER_FILE");
   }, []);
 
+  // SVGs are left alone: rasterizing a vector image rarely makes it smaller
+  const canOptimize =
+    !!file && file.type.startsWith("image/") && file.type !== "image/svg+xml";
+  const isOptimizing = optimize && canOptimize;
+  // Re-encoding drops metadata anyway, so stripping is only offered without
+  const canStrip = !!file && !isOptimizing && canStripImageMetadata(file.type);
+  const stripResult = useMemo(
+    () =>
+      file && stripMetadata && canStrip
+        ? stripFileMetadata(file, { keepColorProfile, keepOrientation })
+        : null,
+    [file, stripMetadata, canStrip, keepColorProfile, keepOrientation]
+  );
+  // What gets encoded: the optimized image (null while it's being made),
+  // else the stripped copy when stripping is on and worked
+  const encodedFile = isOptimizing
+    ? optimizedFile
+    : stripResult && "file" in stripResult
+    ? stripResult.file
+    : file;
+
+  const activeMode =
+    COPY_MODES.find((mode) => mode.value === copyMode) ?? COPY_MODES[0];
+
   const handleCopy = useCallback(async () => {
-    if (!file) return;
+    if (!encodedFile) return;
 
-    const textToCopy = copyMode === "raw" ? getRawBase64(file.data) : file.data;
+    const textToCopy = formatOutput(encodedFile, copyMode);
 
     try {
       await navigator.clipboard.writeText(textToCopy);
@@ -70,25 +515,28 @@ export function FileToBase64() {
     } catch (error) {
       console.error("Failed to copy:", error);
     }
-  }, [file, copyMode]);
+  }, [encodedFile, copyMode]);
 
   const handleDownloadBase64 = useCallback(() => {
-    if (!file) return;
+    if (!encodedFile) return;
 
-    const textToDownload =
-      copyMode === "raw" ? getRawBase64(file.data) : file.data;
+    const textToDownload = formatOutput(encodedFile, copyMode);
     const blob = new Blob([textToDownload], { type: "text/plain" });
     const url = URL.createObjectURL(blob);
     const link = document.createElement("a");
     link.href = url;
-    link.download = `${file.name}.base64.txt`;
+    link.download = `${encodedFile.name}.${activeMode.extension}`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
     URL.revokeObjectURL(url);
-  }, [file, copyMode]);
+  }, [encodedFile, copyMode, activeMode]);
 
-  const base64Length = file ? getRawBase64(file.data).length : 0;
+  const base64Length = encodedFile ? getRawBase64(encodedFile.data).length : 0;
+  const preview = useMemo(
+    () => (encodedFile ? formatPreview(encodedFile, copyMode) : ""),
+    [encodedFile, copyMode]
+  );
 
   return (
     <div className="space-y-6">
@@ -103,6 +551,49 @@ export function FileToBase64() {
           disabled={isProcessing}
           hasFile={!!file}
         />
+
+        {storageError && (
+          <p
+            role="status"
+            className="flex items-start gap-2 mt-3 text-xs text-amber-700 dark:text-amber-400"
+          >
+            <AlertTriangle
+              className="w-3.5 h-3.5 mt-0.5 shrink-0"
+              aria-hidden="true"
+            />
+            <span>{storageError}</span>
+          </p>
+        )}
+
+        {readProgress !== null && (
+          <div role="status" className="flex items-center gap-3 mt-3">
+            <div
+              role="progressbar"
+              aria-label="Reading file"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={Math.round(readProgress * 100)}
+              className="flex-1 h-1.5 rounded-full bg-muted overflow-hidden"
+            >
+              <div
+                className="h-full bg-primary transition-[width]"
+                style={{ width: `${Math.round(readProgress * 100)}%` }}
+              />
+            </div>
+            <span className="text-xs text-muted-foreground tabular-nums">
+              Reading {Math.round(readProgress * 100)}%
+            </span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={handleCancel}
+              className="h-7 px-2 text-xs"
+            >
+              Cancel
+            </Button>
+          </div>
+        )}
       </section>
 
       {/* Result Section */}
@@ -125,8 +616,8 @@ export function FileToBase64() {
                       {file.name}
                     </p>
                     <p className="text-xs text-muted-foreground">
-                      {formatBytes(file.size)} → {formatBytes(base64Length)}{" "}
-                      base64
+                      {formatBytes((encodedFile ?? file).size)} →{" "}
+                      {formatBytes(base64Length)} base64
                     </p>
                   </div>
                 </div>
@@ -145,46 +636,116 @@ export function FileToBase64() {
               {/* Base64 Output */}
               <div className="p-4 space-y-4">
                 {/* Mode Toggle */}
-                <div className="flex items-center gap-2">
+                <div className="flex flex-wrap items-center gap-2">
                   <span className="text-xs text-muted-foreground">Format:</span>
-                  <div className="inline-flex items-center rounded-lg bg-muted p-1">
-                    <button
-                      type="button"
-                      onClick={() => setCopyMode("raw")}
-                      className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${
-                        copyMode === "raw"
-                          ? "bg-background text-foreground shadow-sm"
-                          : "text-muted-foreground hover:text-foreground"
-                      }`}
-                    >
-                      Raw Base64
-                    </button>
-                    <button
-                      type="button"
-                      onClick={() => setCopyMode("dataUri")}
-                      className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${
-                        copyMode === "dataUri"
-                          ? "bg-background text-foreground shadow-sm"
-                          : "text-muted-foreground hover:text-foreground"
-                      }`}
-                    >
-                      Data URI
-                    </button>
+                  <div className="inline-flex flex-wrap items-center rounded-lg bg-muted p-1">
+                    {COPY_MODES.filter((mode) => !mode.snippet).map((mode) => (
+                      <button
+                        key={mode.value}
+                        type="button"
+                        onClick={() => setCopyMode(mode.value)}
+                        aria-pressed={copyMode === mode.value}
+                        className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${
+                          copyMode === mode.value
+                            ? "bg-background text-foreground shadow-sm"
+                            : "text-muted-foreground hover:text-foreground"
+                        }`}
+                      >
+                        {mode.label}
+                      </button>
+                    ))}
                   </div>
+                  <select
+                    value={activeMode.snippet ? copyMode : ""}
+                    onChange={(e) => setCopyMode(e.target.value as CopyMode)}
+                    aria-label="Code snippet format"
+                    className={SELECT_CLASS}
+                  >
+                    <option value="" disabled>
+                      Code snippet…
+                    </option>
+                    {COPY_MODES.filter((mode) => mode.snippet).map((mode) => (
+                      <option key={mode.value} value={mode.value}>
+                        {mode.label}
+                      </option>
+                    ))}
+                  </select>
                 </div>
 
+                {/* Image Optimization */}
+                {canOptimize && (
+                  <div className="space-y-3">
+                    <Switch
+                      checked={optimize}
+                      onChange={setOptimize}
+                      label="Optimize image"
+                      description="Resize and re-encode before converting"
+                    />
+                    {optimize && (
+                      <ImageOptimizePanel
+                        file={file}
+                        onResult={setOptimizedFile}
+                      />
+                    )}
+                  </div>
+                )}
+
+                {/* Metadata Stripping */}
+                {canStrip && (
+                  <div className="space-y-1.5">
+                    <Switch
+                      checked={stripMetadata}
+                      onChange={setStripMetadata}
+                      label="Strip metadata"
+                      description="EXIF, GPS, XMP, comments and the color profile"
+                    />
+                    {stripMetadata && (
+                      <div className="space-y-1.5 pl-11">
+                        <Switch
+                          checked={keepColorProfile}
+                          onChange={setKeepColorProfile}
+                          label="Keep color profile"
+                          description="Wide-gamut colors may shift without it"
+                        />
+                        <Switch
+                          checked={keepOrientation}
+                          onChange={setKeepOrientation}
+                          label="Keep orientation"
+                          description="Rotated photos may show sideways without it"
+                        />
+                      </div>
+                    )}
+                    {stripResult &&
+                      ("error" in stripResult ? (
+                        <p
+                          role="alert"
+                          className="flex items-start gap-2 text-xs text-amber-700 dark:text-amber-400"
+                        >
+                          <AlertTriangle
+                            className="w-3.5 h-3.5 mt-0.5 shrink-0"
+                            aria-hidden="true"
+                          />
+                          <span>
+                            Metadata couldn&apos;t be removed:{" "}
+                            {stripResult.error}. The output below is the
+                            original file.
+                          </span>
+                        </p>
+                      ) : (
+                        <p
+                          role="status"
+                          className="text-xs text-muted-foreground"
+                        >
+                          {describeStripped(stripResult)}
+                        </p>
+                      ))}
+                  </div>
+                )}
+
                 {/* Base64 Preview */}
                 <div className="relative">
                   <pre className="p-4 text-xs font-mono text-foreground bg-muted/30 rounded-lg overflow-x-auto max-h-48 overflow-y-auto border border-border">
-                    <code className="break-all">
-                      {copyMode === "raw"
-                        ? getRawBase64(file.data).slice(0, 2000)
-                        : file.data.slice(0, 2000)}
-                      {(copyMode === "raw"
-                        ? getRawBase64(file.data)
-                        : file.data
-                      ).length > 2000 && "..."}
-                    </code>
+                    <code className="break-all">{preview}</code>
                   </pre>
                 </div>
 
@@ -193,6 +754,7 @@ export function FileToBase64() {
                   <Button
                     type="button"
                     onClick={handleCopy}
+                    disabled={!encodedFile}
                     className="flex-1"
                     size="lg"
                   >
@@ -204,7 +766,7 @@ export function FileToBase64() {
                     ) : (
                       <>
                         <Copy className="w-4 h-4 mr-1.5" aria-hidden="true" />
-                        Copy {copyMode === "raw" ? "Base64" : "Data URI"}
+                        Copy {activeMode.copyLabel}
                       </>
                     )}
                   </Button>
@@ -213,7 +775,8 @@ export function FileToBase64() {
                     variant="outline"
                     size="lg"
                     onClick={handleDownloadBase64}
-                    aria-label="Download as text file"
+                    disabled={!encodedFile}
+                    aria-label={`Download as .${activeMode.extension} file`}
                   >
                     <Download className="w-4 h-4" aria-hidden="true" />
                   </Button>
@@ -7,6 +7,9 @@ import {
   FileAudio,
   File,
   FileArchive,
+  FileSpreadsheet,
+  FileCog,
+  Database,
   type LucideIcon,
 } from "lucide-react";
 
@@ -24,6 +27,9 @@ const iconMap: Record<string, LucideIcon> = {
   webp: FileImage,
   bmp: FileImage,
   tiff: FileImage,
+  ico: FileImage,
+  avif: FileImage,
+  heic: FileImage,
   json: FileJson,
   xml: FileCode,
   html: FileCode,
@@ -31,9 +37,29 @@ const iconMap: Record<string, LucideIcon> = {
   txt: FileText,
   mp4: FileVideo,
   webm: FileVideo,
+  mov: FileVideo,
+  mkv: FileVideo,
+  avi: FileVideo,
   mp3: FileAudio,
   wav: FileAudio,
+  ogg: FileAudio,
+  flac: FileAudio,
+  m4a: FileAudio,
   zip: FileArchive,
+  gz: FileArchive,
+  "7z": FileArchive,
+  rar: FileArchive,
+  docx: FileText,
+  odt: FileText,
+  epub: FileText,
+  xlsx: FileSpreadsheet,
+  ods: FileSpreadsheet,
+  pptx: FileImage,
+  odp: FileImage,
+  sqlite: Database,
+  wasm: FileCog,
+  elf: FileCog,
+  exe: FileCog,
 };
 
 export function FileTypeIndicator({ extension }: FileTypeIndicatorProps) {
@@ -6,52 +6,100 @@ import { Button } from "@/components/ui/button";
 import { FileDropzone } from "@/components/file-dropzone";
 import { FileTypeIndicator } from "@/components/file-type-indicator";
 import { DocumentPreview } from "@/components/document-preview";
-import { Eye, X, Download } from "lucide-react";
+import { AlertTriangle, Eye, X, Download } from "lucide-react";
 import {
   fileToBase64,
   formatBytes,
   getExtension,
-  storage,
   type StoredFile,
 } from "@/lib/file-utils";
+import { fileStore } from "@/lib/file-store";
+import { recordHistory, type HistoryReopen } from "@/lib/history";
 
-export function FileViewer() {
+interface FileViewerProps {
+  /** History entry to load, set by the history panel */
+  reopen?: HistoryReopen | null;
+}
+
+export function FileViewer({ reopen = null }: FileViewerProps) {
   const [file, setFile] = useState<StoredFile | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  /** Why the current file won't survive a reload, if it won't */
+  const [storageError, setStorageError] = useState<string | null>(null);
 
-  // Load from localStorage on mount
+  // Restore the last file on mount
   useEffect(() => {
-    const stored = storage.load("VIEWER_FILE");
-    if (stored) {
-      setFile(stored);
-    }
+    let isCurrent = true;
+    fileStore
+      .loadAsDataUrl("VIEWER_FILE")
+      .then((stored) => {
+        // A file picked or reopened meanwhile takes precedence
+        if (stored && isCurrent) setFile((current) => current ?? stored);
+      })
+      .catch(() => {
+        // Nothing restorable
+      });
+    return () => {
+      isCurrent = false;
+    };
   }, []);
 
-  const handleFileSelect = useCallback(async (selectedFile: File) => {
-    setIsProcessing(true);
-
-    try {
-      const base64Data = await fileToBase64(selectedFile);
-      const storedFile: StoredFile = {
-        name: selectedFile.name,
-        type: selectedFile.type || "application/octet-stream",
-        size: selectedFile.size,
-        data: base64Data,
-        timestamp: Date.now(),
-      };
-
-      setFile(storedFile);
-      storage.save("VIEWER_FILE", storedFile);
-    } catch (error) {
-      console.error("Failed to load file:", error);
-    } finally {
-      setIsProcessing(false);
-    }
-  }, []);
+  const handleFileSelect = useCallback(
+    async (selectedFile: File, fromHistory = false) => {
+      setIsProcessing(true);
+      setStorageError(null);
+
+      try {
+        const base64Data = await fileToBase64(selectedFile);
+        const storedFile: StoredFile = {
+          name: selectedFile.name,
+          type: selectedFile.type || "application/octet-stream",
+          size: selectedFile.size,
+          data: base64Data,
+          timestamp: Date.now(),
+        };
+
+        setFile(storedFile);
+        fileStore
+          .save("VIEWER_FILE", {
+            name: storedFile.name,
+            type: storedFile.type,
+            size: storedFile.size,
+            blob: selectedFile,
+            timestamp: storedFile.timestamp,
+          })
+          .catch((error: Error) => setStorageError(error.message));
+        if (!fromHistory) {
+          recordHistory("view", {
+            name: storedFile.name,
+            type: storedFile.type,
+            blob: selectedFile,
+          });
+        }
+      } catch (error) {
+        console.error("Failed to load file:", error);
+      } finally {
+        setIsProcessing(false);
+      }
+    },
+    []
+  );
+
+  // Load a file picked from the history panel
+  useEffect(() => {
+    if (reopen?.entry.source !== "view") return;
+    const { entry } = reopen;
+    // eslint-disable-next-line react-hooks/set-state-in-effect -- reopening is triggered from outside this component
+    handleFileSelect(
+      new File([entry.blob], entry.name, { type: entry.type }),
+      true
+    );
+  }, [reopen, handleFileSelect]);
 
   const handleClear = useCallback(() => {
     setFile(null);
-    storage.remove("VIEWER_FILE");
+    setStorageError(null);
+    fileStore.remove("VIEWER_FILE");
   }, []);
 
   const handleDownload = useCallback(() => {
@@ -80,6 +128,19 @@ export function FileViewer() {
           disabled={isProcessing}
           hasFile={!!file}
         />
+
+        {storageError && (
+          <p
+            role="status"
+            className="flex items-start gap-2 mt-3 text-xs text-amber-700 dark:text-amber-400"
+          >
+            <AlertTriangle
+              className="w-3.5 h-3.5 mt-0.5 shrink-0"
+              aria-hidden="true"
+            />
+            <span>{storageError}</span>
+          </p>
+        )}
       </section>
 
       {/* Preview Section */}
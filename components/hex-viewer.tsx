@@ -0,0 +1,399 @@
+"use client";
+
+import type React from "react";
+
+import { useState, useRef, useCallback, useEffect, useId } from "react";
+import { Copy, Check, CornerDownRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { bytesToBase64, formatBytes } from "@/lib/file-utils";
+import { cn } from "@/lib/utils";
+
+/** Bytes shown per row */
+const BYTES_PER_ROW = 16;
+/** Row height in pixels; must match the `h-5` class on each row */
+const ROW_HEIGHT = 20;
+/** Visible viewport height in pixels */
+const VIEWPORT_HEIGHT = 384;
+/** Extra rows rendered above and below the viewport */
+const OVERSCAN_ROWS = 8;
+/**
+ * Browsers cap element heights (~33M px in Chrome, less elsewhere), so
+ * very large inputs use a compressed scroll range mapped onto all rows.
+ */
+const MAX_SCROLL_HEIGHT = 8_000_000;
+
+type CopyFormat = "hex" | "base64" | "c";
+
+export interface ByteRange {
+  /** First byte offset (inclusive) */
+  start: number;
+  /** Last byte offset (inclusive) */
+  end: number;
+}
+
+interface HexViewerProps {
+  bytes: Uint8Array;
+  /**
+   * Range to emphasise, e.g. a structure picked in another view.
+   * Scrolled into view whenever it changes.
+   */
+  highlight?: ByteRange | null;
+  className?: string;
+}
+
+function toHex(value: number, width: number): string {
+  return value.toString(16).toUpperCase().padStart(width, "0");
+}
+
+function toAscii(byte: number): string {
+  return byte >= 0x20 && byte <= 0x7e ? String.fromCharCode(byte) : ".";
+}
+
+/** Parse "0x1F", "1fh" or decimal offsets */
+function parseOffset(value: string): number | null {
+  const trimmed = value.trim().toLowerCase();
+  if (!trimmed) return null;
+  if (/^0x[0-9a-f]+$/.test(trimmed)) return Number.parseInt(trimmed, 16);
+  if (/^[0-9a-f]+h$/.test(trimmed)) {
+    return Number.parseInt(trimmed.slice(0, -1), 16);
+  }
+  if (/^\d+$/.test(trimmed)) return Number.parseInt(trimmed, 10);
+  return null;
+}
+
+/** Format a byte range for the clipboard */
+function formatSelection(bytes: Uint8Array, format: CopyFormat): string {
+  if (format === "base64") {
+    return bytesToBase64(bytes);
+  }
+
+  const hexBytes = Array.from(bytes, (byte) => toHex(byte, 2));
+  if (format === "hex") {
+    return hexBytes.join(" ");
+  }
+
+  // C array, 12 values per line
+  const lines: string[] = [];
+  for (let i = 0; i < hexBytes.length; i += 12) {
+    lines.push(
+      `  ${hexBytes
+        .slice(i, i + 12)
+        .map((hex) => `0x${hex}`)
+        .join(", ")}`
+    );
+  }
+  return `unsigned char data[${bytes.length}] = {\n${lines.join(",\n")}\n};`;
+}
+
+/**
+ * Virtualized hex + ASCII dump with byte-range selection.
+ * Only the rows in view are rendered, so multi-megabyte inputs stay responsive.
+ */
+export function HexViewer({
+  bytes,
+  highlight = null,
+  className,
+}: HexViewerProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [selection, setSelection] = useState<ByteRange | null>(null);
+  const [anchor, setAnchor] = useState<number | null>(null);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [jumpValue, setJumpValue] = useState("");
+  const [jumpError, setJumpError] = useState(false);
+  const [copiedFormat, setCopiedFormat] = useState<CopyFormat | null>(null);
+  const jumpId = useId();
+
+  const totalRows = Math.max(1, Math.ceil(bytes.length / BYTES_PER_ROW));
+  const contentHeight = totalRows * ROW_HEIGHT;
+  const scrollHeight = Math.min(contentHeight, MAX_SCROLL_HEIGHT);
+  const offsetWidth = Math.max(8, toHex(bytes.length, 1).length);
+
+  // Map the (possibly compressed) scroll position onto content rows
+  const scrollRange = Math.max(1, scrollHeight - VIEWPORT_HEIGHT);
+  const contentRange = Math.max(0, contentHeight - VIEWPORT_HEIGHT);
+  const virtualTop =
+    scrollHeight === contentHeight
+      ? scrollTop
+      : (Math.min(scrollTop, scrollRange) / scrollRange) * contentRange;
+  const firstVisibleRow = Math.floor(virtualTop / ROW_HEIGHT);
+  const firstRow = Math.max(0, firstVisibleRow - OVERSCAN_ROWS);
+  const lastRow = Math.min(
+    totalRows - 1,
+    firstVisibleRow + Math.ceil(VIEWPORT_HEIGHT / ROW_HEIGHT) + OVERSCAN_ROWS
+  );
+  // Pixel position of `firstRow` inside the scroll container
+  const rowsTop = scrollTop - (virtualTop - firstRow * ROW_HEIGHT);
+
+  // Reset view when the input changes
+  useEffect(() => {
+    // eslint-disable-next-line react-hooks/set-state-in-effect -- resets alongside the scroll position, which needs the DOM
+    setSelection(null);
+    setAnchor(null);
+    setScrollTop(0);
+    if (scrollRef.current) scrollRef.current.scrollTop = 0;
+  }, [bytes]);
+
+  // Finish drag selection even if the mouse is released outside the grid
+  useEffect(() => {
+    if (!isSelecting) return;
+    const handleMouseUp = () => setIsSelecting(false);
+    window.addEventListener("mouseup", handleMouseUp);
+    return () => window.removeEventListener("mouseup", handleMouseUp);
+  }, [isSelecting]);
+
+  const handleScroll = useCallback((e: React.UIEvent<HTMLDivElement>) => {
+    setScrollTop(e.currentTarget.scrollTop);
+  }, []);
+
+  const scrollToOffset = useCallback(
+    (offset: number) => {
+      const container = scrollRef.current;
+      if (!container) return;
+      const row = Math.floor(offset / BYTES_PER_ROW);
+      const targetVirtualTop = Math.max(
+        0,
+        Math.min(contentRange, row * ROW_HEIGHT - VIEWPORT_HEIGHT / 3)
+      );
+      const targetScrollTop =
+        scrollHeight === contentHeight
+          ? targetVirtualTop
+          : (targetVirtualTop / Math.max(1, contentRange)) * scrollRange;
+      container.scrollTop = targetScrollTop;
+      setScrollTop(targetScrollTop);
+    },
+    [contentHeight, contentRange, scrollHeight, scrollRange]
+  );
+
+  // Bring the highlighted range into view; runs after the reset above
+  useEffect(() => {
+    if (highlight) scrollToOffset(highlight.start);
+  }, [highlight, scrollToOffset]);
+
+  const handleByteMouseDown = useCallback(
+    (offset: number, e: React.MouseEvent) => {
+      e.preventDefault();
+      if (e.shiftKey && anchor !== null) {
+        setSelection({
+          start: Math.min(anchor, offset),
+          end: Math.max(anchor, offset),
+        });
+        return;
+      }
+      setAnchor(offset);
+      setSelection({ start: offset, end: offset });
+      setIsSelecting(true);
+    },
+    [anchor]
+  );
+
+  const handleByteMouseEnter = useCallback(
+    (offset: number) => {
+      if (!isSelecting || anchor === null) return;
+      setSelection({
+        start: Math.min(anchor, offset),
+        end: Math.max(anchor, offset),
+      });
+    },
+    [isSelecting, anchor]
+  );
+
+  const handleJump = useCallback(
+    (e: React.FormEvent) => {
+      e.preventDefault();
+      const offset = parseOffset(jumpValue);
+      if (offset === null || offset >= bytes.length) {
+        setJumpError(true);
+        return;
+      }
+      setJumpError(false);
+      setAnchor(offset);
+      setSelection({ start: offset, end: offset });
+      scrollToOffset(offset);
+    },
+    [jumpValue, bytes.length, scrollToOffset]
+  );
+
+  const handleCopy = useCallback(
+    async (format: CopyFormat) => {
+      if (!selection) return;
+      const selected = bytes.subarray(selection.start, selection.end + 1);
+      try {
+        await navigator.clipboard.writeText(formatSelection(selected, format));
+        setCopiedFormat(format);
+        setTimeout(() => setCopiedFormat(null), 2000);
+      } catch (error) {
+        console.error("Failed to copy:", error);
+      }
+    },
+    [bytes, selection]
+  );
+
+  const isSelected = (offset: number) =>
+    selection !== null && offset >= selection.start && offset <= selection.end;
+  const isHighlighted = (offset: number) =>
+    highlight !== null && offset >= highlight.start && offset <= highlight.end;
+
+  const rows: React.ReactNode[] = [];
+  for (let row = firstRow; row <= lastRow; row++) {
+    const rowStart = row * BYTES_PER_ROW;
+    const rowBytes = bytes.subarray(rowStart, rowStart + BYTES_PER_ROW);
+    const hexCells: React.ReactNode[] = [];
+    const asciiCells: React.ReactNode[] = [];
+
+    rowBytes.forEach((byte, index) => {
+      const offset = rowStart + index;
+      const selected = isSelected(offset);
+      const highlighted = !selected && isHighlighted(offset);
+      const cellProps = {
+        onMouseDown: (e: React.MouseEvent) => handleByteMouseDown(offset, e),
+        onMouseEnter: () => handleByteMouseEnter(offset),
+        "data-offset": offset,
+      };
+      hexCells.push(
+        <span
+          key={offset}
+          {...cellProps}
+          className={cn(
+            "inline-block w-[2.5ch] text-center cursor-pointer rounded-sm",
+            index === 8 && "ml-[1ch]",
+            selected
+              ? "bg-primary text-primary-foreground"
+              : highlighted
+              ? "bg-primary/20"
+              : "hover:bg-muted",
+            !selected && byte === 0 && "text-muted-foreground/50"
+          )}
+        >
+          {toHex(byte, 2)}
+        </span>
+      );
+      asciiCells.push(
+        <span
+          key={offset}
+          {...cellProps}
+          className={cn(
+            "inline-block w-[1ch] cursor-pointer",
+            selected
+              ? "bg-primary text-primary-foreground"
+              : highlighted
+              ? "bg-primary/20"
+              : "hover:bg-muted",
+            !selected &&
+              (byte < 0x20 || byte > 0x7e) &&
+              "text-muted-foreground/50"
+          )}
+        >
+          {toAscii(byte)}
+        </span>
+      );
+    });
+
+    rows.push(
+      <div key={row} className="flex h-5 items-center gap-4 whitespace-pre">
+        <span className="text-muted-foreground select-none">
+          {toHex(rowStart, offsetWidth)}
+        </span>
+        <span className="w-[41ch]">{hexCells}</span>
+        <span className="border-l border-border pl-3">{asciiCells}</span>
+      </div>
+    );
+  }
+
+  const selectionLength = selection ? selection.end - selection.start + 1 : 0;
+
+  return (
+    <div
+      className={cn(
+        "rounded-lg border border-border bg-muted/30 overflow-hidden",
+        className
+      )}
+    >
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-2 p-2 border-b border-border bg-background">
+        <form onSubmit={handleJump} className="flex items-center gap-1.5">
+          <label htmlFor={jumpId} className="text-xs text-muted-foreground">
+            Offset
+          </label>
+          <input
+            id={jumpId}
+            value={jumpValue}
+            onChange={(e) => {
+              setJumpValue(e.target.value);
+              setJumpError(false);
+            }}
+            placeholder="0x0"
+            aria-invalid={jumpError || undefined}
+            className={cn(
+              "h-8 w-24 px-2 font-mono text-xs bg-background text-foreground border rounded-md focus:outline-none focus:ring-2 focus:ring-ring",
+              jumpError ? "border-destructive" : "border-border"
+            )}
+            spellCheck={false}
+            autoComplete="off"
+          />
+          <Button
+            type="submit"
+            variant="outline"
+            size="sm"
+            aria-label="Jump to offset"
+          >
+            <CornerDownRight className="h-4 w-4" aria-hidden="true" />
+          </Button>
+        </form>
+
+        <div className="flex items-center gap-1.5">
+          <span
+            className="text-xs text-muted-foreground tabular-nums"
+            aria-live="polite"
+          >
+            {selection
+              ? `0x${toHex(selection.start, 1)}–0x${toHex(
+                  selection.end,
+                  1
+                )} · ${formatBytes(selectionLength)}`
+              : `${formatBytes(bytes.length)}`}
+          </span>
+          {(["hex", "base64", "c"] as const).map((format) => (
+            <Button
+              key={format}
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => handleCopy(format)}
+              disabled={!selection}
+              className="gap-1"
+              aria-label={`Copy selection as ${
+                format === "c" ? "C array" : format
+              }`}
+            >
+              {copiedFormat === format ? (
+                <Check className="h-3.5 w-3.5" aria-hidden="true" />
+              ) : (
+                <Copy className="h-3.5 w-3.5" aria-hidden="true" />
+              )}
+              <span className="text-xs">
+                {format === "hex" ? "Hex" : format === "base64" ? "B64" : "C"}
+              </span>
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {/* Dump */}
+      <div
+        ref={scrollRef}
+        onScroll={handleScroll}
+        className="relative overflow-auto font-mono text-xs text-foreground select-none"
+        style={{ height: Math.min(VIEWPORT_HEIGHT, scrollHeight + 16) }}
+        role="region"
+        aria-label={`Hex dump, ${bytes.length} bytes. Click and drag to select a byte range.`}
+        tabIndex={0}
+      >
+        <div style={{ height: scrollHeight }} />
+        <div className="absolute left-0 right-0 px-3" style={{ top: rowsTop }}>
+          {rows}
+        </div>
+      </div>
+    </div>
+  );
+}
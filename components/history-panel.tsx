@@ -0,0 +1,380 @@
+"use client";
+
+import { useState, useEffect, useCallback, useId } from "react";
+import {
+  AlertTriangle,
+  History,
+  FolderOpen,
+  Pencil,
+  Pin,
+  PinOff,
+  Trash2,
+  Check,
+  X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { FileTypeIndicator } from "@/components/file-type-indicator";
+import { formatBytes, getExtension } from "@/lib/file-utils";
+import {
+  HISTORY_LIMITS,
+  historyStore,
+  loadHistorySettings,
+  saveHistorySettings,
+  subscribeHistory,
+  type HistoryEntry,
+  type HistorySettings,
+  type HistorySource,
+} from "@/lib/history";
+import { shouldPersist, subscribeStorage } from "@/lib/persistence";
+import { cn } from "@/lib/utils";
+
+const SOURCE_LABELS: Record<HistorySource, string> = {
+  decode: "Decoded",
+  encode: "Encoded",
+  view: "Viewed",
+};
+
+interface HistoryPanelProps {
+  /** Load an entry back into the tab it came from */
+  onReopen: (entry: HistoryEntry) => void;
+}
+
+interface HistoryRowProps {
+  entry: HistoryEntry;
+  onReopen: (entry: HistoryEntry) => void;
+  /** Report the outcome of a storage change made from the row */
+  onAction: (action: Promise<void>) => void;
+}
+
+function HistoryRow({ entry, onReopen, onAction }: HistoryRowProps) {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [name, setName] = useState(entry.name);
+
+  const handleRename = useCallback(() => {
+    const trimmed = name.trim();
+    if (trimmed && trimmed !== entry.name) {
+      onAction(historyStore.update(entry.id, { name: trimmed }));
+    } else {
+      setName(entry.name);
+    }
+    setIsRenaming(false);
+  }, [entry, name, onAction]);
+
+  const cancelRename = useCallback(() => {
+    setName(entry.name);
+    setIsRenaming(false);
+  }, [entry.name]);
+
+  return (
+    <li className="flex items-center gap-3 px-4 py-2.5">
+      {entry.thumbnail ? (
+        <img
+          src={entry.thumbnail}
+          alt=""
+          className="w-9 h-9 rounded-lg object-cover bg-muted/50 shrink-0"
+        />
+      ) : (
+        <FileTypeIndicator
+          mimeType={entry.type}
+          extension={getExtension(entry.name, entry.type)}
+        />
+      )}
+
+      <div className="flex-1 min-w-0">
+        {isRenaming ? (
+          <form
+            className="flex items-center gap-1"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleRename();
+            }}
+          >
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Escape") cancelRename();
+              }}
+              aria-label="Entry name"
+              autoFocus
+              className="flex-1 min-w-0 h-7 px-2 text-sm bg-background text-foreground border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-ring"
+            />
+            <Button type="submit" variant="ghost" size="icon-sm">
+              <Check className="w-3.5 h-3.5" aria-hidden="true" />
+              <span className="sr-only">Save name</span>
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon-sm"
+              onClick={cancelRename}
+            >
+              <X className="w-3.5 h-3.5" aria-hidden="true" />
+              <span className="sr-only">Cancel rename</span>
+            </Button>
+          </form>
+        ) : (
+          <p className="flex items-center gap-1.5 text-sm font-medium text-foreground">
+            {entry.pinned && (
+              <Pin
+                className="w-3 h-3 shrink-0 text-muted-foreground"
+                aria-label="Pinned"
+              />
+            )}
+            <span className="truncate">{entry.name}</span>
+          </p>
+        )}
+        <p className="text-xs text-muted-foreground truncate">
+          {SOURCE_LABELS[entry.source]} · {entry.type} ·{" "}
+          {formatBytes(entry.size)} ·{" "}
+          <time dateTime={new Date(entry.timestamp).toISOString()}>
+            {new Date(entry.timestamp).toLocaleString()}
+          </time>
+        </p>
+      </div>
+
+      {!isRenaming && (
+        <div className="flex items-center shrink-0">
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon-sm"
+            onClick={() => onReopen(entry)}
+            aria-label={`Open ${entry.name}`}
+          >
+            <FolderOpen className="w-3.5 h-3.5" aria-hidden="true" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon-sm"
+            onClick={() =>
+              onAction(historyStore.update(entry.id, { pinned: !entry.pinned }))
+            }
+            aria-label={entry.pinned ? "Unpin" : "Pin"}
+            aria-pressed={entry.pinned}
+          >
+            {entry.pinned ? (
+              <PinOff className="w-3.5 h-3.5" aria-hidden="true" />
+            ) : (
+              <Pin className="w-3.5 h-3.5" aria-hidden="true" />
+            )}
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon-sm"
+            onClick={() => setIsRenaming(true)}
+            aria-label={`Rename ${entry.name}`}
+          >
+            <Pencil className="w-3.5 h-3.5" aria-hidden="true" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon-sm"
+            onClick={() => onAction(historyStore.remove(entry.id))}
+            aria-label={`Delete ${entry.name}`}
+          >
+            <Trash2 className="w-3.5 h-3.5" aria-hidden="true" />
+          </Button>
+        </div>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Opt-in list of recent files from every tab. Off by default; while off,
+ * nothing outlives the tab.
+ */
+export function HistoryPanel({ onReopen }: HistoryPanelProps) {
+  const [settings, setSettings] = useState<HistorySettings | null>(null);
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  /** "Never persist" in the privacy settings pauses recording */
+  const [isPaused, setIsPaused] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const limitId = useId();
+
+  // Settings live in localStorage, so read them after mount
+  useEffect(() => {
+    const refresh = () => {
+      setSettings(loadHistorySettings());
+      setIsPaused(!shouldPersist());
+      historyStore.list().then(setEntries);
+    };
+    refresh();
+    const unsubscribeHistory = subscribeHistory(refresh);
+    const unsubscribeStorage = subscribeStorage(refresh);
+    return () => {
+      unsubscribeHistory();
+      unsubscribeStorage();
+    };
+  }, []);
+
+  const handleAction = useCallback((action: Promise<void>) => {
+    action
+      .then(() => setError(null))
+      .catch((err: unknown) => {
+        console.error("History storage error:", err);
+        setError(
+          err instanceof Error ? err.message : "The history couldn't be updated"
+        );
+      });
+  }, []);
+
+  const handleToggle = useCallback(() => {
+    if (!settings) return;
+    if (
+      settings.enabled &&
+      entries.length > 0 &&
+      !window.confirm(
+        `Turn off history and delete ${entries.length} saved ${
+          entries.length === 1 ? "entry" : "entries"
+        }?`
+      )
+    ) {
+      return;
+    }
+    handleAction(
+      saveHistorySettings({ ...settings, enabled: !settings.enabled })
+    );
+  }, [settings, entries.length, handleAction]);
+
+  if (!settings) return null;
+
+  return (
+    <section aria-labelledby="history-heading">
+      <Card className="overflow-hidden shadow-sm py-0">
+        <CardContent className="p-0">
+          <div
+            className={cn(
+              "flex items-center justify-between gap-3 p-4",
+              settings.enabled && "border-b border-border"
+            )}
+          >
+            <div className="flex items-center gap-3 min-w-0">
+              <History
+                className="w-4 h-4 text-muted-foreground shrink-0"
+                aria-hidden="true"
+              />
+              <div className="min-w-0">
+                <h2
+                  id="history-heading"
+                  className="text-sm font-medium text-foreground"
+                >
+                  History
+                </h2>
+                <p className="text-xs text-muted-foreground">
+                  {!settings.enabled
+                    ? "Off · nothing is kept after you close the tab"
+                    : isPaused
+                    ? "Paused · nothing new is recorded while Never persist is selected"
+                    : "Recent files are kept on this device until you delete them"}
+                </p>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-3 shrink-0">
+              {settings.enabled && (
+                <div className="flex items-center gap-1.5">
+                  <label
+                    htmlFor={limitId}
+                    className="text-xs text-muted-foreground"
+                  >
+                    Keep
+                  </label>
+                  <select
+                    id={limitId}
+                    value={settings.limit}
+                    onChange={(e) =>
+                      handleAction(
+                        saveHistorySettings({
+                          ...settings,
+                          limit: Number(e.target.value),
+                        })
+                      )
+                    }
+                    className="h-7 px-1.5 text-xs bg-background text-foreground border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-ring"
+                  >
+                    {HISTORY_LIMITS.map((limit) => (
+                      <option key={limit} value={limit}>
+                        {limit}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <button
+                type="button"
+                role="switch"
+                aria-checked={settings.enabled}
+                aria-label="Keep history"
+                onClick={handleToggle}
+                className={cn(
+                  "relative inline-flex h-5 w-9 shrink-0 items-center rounded-full transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 focus-visible:ring-offset-background",
+                  settings.enabled ? "bg-primary" : "bg-muted"
+                )}
+              >
+                <span
+                  className={cn(
+                    "inline-block h-4 w-4 rounded-full bg-background shadow-sm transition-transform",
+                    settings.enabled ? "translate-x-4.5" : "translate-x-0.5"
+                  )}
+                />
+              </button>
+            </div>
+          </div>
+
+          {error && (
+            <p
+              className="flex items-center gap-1.5 px-4 py-2.5 text-xs text-amber-700 dark:text-amber-400 border-b border-border"
+              role="alert"
+            >
+              <AlertTriangle
+                className="h-3.5 w-3.5 shrink-0"
+                aria-hidden="true"
+              />
+              {error}
+            </p>
+          )}
+
+          {settings.enabled &&
+            (entries.length > 0 ? (
+              <>
+                <ul className="divide-y divide-border max-h-96 overflow-y-auto">
+                  {entries.map((entry) => (
+                    <HistoryRow
+                      key={`${entry.id}-${entry.name}`}
+                      entry={entry}
+                      onReopen={onReopen}
+                      onAction={handleAction}
+                    />
+                  ))}
+                </ul>
+                <div className="flex items-center justify-between gap-3 px-4 py-2.5 border-t border-border bg-muted/30">
+                  <p className="text-xs text-muted-foreground">
+                    Pinned entries don&apos;t count towards the limit
+                  </p>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => historyStore.clear()}
+                    className="h-7 px-2 text-xs"
+                  >
+                    Clear history
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <p className="px-4 py-6 text-xs text-center text-muted-foreground">
+                Files you decode, encode or view will appear here
+              </p>
+            ))}
+        </CardContent>
+      </Card>
+    </section>
+  );
+}
@@ -0,0 +1,220 @@
+"use client";
+
+import { useState, useEffect, useCallback, useId } from "react";
+import { Download, Copy, Check, AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { SELECT_CLASS } from "@/components/ui/native-select";
+import { downloadBlob, withExtension } from "@/lib/file-utils";
+import {
+  IMAGE_OUTPUT_FORMATS,
+  canEncodeImageFormat,
+  optimizeImage,
+  type ImageOutputFormat,
+} from "@/lib/image-optimize";
+import { TiffError } from "@/lib/tiff";
+
+const CONVERT_FORMATS: ImageOutputFormat[] = ["png", "jpeg", "webp"];
+
+/** Image types the canvas pipeline can decode, TIFF included */
+export function canConvertImage(mimeType: string): boolean {
+  return mimeType.startsWith("image/") && mimeType !== "image/svg+xml";
+}
+
+/** Copy an image to the clipboard as PNG, whatever its source format */
+export function CopyImageButton({ blob }: { blob: Blob }) {
+  const [copied, setCopied] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  const canCopy =
+    typeof ClipboardItem !== "undefined" && !!navigator.clipboard?.write;
+
+  const handleCopy = useCallback(async () => {
+    try {
+      // Hand the clipboard a promise so the user gesture is still valid
+      // by the time the image has been re-encoded
+      const image = optimizeImage(blob, {
+        format: "png",
+        quality: 1,
+        maxWidth: null,
+        maxHeight: null,
+      }).then((result) => result.blob);
+      await navigator.clipboard.write([
+        new ClipboardItem({ "image/png": image }),
+      ]);
+      setFailed(false);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error("Failed to copy:", err);
+      setFailed(true);
+      setTimeout(() => setFailed(false), 2000);
+    }
+  }, [blob]);
+
+  if (!canCopy) return null;
+
+  return (
+    <Button type="button" onClick={handleCopy} variant="outline" size="sm">
+      {copied ? (
+        <Check className="w-3.5 h-3.5 mr-1.5" aria-hidden="true" />
+      ) : failed ? (
+        <AlertTriangle className="w-3.5 h-3.5 mr-1.5" aria-hidden="true" />
+      ) : (
+        <Copy className="w-3.5 h-3.5 mr-1.5" aria-hidden="true" />
+      )}
+      <span>{copied ? "Copied" : failed ? "Copy failed" : "Copy image"}</span>
+    </Button>
+  );
+}
+
+interface ImageConvertPanelProps {
+  /** Decoded image */
+  blob: Blob;
+  /** Name of the decoded file; the extension is swapped for the target's */
+  filename: string;
+}
+
+/**
+ * Re-encode an image as PNG, JPEG or WebP through a canvas and download it.
+ * TIFF is decoded in JavaScript first since browsers can't.
+ */
+export function ImageConvertPanel({ blob, filename }: ImageConvertPanelProps) {
+  const [format, setFormat] = useState<ImageOutputFormat>("png");
+  const [quality, setQuality] = useState(0.9);
+  const [supported, setSupported] = useState<
+    Partial<Record<ImageOutputFormat, boolean>>
+  >({});
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const formatId = useId();
+  const qualityId = useId();
+
+  // Safari's canvas can't encode WebP
+  useEffect(() => {
+    let isMounted = true;
+    Promise.all(CONVERT_FORMATS.map(canEncodeImageFormat)).then((results) => {
+      if (!isMounted) return;
+      setSupported(
+        Object.fromEntries(
+          CONVERT_FORMATS.map((value, i) => [value, results[i]])
+        )
+      );
+    });
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  // A new image invalidates the last error
+  const [prevBlob, setPrevBlob] = useState(blob);
+  if (blob !== prevBlob) {
+    setPrevBlob(blob);
+    setError(null);
+  }
+
+  const handleDownload = useCallback(async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const converted = await optimizeImage(blob, {
+        format,
+        quality,
+        maxWidth: null,
+        maxHeight: null,
+      });
+      downloadBlob(
+        converted.blob,
+        withExtension(filename, IMAGE_OUTPUT_FORMATS[format].ext, "image")
+      );
+    } catch (err) {
+      console.error("Image conversion error:", err);
+      setError(
+        err instanceof TiffError ||
+          (err instanceof Error && err.message.startsWith("This browser"))
+          ? err.message
+          : "This image couldn't be decoded by the browser"
+      );
+    } finally {
+      setIsWorking(false);
+    }
+  }, [blob, filename, format, quality]);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+        <div className="flex items-center gap-1.5">
+          <label htmlFor={formatId} className="text-xs text-muted-foreground">
+            Convert to
+          </label>
+          <select
+            id={formatId}
+            value={format}
+            onChange={(e) => setFormat(e.target.value as ImageOutputFormat)}
+            className={SELECT_CLASS}
+          >
+            {CONVERT_FORMATS.map((value) => (
+              <option
+                key={value}
+                value={value}
+                disabled={supported[value] === false}
+              >
+                {supported[value] === false
+                  ? `${IMAGE_OUTPUT_FORMATS[value].label} (not supported)`
+                  : IMAGE_OUTPUT_FORMATS[value].label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {IMAGE_OUTPUT_FORMATS[format].lossy && (
+          <div className="flex items-center gap-1.5">
+            <label
+              htmlFor={qualityId}
+              className="text-xs text-muted-foreground"
+            >
+              Quality
+            </label>
+            <input
+              id={qualityId}
+              type="range"
+              min={0.1}
+              max={1}
+              step={0.05}
+              value={quality}
+              onChange={(e) => setQuality(Number(e.target.value))}
+              className="w-24 accent-foreground"
+            />
+            <span className="w-8 text-xs text-muted-foreground tabular-nums">
+              {Math.round(quality * 100)}
+            </span>
+          </div>
+        )}
+
+        <Button
+          type="button"
+          size="sm"
+          onClick={handleDownload}
+          disabled={isWorking}
+          className="gap-1.5 ml-auto"
+        >
+          <Download className="h-4 w-4" aria-hidden="true" />
+          <span className="text-xs">
+            {isWorking
+              ? "Converting..."
+              : `Download ${IMAGE_OUTPUT_FORMATS[format].label}`}
+          </span>
+        </Button>
+      </div>
+
+      {error && (
+        <p
+          className="flex items-center gap-1.5 text-xs text-amber-700 dark:text-amber-400"
+          role="alert"
+        >
+          <AlertTriangle className="h-3.5 w-3.5 shrink-0" aria-hidden="true" />
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+"use client";
+
+import type { ReactNode } from "react";
+
+import { MapPin } from "lucide-react";
+import { ORIENTATION_LABELS, type ImageMetadata } from "@/lib/image-metadata";
+import { cn } from "@/lib/utils";
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div className="contents">
+      <dt className="text-muted-foreground">{label}</dt>
+      <dd className="text-foreground min-w-0 break-words">{children}</dd>
+    </div>
+  );
+}
+
+function formatPosition({
+  latitude,
+  longitude,
+  altitude,
+}: NonNullable<ImageMetadata["gps"]>): string {
+  const position = `${latitude.toFixed(6)}, ${longitude.toFixed(6)}`;
+  return altitude === null
+    ? position
+    : `${position} · ${altitude.toFixed(0)} m`;
+}
+
+/**
+ * Badge shown over an image that carries a GPS position, since that's the
+ * metadata most likely to leak something
+ */
+export function GpsWarningBadge({
+  onClick,
+  className,
+}: {
+  onClick?: () => void;
+  className?: string;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={cn(
+        "inline-flex items-center gap-1 px-2 py-1 rounded-md border border-amber-500/40 bg-background/95 text-xs font-medium text-amber-700 dark:text-amber-400 shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+        className
+      )}
+    >
+      <MapPin className="h-3.5 w-3.5" aria-hidden="true" />
+      Contains GPS location
+    </button>
+  );
+}
+
+/**
+ * Camera, time, location, software and color profile details read from
+ * EXIF, XMP and ICC blocks
+ */
+export function ImageMetadataPanel({ metadata }: { metadata: ImageMetadata }) {
+  if (metadata.blocks.length === 0) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        No EXIF, XMP or ICC metadata
+      </p>
+    );
+  }
+
+  const {
+    camera,
+    lens,
+    exposure,
+    taken,
+    modified,
+    orientation,
+    software,
+    artist,
+    copyright,
+    colorProfile,
+    gps,
+    hasLocation,
+    comments,
+  } = metadata;
+
+  return (
+    <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+      <Field label="Found">{metadata.blocks.join(", ")}</Field>
+      {hasLocation && (
+        <Field label="Location">
+          <span className="text-amber-700 dark:text-amber-400">
+            {gps ? formatPosition(gps) : "Present, but unreadable"}
+          </span>
+        </Field>
+      )}
+      {camera && <Field label="Camera">{camera}</Field>}
+      {lens && <Field label="Lens">{lens}</Field>}
+      {exposure && <Field label="Exposure">{exposure}</Field>}
+      {taken && (
+        <Field label="Taken">
+          <span className="tabular-nums">{taken}</span>
+        </Field>
+      )}
+      {modified && (
+        <Field label="Modified">
+          <span className="tabular-nums">{modified}</span>
+        </Field>
+      )}
+      {orientation !== null && (
+        <Field label="Orientation">
+          {ORIENTATION_LABELS[orientation]} ({orientation})
+        </Field>
+      )}
+      {software && <Field label="Software">{software}</Field>}
+      {artist && <Field label="Artist">{artist}</Field>}
+      {copyright && <Field label="Copyright">{copyright}</Field>}
+      {colorProfile && <Field label="Color profile">{colorProfile}</Field>}
+      {comments.length > 0 && (
+        <Field label="Comments">
+          <ul className="space-y-0.5">
+            {comments.map((comment, index) => (
+              <li key={index} className="line-clamp-3">
+                {comment}
+              </li>
+            ))}
+          </ul>
+        </Field>
+      )}
+    </dl>
+  );
+}
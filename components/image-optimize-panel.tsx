@@ -0,0 +1,375 @@
+"use client";
+
+import { useState, useEffect, useId } from "react";
+import { AlertTriangle } from "lucide-react";
+import { SELECT_CLASS } from "@/components/ui/native-select";
+import {
+  bytesToBase64,
+  dataUrlToBytes,
+  formatBytes,
+  getRawBase64,
+  withExtension,
+  type StoredFile,
+} from "@/lib/file-utils";
+import {
+  IMAGE_OUTPUT_FORMATS,
+  canEncodeImageFormat,
+  optimizeImage,
+  type ImageOutputFormat,
+} from "@/lib/image-optimize";
+import { TiffError } from "@/lib/tiff";
+import { cn } from "@/lib/utils";
+
+/** Wait this long after the last option change before re-encoding */
+const OPTIMIZE_DELAY = 250;
+
+const CHECKERBOARD =
+  "repeating-conic-gradient(#d4d4d4 0% 25%, #ffffff 0% 50%) 0 0 / 16px 16px";
+
+interface OptimizeResult {
+  file: StoredFile;
+  width: number;
+  height: number;
+  sourceWidth: number;
+  sourceHeight: number;
+}
+
+/** Change from `before` to `after` as a signed percentage */
+function formatChange(before: number, after: number): string {
+  if (before === 0) return "";
+  const change = Math.round(((after - before) / before) * 100);
+  return change > 0 ? `+${change}%` : `${change}%`;
+}
+
+function parseLimit(value: string): number | null {
+  const limit = Math.floor(Number(value));
+  return limit > 0 ? limit : null;
+}
+
+/**
+ * Original and optimized image stacked in one box, with a slider that
+ * moves the split between them
+ */
+function BeforeAfter({ before, after }: { before: string; after: string }) {
+  const [split, setSplit] = useState(50);
+
+  return (
+    <div className="space-y-2">
+      <div
+        className="relative h-56 rounded-lg border border-border overflow-hidden"
+        style={{ background: CHECKERBOARD }}
+      >
+        <img
+          src={before}
+          alt="Original image"
+          className="absolute inset-0 h-full w-full object-contain"
+        />
+        <img
+          src={after}
+          alt="Optimized image"
+          className="absolute inset-0 h-full w-full object-contain"
+          style={{ clipPath: `inset(0 0 0 ${split}%)` }}
+        />
+        <div
+          className="absolute inset-y-0 w-px bg-primary pointer-events-none"
+          style={{ left: `${split}%` }}
+          aria-hidden="true"
+        />
+        <span className="absolute top-2 left-2 px-1.5 py-0.5 rounded bg-background/90 text-[10px] font-medium text-muted-foreground">
+          Original
+        </span>
+        <span className="absolute top-2 right-2 px-1.5 py-0.5 rounded bg-background/90 text-[10px] font-medium text-muted-foreground">
+          Optimized
+        </span>
+      </div>
+      <input
+        type="range"
+        min={0}
+        max={100}
+        value={split}
+        onChange={(e) => setSplit(Number(e.target.value))}
+        aria-label="Before and after split"
+        className="w-full accent-foreground"
+      />
+    </div>
+  );
+}
+
+interface ImageOptimizePanelProps {
+  /** Image to optimize */
+  file: StoredFile;
+  /**
+   * Called with the optimized file once encoded, and with null while
+   * re-encoding or when it failed
+   */
+  onResult: (file: StoredFile | null) => void;
+}
+
+/**
+ * Resize and re-encode an image before it is converted to base64, with a
+ * size comparison and a before/after preview
+ */
+export function ImageOptimizePanel({
+  file,
+  onResult,
+}: ImageOptimizePanelProps) {
+  const [format, setFormat] = useState<ImageOutputFormat>("webp");
+  const [quality, setQuality] = useState(0.8);
+  const [maxWidth, setMaxWidth] = useState("");
+  const [maxHeight, setMaxHeight] = useState("");
+  const [supported, setSupported] = useState<
+    Partial<Record<ImageOutputFormat, boolean>>
+  >({});
+  const [result, setResult] = useState<OptimizeResult | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const formatId = useId();
+  const qualityId = useId();
+  const widthId = useId();
+  const heightId = useId();
+
+  // AVIF encoding in particular is missing from several browsers
+  useEffect(() => {
+    let isMounted = true;
+    const formats = Object.keys(IMAGE_OUTPUT_FORMATS) as ImageOutputFormat[];
+    Promise.all(formats.map(canEncodeImageFormat)).then((results) => {
+      if (!isMounted) return;
+      setSupported(
+        Object.fromEntries(formats.map((value, i) => [value, results[i]]))
+      );
+      // Fall back to PNG, which every canvas can encode
+      setFormat((current) =>
+        results[formats.indexOf(current)] ? current : "png"
+      );
+    });
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  const widthLimit = parseLimit(maxWidth);
+  const heightLimit = parseLimit(maxHeight);
+
+  useEffect(() => {
+    let isCurrent = true;
+    // eslint-disable-next-line react-hooks/set-state-in-effect -- mark the result stale before the debounced re-encode
+    setIsWorking(true);
+    setError(null);
+    onResult(null);
+
+    const timer = setTimeout(async () => {
+      try {
+        const source = new Blob([dataUrlToBytes(file.data) as BlobPart], {
+          type: file.type,
+        });
+        const optimized = await optimizeImage(source, {
+          format,
+          quality,
+          maxWidth: widthLimit,
+          maxHeight: heightLimit,
+        });
+        const bytes = new Uint8Array(await optimized.blob.arrayBuffer());
+        if (!isCurrent) return;
+
+        const { mime, ext } = IMAGE_OUTPUT_FORMATS[format];
+        const optimizedFile: StoredFile = {
+          name: withExtension(file.name, ext, "image"),
+          type: mime,
+          size: bytes.length,
+          data: `data:${mime};base64,${bytesToBase64(bytes)}`,
+          timestamp: file.timestamp,
+        };
+        setResult({ ...optimized, file: optimizedFile });
+        onResult(optimizedFile);
+      } catch (err) {
+        if (!isCurrent) return;
+        console.error("Image optimization error:", err);
+        setResult(null);
+        setError(
+          err instanceof TiffError ||
+            (err instanceof Error && err.message.startsWith("This browser"))
+            ? err.message
+            : "This image couldn't be decoded by the browser"
+        );
+      } finally {
+        if (isCurrent) setIsWorking(false);
+      }
+    }, OPTIMIZE_DELAY);
+
+    return () => {
+      isCurrent = false;
+      clearTimeout(timer);
+    };
+  }, [file, format, quality, widthLimit, heightLimit, onResult]);
+
+  const originalBase64 = getRawBase64(file.data).length;
+  const optimizedBase64 = result ? getRawBase64(result.file.data).length : 0;
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border p-3">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+        <div className="flex items-center gap-1.5">
+          <label htmlFor={formatId} className="text-xs text-muted-foreground">
+            Format
+          </label>
+          <select
+            id={formatId}
+            value={format}
+            onChange={(e) => setFormat(e.target.value as ImageOutputFormat)}
+            className={SELECT_CLASS}
+          >
+            {Object.entries(IMAGE_OUTPUT_FORMATS).map(([value, { label }]) => (
+              <option
+                key={value}
+                value={value}
+                disabled={supported[value as ImageOutputFormat] === false}
+              >
+                {supported[value as ImageOutputFormat] === false
+                  ? `${label} (not supported)`
+                  : label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex items-center gap-1.5">
+          <label htmlFor={widthId} className="text-xs text-muted-foreground">
+            Max width
+          </label>
+          <input
+            id={widthId}
+            type="number"
+            min={1}
+            value={maxWidth}
+            onChange={(e) => setMaxWidth(e.target.value)}
+            placeholder="Any"
+            className="w-20 h-7 px-2 text-xs tabular-nums bg-background text-foreground border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-ring"
+          />
+        </div>
+
+        <div className="flex items-center gap-1.5">
+          <label htmlFor={heightId} className="text-xs text-muted-foreground">
+            Max height
+          </label>
+          <input
+            id={heightId}
+            type="number"
+            min={1}
+            value={maxHeight}
+            onChange={(e) => setMaxHeight(e.target.value)}
+            placeholder="Any"
+            className="w-20 h-7 px-2 text-xs tabular-nums bg-background text-foreground border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-ring"
+          />
+        </div>
+
+        {IMAGE_OUTPUT_FORMATS[format].lossy && (
+          <div className="flex items-center gap-1.5">
+            <label
+              htmlFor={qualityId}
+              className="text-xs text-muted-foreground"
+            >
+              Quality
+            </label>
+            <input
+              id={qualityId}
+              type="range"
+              min={0.1}
+              max={1}
+              step={0.05}
+              value={quality}
+              onChange={(e) => setQuality(Number(e.target.value))}
+              className="w-24 accent-foreground"
+            />
+            <span className="w-8 text-xs text-muted-foreground tabular-nums">
+              {Math.round(quality * 100)}
+            </span>
+          </div>
+        )}
+      </div>
+
+      <table className="w-full text-xs tabular-nums">
+        <thead>
+          <tr className="text-muted-foreground">
+            <th className="text-left font-normal" scope="col">
+              <span className="sr-only">Measure</span>
+            </th>
+            <th className="text-right font-normal" scope="col">
+              Original
+            </th>
+            <th className="text-right font-normal" scope="col">
+              Optimized
+            </th>
+            <th className="w-14 text-right font-normal" scope="col">
+              Change
+            </th>
+          </tr>
+        </thead>
+        <tbody className="text-foreground">
+          <tr>
+            <th className="text-left font-normal text-muted-foreground">
+              Dimensions
+            </th>
+            <td className="text-right">
+              {result ? `${result.sourceWidth} × ${result.sourceHeight}` : "—"}
+            </td>
+            <td className="text-right">
+              {result ? `${result.width} × ${result.height}` : "—"}
+            </td>
+            <td />
+          </tr>
+          <tr>
+            <th className="text-left font-normal text-muted-foreground">
+              File size
+            </th>
+            <td className="text-right">{formatBytes(file.size)}</td>
+            <td className="text-right">
+              {result ? formatBytes(result.file.size) : "—"}
+            </td>
+            <td
+              className={cn(
+                "text-right",
+                result && result.file.size > file.size
+                  ? "text-amber-700 dark:text-amber-400"
+                  : "text-muted-foreground"
+              )}
+            >
+              {result ? formatChange(file.size, result.file.size) : ""}
+            </td>
+          </tr>
+          <tr>
+            <th className="text-left font-normal text-muted-foreground">
+              Base64 length
+            </th>
+            <td className="text-right">{originalBase64.toLocaleString()}</td>
+            <td className="text-right">
+              {result ? optimizedBase64.toLocaleString() : "—"}
+            </td>
+            <td className="text-right text-muted-foreground">
+              {result ? formatChange(originalBase64, optimizedBase64) : ""}
+            </td>
+          </tr>
+        </tbody>
+      </table>
+
+      {error ? (
+        <p
+          className="flex items-center gap-1.5 text-xs text-amber-700 dark:text-amber-400"
+          role="alert"
+        >
+          <AlertTriangle className="h-3.5 w-3.5 shrink-0" aria-hidden="true" />
+          {error}
+        </p>
+      ) : (
+        <p className="text-xs text-muted-foreground" role="status">
+          {isWorking
+            ? "Optimizing..."
+            : result && result.file.size > file.size
+            ? "The optimized image is larger than the original"
+            : "Re-encoding also removes all metadata"}
+        </p>
+      )}
+
+      {result && <BeforeAfter before={file.data} after={result.file.data} />}
+    </div>
+  );
+}
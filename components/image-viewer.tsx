@@ -0,0 +1,641 @@
+"use client";
+
+import type { ReactNode } from "react";
+
+import {
+  useState,
+  useEffect,
+  useLayoutEffect,
+  useRef,
+  useCallback,
+} from "react";
+import {
+  ZoomIn,
+  ZoomOut,
+  Scan,
+  Grid2x2,
+  Pipette,
+  Info,
+  Crosshair,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { formatBytes } from "@/lib/file-utils";
+import { getImageInfo, type ImageFormatInfo } from "@/lib/image-info";
+import { readImageMetadata, type ImageMetadata } from "@/lib/image-metadata";
+import {
+  GpsWarningBadge,
+  ImageMetadataPanel,
+} from "@/components/image-metadata-panel";
+
+const MIN_ZOOM = 0.05;
+const MAX_ZOOM = 64;
+/** Zoom change per toolbar click */
+const ZOOM_STEP = 1.25;
+/** From this zoom on, pixels are drawn as hard-edged squares */
+const PIXELATED_ZOOM = 2;
+/** Checkerboard cell size in screen pixels, whatever the zoom */
+const CHECKER_SIZE = 12;
+
+type ZoomMode = "fit" | "custom";
+
+interface ImageView {
+  zoom: number;
+  /** Offset of the image's top-left corner within the stage, in CSS pixels */
+  x: number;
+  y: number;
+}
+
+interface PixelSample {
+  x: number;
+  y: number;
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+interface ImageFileInfo {
+  size: number;
+  format: ImageFormatInfo | null;
+  metadata: ImageMetadata | null;
+}
+
+function clampZoom(zoom: number): number {
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+}
+
+/** Zoom by `factor`, keeping the stage point (px, py) fixed */
+function zoomAround(
+  view: ImageView,
+  factor: number,
+  px: number,
+  py: number
+): ImageView {
+  const zoom = clampZoom(view.zoom * factor);
+  const ratio = zoom / view.zoom;
+  return {
+    zoom,
+    x: px - (px - view.x) * ratio,
+    y: py - (py - view.y) * ratio,
+  };
+}
+
+/** Centre the image in the stage at the given zoom */
+function centredView(
+  zoom: number,
+  image: { width: number; height: number },
+  stage: { width: number; height: number }
+): ImageView {
+  return {
+    zoom,
+    x: (stage.width - image.width * zoom) / 2,
+    y: (stage.height - image.height * zoom) / 2,
+  };
+}
+
+function toHex({ r, g, b, a }: PixelSample): string {
+  const hex = [r, g, b, ...(a < 255 ? [a] : [])]
+    .map((value) => value.toString(16).padStart(2, "0"))
+    .join("");
+  return `#${hex}`;
+}
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div className="contents">
+      <dt className="text-muted-foreground">{label}</dt>
+      <dd className="text-foreground min-w-0 break-words">{children}</dd>
+    </div>
+  );
+}
+
+/**
+ * Pixel position and color under the cursor, styled after the PDF
+ * viewer's coordinate overlay
+ */
+function PixelOverlay({
+  sample,
+  width,
+  height,
+}: {
+  sample: PixelSample | null;
+  width: number;
+  height: number;
+}) {
+  if (!sample) return null;
+
+  const { r, g, b, a } = sample;
+
+  return (
+    <div
+      className="absolute bottom-3 left-3 flex flex-col gap-1.5 px-3 py-2.5 bg-background/95 backdrop-blur-sm border border-border rounded-lg shadow-lg text-xs font-mono tabular-nums select-none pointer-events-none z-10"
+      aria-live="polite"
+      aria-atomic="true"
+    >
+      <div className="text-[10px] text-muted-foreground/70 font-semibold uppercase tracking-wide mb-0.5">
+        Pixel
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Crosshair
+          className="h-3.5 w-3.5 text-muted-foreground shrink-0"
+          aria-hidden="true"
+        />
+        <div className="flex items-center gap-3">
+          <span className="text-muted-foreground">
+            X: <span className="text-foreground font-medium">{sample.x}</span>
+          </span>
+          <span className="text-muted-foreground">
+            Y: <span className="text-foreground font-medium">{sample.y}</span>
+          </span>
+          <span
+            className="text-muted-foreground/60 text-[10px]"
+            title="Image pixels: origin at top-left corner, Y increases downward"
+          >
+            ↘
+          </span>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 border-t border-border/50 pt-1.5">
+        <span
+          className="h-3.5 w-3.5 shrink-0 rounded-sm border border-border"
+          style={{ backgroundColor: `rgba(${r}, ${g}, ${b}, ${a / 255})` }}
+          aria-hidden="true"
+        />
+        <span className="text-foreground font-medium">{toHex(sample)}</span>
+        <span className="text-muted-foreground">
+          rgba({r}, {g}, {b}, {(a / 255).toFixed(2)})
+        </span>
+      </div>
+
+      <div className="flex items-center gap-2 text-[10px] text-muted-foreground/70 border-t border-border/50 pt-1.5 mt-0.5">
+        <span>
+          Image: {width} × {height}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+function ImageInfoPanel({
+  info,
+  error,
+  width,
+  height,
+}: {
+  info: ImageFileInfo | null;
+  error: boolean;
+  width: number;
+  height: number;
+}) {
+  const format = info?.format;
+
+  return (
+    <div className="p-3 text-xs">
+      <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+        <Field label="Dimensions">
+          <span className="tabular-nums">
+            {width} × {height} px
+          </span>
+        </Field>
+        {format && (format.width !== width || format.height !== height) && (
+          <Field label="Stored as">
+            <span className="tabular-nums">
+              {format.width} × {format.height} px
+            </span>
+          </Field>
+        )}
+        <Field label="File size">
+          <span className="tabular-nums">
+            {info ? formatBytes(info.size) : error ? "—" : "..."}
+          </span>
+        </Field>
+        {info && (
+          <>
+            <Field label="Format">{format?.format ?? "Unknown"}</Field>
+            <Field label="Bit depth">{format?.bitDepth ?? "—"}</Field>
+            <Field label="Color type">{format?.colorType ?? "—"}</Field>
+            <Field label="Frames">
+              <span className="tabular-nums">
+                {format ? format.frames : "—"}
+              </span>
+            </Field>
+            {format && format.notes.length > 0 && (
+              <Field label="Notes">
+                <ul>
+                  {format.notes.map((note) => (
+                    <li key={note}>{note}</li>
+                  ))}
+                </ul>
+              </Field>
+            )}
+          </>
+        )}
+      </dl>
+      {error && (
+        <p className="mt-2 text-muted-foreground" role="alert">
+          Couldn&apos;t read the image file
+        </p>
+      )}
+      {info?.metadata && (
+        <div className="mt-3 pt-3 border-t border-border">
+          <h3 className="mb-1.5 font-medium text-foreground">Metadata</h3>
+          <ImageMetadataPanel metadata={info.metadata} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface ImageViewerProps {
+  /** Data URL or object URL of the image */
+  data: string;
+  /**
+   * Drawable stand-in for `data` when the browser can't decode it, such as
+   * a PNG rendering of a TIFF. Info and metadata still come from `data`.
+   */
+  displayData?: string;
+  isFullscreen?: boolean;
+  /** Called when the browser can't decode the image */
+  onError?: () => void;
+}
+
+/**
+ * Image preview with wheel zoom, drag-to-pan, a 1:1 pixel mode, a pixel
+ * color readout and header details such as bit depth and frame count
+ */
+export function ImageViewer({
+  data,
+  displayData,
+  isFullscreen = false,
+  onError,
+}: ImageViewerProps) {
+  const src = displayData ?? data;
+  const stageRef = useRef<HTMLDivElement>(null);
+  const imageRef = useRef<HTMLImageElement>(null);
+  const samplerRef = useRef<CanvasRenderingContext2D | null>(null);
+  const dragRef = useRef<{
+    pointerX: number;
+    pointerY: number;
+    x: number;
+    y: number;
+  } | null>(null);
+  const [natural, setNatural] = useState<{
+    width: number;
+    height: number;
+  } | null>(null);
+  const [stageSize, setStageSize] = useState({ width: 0, height: 0 });
+  const [view, setView] = useState<ImageView>({ zoom: 1, x: 0, y: 0 });
+  const [zoomMode, setZoomMode] = useState<ZoomMode>("fit");
+  const [isDragging, setIsDragging] = useState(false);
+  const [showChecker, setShowChecker] = useState(true);
+  const [showPixel, setShowPixel] = useState(true);
+  const [showInfo, setShowInfo] = useState(false);
+  const [sample, setSample] = useState<PixelSample | null>(null);
+  const [info, setInfo] = useState<ImageFileInfo | null>(null);
+  const [infoError, setInfoError] = useState(false);
+
+  // A new image starts fitted, with a fresh sampling canvas
+  useEffect(() => {
+    // eslint-disable-next-line react-hooks/set-state-in-effect -- resets alongside the sampling canvas ref
+    setNatural(null);
+    setZoomMode("fit");
+    setSample(null);
+    samplerRef.current = null;
+  }, [src]);
+
+  // Headers and metadata are read up front so a GPS warning shows
+  // without opening the info panel
+  useEffect(() => {
+    let isMounted = true;
+    // eslint-disable-next-line react-hooks/set-state-in-effect -- clear the last image's info before reading
+    setInfo(null);
+    setInfoError(false);
+    // Works for both data URLs and the object URLs used for large payloads
+    fetch(data)
+      .then((response) => response.arrayBuffer())
+      .then((buffer) => {
+        const bytes = new Uint8Array(buffer);
+        if (isMounted) {
+          setInfo({
+            size: bytes.length,
+            format: getImageInfo(bytes),
+            metadata: readImageMetadata(bytes),
+          });
+        }
+      })
+      .catch((err) => {
+        console.error("Image info error:", err);
+        if (isMounted) setInfoError(true);
+      });
+    return () => {
+      isMounted = false;
+    };
+  }, [data]);
+
+  useEffect(() => {
+    const stage = stageRef.current;
+    if (!stage) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setStageSize({
+        width: entry.contentRect.width,
+        height: entry.contentRect.height,
+      });
+    });
+    observer.observe(stage);
+    return () => observer.disconnect();
+  }, []);
+
+  // Fit mode never enlarges, so small images open at their own size
+  useLayoutEffect(() => {
+    if (zoomMode !== "fit" || !natural || !stageSize.width) return;
+    const zoom = Math.min(
+      stageSize.width / natural.width,
+      stageSize.height / natural.height,
+      1
+    );
+    // eslint-disable-next-line react-hooks/set-state-in-effect -- fitting needs the measured stage size
+    setView(centredView(zoom, natural, stageSize));
+  }, [zoomMode, natural, stageSize]);
+
+  // React's wheel listener is passive, so preventDefault needs a native one
+  useEffect(() => {
+    const stage = stageRef.current;
+    if (!stage) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      // Line-based deltas (Firefox) are roughly 16px each
+      const delta = e.deltaMode === 1 ? e.deltaY * 16 : e.deltaY;
+      const rect = stage.getBoundingClientRect();
+      setZoomMode("custom");
+      setView((v) =>
+        zoomAround(
+          v,
+          Math.exp(-delta * 0.002),
+          e.clientX - rect.left,
+          e.clientY - rect.top
+        )
+      );
+    };
+    stage.addEventListener("wheel", handleWheel, { passive: false });
+    return () => stage.removeEventListener("wheel", handleWheel);
+  }, []);
+
+  const zoomBy = useCallback(
+    (factor: number) => {
+      setZoomMode("custom");
+      setView((v) =>
+        zoomAround(v, factor, stageSize.width / 2, stageSize.height / 2)
+      );
+    },
+    [stageSize]
+  );
+
+  const showActualPixels = useCallback(() => {
+    if (!natural) return;
+    setZoomMode("custom");
+    // One image pixel per device pixel, not per CSS pixel
+    setView(centredView(1 / window.devicePixelRatio, natural, stageSize));
+  }, [natural, stageSize]);
+
+  /** Lazily draw the image into a readable canvas for color sampling */
+  const getSampler = useCallback((): CanvasRenderingContext2D | null => {
+    if (samplerRef.current) return samplerRef.current;
+    const image = imageRef.current;
+    if (!image || !natural) return null;
+    const canvas = document.createElement("canvas");
+    canvas.width = natural.width;
+    canvas.height = natural.height;
+    const context = canvas.getContext("2d", { willReadFrequently: true });
+    if (!context) return null;
+    context.drawImage(image, 0, 0, natural.width, natural.height);
+    samplerRef.current = context;
+    return context;
+  }, [natural]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = {
+      pointerX: e.clientX,
+      pointerY: e.clientY,
+      x: view.x,
+      y: view.y,
+    };
+    setIsDragging(true);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (drag) {
+      setZoomMode("custom");
+      setView((v) => ({
+        ...v,
+        x: drag.x + e.clientX - drag.pointerX,
+        y: drag.y + e.clientY - drag.pointerY,
+      }));
+    }
+
+    if (!showPixel || !natural) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = Math.floor((e.clientX - rect.left - view.x) / view.zoom);
+    const y = Math.floor((e.clientY - rect.top - view.y) / view.zoom);
+    if (x < 0 || y < 0 || x >= natural.width || y >= natural.height) {
+      setSample(null);
+      return;
+    }
+    try {
+      const pixel = getSampler()?.getImageData(x, y, 1, 1).data;
+      setSample(
+        pixel
+          ? { x, y, r: pixel[0], g: pixel[1], b: pixel[2], a: pixel[3] }
+          : null
+      );
+    } catch {
+      // Cross-origin images can't be read back
+      setSample(null);
+    }
+  };
+
+  const endDrag = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragRef.current) return;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    dragRef.current = null;
+    setIsDragging(false);
+  };
+
+  // The image is scaled by the transform, so the cells are scaled back down
+  const checkerSize = (CHECKER_SIZE * 2) / view.zoom;
+  const checkerboard = `repeating-conic-gradient(#d4d4d4 0% 25%, #ffffff 0% 50%) 0 0 / ${checkerSize}px ${checkerSize}px`;
+
+  return (
+    <div
+      className={`overflow-hidden flex flex-col ${
+        isFullscreen ? "h-full" : "rounded-lg border border-border bg-muted/30"
+      }`}
+    >
+      <div
+        className="flex flex-1 min-h-0"
+        style={isFullscreen ? undefined : { height: "400px" }}
+      >
+        <div className="relative flex-1 min-w-0">
+          <div
+            ref={stageRef}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={endDrag}
+            onPointerCancel={endDrag}
+            onPointerLeave={() => setSample(null)}
+            className={`absolute inset-0 overflow-hidden touch-none select-none bg-neutral-100 dark:bg-neutral-900 ${
+              isDragging ? "cursor-grabbing" : "cursor-grab"
+            }`}
+          >
+            <img
+              ref={imageRef}
+              src={src || "/placeholder.svg"}
+              alt={
+                isFullscreen
+                  ? "Decoded document preview in fullscreen"
+                  : "Decoded document preview"
+              }
+              draggable={false}
+              onLoad={(e) =>
+                setNatural({
+                  // SVGs without a size report 0
+                  width: e.currentTarget.naturalWidth || 300,
+                  height: e.currentTarget.naturalHeight || 150,
+                })
+              }
+              onError={onError}
+              className="absolute left-0 top-0 max-w-none origin-top-left"
+              style={{
+                width: natural?.width,
+                height: natural?.height,
+                visibility: natural ? "visible" : "hidden",
+                transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})`,
+                imageRendering:
+                  view.zoom >= PIXELATED_ZOOM ? "pixelated" : "auto",
+                background: showChecker ? checkerboard : undefined,
+              }}
+            />
+          </div>
+          {info?.metadata?.hasLocation && (
+            <GpsWarningBadge
+              onClick={() => setShowInfo(true)}
+              className="absolute top-3 left-3 z-10"
+            />
+          )}
+          {natural && (
+            <PixelOverlay
+              sample={showPixel ? sample : null}
+              width={natural.width}
+              height={natural.height}
+            />
+          )}
+        </div>
+
+        {showInfo && natural && (
+          <aside
+            aria-label="Image information"
+            className="w-64 shrink-0 overflow-y-auto border-l border-border bg-background"
+          >
+            <ImageInfoPanel
+              info={info}
+              error={infoError}
+              width={natural.width}
+              height={natural.height}
+            />
+          </aside>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-x-4 gap-y-2 p-3 border-t border-border bg-background">
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => zoomBy(1 / ZOOM_STEP)}
+            disabled={view.zoom <= MIN_ZOOM}
+            aria-label="Zoom out"
+          >
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <span
+            className="text-xs text-muted-foreground tabular-nums w-12 text-center"
+            aria-live="polite"
+          >
+            {Math.round(view.zoom * 100)}%
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => zoomBy(ZOOM_STEP)}
+            disabled={view.zoom >= MAX_ZOOM}
+            aria-label="Zoom in"
+          >
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+          <Button
+            variant={zoomMode === "fit" ? "secondary" : "outline"}
+            size="sm"
+            onClick={() => setZoomMode("fit")}
+            aria-label="Fit to view"
+            aria-pressed={zoomMode === "fit"}
+          >
+            <Scan className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={showActualPixels}
+            disabled={!natural}
+            className="text-xs tabular-nums"
+            aria-label="Actual pixels, one image pixel per screen pixel"
+          >
+            1:1
+          </Button>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button
+            variant={showChecker ? "secondary" : "outline"}
+            size="sm"
+            onClick={() => setShowChecker((s) => !s)}
+            className="gap-1.5"
+            aria-label="Checkerboard background for transparency"
+            aria-pressed={showChecker}
+          >
+            <Grid2x2 className="h-4 w-4" />
+            <span className="hidden sm:inline text-xs">Alpha</span>
+          </Button>
+          <Button
+            variant={showPixel ? "secondary" : "outline"}
+            size="sm"
+            onClick={() => setShowPixel((s) => !s)}
+            className="gap-1.5"
+            aria-label={showPixel ? "Hide pixel readout" : "Show pixel readout"}
+            aria-pressed={showPixel}
+          >
+            <Pipette className="h-4 w-4" />
+            <span className="hidden sm:inline text-xs">Pixel</span>
+          </Button>
+          <Button
+            variant={showInfo ? "secondary" : "outline"}
+            size="sm"
+            onClick={() => setShowInfo((s) => !s)}
+            disabled={!natural}
+            className="gap-1.5"
+            aria-label={
+              showInfo ? "Hide image information" : "Show image information"
+            }
+            aria-pressed={showInfo}
+          >
+            <Info className="h-4 w-4" />
+            <span className="hidden sm:inline text-xs">Info</span>
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,316 @@
+"use client";
+
+import { useState, useMemo, useCallback, useId } from "react";
+import {
+  AlertCircle,
+  AlertTriangle,
+  CheckCircle2,
+  Clock,
+  KeyRound,
+  XCircle,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { bytesToBase64, formatBytes, toBase64Url } from "@/lib/file-utils";
+import {
+  getJwtTimeClaims,
+  getJwtTimeStatus,
+  isUnsecuredJwt,
+  parseJwt,
+  verifyJwtSignature,
+  type JwtTimeStatus,
+} from "@/lib/jwt";
+import { cn } from "@/lib/utils";
+
+interface JwtInspectorProps {
+  token: string;
+}
+
+type VerifyResult =
+  | { state: "idle" }
+  | { state: "valid" }
+  | { state: "invalid" }
+  | { state: "error"; message: string };
+
+const CLAIM_LABELS: Record<string, string> = {
+  iat: "Issued at",
+  nbf: "Not before",
+  exp: "Expires",
+};
+
+const STATUS_STYLES: Record<
+  JwtTimeStatus,
+  { label: string; className: string }
+> = {
+  valid: {
+    label: "Within validity window",
+    className: "bg-emerald-500/10 text-emerald-700 dark:text-emerald-400",
+  },
+  expired: {
+    label: "Expired",
+    className: "bg-destructive/10 text-destructive",
+  },
+  "not-yet-valid": {
+    label: "Not yet valid",
+    className: "bg-amber-500/10 text-amber-700 dark:text-amber-400",
+  },
+};
+
+/** "in 5 minutes" / "3 days ago" */
+function formatRelative(date: Date, now: Date): string {
+  const seconds = Math.round((date.getTime() - now.getTime()) / 1000);
+  const units: [Intl.RelativeTimeFormatUnit, number][] = [
+    ["year", 31536000],
+    ["month", 2592000],
+    ["day", 86400],
+    ["hour", 3600],
+    ["minute", 60],
+  ];
+  const formatter = new Intl.RelativeTimeFormat(undefined, { numeric: "auto" });
+  for (const [unit, size] of units) {
+    if (Math.abs(seconds) >= size) {
+      return formatter.format(Math.round(seconds / size), unit);
+    }
+  }
+  return formatter.format(seconds, "second");
+}
+
+function JsonBlock({ title, value }: { title: string; value: unknown }) {
+  return (
+    <div>
+      <h3 className="text-xs font-medium text-muted-foreground mb-1.5">
+        {title}
+      </h3>
+      <pre className="p-3 text-xs font-mono text-foreground bg-muted/30 border border-border rounded-lg overflow-x-auto max-h-72 overflow-y-auto">
+        <code>{JSON.stringify(value, null, 2)}</code>
+      </pre>
+    </div>
+  );
+}
+
+/**
+ * Decoded view of a JWT: header, payload, time claims and signature,
+ * with optional local signature verification.
+ */
+export function JwtInspector({ token }: JwtInspectorProps) {
+  const [keyText, setKeyText] = useState("");
+  const [verifyResult, setVerifyResult] = useState<VerifyResult>({
+    state: "idle",
+  });
+  const [isVerifying, setIsVerifying] = useState(false);
+  const keyId = useId();
+
+  const parsed = useMemo(() => {
+    try {
+      return { jwt: parseJwt(token), error: null };
+    } catch (err) {
+      return {
+        jwt: null,
+        error: err instanceof Error ? err.message : "Invalid JWT",
+      };
+    }
+  }, [token]);
+
+  // Reset verification when the token changes
+  const [prevToken, setPrevToken] = useState(token);
+  if (token !== prevToken) {
+    setPrevToken(token);
+    setVerifyResult({ state: "idle" });
+  }
+
+  const handleVerify = useCallback(async () => {
+    if (!parsed.jwt) return;
+    setIsVerifying(true);
+    try {
+      const valid = await verifyJwtSignature(parsed.jwt, keyText);
+      setVerifyResult({ state: valid ? "valid" : "invalid" });
+    } catch (err) {
+      setVerifyResult({
+        state: "error",
+        message: err instanceof Error ? err.message : "Verification failed",
+      });
+    } finally {
+      setIsVerifying(false);
+    }
+  }, [parsed.jwt, keyText]);
+
+  if (!parsed.jwt) {
+    return (
+      <div
+        role="alert"
+        className="flex items-start gap-2 text-sm text-destructive"
+      >
+        <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" aria-hidden="true" />
+        <span>{parsed.error}</span>
+      </div>
+    );
+  }
+
+  const { jwt } = parsed;
+  const now = new Date();
+  const alg = String(jwt.header.alg ?? "unknown");
+  const unsecured = isUnsecuredJwt(jwt);
+  const timeClaims = getJwtTimeClaims(jwt);
+  const status = getJwtTimeStatus(jwt, now);
+  const isSymmetric = alg.startsWith("HS");
+
+  return (
+    <Card className="overflow-hidden shadow-sm py-0">
+      <CardContent className="p-0">
+        {/* Summary */}
+        <div className="flex flex-wrap items-center gap-2 p-4 border-b border-border">
+          <span className="px-2 py-0.5 rounded-md bg-muted text-xs font-mono text-foreground">
+            {alg}
+          </span>
+          {jwt.header.typ !== undefined && (
+            <span className="px-2 py-0.5 rounded-md bg-muted text-xs font-mono text-muted-foreground">
+              {String(jwt.header.typ)}
+            </span>
+          )}
+          {timeClaims.length > 0 && (
+            <span
+              className={cn(
+                "inline-flex items-center gap-1 px-2 py-0.5 rounded-md text-xs font-medium",
+                STATUS_STYLES[status].className
+              )}
+            >
+              <Clock className="w-3 h-3" aria-hidden="true" />
+              {STATUS_STYLES[status].label}
+            </span>
+          )}
+        </div>
+
+        <div className="p-4 space-y-4">
+          {unsecured && (
+            <div
+              role="alert"
+              className="flex items-start gap-2 p-3 rounded-lg bg-destructive/10 text-sm text-destructive"
+            >
+              <AlertTriangle
+                className="w-4 h-4 mt-0.5 shrink-0"
+                aria-hidden="true"
+              />
+              <span>
+                This token uses <code className="font-mono">alg: none</code> and
+                is not signed. Anyone can forge it; never accept it as
+                authentic.
+              </span>
+            </div>
+          )}
+
+          {/* Time claims */}
+          {timeClaims.length > 0 && (
+            <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1.5 text-xs">
+              {timeClaims.map((claim) => (
+                <div key={claim.name} className="contents">
+                  <dt className="text-muted-foreground">
+                    {CLAIM_LABELS[claim.name]}{" "}
+                    <code className="font-mono">({claim.name})</code>
+                  </dt>
+                  <dd className="text-foreground tabular-nums">
+                    {claim.date.toLocaleString()}{" "}
+                    <span className="text-muted-foreground">
+                      · {formatRelative(claim.date, now)}
+                    </span>
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          )}
+
+          <JsonBlock title="Header" value={jwt.header} />
+          <JsonBlock title="Payload" value={jwt.payload} />
+
+          {/* Signature */}
+          <div>
+            <h3 className="text-xs font-medium text-muted-foreground mb-1.5">
+              Signature · {formatBytes(jwt.signature.length)}
+            </h3>
+            <pre className="p-3 text-xs font-mono text-muted-foreground bg-muted/30 border border-border rounded-lg overflow-x-auto">
+              <code className="break-all whitespace-pre-wrap">
+                {jwt.signature.length > 0
+                  ? toBase64Url(bytesToBase64(jwt.signature))
+                  : "(empty)"}
+              </code>
+            </pre>
+          </div>
+
+          {/* Verification */}
+          {!unsecured && (
+            <div className="space-y-2 pt-2 border-t border-border">
+              <label
+                htmlFor={keyId}
+                className="flex items-center gap-1.5 text-xs font-medium text-foreground"
+              >
+                <KeyRound className="w-3.5 h-3.5" aria-hidden="true" />
+                {isSymmetric
+                  ? "Verify with shared secret"
+                  : "Verify with public key (JWK, JWKS or PEM)"}
+              </label>
+              <textarea
+                id={keyId}
+                value={keyText}
+                onChange={(e) => {
+                  setKeyText(e.target.value);
+                  setVerifyResult({ state: "idle" });
+                }}
+                placeholder={
+                  isSymmetric
+                    ? "your-256-bit-secret"
+                    : '{"kty":"RSA",...} or -----BEGIN PUBLIC KEY-----'
+                }
+                className="w-full h-20 px-3 py-2 font-mono text-xs bg-background text-foreground border border-border rounded-lg resize-y focus:outline-none focus:ring-2 focus:ring-ring placeholder:text-muted-foreground/50"
+                spellCheck={false}
+                autoComplete="off"
+                autoCorrect="off"
+                autoCapitalize="off"
+              />
+              <div className="flex items-center gap-3">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={handleVerify}
+                  disabled={!keyText.trim() || isVerifying}
+                >
+                  {isVerifying ? "Verifying..." : "Verify signature"}
+                </Button>
+                <p className="text-xs text-muted-foreground">
+                  Verified locally with WebCrypto
+                </p>
+              </div>
+
+              {verifyResult.state === "valid" && (
+                <p
+                  role="status"
+                  className="flex items-center gap-1.5 text-sm text-emerald-700 dark:text-emerald-400"
+                >
+                  <CheckCircle2 className="w-4 h-4" aria-hidden="true" />
+                  Signature verified
+                </p>
+              )}
+              {verifyResult.state === "invalid" && (
+                <p
+                  role="alert"
+                  className="flex items-center gap-1.5 text-sm text-destructive"
+                >
+                  <XCircle className="w-4 h-4" aria-hidden="true" />
+                  Invalid signature
+                </p>
+              )}
+              {verifyResult.state === "error" && (
+                <p
+                  role="alert"
+                  className="flex items-center gap-1.5 text-sm text-destructive"
+                >
+                  <AlertCircle className="w-4 h-4" aria-hidden="true" />
+                  {verifyResult.message}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,264 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { DocumentPreview } from "@/components/document-preview";
+import { FileTypeIndicator } from "@/components/file-type-indicator";
+import { Download, GitBranch, Eye, AlertCircle } from "lucide-react";
+import { bytesToBase64, formatBytes } from "@/lib/file-utils";
+import {
+  applyCandidate,
+  createInputLayer,
+  findCandidates,
+  peelLayers,
+  type LayerCandidate,
+  type PipelineLayer,
+} from "@/lib/decode-pipeline";
+import { cn } from "@/lib/utils";
+
+interface LayerPipelineProps {
+  /** Raw text to peel, usually the decoder input */
+  input: string;
+}
+
+/**
+ * Shows each decoding step of a multi-layer payload.
+ * Any step can be inspected, downloaded, or used as a branch point for a
+ * different transform than the one picked automatically.
+ */
+export function LayerPipeline({ input }: LayerPipelineProps) {
+  const [layers, setLayers] = useState<PipelineLayer[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isPeeling, setIsPeeling] = useState(false);
+  const [branch, setBranch] = useState<{
+    layerId: string;
+    candidates: LayerCandidate[];
+  } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Peel from scratch whenever the input changes
+  useEffect(() => {
+    let isCurrent = true;
+    const start = createInputLayer(input);
+
+    // eslint-disable-next-line react-hooks/set-state-in-effect -- restart from the new input before peeling
+    setLayers([start]);
+    setSelectedId(start.id);
+    setBranch(null);
+    setError(null);
+    setIsPeeling(true);
+
+    peelLayers(start)
+      .then((peeled) => {
+        if (!isCurrent) return;
+        const all = [start, ...peeled];
+        setLayers(all);
+        setSelectedId(all[all.length - 1].id);
+      })
+      .finally(() => {
+        if (isCurrent) setIsPeeling(false);
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [input]);
+
+  const handleShowBranches = useCallback(
+    async (layer: PipelineLayer) => {
+      if (branch?.layerId === layer.id) {
+        setBranch(null);
+        return;
+      }
+      setError(null);
+      const candidates = await findCandidates(layer.bytes);
+      setBranch({ layerId: layer.id, candidates });
+    },
+    [branch]
+  );
+
+  const handleBranch = useCallback(
+    async (index: number, candidate: LayerCandidate) => {
+      const from = layers[index];
+      setBranch(null);
+      setError(null);
+      setIsPeeling(true);
+
+      try {
+        const next = await applyCandidate(from, candidate);
+        if (!next) {
+          setError(`Could not apply ${candidate.label} to step ${index + 1}`);
+          return;
+        }
+        const peeled = await peelLayers(next, index + 2);
+        const all = [...layers.slice(0, index + 1), next, ...peeled];
+        setLayers(all);
+        setSelectedId(all[all.length - 1].id);
+      } finally {
+        setIsPeeling(false);
+      }
+    },
+    [layers]
+  );
+
+  const handleDownload = useCallback((layer: PipelineLayer, index: number) => {
+    const blob = new Blob([layer.bytes as BlobPart], { type: layer.mime.mime });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `layer-${index + 1}.${layer.mime.ext}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }, []);
+
+  const selected = layers.find((layer) => layer.id === selectedId) ?? null;
+
+  const selectedDocument = useMemo(
+    () =>
+      selected && {
+        data: `data:${selected.mime.mime};base64,${bytesToBase64(
+          selected.bytes
+        )}`,
+        mimeType: selected.mime.mime,
+        extension: selected.mime.ext,
+      },
+    [selected]
+  );
+
+  return (
+    <div className="space-y-4">
+      <Card className="overflow-hidden shadow-sm py-0">
+        <CardContent className="p-0">
+          <ol aria-label="Decoding steps" className="divide-y divide-border">
+            {layers.map((layer, index) => (
+              <li key={layer.id}>
+                <div
+                  className={cn(
+                    "flex items-center justify-between gap-3 p-3",
+                    layer.id === selectedId && "bg-muted/40"
+                  )}
+                >
+                  <div className="flex items-center gap-3 min-w-0">
+                    <span
+                      className="flex items-center justify-center w-6 h-6 rounded-full bg-muted text-xs font-medium text-muted-foreground shrink-0 tabular-nums"
+                      aria-hidden="true"
+                    >
+                      {index + 1}
+                    </span>
+                    <FileTypeIndicator
+                      mimeType={layer.mime.mime}
+                      extension={layer.mime.ext}
+                    />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-foreground truncate">
+                        {layer.label}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {layer.mime.mime} · {formatBytes(layer.bytes.length)}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Button
+                      type="button"
+                      variant={layer.id === selectedId ? "secondary" : "ghost"}
+                      size="icon-sm"
+                      onClick={() => setSelectedId(layer.id)}
+                      aria-label={`Inspect step ${index + 1}`}
+                      aria-pressed={layer.id === selectedId}
+                    >
+                      <Eye className="w-4 h-4" aria-hidden="true" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon-sm"
+                      onClick={() => handleDownload(layer, index)}
+                      aria-label={`Download step ${index + 1}`}
+                    >
+                      <Download className="w-4 h-4" aria-hidden="true" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant={
+                        branch?.layerId === layer.id ? "secondary" : "ghost"
+                      }
+                      size="icon-sm"
+                      onClick={() => handleShowBranches(layer)}
+                      disabled={isPeeling}
+                      aria-label={`Branch from step ${index + 1}`}
+                      aria-expanded={branch?.layerId === layer.id}
+                    >
+                      <GitBranch className="w-4 h-4" aria-hidden="true" />
+                    </Button>
+                  </div>
+                </div>
+
+                {branch?.layerId === layer.id && (
+                  <div className="px-3 pb-3 pl-12 space-y-1.5">
+                    {branch.candidates.length === 0 ? (
+                      <p className="text-xs text-muted-foreground">
+                        No further transforms detected for this step
+                      </p>
+                    ) : (
+                      <>
+                        <p className="text-xs text-muted-foreground">
+                          Continue from here with:
+                        </p>
+                        <div className="flex flex-wrap gap-1.5">
+                          {branch.candidates.map((candidate) => (
+                            <Button
+                              key={candidate.label}
+                              type="button"
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleBranch(index, candidate)}
+                              className="max-w-full"
+                            >
+                              <span className="truncate">
+                                {candidate.label}
+                              </span>
+                            </Button>
+                          ))}
+                        </div>
+                      </>
+                    )}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ol>
+
+          {isPeeling && (
+            <div
+              className="flex items-center gap-2 p-3 border-t border-border text-xs text-muted-foreground"
+              role="status"
+            >
+              <div className="h-3.5 w-3.5 animate-spin rounded-full border-2 border-foreground/20 border-t-foreground" />
+              Peeling layers...
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {error && (
+        <div
+          role="alert"
+          className="flex items-start gap-2 text-sm text-destructive"
+        >
+          <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" aria-hidden="true" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {selectedDocument && (
+        <section aria-label="Selected step preview">
+          <DocumentPreview document={selectedDocument} />
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,568 @@
+"use client";
+
+import type React from "react";
+
+import { useState, useRef, useCallback } from "react";
+import {
+  MousePointer2,
+  SquareDashed,
+  Ruler,
+  MapPin,
+  Upload,
+  Download,
+  Trash2,
+  X,
+  Check,
+  AlertTriangle,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { PageViewport } from "@/lib/pdfjs";
+import {
+  PDF_ANNOTATION_LABELS,
+  describeAnnotationSize,
+  exportAnnotations,
+  parseAnnotations,
+  type PdfAnnotation,
+  type PdfAnnotationKind,
+} from "@/lib/pdf-annotations";
+import { cn } from "@/lib/utils";
+
+/** "select" leaves the page to text selection; the others draw */
+export type PdfAnnotationTool = "select" | PdfAnnotationKind;
+
+export type NewPdfAnnotation = Omit<PdfAnnotation, "id">;
+
+const TOOLS: {
+  value: PdfAnnotationTool;
+  label: string;
+  icon: typeof Ruler;
+}[] = [
+  { value: "select", label: "Select text", icon: MousePointer2 },
+  { value: "region", label: "Draw region", icon: SquareDashed },
+  { value: "measure", label: "Measure distance", icon: Ruler },
+  { value: "marker", label: "Drop marker", icon: MapPin },
+];
+
+const KIND_ICONS: Record<PdfAnnotationKind, typeof Ruler> = {
+  region: SquareDashed,
+  measure: Ruler,
+  marker: MapPin,
+};
+
+const KIND_COLORS: Record<PdfAnnotationKind, string> = {
+  region: "text-sky-600",
+  measure: "text-emerald-600",
+  marker: "text-rose-600",
+};
+
+/** Drags shorter than this, in pixels, are treated as stray clicks */
+const MIN_DRAG = 3;
+
+type Point = [number, number];
+
+interface PdfAnnotationLayerProps {
+  viewport: PageViewport;
+  page: number;
+  tool: PdfAnnotationTool;
+  /** Annotations placed on this page */
+  annotations: PdfAnnotation[];
+  /** Default name for a new annotation, numbered across the document */
+  nameFor: (kind: PdfAnnotationKind) => string;
+  onCreate: (annotation: NewPdfAnnotation) => void;
+}
+
+/**
+ * Draws the annotations of one page, and takes the pointer while a drawing
+ * tool is active
+ */
+export function PdfAnnotationLayer({
+  viewport,
+  page,
+  tool,
+  annotations,
+  nameFor,
+  onCreate,
+}: PdfAnnotationLayerProps) {
+  const layerRef = useRef<HTMLDivElement>(null);
+  const [draft, setDraft] = useState<{ start: Point; end: Point } | null>(null);
+  /** A dropped marker waiting for its name, in PDF coordinates */
+  const [pendingMarker, setPendingMarker] = useState<{
+    at: Point;
+    name: string;
+  } | null>(null);
+
+  // Switching tools abandons an unnamed marker
+  const [prevTool, setPrevTool] = useState(tool);
+  if (tool !== prevTool) {
+    setPrevTool(tool);
+    if (tool !== "marker") setPendingMarker(null);
+  }
+
+  const pointerPosition = (e: React.PointerEvent): Point => {
+    const rect = layerRef.current!.getBoundingClientRect();
+    return [e.clientX - rect.left, e.clientY - rect.top];
+  };
+
+  const toPdf = useCallback(
+    ([x, y]: Point): Point => {
+      const [pdfX, pdfY] = viewport.convertToPdfPoint(x, y);
+      return [pdfX, pdfY];
+    },
+    [viewport]
+  );
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (tool === "select" || e.button !== 0) return;
+    const point = pointerPosition(e);
+
+    if (tool === "marker") {
+      setPendingMarker({
+        at: toPdf(point),
+        name: pendingMarker?.name ?? nameFor("marker"),
+      });
+      return;
+    }
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDraft({ start: point, end: point });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!draft) return;
+    setDraft({ ...draft, end: pointerPosition(e) });
+  };
+
+  const handlePointerUp = () => {
+    if (!draft || tool === "select" || tool === "marker") return;
+    setDraft(null);
+    const { start, end } = draft;
+    if (Math.hypot(end[0] - start[0], end[1] - start[1]) < MIN_DRAG) return;
+
+    const [x1, y1] = toPdf(start);
+    const [x2, y2] = toPdf(end);
+    onCreate(
+      tool === "region"
+        ? {
+            kind: "region",
+            page,
+            x: Math.min(x1, x2),
+            y: Math.min(y1, y2),
+            width: Math.abs(x2 - x1),
+            height: Math.abs(y2 - y1),
+            name: nameFor("region"),
+          }
+        : {
+            kind: "measure",
+            page,
+            x: x1,
+            y: y1,
+            width: x2 - x1,
+            height: y2 - y1,
+            name: nameFor("measure"),
+          }
+    );
+  };
+
+  // The draft is shown as the annotation it will become
+  const draftAnnotation: PdfAnnotation | null =
+    draft && (tool === "region" || tool === "measure")
+      ? (() => {
+          const [x1, y1] = toPdf(draft.start);
+          const [x2, y2] = toPdf(draft.end);
+          return {
+            id: "draft",
+            kind: tool,
+            page,
+            x: tool === "region" ? Math.min(x1, x2) : x1,
+            y: tool === "region" ? Math.min(y1, y2) : y1,
+            width: tool === "region" ? Math.abs(x2 - x1) : x2 - x1,
+            height: tool === "region" ? Math.abs(y2 - y1) : y2 - y1,
+            name: "",
+          };
+        })()
+      : null;
+
+  const placeMarker = () => {
+    if (!pendingMarker) return;
+    const [x, y] = pendingMarker.at;
+    const name = pendingMarker.name.trim() || nameFor("marker");
+    onCreate({ kind: "marker", page, x, y, width: 0, height: 0, name });
+    setPendingMarker(null);
+  };
+
+  const pendingPosition =
+    pendingMarker && viewport.convertToViewportPoint(...pendingMarker.at);
+
+  return (
+    <div
+      ref={layerRef}
+      className={cn(
+        "absolute inset-0 z-10 touch-none",
+        tool === "select" ? "pointer-events-none" : "cursor-crosshair"
+      )}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => setDraft(null)}
+    >
+      <svg
+        className="absolute inset-0 overflow-visible pointer-events-none"
+        width={viewport.width}
+        height={viewport.height}
+        aria-hidden="true"
+      >
+        {annotations.map((annotation) => (
+          <AnnotationShape
+            key={annotation.id}
+            annotation={annotation}
+            viewport={viewport}
+          />
+        ))}
+        {draftAnnotation && (
+          <AnnotationShape annotation={draftAnnotation} viewport={viewport} />
+        )}
+        {pendingPosition && (
+          <circle
+            cx={pendingPosition[0]}
+            cy={pendingPosition[1]}
+            r={4}
+            className={cn("fill-current", KIND_COLORS.marker)}
+            stroke="white"
+            strokeWidth={1.5}
+          />
+        )}
+      </svg>
+
+      {pendingMarker && pendingPosition && (
+        <form
+          className="absolute flex items-center gap-0.5 p-0.5 bg-background border border-border rounded-md shadow-sm cursor-auto"
+          style={{ left: pendingPosition[0] + 8, top: pendingPosition[1] - 14 }}
+          // Clicks inside the form mustn't drop another marker
+          onPointerDown={(e) => e.stopPropagation()}
+          onSubmit={(e) => {
+            e.preventDefault();
+            placeMarker();
+          }}
+        >
+          <input
+            value={pendingMarker.name}
+            onChange={(e) =>
+              setPendingMarker({ ...pendingMarker, name: e.target.value })
+            }
+            onKeyDown={(e) => {
+              if (e.key === "Escape") setPendingMarker(null);
+            }}
+            aria-label="Marker name"
+            autoFocus
+            onFocus={(e) => e.target.select()}
+            className="w-36 h-6 px-1.5 text-xs bg-background text-foreground border border-border rounded-sm focus:outline-none focus:ring-2 focus:ring-ring"
+          />
+          <Button type="submit" variant="ghost" size="icon-sm">
+            <Check className="h-3.5 w-3.5" aria-hidden="true" />
+            <span className="sr-only">Place marker</span>
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon-sm"
+            onClick={() => setPendingMarker(null)}
+          >
+            <X className="h-3.5 w-3.5" aria-hidden="true" />
+            <span className="sr-only">Cancel marker</span>
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
+
+function AnnotationShape({
+  annotation,
+  viewport,
+}: {
+  annotation: PdfAnnotation;
+  viewport: PageViewport;
+}) {
+  const [x1, y1] = viewport.convertToViewportPoint(annotation.x, annotation.y);
+  const [x2, y2] = viewport.convertToViewportPoint(
+    annotation.x + annotation.width,
+    annotation.y + annotation.height
+  );
+  const label = annotation.name
+    ? `${annotation.name} · ${describeAnnotationSize(annotation)}`
+    : describeAnnotationSize(annotation);
+  const labelProps = {
+    className: "fill-current text-[10px] font-mono",
+    stroke: "white",
+    strokeWidth: 3,
+    paintOrder: "stroke",
+  } as const;
+
+  if (annotation.kind === "region") {
+    const left = Math.min(x1, x2);
+    const top = Math.min(y1, y2);
+    return (
+      <g className={KIND_COLORS.region}>
+        <rect
+          x={left}
+          y={top}
+          width={Math.abs(x2 - x1)}
+          height={Math.abs(y2 - y1)}
+          className="fill-current stroke-current"
+          fillOpacity={0.1}
+          strokeWidth={1.5}
+          strokeDasharray="4 2"
+        />
+        <text x={left} y={top - 4} {...labelProps}>
+          {label}
+        </text>
+      </g>
+    );
+  }
+
+  if (annotation.kind === "measure") {
+    return (
+      <g className={KIND_COLORS.measure}>
+        <line
+          x1={x1}
+          y1={y1}
+          x2={x2}
+          y2={y2}
+          className="stroke-current"
+          strokeWidth={1.5}
+        />
+        <circle cx={x1} cy={y1} r={2.5} className="fill-current" />
+        <circle cx={x2} cy={y2} r={2.5} className="fill-current" />
+        <text x={(x1 + x2) / 2 + 6} y={(y1 + y2) / 2 - 6} {...labelProps}>
+          {label}
+        </text>
+      </g>
+    );
+  }
+
+  return (
+    <g className={KIND_COLORS.marker}>
+      <circle
+        cx={x1}
+        cy={y1}
+        r={4}
+        className="fill-current"
+        stroke="white"
+        strokeWidth={1.5}
+      />
+      <text x={x1 + 7} y={y1 + 3} {...labelProps}>
+        {annotation.name}
+      </text>
+    </g>
+  );
+}
+
+function downloadText(text: string, filename: string, type: string) {
+  const blob = new Blob([text], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+interface PdfAnnotationToolsProps {
+  tool: PdfAnnotationTool;
+  onToolChange: (tool: PdfAnnotationTool) => void;
+  annotations: PdfAnnotation[];
+  onChange: (annotations: PdfAnnotation[]) => void;
+  totalPages: number;
+  onGoToPage: (page: number) => void;
+}
+
+/**
+ * Tool picker, JSON import/export and the list of placed annotations
+ */
+export function PdfAnnotationTools({
+  tool,
+  onToolChange,
+  annotations,
+  onChange,
+  totalPages,
+  onGoToPage,
+}: PdfAnnotationToolsProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const handleImport = useCallback(
+    async (file: File) => {
+      try {
+        const imported = parseAnnotations(await file.text(), totalPages);
+        onChange([...annotations, ...imported]);
+        setImportError(null);
+      } catch (err) {
+        setImportError(
+          err instanceof Error ? err.message : "Failed to import annotations"
+        );
+      }
+    },
+    [annotations, onChange, totalPages]
+  );
+
+  const rename = (id: string, name: string) =>
+    onChange(annotations.map((a) => (a.id === id ? { ...a, name } : a)));
+
+  return (
+    <div className="border-b border-border bg-background">
+      <div className="flex flex-wrap items-center gap-2 p-2">
+        <div
+          role="radiogroup"
+          aria-label="PDF tool"
+          className="flex items-center rounded-md border border-border p-0.5"
+        >
+          {TOOLS.map(({ value, label, icon: Icon }) => (
+            <button
+              key={value}
+              type="button"
+              role="radio"
+              aria-checked={tool === value}
+              aria-label={label}
+              title={label}
+              onClick={() => onToolChange(value)}
+              className={cn(
+                "h-7 w-7 inline-flex items-center justify-center rounded-sm transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+                tool === value
+                  ? "bg-secondary text-foreground"
+                  : "text-muted-foreground hover:text-foreground"
+              )}
+            >
+              <Icon className="h-4 w-4" aria-hidden="true" />
+            </button>
+          ))}
+        </div>
+
+        <span className="text-xs text-muted-foreground">
+          {tool === "select"
+            ? `${annotations.length} ${
+                annotations.length === 1 ? "annotation" : "annotations"
+              }`
+            : tool === "marker"
+            ? "Click to drop a marker"
+            : "Drag on the page"}
+        </span>
+
+        <div className="flex items-center gap-2 ml-auto">
+          <input
+            ref={inputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = "";
+            }}
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => inputRef.current?.click()}
+            className="gap-1.5"
+            aria-label="Import annotations from JSON"
+          >
+            <Upload className="h-4 w-4" />
+            <span className="hidden sm:inline text-xs">Import</span>
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              downloadText(
+                exportAnnotations(annotations),
+                "pdf-annotations.json",
+                "application/json"
+              )
+            }
+            disabled={annotations.length === 0}
+            className="gap-1.5"
+            aria-label="Export annotations as JSON"
+          >
+            <Download className="h-4 w-4" />
+            <span className="hidden sm:inline text-xs">Export</span>
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange([])}
+            disabled={annotations.length === 0}
+            aria-label="Remove all annotations"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {importError && (
+        <p
+          className="flex items-center gap-1.5 px-3 pb-2 text-xs text-amber-700 dark:text-amber-400"
+          role="alert"
+        >
+          <AlertTriangle className="h-3.5 w-3.5 shrink-0" aria-hidden="true" />
+          {importError}
+        </p>
+      )}
+
+      {annotations.length > 0 && (
+        <ul className="max-h-32 overflow-y-auto border-t border-border divide-y divide-border">
+          {[...annotations]
+            .sort((a, b) => a.page - b.page)
+            .map((annotation) => {
+              const Icon = KIND_ICONS[annotation.kind];
+              return (
+                <li
+                  key={annotation.id}
+                  className="flex items-center gap-2 px-3 py-1 text-xs"
+                >
+                  <Icon
+                    className={cn(
+                      "h-3.5 w-3.5 shrink-0",
+                      KIND_COLORS[annotation.kind]
+                    )}
+                    aria-label={PDF_ANNOTATION_LABELS[annotation.kind]}
+                  />
+                  <input
+                    value={annotation.name}
+                    onChange={(e) => rename(annotation.id, e.target.value)}
+                    aria-label={`${
+                      PDF_ANNOTATION_LABELS[annotation.kind]
+                    } name`}
+                    className="flex-1 min-w-0 h-6 px-1.5 bg-transparent text-foreground rounded-sm border border-transparent hover:border-border focus:outline-none focus:ring-2 focus:ring-ring"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => onGoToPage(annotation.page)}
+                    className="text-muted-foreground hover:text-foreground tabular-nums whitespace-nowrap"
+                  >
+                    p. {annotation.page}
+                  </button>
+                  <span className="font-mono text-muted-foreground tabular-nums whitespace-nowrap">
+                    {describeAnnotationSize(annotation)}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    onClick={() =>
+                      onChange(
+                        annotations.filter((a) => a.id !== annotation.id)
+                      )
+                    }
+                    aria-label={`Remove ${annotation.name}`}
+                  >
+                    <X className="h-3.5 w-3.5" aria-hidden="true" />
+                  </Button>
+                </li>
+              );
+            })}
+        </ul>
+      )}
+    </div>
+  );
+}
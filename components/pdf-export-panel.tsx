@@ -0,0 +1,296 @@
+"use client";
+
+import { useState, useEffect, useRef, useCallback, useId } from "react";
+import { Download, Copy, Check, AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { SELECT_CLASS } from "@/components/ui/native-select";
+import { downloadBlob, isAbortError } from "@/lib/file-utils";
+import { IMAGE_OUTPUT_FORMATS } from "@/lib/image-optimize";
+import type { PDFDocumentProxy } from "@/lib/pdfjs";
+import {
+  PDF_EXPORT_DPIS,
+  PDF_IMAGE_FORMATS,
+  exportPdfPages,
+  parsePageRange,
+  renderPageImage,
+  type PdfExportProgress,
+  type PdfImageFormat,
+} from "@/lib/pdf-export";
+
+type PageScope = "current" | "range" | "all";
+
+interface PdfExportPanelProps {
+  pdfDoc: PDFDocumentProxy;
+  currentPage: number;
+  totalPages: number;
+  /** Extra rotation per page from the viewer, so exports match the view */
+  rotations: number[];
+}
+
+/**
+ * Export pages as PNG, JPEG or WebP at a chosen DPI, as one image or a ZIP,
+ * or copy the current page to the clipboard
+ */
+export function PdfExportPanel({
+  pdfDoc,
+  currentPage,
+  totalPages,
+  rotations,
+}: PdfExportPanelProps) {
+  const [scope, setScope] = useState<PageScope>("current");
+  const [range, setRange] = useState(`1-${totalPages}`);
+  const [format, setFormat] = useState<PdfImageFormat>("png");
+  const [dpi, setDpi] = useState(150);
+  const [quality, setQuality] = useState(0.9);
+  const [progress, setProgress] = useState<PdfExportProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const pagesId = useId();
+  const formatId = useId();
+  const dpiId = useId();
+  const qualityId = useId();
+
+  // Stop a running export when the panel closes
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const canCopy =
+    typeof ClipboardItem !== "undefined" && !!navigator.clipboard?.write;
+
+  const handleExport = useCallback(async () => {
+    let pages: number[];
+    try {
+      pages =
+        scope === "current"
+          ? [currentPage]
+          : scope === "all"
+          ? Array.from({ length: totalPages }, (_, i) => i + 1)
+          : parsePageRange(range, totalPages);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Invalid page range");
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setProgress({ done: 0, total: pages.length });
+
+    try {
+      const { blob, filename } = await exportPdfPages(
+        pdfDoc,
+        pages,
+        { format, dpi, quality },
+        { rotations, onProgress: setProgress, signal: controller.signal }
+      );
+      downloadBlob(blob, filename);
+    } catch (err) {
+      if (!isAbortError(err)) {
+        console.error("PDF export error:", err);
+        setError(err instanceof Error ? err.message : "Export failed");
+      }
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setProgress(null);
+    }
+  }, [
+    pdfDoc,
+    scope,
+    range,
+    currentPage,
+    totalPages,
+    format,
+    dpi,
+    quality,
+    rotations,
+  ]);
+
+  const handleCopy = useCallback(async () => {
+    try {
+      // Hand the clipboard a promise so the user gesture is still valid
+      // by the time the page has rendered
+      const image = renderPageImage(
+        pdfDoc,
+        currentPage,
+        { format: "png", dpi, quality: 1 },
+        rotations[currentPage - 1] ?? 0
+      );
+      await navigator.clipboard.write([
+        new ClipboardItem({ "image/png": image }),
+      ]);
+      setError(null);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error("Failed to copy:", err);
+      setError("Couldn't copy the page image to the clipboard");
+    }
+  }, [pdfDoc, currentPage, dpi, rotations]);
+
+  const percent = progress
+    ? Math.round((progress.done / progress.total) * 100)
+    : 0;
+
+  return (
+    <div className="border-t border-border bg-background p-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+        <div className="flex items-center gap-1.5">
+          <label htmlFor={pagesId} className="text-xs text-muted-foreground">
+            Pages
+          </label>
+          <select
+            id={pagesId}
+            value={scope}
+            onChange={(e) => setScope(e.target.value as PageScope)}
+            className={SELECT_CLASS}
+          >
+            <option value="current">Current ({currentPage})</option>
+            <option value="range">Range</option>
+            <option value="all">All ({totalPages})</option>
+          </select>
+          {scope === "range" && (
+            <input
+              value={range}
+              onChange={(e) => setRange(e.target.value)}
+              placeholder="1-3, 5"
+              aria-label="Page range"
+              className="w-24 h-7 px-2 text-xs bg-background text-foreground border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-ring"
+            />
+          )}
+        </div>
+
+        <div className="flex items-center gap-1.5">
+          <label htmlFor={formatId} className="text-xs text-muted-foreground">
+            Format
+          </label>
+          <select
+            id={formatId}
+            value={format}
+            onChange={(e) => setFormat(e.target.value as PdfImageFormat)}
+            className={SELECT_CLASS}
+          >
+            {PDF_IMAGE_FORMATS.map((value) => (
+              <option key={value} value={value}>
+                {IMAGE_OUTPUT_FORMATS[value].label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex items-center gap-1.5">
+          <label htmlFor={dpiId} className="text-xs text-muted-foreground">
+            DPI
+          </label>
+          <select
+            id={dpiId}
+            value={dpi}
+            onChange={(e) => setDpi(Number(e.target.value))}
+            className={SELECT_CLASS}
+          >
+            {PDF_EXPORT_DPIS.map((value) => (
+              <option key={value} value={value}>
+                {value}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {IMAGE_OUTPUT_FORMATS[format].lossy && (
+          <div className="flex items-center gap-1.5">
+            <label
+              htmlFor={qualityId}
+              className="text-xs text-muted-foreground"
+            >
+              Quality
+            </label>
+            <input
+              id={qualityId}
+              type="range"
+              min={0.1}
+              max={1}
+              step={0.05}
+              value={quality}
+              onChange={(e) => setQuality(Number(e.target.value))}
+              className="w-24 accent-foreground"
+            />
+            <span className="w-8 text-xs text-muted-foreground tabular-nums">
+              {Math.round(quality * 100)}
+            </span>
+          </div>
+        )}
+
+        <div className="flex items-center gap-2 ml-auto">
+          {canCopy && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleCopy}
+              disabled={progress !== null}
+              className="gap-1.5"
+              aria-label="Copy current page as image"
+            >
+              {copied ? (
+                <Check className="h-4 w-4" />
+              ) : (
+                <Copy className="h-4 w-4" />
+              )}
+              <span className="hidden sm:inline text-xs">
+                {copied ? "Copied" : "Copy page"}
+              </span>
+            </Button>
+          )}
+          <Button
+            size="sm"
+            onClick={handleExport}
+            disabled={progress !== null}
+            className="gap-1.5"
+          >
+            <Download className="h-4 w-4" aria-hidden="true" />
+            <span className="text-xs">Export</span>
+          </Button>
+        </div>
+      </div>
+
+      {progress && (
+        <div role="status" className="flex items-center gap-3">
+          <div
+            role="progressbar"
+            aria-label="Exporting pages"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={percent}
+            className="flex-1 h-1.5 rounded-full bg-muted overflow-hidden"
+          >
+            <div
+              className="h-full bg-primary transition-[width]"
+              style={{ width: `${percent}%` }}
+            />
+          </div>
+          <span className="text-xs text-muted-foreground tabular-nums">
+            Page {Math.min(progress.done + 1, progress.total)} of{" "}
+            {progress.total}
+          </span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => abortRef.current?.abort()}
+            className="h-7 px-2 text-xs"
+          >
+            Cancel
+          </Button>
+        </div>
+      )}
+
+      {error && (
+        <p
+          className="flex items-center gap-1.5 text-xs text-amber-700 dark:text-amber-400"
+          role="alert"
+        >
+          <AlertTriangle className="h-3.5 w-3.5 shrink-0" aria-hidden="true" />
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,317 @@
+"use client";
+
+import type { ReactNode } from "react";
+
+import { useState, useEffect } from "react";
+import { ChevronRight, Download, Paperclip } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { downloadBlob, formatBytes } from "@/lib/file-utils";
+import type { PDFDocumentProxy } from "@/lib/pdfjs";
+import { PT_TO_MM } from "@/lib/pdf-annotations";
+import {
+  getPdfInfo,
+  groupPageSizes,
+  type PdfInfo,
+  type PdfOutlineItem,
+} from "@/lib/pdf-info";
+import { cn } from "@/lib/utils";
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div className="contents">
+      <dt className="text-muted-foreground">{label}</dt>
+      <dd className="text-foreground min-w-0 break-words">{children}</dd>
+    </div>
+  );
+}
+
+function Section({
+  title,
+  count,
+  defaultOpen = false,
+  children,
+}: {
+  title: string;
+  count?: number;
+  defaultOpen?: boolean;
+  children: ReactNode;
+}) {
+  const [isOpen, setIsOpen] = useState(defaultOpen);
+
+  return (
+    <section className="border-b border-border last:border-b-0">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        aria-expanded={isOpen}
+        className="flex items-center gap-1.5 w-full px-3 py-2 text-xs font-medium text-foreground hover:bg-muted/50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+      >
+        <ChevronRight
+          className={cn(
+            "h-3.5 w-3.5 text-muted-foreground transition-transform",
+            isOpen && "rotate-90"
+          )}
+          aria-hidden="true"
+        />
+        {title}
+        {count !== undefined && (
+          <span className="ml-auto text-muted-foreground tabular-nums">
+            {count}
+          </span>
+        )}
+      </button>
+      {isOpen && <div className="px-3 pb-3">{children}</div>}
+    </section>
+  );
+}
+
+function OutlineList({
+  items,
+  onGoToPage,
+}: {
+  items: PdfOutlineItem[];
+  onGoToPage: (page: number) => void;
+}) {
+  return (
+    <ul className="space-y-0.5">
+      {items.map((item, index) => (
+        <li key={index}>
+          {item.page !== null ? (
+            <button
+              type="button"
+              onClick={() => onGoToPage(item.page!)}
+              className="flex items-baseline gap-2 w-full text-left text-foreground hover:underline"
+            >
+              <span className="flex-1 min-w-0 truncate">{item.title}</span>
+              <span className="text-muted-foreground tabular-nums">
+                {item.page}
+              </span>
+            </button>
+          ) : (
+            <span
+              className="block truncate text-muted-foreground"
+              title={item.url ?? undefined}
+            >
+              {item.title}
+            </span>
+          )}
+          {item.items.length > 0 && (
+            <div className="pl-3 mt-0.5 border-l border-border">
+              <OutlineList items={item.items} onGoToPage={onGoToPage} />
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function formatPageSize(width: number, height: number): string {
+  const toMm = (points: number) => (points * PT_TO_MM).toFixed(0);
+  const points = `${width.toFixed(0)} × ${height.toFixed(0)} pt`;
+  return `${points} · ${toMm(width)} × ${toMm(height)} mm`;
+}
+
+interface PdfInfoPanelProps {
+  pdfDoc: PDFDocumentProxy;
+  onGoToPage: (page: number) => void;
+}
+
+/**
+ * Metadata, page sizes, attachments, outline and form fields of the open PDF
+ */
+export function PdfInfoPanel({ pdfDoc, onGoToPage }: PdfInfoPanelProps) {
+  const [info, setInfo] = useState<PdfInfo | null>(null);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    let isMounted = true;
+    // eslint-disable-next-line react-hooks/set-state-in-effect -- clear the last document's info before reading
+    setInfo(null);
+    setError(false);
+    getPdfInfo(pdfDoc)
+      .then((result) => {
+        if (isMounted) setInfo(result);
+      })
+      .catch((err) => {
+        console.error("PDF info error:", err);
+        if (isMounted) setError(true);
+      });
+    return () => {
+      isMounted = false;
+    };
+  }, [pdfDoc]);
+
+  if (error) {
+    return (
+      <p className="p-3 text-xs text-muted-foreground" role="alert">
+        Couldn&apos;t read the document information
+      </p>
+    );
+  }
+
+  if (!info) {
+    return (
+      <p className="p-3 text-xs text-muted-foreground" role="status">
+        Reading document...
+      </p>
+    );
+  }
+
+  const pageRanges = groupPageSizes(info.pages);
+
+  return (
+    <div className="text-xs">
+      <Section title="Document" defaultOpen>
+        <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+          <Field label="Title">{info.title ?? "—"}</Field>
+          <Field label="Author">{info.author ?? "—"}</Field>
+          {info.subject && <Field label="Subject">{info.subject}</Field>}
+          {info.keywords && <Field label="Keywords">{info.keywords}</Field>}
+          <Field label="Creator">{info.creator ?? "—"}</Field>
+          <Field label="Producer">{info.producer ?? "—"}</Field>
+          <Field label="Created">
+            <span className="tabular-nums">
+              {info.created?.toLocaleString() ?? "—"}
+            </span>
+          </Field>
+          <Field label="Modified">
+            <span className="tabular-nums">
+              {info.modified?.toLocaleString() ?? "—"}
+            </span>
+          </Field>
+          <Field label="Version">
+            {info.version ? `PDF ${info.version}` : "—"}
+          </Field>
+          <Field label="Pages">
+            <span className="tabular-nums">{info.pages.length}</span>
+          </Field>
+          <Field label="Encrypted">
+            {info.encryption ? (
+              <span className="text-amber-700 dark:text-amber-400">
+                Yes ({info.encryption})
+              </span>
+            ) : (
+              "No"
+            )}
+          </Field>
+          <Field label="Fast web view">{info.linearized ? "Yes" : "No"}</Field>
+        </dl>
+      </Section>
+
+      <Section title="Page sizes" count={pageRanges.length}>
+        <ul className="space-y-1">
+          {pageRanges.map((range) => (
+            <li key={range.from} className="flex items-baseline gap-2">
+              <button
+                type="button"
+                onClick={() => onGoToPage(range.from)}
+                className="w-14 shrink-0 text-left text-muted-foreground tabular-nums hover:underline"
+              >
+                {range.from === range.to
+                  ? range.from
+                  : `${range.from}–${range.to}`}
+              </button>
+              <span className="text-foreground tabular-nums">
+                {formatPageSize(range.width, range.height)}
+                {range.rotation !== 0 && (
+                  <span className="text-muted-foreground">
+                    {" "}
+                    · {range.rotation}°
+                  </span>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </Section>
+
+      <Section title="Attachments" count={info.attachments.length}>
+        {info.attachments.length === 0 ? (
+          <p className="text-muted-foreground">No embedded files</p>
+        ) : (
+          <ul className="space-y-1.5">
+            {info.attachments.map((attachment, index) => (
+              <li key={index} className="flex items-center gap-2">
+                <Paperclip
+                  className="h-3.5 w-3.5 shrink-0 text-muted-foreground"
+                  aria-hidden="true"
+                />
+                <div className="flex-1 min-w-0">
+                  <p className="truncate text-foreground">
+                    {attachment.filename}
+                  </p>
+                  <p className="truncate text-muted-foreground">
+                    {formatBytes(attachment.content.length)}
+                    {attachment.description && ` · ${attachment.description}`}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={() =>
+                    downloadBlob(
+                      new Blob([attachment.content as BlobPart], {
+                        type: "application/octet-stream",
+                      }),
+                      attachment.filename
+                    )
+                  }
+                  aria-label={`Download ${attachment.filename}`}
+                >
+                  <Download className="h-3.5 w-3.5" aria-hidden="true" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </Section>
+
+      <Section title="Outline" count={info.outline.length}>
+        {info.outline.length === 0 ? (
+          <p className="text-muted-foreground">No bookmarks</p>
+        ) : (
+          <OutlineList items={info.outline} onGoToPage={onGoToPage} />
+        )}
+      </Section>
+
+      <Section title="Form fields" count={info.fields.length}>
+        {info.fields.length === 0 ? (
+          <p className="text-muted-foreground">No AcroForm fields</p>
+        ) : (
+          <ul className="space-y-1.5">
+            {info.fields.map((field) => (
+              <li key={field.name} className="min-w-0">
+                <p className="flex items-baseline gap-2">
+                  <span className="flex-1 min-w-0 truncate font-mono text-foreground">
+                    {field.name}
+                  </span>
+                  <span className="px-1.5 rounded bg-muted text-muted-foreground">
+                    {field.type}
+                  </span>
+                </p>
+                <p
+                  className={cn(
+                    "truncate",
+                    field.value ? "text-foreground" : "text-muted-foreground"
+                  )}
+                >
+                  {field.value || "(empty)"}
+                  {field.page !== null && (
+                    <button
+                      type="button"
+                      onClick={() => onGoToPage(field.page!)}
+                      className="ml-2 text-muted-foreground tabular-nums hover:underline"
+                    >
+                      p. {field.page}
+                    </button>
+                  )}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </Section>
+    </div>
+  );
+}
@@ -0,0 +1,1470 @@
+"use client";
+
+import type React from "react";
+
+import {
+  useState,
+  useEffect,
+  useLayoutEffect,
+  useRef,
+  useCallback,
+  useMemo,
+} from "react";
+import {
+  FileQuestion,
+  ChevronLeft,
+  ChevronRight,
+  ZoomIn,
+  ZoomOut,
+  Crosshair,
+  Search,
+  ChevronUp,
+  ChevronDown,
+  Copy,
+  Check,
+  PanelLeft,
+  RotateCcw,
+  RotateCw,
+  ArrowLeftRight,
+  Scan,
+  Rows3,
+  Info,
+  ImageDown,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { PdfInfoPanel } from "@/components/pdf-info-panel";
+import { PdfExportPanel } from "@/components/pdf-export-panel";
+import {
+  PdfAnnotationLayer,
+  PdfAnnotationTools,
+  type NewPdfAnnotation,
+  type PdfAnnotationTool,
+} from "@/components/pdf-annotations";
+import { isAbortError } from "@/lib/file-utils";
+import {
+  loadPdfJs,
+  openPdf,
+  type PDFDocumentProxy,
+  type PDFPageProxy,
+  type PageViewport,
+  type RenderTask,
+  type TextLayer,
+} from "@/lib/pdfjs";
+import {
+  MAX_PDF_MATCHES,
+  findTextMatches,
+  getDocumentText,
+} from "@/lib/pdf-text";
+import {
+  PT_TO_MM,
+  nextAnnotationName,
+  type PdfAnnotation,
+  type PdfAnnotationKind,
+} from "@/lib/pdf-annotations";
+import { cn } from "@/lib/utils";
+
+interface PDFCoordinates {
+  /** X position in PDF coordinate system (origin bottom-left, in points) */
+  pdfX: number;
+  /** Y position in PDF coordinate system (origin bottom-left, in points) */
+  pdfY: number;
+  /** X position on canvas in pixels */
+  canvasX: number;
+  /** Y position on canvas in pixels */
+  canvasY: number;
+  /** Current page number */
+  page: number;
+  /** Page width in PDF points */
+  pageWidth: number;
+  /** Page height in PDF points */
+  pageHeight: number;
+}
+
+/**
+ * Convert canvas coordinates to PDF coordinates.
+ * PDF coordinate system: origin at bottom-left, Y increases upward (in points, 1pt = 1/72 inch)
+ * Canvas coordinate system: origin at top-left, Y increases downward (in pixels)
+ */
+function canvasToPdfCoordinates(
+  canvasX: number,
+  canvasY: number,
+  viewport: PageViewport
+): { pdfX: number; pdfY: number } {
+  const [pdfX, pdfY] = viewport.convertToPdfPoint(canvasX, canvasY);
+  return { pdfX, pdfY };
+}
+
+/** User-facing reason a PDF couldn't be shown */
+function describePdfError(err: unknown): string {
+  const name = err instanceof Error ? err.name : "";
+  if (name === "PasswordException") {
+    return "This PDF is password protected";
+  }
+  if (name === "InvalidPDFException") {
+    return "This file is not a valid PDF";
+  }
+  if (
+    name === "ChunkLoadError" ||
+    /dynamically imported module/i.test(String(err))
+  ) {
+    return "The PDF viewer failed to load. Reload the page and try again.";
+  }
+  return "Failed to load PDF";
+}
+
+/** Text layer spans of the rendered page, with the text of each */
+interface RenderedText {
+  page: number;
+  divs: HTMLElement[];
+  items: string[];
+}
+
+/**
+ * Wrap the given page-text ranges in highlight spans inside the text layer.
+ * Ranges must be sorted; returns the span of the selected range, if any.
+ */
+function highlightTextDivs(
+  { divs, items }: RenderedText,
+  ranges: { start: number; end: number; selected: boolean }[]
+): HTMLElement | null {
+  let selected: HTMLElement | null = null;
+  let offset = 0;
+  let first = 0;
+
+  divs.forEach((div, i) => {
+    const text = items[i];
+    const divStart = offset;
+    const divEnd = offset + text.length;
+    offset = divEnd;
+
+    // Restore the plain text from any earlier highlighting
+    div.textContent = text;
+    while (first < ranges.length && ranges[first].end <= divStart) first++;
+
+    const nodes: Node[] = [];
+    let cursor = 0;
+    for (let k = first; k < ranges.length && ranges[k].start < divEnd; k++) {
+      const from = Math.max(ranges[k].start, divStart) - divStart;
+      const to = Math.min(ranges[k].end, divEnd) - divStart;
+      if (from > cursor) {
+        nodes.push(document.createTextNode(text.slice(cursor, from)));
+      }
+      const mark = document.createElement("span");
+      mark.className = ranges[k].selected ? "highlight selected" : "highlight";
+      mark.textContent = text.slice(from, to);
+      nodes.push(mark);
+      if (ranges[k].selected && !selected) selected = mark;
+      cursor = to;
+    }
+    if (nodes.length > 0) {
+      if (cursor < text.length) {
+        nodes.push(document.createTextNode(text.slice(cursor)));
+      }
+      div.replaceChildren(...nodes);
+    }
+  });
+
+  return selected;
+}
+
+/** Coordinate overlay component for PDF viewer */
+function CoordinateOverlay({
+  coordinates,
+  visible,
+}: {
+  coordinates: PDFCoordinates | null;
+  visible: boolean;
+}) {
+  if (!visible || !coordinates) return null;
+
+  // Calculate position as percentage for quick validation
+  const xPercent = (coordinates.pdfX / coordinates.pageWidth) * 100;
+  const yPercent = (coordinates.pdfY / coordinates.pageHeight) * 100;
+
+  // Calculate offset from edges (industry standard: left/right, top/bottom)
+  // Left offset = distance from left edge (same as pdfX)
+  const fromLeft = coordinates.pdfX;
+  // Right offset = distance from right edge
+  const fromRight = coordinates.pageWidth - coordinates.pdfX;
+  // Top offset = distance from top edge (inverted Y since PDF origin is bottom-left)
+  const fromTop = coordinates.pageHeight - coordinates.pdfY;
+  // Bottom offset = distance from bottom edge (same as pdfY)
+  const fromBottom = coordinates.pdfY;
+
+  // Millimeter conversions
+  const pdfXmm = coordinates.pdfX * PT_TO_MM;
+  const pdfYmm = coordinates.pdfY * PT_TO_MM;
+  const fromLeftMm = fromLeft * PT_TO_MM;
+  const fromRightMm = fromRight * PT_TO_MM;
+  const fromTopMm = fromTop * PT_TO_MM;
+  const fromBottomMm = fromBottom * PT_TO_MM;
+  const pageWidthMm = coordinates.pageWidth * PT_TO_MM;
+  const pageHeightMm = coordinates.pageHeight * PT_TO_MM;
+
+  return (
+    <div
+      className="absolute bottom-3 left-3 flex gap-3 bg-background/95 backdrop-blur-sm border border-border rounded-lg shadow-lg text-xs font-mono tabular-nums select-none pointer-events-none z-10"
+      aria-live="polite"
+      aria-atomic="true"
+    >
+      {/* Points Section */}
+      <div className="flex flex-col gap-1.5 px-3 py-2.5 border-r border-border/50">
+        <div className="text-[10px] text-muted-foreground/70 font-semibold uppercase tracking-wide mb-0.5">
+          Points (pt)
+        </div>
+
+        {/* PDF coordinates row (origin bottom-left) */}
+        <div className="flex items-center gap-2">
+          <Crosshair
+            className="h-3.5 w-3.5 text-muted-foreground shrink-0"
+            aria-hidden="true"
+          />
+          <div className="flex items-center gap-3">
+            <span className="text-muted-foreground">
+              X:{" "}
+              <span className="text-foreground font-medium">
+                {coordinates.pdfX.toFixed(1)}
+              </span>
+            </span>
+            <span className="text-muted-foreground">
+              Y:{" "}
+              <span className="text-foreground font-medium">
+                {coordinates.pdfY.toFixed(1)}
+              </span>
+            </span>
+            <span
+              className="text-muted-foreground/60 text-[10px]"
+              title="PDF coordinate system: origin at bottom-left corner, Y increases upward"
+            >
+              ↙
+            </span>
+          </div>
+        </div>
+
+        {/* Horizontal offset row: Left → Right */}
+        <div
+          className="flex items-center gap-2 text-[10px] text-muted-foreground border-t border-border/50 pt-1.5"
+          title="Horizontal offset: distance from left and right edges in points"
+        >
+          <span className="w-13 text-muted-foreground/70">← Left</span>
+          <span className="text-foreground font-medium">
+            {fromLeft.toFixed(1)}
+          </span>
+          <span className="text-muted-foreground/50 px-1">|</span>
+          <span className="text-foreground font-medium">
+            {fromRight.toFixed(1)}
+          </span>
+          <span className="text-muted-foreground/70">Right →</span>
+        </div>
+
+        {/* Vertical offset row: Top → Bottom */}
+        <div
+          className="flex items-center gap-2 text-[10px] text-muted-foreground"
+          title="Vertical offset: distance from top and bottom edges in points"
+        >
+          <span className="w-13 text-muted-foreground/70">↑ Top</span>
+          <span className="text-foreground font-medium">
+            {fromTop.toFixed(1)}
+          </span>
+          <span className="text-muted-foreground/50 px-1">|</span>
+          <span className="text-foreground font-medium">
+            {fromBottom.toFixed(1)}
+          </span>
+          <span className="text-muted-foreground/70">Bottom ↓</span>
+        </div>
+
+        {/* Page info row */}
+        <div className="flex items-center gap-2 text-[10px] text-muted-foreground/70 border-t border-border/50 pt-1.5 mt-0.5">
+          <span>
+            Page: {coordinates.pageWidth.toFixed(0)} ×{" "}
+            {coordinates.pageHeight.toFixed(0)}
+          </span>
+        </div>
+      </div>
+
+      {/* Millimeters Section */}
+      <div className="flex flex-col gap-1.5 px-3 py-2.5">
+        <div className="text-[10px] text-muted-foreground/70 font-semibold uppercase tracking-wide mb-0.5">
+          Millimeters (mm)
+        </div>
+
+        {/* PDF coordinates row (origin bottom-left) */}
+        <div className="flex items-center gap-2">
+          <Crosshair
+            className="h-3.5 w-3.5 text-muted-foreground shrink-0"
+            aria-hidden="true"
+          />
+          <div className="flex items-center gap-3">
+            <span className="text-muted-foreground">
+              X:{" "}
+              <span className="text-foreground font-medium">
+                {pdfXmm.toFixed(1)}
+              </span>
+            </span>
+            <span className="text-muted-foreground">
+              Y:{" "}
+              <span className="text-foreground font-medium">
+                {pdfYmm.toFixed(1)}
+              </span>
+            </span>
+            <span
+              className="text-muted-foreground/60 text-[10px]"
+              title="PDF coordinate system: origin at bottom-left corner, Y increases upward"
+            >
+              ↙
+            </span>
+          </div>
+        </div>
+
+        {/* Horizontal offset row: Left → Right */}
+        <div
+          className="flex items-center gap-2 text-[10px] text-muted-foreground border-t border-border/50 pt-1.5"
+          title="Horizontal offset: distance from left and right edges in millimeters"
+        >
+          <span className="w-13 text-muted-foreground/70">← Left</span>
+          <span className="text-foreground font-medium">
+            {fromLeftMm.toFixed(1)}
+          </span>
+          <span className="text-muted-foreground/50 px-1">|</span>
+          <span className="text-foreground font-medium">
+            {fromRightMm.toFixed(1)}
+          </span>
+          <span className="text-muted-foreground/70">Right →</span>
+        </div>
+
+        {/* Vertical offset row: Top → Bottom */}
+        <div
+          className="flex items-center gap-2 text-[10px] text-muted-foreground"
+          title="Vertical offset: distance from top and bottom edges in millimeters"
+        >
+          <span className="w-13 text-muted-foreground/70">↑ Top</span>
+          <span className="text-foreground font-medium">
+            {fromTopMm.toFixed(1)}
+          </span>
+          <span className="text-muted-foreground/50 px-1">|</span>
+          <span className="text-foreground font-medium">
+            {fromBottomMm.toFixed(1)}
+          </span>
+          <span className="text-muted-foreground/70">Bottom ↓</span>
+        </div>
+
+        {/* Page info row */}
+        <div className="flex items-center gap-2 text-[10px] text-muted-foreground/70 border-t border-border/50 pt-1.5 mt-0.5">
+          <span>
+            Page: {pageWidthMm.toFixed(0)} × {pageHeightMm.toFixed(0)}
+          </span>
+        </div>
+      </div>
+
+      {/* Position percentage - shared */}
+      <div className="absolute -bottom-6 left-0 text-[10px] text-muted-foreground/60 bg-background/80 px-2 py-0.5 rounded">
+        Position: {xPercent.toFixed(0)}%, {yPercent.toFixed(0)}%
+      </div>
+    </div>
+  );
+}
+
+/** Zoom limits and step for the zoom buttons */
+const MIN_SCALE = 0.25;
+const MAX_SCALE = 4;
+const ZOOM_STEP = 0.25;
+
+/** Space around and between pages, in pixels */
+const PAGE_GAP = 16;
+
+/** Pages kept rendered above and below the visible ones while scrolling */
+const OVERSCAN_PAGES = 1;
+
+/** Thumbnail width in the sidebar, in pixels */
+const THUMBNAIL_WIDTH = 96;
+
+type ZoomMode = "custom" | "fit-width" | "fit-page";
+type PageLayout = "single" | "continuous";
+
+/** Page size in points, with the page's own rotation applied */
+interface PageSize {
+  width: number;
+  height: number;
+}
+
+function clampScale(scale: number): number {
+  return Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+}
+
+/** Size of a page after turning it by an extra rotation */
+function rotatedSize(size: PageSize, rotation: number): PageSize {
+  return rotation % 180 === 0
+    ? size
+    : { width: size.height, height: size.width };
+}
+
+/** Viewport for a page turned by an extra rotation on top of its own */
+function getPageViewport(
+  page: PDFPageProxy,
+  scale: number,
+  rotation: number
+): PageViewport {
+  return page.getViewport({ scale, rotation: (page.rotate + rotation) % 360 });
+}
+
+/** Whether a render failed only because a newer one replaced it */
+function isRenderCancelled(err: unknown): boolean {
+  return (
+    err instanceof Error &&
+    (err.name === "RenderingCancelledException" ||
+      err.name === "AbortException")
+  );
+}
+
+/** Index of the last page whose top edge is at or above `y` */
+function pageIndexAt(offsets: number[], y: number): number {
+  let low = 0;
+  let high = offsets.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (offsets[mid] <= y) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+}
+
+interface PdfPageProps {
+  pdfDoc: PDFDocumentProxy;
+  pageNumber: number;
+  totalPages: number;
+  scale: number;
+  /** Extra rotation in degrees, on top of the page's own */
+  rotation: number;
+  /** Expected size in pixels, reserved before the page has rendered */
+  width: number;
+  height: number;
+  tool: PdfAnnotationTool;
+  /** Annotations placed on this page */
+  annotations: PdfAnnotation[];
+  /** Default name for a new annotation, numbered across the document */
+  annotationName: (kind: PdfAnnotationKind) => string;
+  onAnnotate: (annotation: NewPdfAnnotation) => void;
+  onTextRendered: (page: number, text: RenderedText | null) => void;
+  onHover: (coordinates: PDFCoordinates | null) => void;
+}
+
+/** One page: the canvas with a selectable text layer on top */
+function PdfPage({
+  pdfDoc,
+  pageNumber,
+  totalPages,
+  scale,
+  rotation,
+  width,
+  height,
+  tool,
+  annotations,
+  annotationName,
+  onAnnotate,
+  onTextRendered,
+  onHover,
+}: PdfPageProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const textLayerRef = useRef<HTMLDivElement>(null);
+  const [viewport, setViewport] = useState<PageViewport | null>(null);
+
+  // Render the page, then its text layer
+  useEffect(() => {
+    let isMounted = true;
+    let renderTask: RenderTask | null = null;
+    let textLayer: TextLayer | null = null;
+
+    const renderPage = async () => {
+      if (!canvasRef.current) return;
+
+      try {
+        const page = await pdfDoc.getPage(pageNumber);
+        const canvas = canvasRef.current;
+        const context = canvas.getContext("2d");
+        if (!context || !isMounted) return;
+
+        const pageViewport = getPageViewport(page, scale, rotation);
+
+        canvas.height = pageViewport.height;
+        canvas.width = pageViewport.width;
+
+        setViewport(pageViewport);
+        onTextRendered(pageNumber, null);
+
+        renderTask = page.render({
+          canvasContext: context,
+          viewport: pageViewport,
+        });
+        await renderTask.promise;
+
+        // Transparent text over the canvas for selection, copy and search
+        const container = textLayerRef.current;
+        if (!container || !isMounted) return;
+        container.replaceChildren();
+        container.style.setProperty("--scale-factor", String(scale));
+
+        const pdfjs = await loadPdfJs();
+        textLayer = new pdfjs.TextLayer({
+          textContentSource: page.streamTextContent(),
+          container,
+          viewport: pageViewport,
+        });
+        await textLayer.render();
+
+        if (isMounted) {
+          onTextRendered(pageNumber, {
+            page: pageNumber,
+            divs: textLayer.textDivs,
+            items: textLayer.textContentItemsStr,
+          });
+        }
+      } catch (err) {
+        if (!isRenderCancelled(err)) console.error("PDF render error:", err);
+      }
+    };
+
+    renderPage();
+
+    return () => {
+      isMounted = false;
+      renderTask?.cancel();
+      textLayer?.cancel();
+      onTextRendered(pageNumber, null);
+    };
+  }, [pdfDoc, pageNumber, scale, rotation, onTextRendered]);
+
+  // Handle mouse move for coordinate tracking
+  const handleMouseMove = useCallback(
+    (e: React.MouseEvent<HTMLDivElement>) => {
+      if (!viewport || !canvasRef.current) return;
+
+      const canvas = canvasRef.current;
+      const rect = canvas.getBoundingClientRect();
+
+      // Calculate position on the canvas (accounting for any CSS scaling)
+      const scaleX = canvas.width / rect.width;
+      const scaleY = canvas.height / rect.height;
+
+      const canvasX = (e.clientX - rect.left) * scaleX;
+      const canvasY = (e.clientY - rect.top) * scaleY;
+
+      // Convert canvas coordinates to PDF coordinates using proper transformation
+      const { pdfX, pdfY } = canvasToPdfCoordinates(canvasX, canvasY, viewport);
+
+      // Page dimensions in PDF points, unrotated so they match pdfX and pdfY
+      const [x1, y1, x2, y2] = viewport.viewBox;
+
+      onHover({
+        pdfX,
+        pdfY,
+        canvasX,
+        canvasY,
+        page: pageNumber,
+        pageWidth: x2 - x1,
+        pageHeight: y2 - y1,
+      });
+    },
+    [viewport, pageNumber, onHover]
+  );
+
+  return (
+    <div
+      className="relative bg-white shadow-sm cursor-crosshair"
+      style={{ width, height }}
+      onMouseMove={handleMouseMove}
+      onMouseLeave={() => onHover(null)}
+    >
+      <canvas
+        ref={canvasRef}
+        className="block"
+        aria-label={`PDF page ${pageNumber} of ${totalPages}. Hover to see coordinates.`}
+      />
+      <div ref={textLayerRef} className="pdf-text-layer" />
+      {viewport && (
+        <PdfAnnotationLayer
+          viewport={viewport}
+          page={pageNumber}
+          tool={tool}
+          annotations={annotations}
+          nameFor={annotationName}
+          onCreate={onAnnotate}
+        />
+      )}
+    </div>
+  );
+}
+
+interface PdfThumbnailProps {
+  pdfDoc: PDFDocumentProxy;
+  pageNumber: number;
+  size: PageSize;
+  rotation: number;
+  active: boolean;
+  onSelect: (page: number) => void;
+}
+
+/** Sidebar thumbnail, drawn only while it's scrolled into view */
+function PdfThumbnail({
+  pdfDoc,
+  pageNumber,
+  size,
+  rotation,
+  active,
+  onSelect,
+}: PdfThumbnailProps) {
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [isVisible, setIsVisible] = useState(false);
+
+  const displayed = rotatedSize(size, rotation);
+  const scale = THUMBNAIL_WIDTH / displayed.width;
+  const height = Math.round(displayed.height * scale);
+
+  useEffect(() => {
+    const button = buttonRef.current;
+    if (!button) return;
+    const observer = new IntersectionObserver(([entry]) =>
+      setIsVisible(entry.isIntersecting)
+    );
+    observer.observe(button);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!isVisible) return;
+    let isMounted = true;
+    let renderTask: RenderTask | null = null;
+
+    const renderThumbnail = async () => {
+      try {
+        const page = await pdfDoc.getPage(pageNumber);
+        const canvas = canvasRef.current;
+        const context = canvas?.getContext("2d");
+        if (!canvas || !context || !isMounted) return;
+
+        const viewport = getPageViewport(page, scale, rotation);
+        canvas.width = viewport.width;
+        canvas.height = viewport.height;
+        renderTask = page.render({ canvasContext: context, viewport });
+        await renderTask.promise;
+      } catch (err) {
+        if (!isRenderCancelled(err)) {
+          console.error("PDF thumbnail error:", err);
+        }
+      }
+    };
+
+    renderThumbnail();
+
+    return () => {
+      isMounted = false;
+      renderTask?.cancel();
+    };
+  }, [isVisible, pdfDoc, pageNumber, scale, rotation]);
+
+  // Keep the current page's thumbnail in view without scrolling the page
+  useEffect(() => {
+    const button = buttonRef.current;
+    const list = button?.parentElement;
+    if (!active || !button || !list) return;
+    const top = button.offsetTop - list.offsetTop;
+    if (top < list.scrollTop) {
+      list.scrollTo({ top: top - PAGE_GAP });
+    } else if (top + button.offsetHeight > list.scrollTop + list.clientHeight) {
+      list.scrollTo({
+        top: top + button.offsetHeight - list.clientHeight + PAGE_GAP,
+      });
+    }
+  }, [active]);
+
+  return (
+    <button
+      ref={buttonRef}
+      type="button"
+      onClick={() => onSelect(pageNumber)}
+      aria-label={`Page ${pageNumber}`}
+      aria-current={active ? "page" : undefined}
+      className="flex flex-col items-center gap-1 w-full rounded-md p-1.5 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+    >
+      <div
+        className={cn(
+          "bg-white shadow-sm ring-2 transition-shadow",
+          active ? "ring-primary" : "ring-transparent"
+        )}
+        style={{ width: THUMBNAIL_WIDTH, height }}
+      >
+        {isVisible && <canvas ref={canvasRef} className="block" />}
+      </div>
+      <span
+        className={cn(
+          "text-[10px] tabular-nums",
+          active ? "text-foreground font-medium" : "text-muted-foreground"
+        )}
+      >
+        {pageNumber}
+      </span>
+    </button>
+  );
+}
+
+export function PDFViewer({
+  data,
+  isFullscreen = false,
+}: {
+  data: string;
+  isFullscreen?: boolean;
+}) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [pdfDoc, setPdfDoc] = useState<PDFDocumentProxy | null>(null);
+  /** Size of every page at 100%, read once so pages can be laid out unrendered */
+  const [pageSizes, setPageSizes] = useState<PageSize[]>([]);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [scale, setScale] = useState(isFullscreen ? 1 : 0.75);
+  const [zoomMode, setZoomMode] = useState<ZoomMode>("custom");
+  const [layout, setLayout] = useState<PageLayout>("single");
+  /** Extra rotation per page, in degrees */
+  const [rotations, setRotations] = useState<number[]>([]);
+  const [showThumbnails, setShowThumbnails] = useState(false);
+  const [showInfo, setShowInfo] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [viewportSize, setViewportSize] = useState({ width: 0, height: 0 });
+  const [scrollTop, setScrollTop] = useState(0);
+  const [coordinates, setCoordinates] = useState<PDFCoordinates | null>(null);
+  const [showCoordinates, setShowCoordinates] = useState(true);
+  const [tool, setTool] = useState<PdfAnnotationTool>("select");
+  const [annotations, setAnnotations] = useState<PdfAnnotation[]>([]);
+  /** Text layers of the pages currently rendered, by page number */
+  const [renderedTexts, setRenderedTexts] = useState<
+    Record<number, RenderedText>
+  >({});
+  const [searchQuery, setSearchQuery] = useState("");
+  /** Text of every page, extracted on the first search */
+  const [pageTexts, setPageTexts] = useState<string[] | null>(null);
+  const [activeMatch, setActiveMatch] = useState(0);
+  const [hasSelection, setHasSelection] = useState(false);
+  const [copied, setCopied] = useState(false);
+  /** Set when navigating to a match, so it's scrolled into view only once */
+  const pendingMatchScrollRef = useRef(false);
+  const currentPageRef = useRef(currentPage);
+
+  const totalPages = pageSizes.length;
+
+  useEffect(() => {
+    currentPageRef.current = currentPage;
+  }, [currentPage]);
+
+  // Load PDF.js with dynamic import for code splitting
+  useEffect(() => {
+    let isMounted = true;
+    let loadedPdf: PDFDocumentProxy | null = null;
+
+    const loadPdf = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        // The previous document is destroyed by the effect cleanup
+        setPdfDoc(null);
+
+        // Works for both data URLs and object URLs
+        const response = await fetch(data);
+        const bytes = new Uint8Array(await response.arrayBuffer());
+
+        // PDF.js is bundled and code-split, loaded on first use
+        const pdf = await openPdf(bytes);
+        loadedPdf = pdf;
+        if (!isMounted) {
+          // Superseded while loading; the cleanup has already run
+          pdf.destroy();
+          return;
+        }
+
+        const sizes = await Promise.all(
+          Array.from({ length: pdf.numPages }, async (_, i) => {
+            const page = await pdf.getPage(i + 1);
+            const { width, height } = page.getViewport({ scale: 1 });
+            return { width, height };
+          })
+        );
+
+        if (isMounted) {
+          setPdfDoc(pdf);
+          setPageSizes(sizes);
+          setRotations(sizes.map(() => 0));
+          setAnnotations([]);
+          setRenderedTexts({});
+          setPageTexts(null);
+          setCurrentPage(1);
+        }
+      } catch (err) {
+        if (isMounted) {
+          setError(describePdfError(err));
+          console.error("PDF load error:", err);
+        }
+      } finally {
+        if (isMounted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadPdf();
+
+    return () => {
+      isMounted = false;
+      // Frees the document and its worker-side resources
+      loadedPdf?.destroy();
+    };
+  }, [data]);
+
+  // Track the visible area for the fit presets and for virtualization
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() =>
+      setViewportSize({
+        width: container.clientWidth,
+        height: container.clientHeight,
+      })
+    );
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [loading, error]);
+
+  const displaySize = (index: number): PageSize =>
+    rotatedSize(pageSizes[index], rotations[index] ?? 0);
+
+  // Fit presets size the current page to the visible area. While scrolling,
+  // the largest page is used instead so the zoom doesn't change page to page.
+  const effectiveScale = useMemo(() => {
+    if (zoomMode === "custom" || !pageSizes.length || !viewportSize.width) {
+      return scale;
+    }
+    const sizes = pageSizes.map((size, i) =>
+      rotatedSize(size, rotations[i] ?? 0)
+    );
+    const size =
+      layout === "single"
+        ? sizes[currentPage - 1]
+        : {
+            width: Math.max(...sizes.map((s) => s.width)),
+            height: Math.max(...sizes.map((s) => s.height)),
+          };
+    const widthScale = (viewportSize.width - PAGE_GAP * 2) / size.width;
+    if (zoomMode === "fit-width") return clampScale(widthScale);
+    const heightScale = (viewportSize.height - PAGE_GAP * 2) / size.height;
+    return clampScale(Math.min(widthScale, heightScale));
+  }, [
+    zoomMode,
+    scale,
+    layout,
+    currentPage,
+    pageSizes,
+    rotations,
+    viewportSize,
+  ]);
+
+  // Top offset of every page in continuous mode, plus the total height
+  const pageLayout = useMemo(() => {
+    const offsets: number[] = [];
+    let top = PAGE_GAP;
+    let maxWidth = 0;
+    pageSizes.forEach((pageSize, i) => {
+      const size = rotatedSize(pageSize, rotations[i] ?? 0);
+      offsets.push(top);
+      top += Math.floor(size.height * effectiveScale) + PAGE_GAP;
+      maxWidth = Math.max(maxWidth, Math.floor(size.width * effectiveScale));
+    });
+    return { offsets, height: top, width: maxWidth + PAGE_GAP * 2 };
+  }, [pageSizes, rotations, effectiveScale]);
+
+  const scrollToPage = useCallback(
+    (page: number) => {
+      const container = containerRef.current;
+      const top = pageLayout.offsets[page - 1];
+      if (container && top !== undefined) {
+        container.scrollTop = top - PAGE_GAP;
+      }
+    },
+    [pageLayout]
+  );
+
+  const goToPage = useCallback(
+    (page: number) => {
+      if (totalPages === 0) return;
+      const target = Math.min(totalPages, Math.max(1, Math.round(page)));
+      setCurrentPage(target);
+      if (layout === "continuous") scrollToPage(target);
+    },
+    [totalPages, layout, scrollToPage]
+  );
+
+  // Keep the current page in place when zoom, rotation or layout change
+  useLayoutEffect(() => {
+    if (layout !== "continuous") return;
+    scrollToPage(currentPageRef.current);
+    setScrollTop(containerRef.current?.scrollTop ?? 0);
+  }, [layout, scrollToPage]);
+
+  const handleScroll = useCallback(() => {
+    const container = containerRef.current;
+    if (!container || layout !== "continuous") return;
+    setScrollTop(container.scrollTop);
+    // The page covering the upper third of the view counts as current
+    const index = pageIndexAt(
+      pageLayout.offsets,
+      container.scrollTop + container.clientHeight / 3
+    );
+    setCurrentPage(index + 1);
+  }, [layout, pageLayout]);
+
+  // Only pages near the visible area are mounted in continuous mode
+  const visiblePages = useMemo(() => {
+    if (layout === "single" || totalPages === 0) return [currentPage];
+    const first = pageIndexAt(pageLayout.offsets, scrollTop);
+    const last = pageIndexAt(
+      pageLayout.offsets,
+      scrollTop + viewportSize.height
+    );
+    const pages: number[] = [];
+    for (
+      let i = Math.max(0, first - OVERSCAN_PAGES);
+      i <= Math.min(totalPages - 1, last + OVERSCAN_PAGES);
+      i++
+    ) {
+      pages.push(i + 1);
+    }
+    return pages;
+  }, [layout, totalPages, currentPage, pageLayout, scrollTop, viewportSize]);
+
+  const handleAnnotate = useCallback(
+    (annotation: NewPdfAnnotation) =>
+      setAnnotations((current) => [
+        ...current,
+        { ...annotation, id: crypto.randomUUID() },
+      ]),
+    []
+  );
+
+  const annotationName = useCallback(
+    (kind: PdfAnnotationKind) => nextAnnotationName(kind, annotations),
+    [annotations]
+  );
+
+  const handleTextRendered = useCallback(
+    (page: number, text: RenderedText | null) => {
+      setRenderedTexts((texts) => {
+        if (!text && !texts[page]) return texts;
+        const next = { ...texts };
+        if (text) next[page] = text;
+        else delete next[page];
+        return next;
+      });
+    },
+    []
+  );
+
+  // Extract the text of every page the first time a search is made
+  useEffect(() => {
+    if (!pdfDoc || !searchQuery || pageTexts) return;
+
+    const controller = new AbortController();
+    getDocumentText(pdfDoc, controller.signal)
+      .then(setPageTexts)
+      .catch((err) => {
+        if (!isAbortError(err)) console.error("PDF text error:", err);
+      });
+
+    return () => controller.abort();
+  }, [pdfDoc, searchQuery, pageTexts]);
+
+  const matches = useMemo(
+    () => (pageTexts ? findTextMatches(pageTexts, searchQuery) : []),
+    [pageTexts, searchQuery]
+  );
+
+  const goToMatch = useCallback(
+    (index: number) => {
+      if (matches.length === 0) return;
+      const wrapped = (index + matches.length) % matches.length;
+      setActiveMatch(wrapped);
+      pendingMatchScrollRef.current = true;
+      goToPage(matches[wrapped].page);
+    },
+    [matches, goToPage]
+  );
+
+  // New results: jump to the first match. goToMatch also changes with the
+  // layout, which shouldn't move the view.
+  const lastMatchesRef = useRef(matches);
+  useEffect(() => {
+    if (lastMatchesRef.current === matches) return;
+    lastMatchesRef.current = matches;
+    goToMatch(0);
+  }, [matches, goToMatch]);
+
+  // Highlight matches on the rendered pages
+  useEffect(() => {
+    for (const text of Object.values(renderedTexts)) {
+      const ranges = matches
+        .map((match, index) => ({ ...match, selected: index === activeMatch }))
+        .filter((match) => match.page === text.page);
+      const selected = highlightTextDivs(text, ranges);
+      if (selected && pendingMatchScrollRef.current) {
+        pendingMatchScrollRef.current = false;
+        selected.scrollIntoView({ block: "center", inline: "nearest" });
+      }
+    }
+  }, [renderedTexts, matches, activeMatch]);
+
+  // Track whether text inside this viewer is selected
+  useEffect(() => {
+    const handleSelectionChange = () => {
+      const selection = window.getSelection();
+      const container = containerRef.current;
+      setHasSelection(
+        !!selection &&
+          !selection.isCollapsed &&
+          !!container &&
+          container.contains(selection.anchorNode)
+      );
+    };
+    document.addEventListener("selectionchange", handleSelectionChange);
+    return () =>
+      document.removeEventListener("selectionchange", handleSelectionChange);
+  }, []);
+
+  const handleCopySelection = useCallback(async () => {
+    const text = window.getSelection()?.toString();
+    if (!text) return;
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error("Failed to copy:", err);
+    }
+  }, []);
+
+  const handleZoomIn = useCallback(() => {
+    setScale(clampScale(effectiveScale + ZOOM_STEP));
+    setZoomMode("custom");
+  }, [effectiveScale]);
+  const handleZoomOut = useCallback(() => {
+    setScale(clampScale(effectiveScale - ZOOM_STEP));
+    setZoomMode("custom");
+  }, [effectiveScale]);
+  const toggleCoordinates = useCallback(
+    () => setShowCoordinates((s) => !s),
+    []
+  );
+
+  const rotateCurrentPage = useCallback(
+    (degrees: number) =>
+      setRotations((current) =>
+        current.map((rotation, i) =>
+          i === currentPage - 1 ? (rotation + degrees + 360) % 360 : rotation
+        )
+      ),
+    [currentPage]
+  );
+
+  const handlePageInput = useCallback(
+    (input: HTMLInputElement) => {
+      const page = Number(input.value);
+      if (input.value && Number.isFinite(page)) goToPage(page);
+      input.value = String(currentPageRef.current);
+    },
+    [goToPage]
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center rounded-lg border border-border bg-muted/30 p-16 h-full">
+        <div className="flex flex-col items-center gap-3">
+          <div
+            className="h-5 w-5 animate-spin rounded-full border-2 border-foreground/20 border-t-foreground"
+            role="status"
+            aria-label="Loading PDF"
+          />
+          <p className="text-sm text-muted-foreground">Loading PDF...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !pdfDoc) {
+    return (
+      <div className="flex flex-col items-center justify-center rounded-lg border border-border bg-muted/30 p-16 h-full">
+        <FileQuestion
+          className="h-8 w-8 text-muted-foreground mb-3"
+          aria-hidden="true"
+        />
+        <p className="text-sm text-muted-foreground" role="alert">
+          {error ?? "Failed to load PDF"}
+        </p>
+      </div>
+    );
+  }
+
+  const renderPage = (page: number) => {
+    const size = displaySize(page - 1);
+    return (
+      <PdfPage
+        pdfDoc={pdfDoc}
+        pageNumber={page}
+        totalPages={totalPages}
+        scale={effectiveScale}
+        rotation={rotations[page - 1] ?? 0}
+        width={Math.floor(size.width * effectiveScale)}
+        height={Math.floor(size.height * effectiveScale)}
+        tool={tool}
+        annotations={annotations.filter((a) => a.page === page)}
+        annotationName={annotationName}
+        onAnnotate={handleAnnotate}
+        onTextRendered={handleTextRendered}
+        onHover={setCoordinates}
+      />
+    );
+  };
+
+  return (
+    <div
+      className={`overflow-hidden flex flex-col ${
+        isFullscreen ? "h-full" : "rounded-lg border border-border bg-muted/30"
+      }`}
+    >
+      {/* Search */}
+      <div className="flex items-center gap-2 p-2 border-b border-border bg-background">
+        <div className="relative flex-1 max-w-xs">
+          <Search
+            className="absolute left-2 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground"
+            aria-hidden="true"
+          />
+          <input
+            type="search"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                goToMatch(activeMatch + (e.shiftKey ? -1 : 1));
+              }
+            }}
+            placeholder="Search in PDF"
+            aria-label="Search in PDF"
+            className="w-full h-8 pl-7 pr-2 text-xs bg-background text-foreground border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-ring placeholder:text-muted-foreground/50"
+          />
+        </div>
+        {searchQuery && (
+          <span
+            className="text-xs text-muted-foreground tabular-nums whitespace-nowrap"
+            aria-live="polite"
+          >
+            {!pageTexts
+              ? "Searching..."
+              : matches.length === 0
+              ? "No matches"
+              : `${activeMatch + 1} / ${matches.length}${
+                  matches.length >= MAX_PDF_MATCHES ? "+" : ""
+                }`}
+          </span>
+        )}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => goToMatch(activeMatch - 1)}
+          disabled={matches.length === 0}
+          aria-label="Previous match"
+        >
+          <ChevronUp className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => goToMatch(activeMatch + 1)}
+          disabled={matches.length === 0}
+          aria-label="Next match"
+        >
+          <ChevronDown className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleCopySelection}
+          disabled={!hasSelection}
+          className="ml-auto gap-1.5"
+          aria-label="Copy selected text"
+        >
+          {copied ? (
+            <Check className="h-4 w-4" />
+          ) : (
+            <Copy className="h-4 w-4" />
+          )}
+          <span className="hidden sm:inline text-xs">
+            {copied ? "Copied" : "Copy"}
+          </span>
+        </Button>
+      </div>
+
+      <PdfAnnotationTools
+        tool={tool}
+        onToolChange={setTool}
+        annotations={annotations}
+        onChange={setAnnotations}
+        totalPages={totalPages}
+        onGoToPage={goToPage}
+      />
+
+      <div
+        className="flex flex-1 min-h-0"
+        style={isFullscreen ? undefined : { height: "500px" }}
+      >
+        {showThumbnails && (
+          <nav
+            aria-label="Pages"
+            className="w-32 shrink-0 overflow-y-auto border-r border-border bg-background p-2 space-y-1"
+          >
+            {pageSizes.map((size, i) => (
+              <PdfThumbnail
+                key={i}
+                pdfDoc={pdfDoc}
+                pageNumber={i + 1}
+                size={size}
+                rotation={rotations[i] ?? 0}
+                active={currentPage === i + 1}
+                onSelect={goToPage}
+              />
+            ))}
+          </nav>
+        )}
+
+        <div className="relative flex-1 min-w-0">
+          <div
+            ref={containerRef}
+            onScroll={handleScroll}
+            className="absolute inset-0 overflow-auto bg-neutral-100 dark:bg-neutral-900"
+          >
+            {layout === "continuous" ? (
+              <div
+                className="relative mx-auto"
+                style={{ height: pageLayout.height, width: pageLayout.width }}
+              >
+                {visiblePages.map((page) => (
+                  <div
+                    key={page}
+                    className="absolute left-1/2 -translate-x-1/2"
+                    style={{ top: pageLayout.offsets[page - 1] }}
+                  >
+                    {renderPage(page)}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="w-fit mx-auto p-4">{renderPage(currentPage)}</div>
+            )}
+          </div>
+          <CoordinateOverlay
+            coordinates={coordinates}
+            visible={showCoordinates}
+          />
+        </div>
+
+        {showInfo && (
+          <aside
+            aria-label="Document information"
+            className="w-72 shrink-0 overflow-y-auto border-l border-border bg-background"
+          >
+            <PdfInfoPanel pdfDoc={pdfDoc} onGoToPage={goToPage} />
+          </aside>
+        )}
+      </div>
+
+      {showExport && (
+        <PdfExportPanel
+          pdfDoc={pdfDoc}
+          currentPage={currentPage}
+          totalPages={totalPages}
+          rotations={rotations}
+        />
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-x-4 gap-y-2 p-3 border-t border-border bg-background">
+        <div className="flex items-center gap-2">
+          {totalPages > 1 && (
+            <Button
+              variant={showThumbnails ? "secondary" : "outline"}
+              size="sm"
+              onClick={() => setShowThumbnails((s) => !s)}
+              aria-label={
+                showThumbnails ? "Hide thumbnails" : "Show thumbnails"
+              }
+              aria-pressed={showThumbnails}
+            >
+              <PanelLeft className="h-4 w-4" />
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleZoomOut}
+            disabled={effectiveScale <= MIN_SCALE}
+            aria-label="Zoom out"
+          >
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <span
+            className="text-xs text-muted-foreground tabular-nums w-12 text-center"
+            aria-live="polite"
+          >
+            {Math.round(effectiveScale * 100)}%
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleZoomIn}
+            disabled={effectiveScale >= MAX_SCALE}
+            aria-label="Zoom in"
+          >
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+          <Button
+            variant={zoomMode === "fit-width" ? "secondary" : "outline"}
+            size="sm"
+            onClick={() => setZoomMode("fit-width")}
+            aria-label="Fit to width"
+            aria-pressed={zoomMode === "fit-width"}
+          >
+            <ArrowLeftRight className="h-4 w-4" />
+          </Button>
+          <Button
+            variant={zoomMode === "fit-page" ? "secondary" : "outline"}
+            size="sm"
+            onClick={() => setZoomMode("fit-page")}
+            aria-label="Fit to page"
+            aria-pressed={zoomMode === "fit-page"}
+          >
+            <Scan className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => rotateCurrentPage(-90)}
+            aria-label="Rotate page counterclockwise"
+          >
+            <RotateCcw className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => rotateCurrentPage(90)}
+            aria-label="Rotate page clockwise"
+          >
+            <RotateCw className="h-4 w-4" />
+          </Button>
+          {totalPages > 1 && (
+            <Button
+              variant={layout === "continuous" ? "secondary" : "outline"}
+              size="sm"
+              onClick={() =>
+                setLayout((l) => (l === "single" ? "continuous" : "single"))
+              }
+              className="gap-1.5"
+              aria-label="Continuous scroll"
+              aria-pressed={layout === "continuous"}
+            >
+              <Rows3 className="h-4 w-4" />
+              <span className="hidden sm:inline text-xs">Scroll</span>
+            </Button>
+          )}
+          <Button
+            variant={showExport ? "secondary" : "outline"}
+            size="sm"
+            onClick={() => setShowExport((s) => !s)}
+            className="gap-1.5"
+            aria-label={
+              showExport ? "Hide image export" : "Export pages as images"
+            }
+            aria-pressed={showExport}
+          >
+            <ImageDown className="h-4 w-4" />
+            <span className="hidden sm:inline text-xs">Export</span>
+          </Button>
+          <Button
+            variant={showInfo ? "secondary" : "outline"}
+            size="sm"
+            onClick={() => setShowInfo((s) => !s)}
+            className="gap-1.5"
+            aria-label={
+              showInfo
+                ? "Hide document information"
+                : "Show document information"
+            }
+            aria-pressed={showInfo}
+          >
+            <Info className="h-4 w-4" />
+            <span className="hidden sm:inline text-xs">Info</span>
+          </Button>
+          <Button
+            variant={showCoordinates ? "secondary" : "outline"}
+            size="sm"
+            onClick={toggleCoordinates}
+            className="gap-1.5"
+            aria-label={
+              showCoordinates ? "Hide coordinates" : "Show coordinates"
+            }
+            aria-pressed={showCoordinates}
+          >
+            <Crosshair className="h-4 w-4" />
+            <span className="hidden sm:inline text-xs">Coords</span>
+          </Button>
+        </div>
+
+        {totalPages > 1 ? (
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => goToPage(currentPage - 1)}
+              disabled={currentPage <= 1}
+              aria-label="Previous page"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="flex items-center gap-1.5 text-sm text-muted-foreground tabular-nums">
+              <input
+                key={currentPage}
+                type="number"
+                min={1}
+                max={totalPages}
+                defaultValue={currentPage}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handlePageInput(e.currentTarget);
+                }}
+                onBlur={(e) => handlePageInput(e.currentTarget)}
+                aria-label={`Page number, ${totalPages} pages`}
+                className="w-14 h-8 px-2 text-sm text-center tabular-nums bg-background text-foreground border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-ring"
+              />
+              / {totalPages}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => goToPage(currentPage + 1)}
+              disabled={currentPage >= totalPages}
+              aria-label="Next page"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        ) : (
+          <div />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+"use client";
+
+import { useState, useEffect, useCallback, useId } from "react";
+import { ShieldCheck, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { STORAGE_KEYS, formatBytes, storage } from "@/lib/file-utils";
+import { fileStore } from "@/lib/file-store";
+import { historyStore, subscribeHistory } from "@/lib/history";
+import {
+  loadPersistenceSettings,
+  savePersistenceSettings,
+  subscribeStorage,
+  type PersistenceMode,
+  type PersistenceSettings,
+} from "@/lib/persistence";
+import { cn } from "@/lib/utils";
+
+const PERSISTENCE_MODES: {
+  value: PersistenceMode;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "never",
+    label: "Never persist",
+    description:
+      "Nothing is written to this device, and history stops recording",
+  },
+  {
+    value: "session",
+    label: "Until the tab closes",
+    description: "Wiped when you close or leave the page",
+  },
+  {
+    value: "expire",
+    label: "Auto-expire",
+    description: "Kept across visits, deleted a set time after saving",
+  },
+  {
+    value: "forever",
+    label: "Until cleared",
+    description: "Kept until you wipe it",
+  },
+];
+
+/** Bytes held by the app in localStorage (UTF-16, so two per character) */
+function localStorageUsage(): number {
+  let total = 0;
+  for (const key of Object.values(STORAGE_KEYS)) {
+    try {
+      total += (localStorage.getItem(key)?.length ?? 0) * 2;
+    } catch {
+      // Ignore storage errors
+    }
+  }
+  return total;
+}
+
+async function storedBytes(): Promise<number> {
+  const [files, entries] = await Promise.all([
+    fileStore.usage(),
+    historyStore.list(),
+  ]);
+  return (
+    files +
+    entries.reduce((sum, entry) => sum + entry.size, 0) +
+    localStorageUsage()
+  );
+}
+
+/**
+ * Persistence policy for stored files, with a usage readout and a
+ * "wipe now" button
+ */
+export function PrivacySettings() {
+  const [settings, setSettings] = useState<PersistenceSettings | null>(null);
+  const [usage, setUsage] = useState<number | null>(null);
+  const groupId = useId();
+  const minutesId = useId();
+
+  // Settings live in localStorage, so read them after mount
+  useEffect(() => {
+    const refresh = () => {
+      setSettings(loadPersistenceSettings());
+      storedBytes().then(setUsage);
+    };
+    refresh();
+    const unsubscribeStorage = subscribeStorage(refresh);
+    const unsubscribeHistory = subscribeHistory(refresh);
+    return () => {
+      unsubscribeStorage();
+      unsubscribeHistory();
+    };
+  }, []);
+
+  const handleWipe = useCallback(() => {
+    storage.clearAll();
+    fileStore.clearAll();
+    historyStore.clear();
+  }, []);
+
+  const handleModeChange = useCallback(
+    (mode: PersistenceMode) => {
+      if (!settings) return;
+      savePersistenceSettings({ ...settings, mode });
+      // Switching persistence off shouldn't leave earlier data behind
+      if (mode === "never") {
+        storage.clearAll();
+        fileStore.clearAll();
+      } else if (mode === "expire") {
+        fileStore.pruneExpired();
+      }
+    },
+    [settings]
+  );
+
+  const handleMinutesChange = useCallback(
+    (value: string) => {
+      if (!settings) return;
+      const minutes = Math.floor(Number(value));
+      if (!Number.isFinite(minutes) || minutes < 1) return;
+      savePersistenceSettings({ ...settings, expireMinutes: minutes });
+      fileStore.pruneExpired();
+    },
+    [settings]
+  );
+
+  if (!settings) return null;
+
+  return (
+    <section aria-labelledby="privacy-heading">
+      <Card className="overflow-hidden shadow-sm py-0">
+        <CardContent className="p-0">
+          <div className="flex items-center justify-between gap-3 p-4 border-b border-border">
+            <div className="flex items-center gap-3 min-w-0">
+              <ShieldCheck
+                className="w-4 h-4 text-muted-foreground shrink-0"
+                aria-hidden="true"
+              />
+              <div className="min-w-0">
+                <h2
+                  id="privacy-heading"
+                  className="text-sm font-medium text-foreground"
+                >
+                  Privacy & storage
+                </h2>
+                <p className="text-xs text-muted-foreground" role="status">
+                  {usage === null
+                    ? "Checking stored data..."
+                    : usage === 0
+                    ? "Nothing stored on this device"
+                    : `${formatBytes(usage)} stored on this device`}
+                </p>
+              </div>
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={handleWipe}
+              disabled={usage === 0}
+            >
+              <Trash2 className="w-3.5 h-3.5 mr-1.5" aria-hidden="true" />
+              <span>Wipe now</span>
+            </Button>
+          </div>
+
+          <div className="p-4 space-y-3">
+            <p id={groupId} className="text-xs font-medium text-foreground">
+              Keep files
+            </p>
+            <div
+              role="radiogroup"
+              aria-labelledby={groupId}
+              className="grid gap-2 sm:grid-cols-2"
+            >
+              {PERSISTENCE_MODES.map((option) => (
+                <label
+                  key={option.value}
+                  className={cn(
+                    "flex items-start gap-2.5 p-3 rounded-lg border cursor-pointer transition-colors",
+                    settings.mode === option.value
+                      ? "border-foreground/30 bg-muted/50"
+                      : "border-border hover:bg-muted/30"
+                  )}
+                >
+                  <input
+                    type="radio"
+                    name={groupId}
+                    value={option.value}
+                    checked={settings.mode === option.value}
+                    onChange={() => handleModeChange(option.value)}
+                    className="mt-0.5 accent-foreground"
+                  />
+                  <span className="min-w-0">
+                    <span className="block text-xs font-medium text-foreground">
+                      {option.label}
+                    </span>
+                    <span className="block text-xs text-muted-foreground">
+                      {option.description}
+                    </span>
+                  </span>
+                </label>
+              ))}
+            </div>
+
+            {settings.mode === "expire" && (
+              <div className="flex items-center gap-2">
+                <label
+                  htmlFor={minutesId}
+                  className="text-xs text-muted-foreground"
+                >
+                  Delete after
+                </label>
+                <input
+                  id={minutesId}
+                  type="number"
+                  min={1}
+                  step={1}
+                  defaultValue={settings.expireMinutes}
+                  onChange={(e) => handleMinutesChange(e.target.value)}
+                  className="w-20 h-7 px-2 text-xs tabular-nums bg-background text-foreground border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-ring"
+                />
+                <span className="text-xs text-muted-foreground">minutes</span>
+              </div>
+            )}
+
+            <p className="text-xs text-muted-foreground/70">
+              Applies to the Encode and View files. The last open tab is
+              remembered too, but doesn&apos;t expire. Text pasted into Decode
+              is never stored, since it often holds tokens and keys. Wipe now
+              also deletes history.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    </section>
+  );
+}
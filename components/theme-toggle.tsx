@@ -11,6 +11,7 @@ export function ThemeToggle() {
 
   // Avoid hydration mismatch by only rendering after mount
   useEffect(() => {
+    // eslint-disable-next-line react-hooks/set-state-in-effect -- the theme is only known after hydration
     setMounted(true);
   }, []);
 
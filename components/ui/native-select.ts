@@ -0,0 +1,3 @@
+/** Compact styling for the native <select> elements in option rows */
+export const SELECT_CLASS =
+  "h-7 px-1.5 text-xs bg-background text-foreground border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-ring";
@@ -0,0 +1,417 @@
+"use client";
+
+import { useState, useMemo, useCallback } from "react";
+import {
+  Folder,
+  FolderOpen,
+  File,
+  Download,
+  Eye,
+  Lock,
+  AlertCircle,
+  FolderDown,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { DocumentPreview } from "@/components/document-preview";
+import {
+  bytesToBase64,
+  downloadBlob,
+  formatBytes,
+  sniffMimeType,
+} from "@/lib/file-utils";
+import {
+  createZip,
+  describeZipMethod,
+  extractZipEntry,
+  readZip,
+  type ZipEntry,
+} from "@/lib/zip";
+import { cn } from "@/lib/utils";
+
+interface ZipBrowserProps {
+  bytes: Uint8Array;
+}
+
+/** A row in the tree: either a real entry or a directory implied by paths */
+interface TreeRow {
+  path: string;
+  name: string;
+  depth: number;
+  isDirectory: boolean;
+  entry?: ZipEntry;
+}
+
+interface PreviewedEntry {
+  path: string;
+  data: string;
+  mimeType: string;
+  extension: string;
+}
+
+/** Build a sorted tree including directories that only exist implicitly */
+function buildTree(entries: ZipEntry[]): TreeRow[] {
+  const rows = new Map<string, TreeRow>();
+
+  for (const entry of entries) {
+    const parts = entry.path.replace(/\/$/, "").split("/");
+    // Register every parent directory
+    for (let i = 1; i < parts.length; i++) {
+      const dirPath = `${parts.slice(0, i).join("/")}/`;
+      if (!rows.has(dirPath)) {
+        rows.set(dirPath, {
+          path: dirPath,
+          name: parts[i - 1],
+          depth: i - 1,
+          isDirectory: true,
+        });
+      }
+    }
+    rows.set(entry.path, {
+      path: entry.path,
+      name: parts[parts.length - 1],
+      depth: parts.length - 1,
+      isDirectory: entry.isDirectory,
+      entry,
+    });
+  }
+
+  // Directories sort before files at the same level
+  const sortKey = (row: TreeRow) =>
+    row.path
+      .split("/")
+      .map((part, index, all) =>
+        index < all.length - 1 || row.isDirectory ? `0${part}` : `1${part}`
+      )
+      .join("/");
+
+  return [...rows.values()].sort((a, b) =>
+    sortKey(a).localeCompare(sortKey(b))
+  );
+}
+
+/**
+ * Lists ZIP entries and previews any of them through `DocumentPreview`.
+ * Everything is inflated locally; nothing is uploaded.
+ */
+export function ZipBrowser({ bytes }: ZipBrowserProps) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [preview, setPreview] = useState<PreviewedEntry | null>(null);
+  const [busyPath, setBusyPath] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const parsed = useMemo(() => {
+    try {
+      return { entries: readZip(bytes), error: null };
+    } catch (err) {
+      return {
+        entries: [] as ZipEntry[],
+        error: err instanceof Error ? err.message : "Failed to read archive",
+      };
+    }
+  }, [bytes]);
+
+  const rows = useMemo(() => buildTree(parsed.entries), [parsed.entries]);
+  const files = useMemo(
+    () => parsed.entries.filter((entry) => !entry.isDirectory),
+    [parsed.entries]
+  );
+  const totalSize = files.reduce((sum, entry) => sum + entry.size, 0);
+
+  // Reset state when a different archive is shown
+  const [prevBytes, setPrevBytes] = useState(bytes);
+  if (bytes !== prevBytes) {
+    setPrevBytes(bytes);
+    setCollapsed(new Set());
+    setPreview(null);
+    setError(null);
+  }
+
+  const isHidden = (row: TreeRow) =>
+    [...collapsed].some((dir) => row.path !== dir && row.path.startsWith(dir));
+
+  const toggleDirectory = useCallback((path: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  }, []);
+
+  const handlePreview = useCallback(
+    async (entry: ZipEntry) => {
+      setError(null);
+      setBusyPath(entry.path);
+      try {
+        const data = await extractZipEntry(bytes, entry);
+        const { mime, ext } = sniffMimeType(data);
+        setPreview({
+          path: entry.path,
+          data: `data:${mime};base64,${bytesToBase64(data)}`,
+          mimeType: mime,
+          extension: ext,
+        });
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to extract");
+      } finally {
+        setBusyPath(null);
+      }
+    },
+    [bytes]
+  );
+
+  const handleDownloadEntry = useCallback(
+    async (entry: ZipEntry) => {
+      setError(null);
+      setBusyPath(entry.path);
+      try {
+        const data = await extractZipEntry(bytes, entry);
+        const name = entry.path.split("/").pop() || "file";
+        const { mime, ext } = sniffMimeType(data);
+        downloadBlob(
+          new Blob([data as BlobPart], { type: mime }),
+          name.includes(".") ? name : `${name}.${ext}`
+        );
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to extract");
+      } finally {
+        setBusyPath(null);
+      }
+    },
+    [bytes]
+  );
+
+  /** Re-pack a directory (or everything, for "") into a new archive */
+  const handleDownloadTree = useCallback(
+    async (prefix: string) => {
+      setError(null);
+      setBusyPath(prefix || "/");
+      try {
+        const selected = files.filter((entry) => entry.path.startsWith(prefix));
+        const extracted = [];
+        for (const entry of selected) {
+          extracted.push({
+            path: entry.path.slice(prefix.length),
+            data: await extractZipEntry(bytes, entry),
+            modified: entry.modified,
+          });
+        }
+        const folderName = prefix.replace(/\/$/, "").split("/").pop();
+        downloadBlob(
+          new Blob([createZip(extracted) as BlobPart], {
+            type: "application/zip",
+          }),
+          `${folderName || "archive"}.zip`
+        );
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to extract");
+      } finally {
+        setBusyPath(null);
+      }
+    },
+    [bytes, files]
+  );
+
+  if (parsed.error) {
+    return (
+      <div
+        className="flex items-center gap-2 rounded-lg border border-border bg-muted/30 p-4 text-sm text-destructive"
+        role="alert"
+      >
+        <AlertCircle className="h-4 w-4 shrink-0" aria-hidden="true" />
+        {parsed.error}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-lg border border-border bg-muted/30 overflow-hidden">
+        {/* Summary */}
+        <div className="flex items-center justify-between gap-3 p-3 border-b border-border bg-background">
+          <p className="text-xs text-muted-foreground">
+            {files.length} {files.length === 1 ? "file" : "files"} ·{" "}
+            {formatBytes(totalSize)} uncompressed
+          </p>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => handleDownloadTree("")}
+            disabled={busyPath !== null || files.length === 0}
+          >
+            <FolderDown className="w-3.5 h-3.5 mr-1.5" aria-hidden="true" />
+            <span>Download all</span>
+          </Button>
+        </div>
+
+        {/* Entries */}
+        <div className="max-h-96 overflow-auto">
+          <table className="w-full text-xs">
+            <thead className="sticky top-0 bg-muted text-muted-foreground">
+              <tr className="text-left">
+                <th className="px-3 py-2 font-medium">Path</th>
+                <th className="px-3 py-2 font-medium text-right">Size</th>
+                <th className="px-3 py-2 font-medium text-right hidden sm:table-cell">
+                  Compressed
+                </th>
+                <th className="px-3 py-2 font-medium hidden md:table-cell">
+                  Modified
+                </th>
+                <th className="px-3 py-2 font-medium hidden sm:table-cell">
+                  Method
+                </th>
+                <th className="px-3 py-2">
+                  <span className="sr-only">Actions</span>
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => {
+                if (isHidden(row)) return null;
+                const entry = row.entry;
+                const isOpen = row.isDirectory && !collapsed.has(row.path);
+                const Icon = row.isDirectory
+                  ? isOpen
+                    ? FolderOpen
+                    : Folder
+                  : File;
+
+                return (
+                  <tr
+                    key={row.path}
+                    className={cn(
+                      "border-t border-border/50",
+                      preview?.path === row.path && "bg-muted/60"
+                    )}
+                  >
+                    <td className="px-3 py-1.5 max-w-0 w-full">
+                      <button
+                        type="button"
+                        onClick={() =>
+                          row.isDirectory
+                            ? toggleDirectory(row.path)
+                            : entry && handlePreview(entry)
+                        }
+                        className="flex items-center gap-1.5 min-w-0 max-w-full text-left text-foreground hover:underline"
+                        style={{ paddingLeft: `${row.depth}rem` }}
+                        aria-expanded={row.isDirectory ? isOpen : undefined}
+                        title={row.path}
+                      >
+                        <Icon
+                          className="h-3.5 w-3.5 shrink-0 text-muted-foreground"
+                          aria-hidden="true"
+                        />
+                        <span className="truncate font-mono">{row.name}</span>
+                        {entry?.isEncrypted && (
+                          <Lock
+                            className="h-3 w-3 shrink-0 text-muted-foreground"
+                            aria-label="Encrypted"
+                          />
+                        )}
+                      </button>
+                    </td>
+                    <td className="px-3 py-1.5 text-right tabular-nums text-muted-foreground whitespace-nowrap">
+                      {entry && !row.isDirectory ? formatBytes(entry.size) : ""}
+                    </td>
+                    <td className="px-3 py-1.5 text-right tabular-nums text-muted-foreground whitespace-nowrap hidden sm:table-cell">
+                      {entry && !row.isDirectory
+                        ? formatBytes(entry.compressedSize)
+                        : ""}
+                    </td>
+                    <td className="px-3 py-1.5 tabular-nums text-muted-foreground whitespace-nowrap hidden md:table-cell">
+                      {entry ? entry.modified.toLocaleString() : ""}
+                    </td>
+                    <td className="px-3 py-1.5 text-muted-foreground whitespace-nowrap hidden sm:table-cell">
+                      {entry && !row.isDirectory
+                        ? describeZipMethod(entry.method)
+                        : ""}
+                    </td>
+                    <td className="px-2 py-1 whitespace-nowrap">
+                      <div className="flex items-center justify-end gap-0.5">
+                        {row.isDirectory ? (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon-sm"
+                            onClick={() => handleDownloadTree(row.path)}
+                            disabled={busyPath !== null}
+                            aria-label={`Download ${row.path} as ZIP`}
+                          >
+                            <FolderDown
+                              className="w-3.5 h-3.5"
+                              aria-hidden="true"
+                            />
+                          </Button>
+                        ) : (
+                          entry && (
+                            <>
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="icon-sm"
+                                onClick={() => handlePreview(entry)}
+                                disabled={busyPath !== null}
+                                aria-label={`Preview ${row.path}`}
+                              >
+                                <Eye
+                                  className="w-3.5 h-3.5"
+                                  aria-hidden="true"
+                                />
+                              </Button>
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="icon-sm"
+                                onClick={() => handleDownloadEntry(entry)}
+                                disabled={busyPath !== null}
+                                aria-label={`Download ${row.path}`}
+                              >
+                                <Download
+                                  className="w-3.5 h-3.5"
+                                  aria-hidden="true"
+                                />
+                              </Button>
+                            </>
+                          )
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {error && (
+        <div
+          role="alert"
+          className="flex items-start gap-2 text-sm text-destructive"
+        >
+          <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" aria-hidden="true" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {busyPath && (
+        <p className="text-xs text-muted-foreground" role="status">
+          Extracting {busyPath}...
+        </p>
+      )}
+
+      {preview && (
+        <section
+          aria-label={`Preview of ${preview.path}`}
+          className="space-y-2"
+        >
+          <p className="text-xs font-mono text-muted-foreground truncate">
+            {preview.path}
+          </p>
+          <DocumentPreview document={preview} />
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,428 @@
+/**
+ * ASN.1 DER/BER reader
+ * Parses TLV structures into a tree and decodes common universal types
+ */
+
+export type Asn1TagClass = "universal" | "application" | "context" | "private";
+
+export interface Asn1Node {
+  tagClass: Asn1TagClass;
+  tagNumber: number;
+  constructed: boolean;
+  /** Offset of the tag byte within the parsed buffer */
+  offset: number;
+  /** Size of the tag and length bytes */
+  headerLength: number;
+  /** Content length (for indefinite-length BER, the measured length) */
+  length: number;
+  /** Content bytes, excluding the header */
+  content: Uint8Array;
+  /** Child nodes for constructed types, otherwise null */
+  children: Asn1Node[] | null;
+  /**
+   * DER nested inside an OCTET STRING or BIT STRING (common for
+   * extensions and keys); only set when the content parses cleanly
+   */
+  encapsulated?: Asn1Node[];
+}
+
+/** Universal tag numbers used by the decoders below */
+export const ASN1_TAGS = {
+  BOOLEAN: 1,
+  INTEGER: 2,
+  BIT_STRING: 3,
+  OCTET_STRING: 4,
+  NULL: 5,
+  OBJECT_IDENTIFIER: 6,
+  ENUMERATED: 10,
+  UTF8_STRING: 12,
+  SEQUENCE: 16,
+  SET: 17,
+  NUMERIC_STRING: 18,
+  PRINTABLE_STRING: 19,
+  T61_STRING: 20,
+  IA5_STRING: 22,
+  UTC_TIME: 23,
+  GENERALIZED_TIME: 24,
+  VISIBLE_STRING: 26,
+  UNIVERSAL_STRING: 28,
+  BMP_STRING: 30,
+} as const;
+
+/** Universal type names for display */
+const UNIVERSAL_TAG_NAMES: Record<number, string> = {
+  0: "END OF CONTENT",
+  1: "BOOLEAN",
+  2: "INTEGER",
+  3: "BIT STRING",
+  4: "OCTET STRING",
+  5: "NULL",
+  6: "OBJECT IDENTIFIER",
+  7: "ObjectDescriptor",
+  8: "EXTERNAL",
+  9: "REAL",
+  10: "ENUMERATED",
+  12: "UTF8String",
+  13: "RELATIVE-OID",
+  16: "SEQUENCE",
+  17: "SET",
+  18: "NumericString",
+  19: "PrintableString",
+  20: "T61String",
+  21: "VideotexString",
+  22: "IA5String",
+  23: "UTCTime",
+  24: "GeneralizedTime",
+  25: "GraphicString",
+  26: "VisibleString",
+  27: "GeneralString",
+  28: "UniversalString",
+  30: "BMPString",
+};
+
+const TAG_CLASSES: Asn1TagClass[] = [
+  "universal",
+  "application",
+  "context",
+  "private",
+];
+
+/** Guards against stack exhaustion on hostile input */
+const MAX_DEPTH = 64;
+
+/**
+ * Parse one TLV element starting at `offset`.
+ * `end` bounds the element; throws on truncated or malformed input.
+ */
+function parseElement(
+  bytes: Uint8Array,
+  offset: number,
+  end: number,
+  depth: number
+): Asn1Node {
+  if (depth > MAX_DEPTH) throw new Error("ASN.1 nesting is too deep");
+  if (offset + 2 > end) throw new Error(`Truncated ASN.1 header at ${offset}`);
+
+  let position = offset;
+  const tagByte = bytes[position++];
+  const tagClass = TAG_CLASSES[tagByte >> 6];
+  const constructed = (tagByte & 0x20) !== 0;
+  let tagNumber = tagByte & 0x1f;
+
+  // High-tag-number form: base-128 continuation bytes
+  if (tagNumber === 0x1f) {
+    tagNumber = 0;
+    let byte: number;
+    do {
+      if (position >= end) throw new Error(`Truncated ASN.1 tag at ${offset}`);
+      byte = bytes[position++];
+      tagNumber = tagNumber * 128 + (byte & 0x7f);
+    } while (byte & 0x80);
+  }
+
+  if (position >= end) throw new Error(`Truncated ASN.1 length at ${offset}`);
+  const lengthByte = bytes[position++];
+  let length: number;
+  let indefinite = false;
+
+  if (lengthByte < 0x80) {
+    length = lengthByte;
+  } else if (lengthByte === 0x80) {
+    if (!constructed) {
+      throw new Error(`Indefinite length on primitive type at ${offset}`);
+    }
+    indefinite = true;
+    length = 0;
+  } else {
+    const lengthBytes = lengthByte & 0x7f;
+    if (lengthBytes > 6 || position + lengthBytes > end) {
+      throw new Error(`Invalid ASN.1 length at ${offset}`);
+    }
+    length = 0;
+    for (let i = 0; i < lengthBytes; i++) {
+      length = length * 256 + bytes[position++];
+    }
+  }
+
+  const headerLength = position - offset;
+  const contentStart = position;
+
+  if (indefinite) {
+    // BER: children run until an end-of-contents marker (00 00)
+    const children: Asn1Node[] = [];
+    let child = contentStart;
+    for (;;) {
+      if (child + 2 > end) {
+        throw new Error(`Unterminated indefinite length at ${offset}`);
+      }
+      if (bytes[child] === 0 && bytes[child + 1] === 0) break;
+      const node = parseElement(bytes, child, end, depth + 1);
+      children.push(node);
+      child = node.offset + node.headerLength + node.length;
+    }
+    length = child - contentStart;
+    return {
+      tagClass,
+      tagNumber,
+      constructed,
+      offset,
+      // Count the end-of-contents marker as part of the header overhead
+      headerLength: headerLength + 2,
+      length,
+      content: bytes.subarray(contentStart, child),
+      children,
+    };
+  }
+
+  const contentEnd = contentStart + length;
+  if (contentEnd > end) {
+    throw new Error(`ASN.1 length at ${offset} exceeds available data`);
+  }
+
+  const node: Asn1Node = {
+    tagClass,
+    tagNumber,
+    constructed,
+    offset,
+    headerLength,
+    length,
+    content: bytes.subarray(contentStart, contentEnd),
+    children: null,
+  };
+
+  if (constructed) {
+    node.children = parseChildren(bytes, contentStart, contentEnd, depth + 1);
+  } else if (
+    tagClass === "universal" &&
+    (tagNumber === ASN1_TAGS.OCTET_STRING || tagNumber === ASN1_TAGS.BIT_STRING)
+  ) {
+    // Try to find DER wrapped inside string types
+    const innerStart =
+      tagNumber === ASN1_TAGS.BIT_STRING ? contentStart + 1 : contentStart;
+    if (
+      innerStart < contentEnd &&
+      (tagNumber !== ASN1_TAGS.BIT_STRING || bytes[contentStart] === 0) &&
+      (bytes[innerStart] & 0x20) !== 0
+    ) {
+      try {
+        node.encapsulated = parseChildren(
+          bytes,
+          innerStart,
+          contentEnd,
+          depth + 1
+        );
+      } catch {
+        // Just opaque bytes
+      }
+    }
+  }
+
+  return node;
+}
+
+function parseChildren(
+  bytes: Uint8Array,
+  start: number,
+  end: number,
+  depth: number
+): Asn1Node[] {
+  const children: Asn1Node[] = [];
+  let position = start;
+  while (position < end) {
+    const child = parseElement(bytes, position, end, depth);
+    children.push(child);
+    position = child.offset + child.headerLength + child.length;
+  }
+  return children;
+}
+
+/**
+ * Parse a single ASN.1 element. Offsets in the tree are relative to `bytes`.
+ * With `strict`, trailing bytes after the element are an error.
+ */
+export function parseAsn1(bytes: Uint8Array, strict = true): Asn1Node {
+  const node = parseElement(bytes, 0, bytes.length, 0);
+  if (
+    strict &&
+    node.offset + node.headerLength + node.length !== bytes.length
+  ) {
+    throw new Error("Trailing data after ASN.1 element");
+  }
+  return node;
+}
+
+/**
+ * Whether bytes are a single well-formed DER/BER SEQUENCE
+ */
+export function isAsn1Sequence(bytes: Uint8Array): boolean {
+  if (bytes.length < 2 || bytes[0] !== 0x30) return false;
+  try {
+    parseAsn1(bytes);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Display name for a node's tag, e.g. "SEQUENCE" or "[0]"
+ */
+export function describeAsn1Tag(node: Asn1Node): string {
+  if (node.tagClass === "universal") {
+    return UNIVERSAL_TAG_NAMES[node.tagNumber] ?? `UNIVERSAL ${node.tagNumber}`;
+  }
+  if (node.tagClass === "context") return `[${node.tagNumber}]`;
+  return `${node.tagClass.toUpperCase()} ${node.tagNumber}`;
+}
+
+/**
+ * Decode an OBJECT IDENTIFIER to dotted notation
+ */
+export function decodeOid(content: Uint8Array): string {
+  const parts: number[] = [];
+  let value = 0;
+  for (let i = 0; i < content.length; i++) {
+    value = value * 128 + (content[i] & 0x7f);
+    if ((content[i] & 0x80) === 0) {
+      if (parts.length === 0) {
+        // First subidentifier packs the first two arcs
+        const first = value < 80 ? Math.floor(value / 40) : 2;
+        parts.push(first, value - first * 40);
+      } else {
+        parts.push(value);
+      }
+      value = 0;
+    }
+  }
+  return parts.join(".");
+}
+
+/**
+ * Hex string of bytes, optionally separated
+ */
+export function toHexString(bytes: Uint8Array, separator = ""): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join(
+    separator
+  );
+}
+
+/**
+ * Decode an INTEGER. Small values become numbers; large ones (serials,
+ * moduli) are returned as hex so no precision is lost.
+ */
+export function decodeInteger(content: Uint8Array): number | string {
+  if (content.length <= 6) {
+    let value = 0;
+    for (const byte of content) value = value * 256 + byte;
+    // Two's complement for negative values
+    return content[0] & 0x80 ? value - 256 ** content.length : value;
+  }
+  return toHexString(content);
+}
+
+/**
+ * Number of significant bits in an unsigned big-endian integer
+ */
+export function integerBitLength(content: Uint8Array): number {
+  let start = 0;
+  while (start < content.length - 1 && content[start] === 0) start++;
+  const leading = content[start];
+  return (
+    (content.length - start - 1) * 8 + (leading ? 32 - Math.clz32(leading) : 0)
+  );
+}
+
+/**
+ * Decode an ASN.1 string type to text
+ */
+export function decodeAsn1String(node: Asn1Node): string {
+  switch (node.tagNumber) {
+    case ASN1_TAGS.BMP_STRING: {
+      let text = "";
+      for (let i = 0; i + 1 < node.content.length; i += 2) {
+        text += String.fromCharCode(
+          (node.content[i] << 8) | node.content[i + 1]
+        );
+      }
+      return text;
+    }
+    case ASN1_TAGS.UNIVERSAL_STRING: {
+      let text = "";
+      for (let i = 0; i + 3 < node.content.length; i += 4) {
+        text += String.fromCodePoint(
+          ((node.content[i] << 24) |
+            (node.content[i + 1] << 16) |
+            (node.content[i + 2] << 8) |
+            node.content[i + 3]) >>>
+            0
+        );
+      }
+      return text;
+    }
+    case ASN1_TAGS.UTF8_STRING:
+      return new TextDecoder("utf-8").decode(node.content);
+    default:
+      // Printable, IA5, Visible, Numeric and T61 are effectively Latin-1
+      return String.fromCharCode(...node.content);
+  }
+}
+
+/**
+ * Decode UTCTime or GeneralizedTime
+ */
+export function decodeAsn1Time(node: Asn1Node): Date | null {
+  const text = String.fromCharCode(...node.content);
+  const match =
+    node.tagNumber === ASN1_TAGS.UTC_TIME
+      ? text.match(/^(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})?Z$/)
+      : text.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})?(?:\.\d+)?Z$/);
+  if (!match) return null;
+
+  let year = Number(match[1]);
+  // RFC 5280: two-digit years 50-99 are 19xx, 00-49 are 20xx
+  if (node.tagNumber === ASN1_TAGS.UTC_TIME) year += year >= 50 ? 1900 : 2000;
+
+  return new Date(
+    Date.UTC(
+      year,
+      Number(match[2]) - 1,
+      Number(match[3]),
+      Number(match[4]),
+      Number(match[5]),
+      Number(match[6] ?? 0)
+    )
+  );
+}
+
+/**
+ * Short human readable value for primitive nodes, or null for containers
+ */
+export function describeAsn1Value(node: Asn1Node): string | null {
+  if (node.constructed || node.tagClass !== "universal") return null;
+
+  switch (node.tagNumber) {
+    case ASN1_TAGS.BOOLEAN:
+      return node.content[0] ? "TRUE" : "FALSE";
+    case ASN1_TAGS.INTEGER:
+    case ASN1_TAGS.ENUMERATED: {
+      const value = decodeInteger(node.content);
+      return typeof value === "number"
+        ? String(value)
+        : `0x${value} (${integerBitLength(node.content)} bit)`;
+    }
+    case ASN1_TAGS.NULL:
+      return "";
+    case ASN1_TAGS.OBJECT_IDENTIFIER:
+      return decodeOid(node.content);
+    case ASN1_TAGS.UTC_TIME:
+    case ASN1_TAGS.GENERALIZED_TIME:
+      return decodeAsn1Time(node)?.toISOString() ?? decodeAsn1String(node);
+    case ASN1_TAGS.BIT_STRING:
+    case ASN1_TAGS.OCTET_STRING:
+      return null;
+    default:
+      return UNIVERSAL_TAG_NAMES[node.tagNumber]?.endsWith("String")
+        ? decodeAsn1String(node)
+        : null;
+  }
+}
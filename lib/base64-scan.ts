@@ -0,0 +1,136 @@
+/**
+ * Find base64 payloads embedded in arbitrary text
+ * (logs, HAR exports, JSON responses, HTML/CSS with data URIs)
+ */
+
+import {
+  cleanBase64,
+  detectBase64Format,
+  detectMimeType,
+  isValidBase64,
+  type MimeInfo,
+} from "@/lib/file-utils";
+
+export type ScanMatchKind = "data-uri" | "base64" | "base64url";
+
+export interface ScanMatch {
+  id: string;
+  /** Character offsets of the match in the scanned text (end exclusive) */
+  start: number;
+  end: number;
+  /** 1-based line and column of `start` */
+  line: number;
+  column: number;
+  kind: ScanMatchKind;
+  /** Standard, padded base64 payload, ready for `base64ToBytes` */
+  base64: string;
+  decodedSize: number;
+  mime: MimeInfo;
+}
+
+/** Runs shorter than this are too likely to be identifiers or words */
+export const DEFAULT_MIN_SCAN_LENGTH = 24;
+
+/** Stop after this many matches so huge logs stay responsive */
+export const MAX_SCAN_MATCHES = 1000;
+
+/**
+ * Data URIs with optional parameters. Slashes may be JSON-escaped (`\/`),
+ * as in some HAR exports.
+ */
+const DATA_URI_REGEX =
+  /data:([a-z]+\\?\/[a-z0-9.+-]+)?(?:;[a-z0-9-]+=[^;,"'\s]+)*;base64,((?:[A-Za-z0-9+_-]|\\?\/)+={0,2})/gi;
+
+/** Candidate base64/base64url runs */
+const BASE64_RUN_REGEX = /(?:[A-Za-z0-9+_-]|\\?\/)+={0,2}/g;
+
+/**
+ * Heuristic filter for runs: encoded data mixes upper case, lower case and
+ * digits or symbols, while words, paths and hex digests usually don't.
+ * Also used by lib/decode-pipeline before offering a base64 layer.
+ */
+export function looksEncoded(run: string): boolean {
+  if (/^[0-9a-fA-F]+$/.test(run)) return false;
+  return /[A-Z]/.test(run) && /[a-z]/.test(run) && /[0-9+/_-]/.test(run);
+}
+
+function decodedSize(base64: string): number {
+  const padding = (base64.match(/=+$/) || [""])[0].length;
+  return Math.floor((base64.length * 3) / 4) - padding;
+}
+
+/**
+ * Scan text for data URIs and bare base64/base64url runs of at least
+ * `minLength` characters, in order of appearance.
+ */
+export function scanForBase64(
+  text: string,
+  minLength = DEFAULT_MIN_SCAN_LENGTH
+): ScanMatch[] {
+  const found: Omit<ScanMatch, "id" | "line" | "column">[] = [];
+  const covered: [number, number][] = [];
+
+  for (const match of text.matchAll(DATA_URI_REGEX)) {
+    const payload = match[2].replace(/\\\//g, "/");
+    if (payload.length < minLength || !isValidBase64(payload)) continue;
+
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    const base64 = cleanBase64(payload);
+    const mimeType = match[1]?.replace("\\/", "/");
+    covered.push([start, end]);
+    found.push({
+      start,
+      end,
+      kind: "data-uri",
+      base64,
+      decodedSize: decodedSize(base64),
+      mime: detectMimeType(
+        mimeType ? `data:${mimeType};base64,${base64}` : base64
+      ),
+    });
+  }
+
+  for (const match of text.matchAll(BASE64_RUN_REGEX)) {
+    if (found.length >= MAX_SCAN_MATCHES) break;
+
+    const start = match.index ?? 0;
+    if (covered.some(([from, to]) => start >= from && start < to)) continue;
+
+    const run = match[0].replace(/\\\//g, "/");
+    if (run.length < minLength || !looksEncoded(run) || !isValidBase64(run)) {
+      continue;
+    }
+
+    const base64 = cleanBase64(run);
+    found.push({
+      start,
+      end: start + match[0].length,
+      kind: detectBase64Format(run).variant === "url" ? "base64url" : "base64",
+      base64,
+      decodedSize: decodedSize(base64),
+      mime: detectMimeType(base64),
+    });
+  }
+
+  found.sort((a, b) => a.start - b.start);
+
+  // Walk the text once to turn offsets into line/column positions
+  let line = 1;
+  let lineStart = 0;
+  let position = 0;
+  return found.slice(0, MAX_SCAN_MATCHES).map((match, index) => {
+    for (; position < match.start; position++) {
+      if (text.charCodeAt(position) === 10) {
+        line++;
+        lineStart = position + 1;
+      }
+    }
+    return {
+      ...match,
+      id: `scan-${index}`,
+      line,
+      column: match.start - lineStart + 1,
+    };
+  });
+}
@@ -0,0 +1,103 @@
+/**
+ * Promise wrapper around the base64 decoding worker
+ * Each call gets its own worker, so cancelling simply terminates it
+ */
+
+import type { CompressionType } from "@/lib/compression";
+import type { Base64Format, MimeInfo } from "@/lib/file-utils";
+import type {
+  DecodeRequest,
+  DecodeResponse,
+  DecodeStage,
+} from "@/lib/base64.worker";
+
+export type { DecodeStage };
+
+export interface DecodeProgress {
+  stage: DecodeStage;
+  /** Fraction of the current stage completed (0–1) */
+  fraction: number;
+}
+
+export interface WorkerDecodeResult {
+  blob: Blob;
+  mime: MimeInfo;
+  format: Base64Format;
+  /** SHA-256 of the decoded bytes, lowercase hex */
+  sha256: string;
+  /** Compressed stream found by header or, for opaque binary, by probing */
+  compression: CompressionType | null;
+}
+
+export interface WorkerDecodeOptions {
+  onProgress?: (progress: DecodeProgress) => void;
+  /** Aborting terminates the worker; the promise rejects with an AbortError */
+  signal?: AbortSignal;
+}
+
+/**
+ * Decode base64 (any variant, data URI or PEM) in a Web Worker.
+ * Rejects with the validation error message if the input isn't base64.
+ */
+export function decodeBase64InWorker(
+  input: string,
+  { onProgress, signal }: WorkerDecodeOptions = {}
+): Promise<WorkerDecodeResult> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Decoding cancelled", "AbortError"));
+      return;
+    }
+    if (typeof Worker === "undefined") {
+      reject(new Error("Web Workers are not supported in this browser"));
+      return;
+    }
+
+    const worker = new Worker(new URL("./base64.worker.ts", import.meta.url), {
+      type: "module",
+    });
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener("abort", handleAbort);
+    };
+    const handleAbort = () => {
+      finish();
+      reject(new DOMException("Decoding cancelled", "AbortError"));
+    };
+    signal?.addEventListener("abort", handleAbort);
+
+    worker.onmessage = (event: MessageEvent<DecodeResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case "progress":
+          onProgress?.({
+            stage: message.stage,
+            fraction: message.total > 0 ? message.loaded / message.total : 0,
+          });
+          break;
+        case "result":
+          finish();
+          resolve({
+            blob: new Blob([message.buffer], { type: message.mime.mime }),
+            mime: message.mime,
+            format: message.format,
+            sha256: message.sha256,
+            compression: message.compression,
+          });
+          break;
+        case "error":
+          finish();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || "Decoding worker failed"));
+    };
+
+    const request: DecodeRequest = { type: "decode", input };
+    worker.postMessage(request);
+  });
+}
@@ -0,0 +1,122 @@
+/**
+ * Web Worker that validates, decodes, sniffs and hashes base64 off the main
+ * thread, in chunks, reporting progress as it goes.
+ * Started through `decodeBase64InWorker`; not imported directly.
+ */
+
+import {
+  SNIFF_BYTES,
+  cleanBase64,
+  detectBase64Format,
+  isValidBase64,
+  parseDataUriMime,
+  resolveMimeType,
+  sha256Hex,
+  sniffMimeType,
+  type Base64Format,
+  type MimeInfo,
+} from "@/lib/file-utils";
+import { probeCompression, type CompressionType } from "@/lib/compression";
+
+export type DecodeStage = "validating" | "decoding" | "hashing";
+
+export interface DecodeRequest {
+  type: "decode";
+  input: string;
+}
+
+export type DecodeResponse =
+  | { type: "progress"; stage: DecodeStage; loaded: number; total: number }
+  | {
+      type: "result";
+      buffer: ArrayBuffer;
+      mime: MimeInfo;
+      format: Base64Format;
+      sha256: string;
+      compression: CompressionType | null;
+    }
+  | { type: "error"; message: string };
+
+/** Base64 characters decoded per step; a multiple of 4 */
+const CHUNK_CHARS = 1024 * 1024;
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<DecodeRequest>) => void) | null;
+  postMessage: (message: DecodeResponse, transfer?: Transferable[]) => void;
+};
+
+async function decode(input: string) {
+  scope.postMessage({
+    type: "progress",
+    stage: "validating",
+    loaded: 0,
+    total: 1,
+  });
+  if (!isValidBase64(input)) {
+    throw new Error(
+      "Invalid base64 string. Please check your input, or use Scan to find base64 inside other text."
+    );
+  }
+
+  const format = detectBase64Format(input);
+  // Read before cleaning, which drops the data URI header
+  const declared = parseDataUriMime(input);
+  const cleaned = cleanBase64(input);
+  const padding = (cleaned.match(/=+$/) || [""])[0].length;
+  const bytes = new Uint8Array(Math.floor((cleaned.length * 3) / 4) - padding);
+
+  let written = 0;
+  for (let start = 0; start < cleaned.length; start += CHUNK_CHARS) {
+    const binary = atob(cleaned.slice(start, start + CHUNK_CHARS));
+    for (let i = 0; i < binary.length; i++) {
+      bytes[written++] = binary.charCodeAt(i);
+    }
+    scope.postMessage({
+      type: "progress",
+      stage: "decoding",
+      loaded: written,
+      total: bytes.length,
+    });
+  }
+
+  const mime = resolveMimeType(
+    declared,
+    sniffMimeType(bytes.subarray(0, SNIFF_BYTES), bytes.length)
+  );
+
+  // Headerless formats and zlib headers can only be confirmed by inflating,
+  // which is too slow for the main thread on large payloads
+  const compression = await probeCompression(bytes, {
+    headerless: mime.mime === "application/octet-stream",
+  });
+
+  scope.postMessage({
+    type: "progress",
+    stage: "hashing",
+    loaded: 0,
+    total: 1,
+  });
+  const sha256 = await sha256Hex(bytes);
+
+  scope.postMessage(
+    {
+      type: "result",
+      buffer: bytes.buffer,
+      mime,
+      format,
+      sha256,
+      compression,
+    },
+    [bytes.buffer]
+  );
+}
+
+scope.onmessage = (event) => {
+  if (event.data.type !== "decode") return;
+  decode(event.data.input).catch((err) => {
+    scope.postMessage({
+      type: "error",
+      message: err instanceof Error ? err.message : "Failed to decode base64",
+    });
+  });
+};
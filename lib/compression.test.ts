@@ -0,0 +1,80 @@
+import { deflateRawSync, deflateSync, gzipSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import {
+  MAX_DECOMPRESSED_BYTES,
+  decompress,
+  detectCompression,
+  probeCompression,
+} from "@/lib/compression";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const TEXT = encoder.encode("The quick brown fox jumps over the lazy dog");
+
+describe("detectCompression", () => {
+  it("recognises gzip and zlib headers", () => {
+    expect(detectCompression(gzipSync(TEXT))).toBe("gzip");
+    expect(detectCompression(deflateSync(TEXT))).toBe("zlib");
+    expect(detectCompression(deflateSync(TEXT, { level: 1 }))).toBe("zlib");
+  });
+
+  it("ignores zlib headers that need a preset dictionary", () => {
+    expect(detectCompression(new Uint8Array([0x78, 0xbb, 0, 0]))).toBeNull();
+    expect(detectCompression(encoder.encode("Xfce"))).toBeNull();
+  });
+
+  it("has nothing to say about raw deflate or short input", () => {
+    expect(detectCompression(deflateRawSync(TEXT))).toBeNull();
+    expect(detectCompression(new Uint8Array([0x1f]))).toBeNull();
+  });
+});
+
+describe("probeCompression", () => {
+  it("confirms real gzip, zlib and raw deflate streams", async () => {
+    expect(await probeCompression(gzipSync(TEXT))).toBe("gzip");
+    expect(await probeCompression(deflateSync(TEXT))).toBe("zlib");
+    expect(await probeCompression(deflateRawSync(TEXT))).toBe("deflate-raw");
+  });
+
+  it("rejects text that happens to pass the zlib header check", async () => {
+    for (const text of [
+      "HKEY_LOCAL_MACHINE\\Software",
+      "Hjalmar wrote back today",
+      "(read-only) mode is on",
+      "Xfce desktop settings",
+      "8OCLOCK meeting notes",
+    ]) {
+      const bytes = encoder.encode(text);
+      expect(await probeCompression(bytes, { headerless: false })).toBeNull();
+    }
+  });
+
+  it("leaves headerless formats alone when asked", async () => {
+    expect(
+      await probeCompression(deflateRawSync(TEXT), { headerless: false })
+    ).toBeNull();
+  });
+});
+
+describe("decompress", () => {
+  it("inflates each format", async () => {
+    expect(decoder.decode(await decompress(gzipSync(TEXT), "gzip"))).toBe(
+      decoder.decode(TEXT)
+    );
+    expect(decoder.decode(await decompress(deflateSync(TEXT), "zlib"))).toBe(
+      decoder.decode(TEXT)
+    );
+  });
+
+  it("rejects corrupt streams", async () => {
+    await expect(decompress(TEXT, "gzip")).rejects.toThrow("Invalid gzip data");
+  });
+
+  it("stops at the size limit", async () => {
+    const bomb = gzipSync(new Uint8Array(MAX_DECOMPRESSED_BYTES + 1));
+    await expect(decompress(bomb, "gzip")).rejects.toThrow(
+      "Decompressed data is too large to preview"
+    );
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Compressed stream detection and decompression
+ * Uses the browser's native DecompressionStream, so nothing leaves the page
+ */
+
+/** Compression wrappers we can detect or try */
+export type CompressionType = "gzip" | "zlib" | "deflate-raw" | "brotli";
+
+/** Labels used in the transform chain shown to the user */
+export const COMPRESSION_LABELS: Record<CompressionType, string> = {
+  gzip: "gzip",
+  zlib: "zlib",
+  "deflate-raw": "deflate",
+  brotli: "brotli",
+};
+
+/** Maps our names onto the DecompressionStream format strings */
+const STREAM_FORMATS: Record<CompressionType, string> = {
+  gzip: "gzip",
+  zlib: "deflate",
+  "deflate-raw": "deflate-raw",
+  brotli: "brotli",
+};
+
+/** Refuse to inflate past this size to guard against decompression bombs */
+export const MAX_DECOMPRESSED_BYTES = 256 * 1024 * 1024;
+
+/** Payloads larger than this are not probed for headerless formats */
+const MAX_PROBE_BYTES = 8 * 1024 * 1024;
+
+/**
+ * Whether this browser's DecompressionStream supports a format.
+ * Brotli support is recent and missing from most browsers.
+ */
+export function isCompressionSupported(type: CompressionType): boolean {
+  if (typeof DecompressionStream === "undefined") return false;
+  try {
+    new DecompressionStream(STREAM_FORMATS[type] as CompressionFormat);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Detect compression from magic bytes.
+ * Only gzip and zlib carry a header; raw deflate and brotli need `probeCompression`.
+ * The zlib header is two bytes that plenty of text matches ("HK", "8O"),
+ * so `probeCompression` confirms it before offering it.
+ */
+export function detectCompression(bytes: Uint8Array): CompressionType | null {
+  if (bytes.length < 2) return null;
+
+  if (bytes[0] === 0x1f && bytes[1] === 0x8b && bytes[2] === 0x08) {
+    return "gzip";
+  }
+
+  // zlib: CM = 8 (deflate), CINFO <= 7, no preset dictionary (FDICT), and
+  // the header checksum divides by 31
+  const cmf = bytes[0];
+  const flg = bytes[1];
+  if (
+    (cmf & 0x0f) === 8 &&
+    cmf >> 4 <= 7 &&
+    (flg & 0x20) === 0 &&
+    ((cmf << 8) | flg) % 31 === 0
+  ) {
+    return "zlib";
+  }
+
+  return null;
+}
+
+/**
+ * Decompress bytes with the given format.
+ * Throws if the stream is corrupt or exceeds `MAX_DECOMPRESSED_BYTES`.
+ */
+export async function decompress(
+  bytes: Uint8Array,
+  type: CompressionType
+): Promise<Uint8Array> {
+  if (!isCompressionSupported(type)) {
+    throw new Error(
+      `${COMPRESSION_LABELS[type]} decompression is not supported by this browser`
+    );
+  }
+
+  const stream = new Blob([bytes as BlobPart])
+    .stream()
+    .pipeThrough(
+      new DecompressionStream(STREAM_FORMATS[type] as CompressionFormat)
+    );
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  for (;;) {
+    let chunk: ReadableStreamReadResult<Uint8Array>;
+    try {
+      chunk = await reader.read();
+    } catch {
+      throw new Error(`Invalid ${COMPRESSION_LABELS[type]} data`);
+    }
+    if (chunk.done) break;
+
+    total += chunk.value.length;
+    if (total > MAX_DECOMPRESSED_BYTES) {
+      reader.cancel().catch(() => {
+        // Nothing left to release
+      });
+      throw new Error("Decompressed data is too large to preview");
+    }
+    chunks.push(chunk.value);
+  }
+
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+/** Whether the whole payload inflates to something */
+async function inflates(
+  bytes: Uint8Array,
+  type: CompressionType
+): Promise<boolean> {
+  if (!isCompressionSupported(type)) return false;
+  try {
+    return (await decompress(bytes, type)).length > 0;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Detect compression, confirming a zlib header by inflating the payload and
+ * falling back to trial decompression for headerless formats (raw deflate as
+ * used by SAML redirects, and brotli where supported). Pass
+ * `headerless: false` to skip the fallback. Payloads too large to try are
+ * judged on their header alone.
+ */
+export async function probeCompression(
+  bytes: Uint8Array,
+  { headerless = true }: { headerless?: boolean } = {}
+): Promise<CompressionType | null> {
+  const detected = detectCompression(bytes);
+  if (detected === "gzip") return detected;
+  if (bytes.length === 0 || bytes.length > MAX_PROBE_BYTES) return detected;
+  if (detected === "zlib" && (await inflates(bytes, "zlib"))) return "zlib";
+  if (!headerless) return null;
+
+  for (const type of ["deflate-raw", "brotli"] as const) {
+    if (await inflates(bytes, type)) return type;
+  }
+  return null;
+}
@@ -0,0 +1,113 @@
+import { gzipSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import {
+  MAX_PIPELINE_DEPTH,
+  applyCandidate,
+  createInputLayer,
+  findCandidates,
+  peelLayers,
+} from "@/lib/decode-pipeline";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function base64(value: string | Uint8Array): string {
+  return Buffer.from(value).toString("base64");
+}
+
+async function peel(input: string) {
+  return peelLayers(createInputLayer(input));
+}
+
+describe("peelLayers", () => {
+  it("peels nested base64 down to the text", async () => {
+    const layers = await peel(base64(base64("The quick brown fox jumps")));
+    expect(layers.map((layer) => layer.transform)).toEqual([
+      "base64",
+      "base64",
+    ]);
+    expect(decoder.decode(layers[1].bytes)).toBe("The quick brown fox jumps");
+  });
+
+  it("decompresses gzip found inside base64", async () => {
+    const json = JSON.stringify({ message: "compressed payload" });
+    const layers = await peel(base64(gzipSync(json)));
+    expect(layers.map((layer) => layer.transform)).toEqual(["base64", "gzip"]);
+    expect(layers[0].mime.mime).toBe("application/gzip");
+    expect(decoder.decode(layers[1].bytes)).toBe(json);
+  });
+
+  it("URL-decodes, then decodes hex", async () => {
+    const hex = Buffer.from("hello, pipeline").toString("hex");
+    // "%30%78" is a URL-encoded "0x" prefix
+    const layers = await peel(`%30%78${hex}`);
+    expect(layers.map((layer) => layer.transform)).toEqual(["url", "hex"]);
+    expect(decoder.decode(layers[1].bytes)).toBe("hello, pipeline");
+  });
+
+  it("follows the longest encoded JSON field", async () => {
+    const token = base64("a secret hidden in a JSON document");
+    const layers = await peel(
+      JSON.stringify({ id: 7, note: "short", data: { token } })
+    );
+    expect(layers[0].transform).toBe("json-field");
+    expect(layers[0].label).toBe("JSON field data.token → base64");
+    expect(decoder.decode(layers[0].bytes)).toBe(
+      "a secret hidden in a JSON document"
+    );
+  });
+
+  it("leaves plain words and prose alone", async () => {
+    expect(await peel("HelloWorld")).toEqual([]);
+    expect(await peel("password")).toEqual([]);
+    expect(await peel("just some ordinary text, nothing encoded")).toEqual([]);
+  });
+
+  it("stops at the depth limit", async () => {
+    let input = "deep";
+    for (let i = 0; i < MAX_PIPELINE_DEPTH + 2; i++) input = base64(input);
+    const layers = await peel(input);
+    expect(layers).toHaveLength(MAX_PIPELINE_DEPTH);
+  });
+});
+
+describe("findCandidates", () => {
+  it("offers hex before base64 for all-hex strings", async () => {
+    const candidates = await findCandidates(encoder.encode("deadbeefCAFE0123"));
+    expect(candidates[0].transform).toBe("hex");
+  });
+
+  it("offers hex for digit-only strings only with a 0x prefix", async () => {
+    expect(await findCandidates(encoder.encode("12345678"))).toEqual([]);
+    expect(await peel("20241019123456")).toEqual([]);
+
+    const candidates = await findCandidates(encoder.encode("0x12345678"));
+    expect(candidates.map((candidate) => candidate.transform)).toEqual(["hex"]);
+  });
+
+  it("offers nothing for opaque binary", async () => {
+    expect(await findCandidates(new Uint8Array([0, 1, 2, 3, 255]))).toEqual([]);
+  });
+});
+
+describe("applyCandidate", () => {
+  it("returns null when the transform fails or changes nothing", async () => {
+    const layer = createInputLayer("unchanged");
+    expect(
+      await applyCandidate(layer, {
+        transform: "url",
+        label: "URL-decode",
+        apply: async () => encoder.encode("unchanged"),
+      })
+    ).toBeNull();
+    expect(
+      await applyCandidate(layer, {
+        transform: "gzip",
+        label: "gzip",
+        apply: async () => {
+          throw new Error("corrupt");
+        },
+      })
+    ).toBeNull();
+  });
+});
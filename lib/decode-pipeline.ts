@@ -0,0 +1,270 @@
+/**
+ * Multi-layer decoding pipeline
+ * Repeatedly detects and applies transforms (base64, hex, compression,
+ * URL-encoding, JSON field extraction) until the content stops changing
+ */
+
+import {
+  base64ToBytes,
+  cleanBase64,
+  detectBase64Format,
+  isValidBase64,
+  parseDataUriMime,
+  sniffMimeType,
+  type MimeInfo,
+} from "@/lib/file-utils";
+import {
+  COMPRESSION_LABELS,
+  decompress,
+  probeCompression,
+} from "@/lib/compression";
+import { looksEncoded } from "@/lib/base64-scan";
+
+export type LayerTransform =
+  | "input"
+  | "base64"
+  | "base64url"
+  | "hex"
+  | "url"
+  | "json-field"
+  | "gzip"
+  | "zlib"
+  | "deflate-raw"
+  | "brotli";
+
+export interface PipelineLayer {
+  id: string;
+  /** Transform that produced this layer from the previous one */
+  transform: LayerTransform;
+  /** Short description of the step, e.g. "gzip" or "JSON field data.token" */
+  label: string;
+  bytes: Uint8Array;
+  mime: MimeInfo;
+}
+
+/** A transform that can be applied to a layer to produce the next one */
+export interface LayerCandidate {
+  transform: LayerTransform;
+  label: string;
+  apply: () => Promise<Uint8Array>;
+}
+
+/** Safety net against payloads that decode to themselves forever */
+export const MAX_PIPELINE_DEPTH = 32;
+
+/** Shorter strings are too likely to be ordinary words to treat as encoded */
+const MIN_ENCODED_LENGTH = 8;
+
+/** JSON fields shorter than this are not offered as layers */
+const MIN_JSON_FIELD_LENGTH = 16;
+
+let layerCounter = 0;
+
+function createLayer(
+  transform: LayerTransform,
+  label: string,
+  bytes: Uint8Array
+): PipelineLayer {
+  layerCounter += 1;
+  return {
+    id: `layer-${layerCounter}`,
+    transform,
+    label,
+    bytes,
+    mime: sniffMimeType(bytes),
+  };
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
+
+/** Decode bytes as UTF-8 text, or null if they are binary */
+function decodeText(bytes: Uint8Array): string | null {
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    return null;
+  }
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = Number.parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/** Candidates for a single encoded string (base64, hex, URL-encoding) */
+function stringCandidates(value: string): LayerCandidate[] {
+  const candidates: LayerCandidate[] = [];
+  const compact = value.trim().replace(/\s/g, "");
+  if (compact.length < MIN_ENCODED_LENGTH) return candidates;
+
+  // Hex first: an all-hex string is also valid base64 but rarely means it.
+  // Digit-only runs are far more often numbers, so those need the 0x prefix.
+  if (
+    /^(?:0x)?(?:[0-9a-fA-F]{2})+$/.test(compact) &&
+    (compact.startsWith("0x") || /[a-fA-F]/.test(compact))
+  ) {
+    const hex = compact.replace(/^0x/, "");
+    candidates.push({
+      transform: "hex",
+      label: "hex",
+      apply: async () => hexToBytes(hex),
+    });
+  }
+
+  // Line-wrapped base64 is common, but spaces mean prose, not base64.
+  // Plain words and identifiers are often valid base64 too, so bare runs
+  // must also look like encoded data.
+  if (
+    !/[ \t]/.test(value.trim()) &&
+    (parseDataUriMime(value) !== null || looksEncoded(compact)) &&
+    isValidBase64(value)
+  ) {
+    const urlSafe = detectBase64Format(value).variant === "url";
+    candidates.push({
+      transform: urlSafe ? "base64url" : "base64",
+      label: urlSafe ? "base64url" : "base64",
+      apply: async () => base64ToBytes(cleanBase64(value)),
+    });
+  }
+
+  if (/%[0-9a-fA-F]{2}/.test(value)) {
+    try {
+      const decoded = decodeURIComponent(value.trim());
+      if (decoded !== value.trim()) {
+        candidates.push({
+          transform: "url",
+          label: "URL-decode",
+          apply: async () => new TextEncoder().encode(decoded),
+        });
+      }
+    } catch {
+      // Malformed escape sequence
+    }
+  }
+
+  return candidates;
+}
+
+/** Walk parsed JSON and collect string fields that look encoded */
+function jsonFieldCandidates(json: unknown): LayerCandidate[] {
+  const fields: { path: string; value: string }[] = [];
+
+  const visit = (node: unknown, path: string) => {
+    if (typeof node === "string") {
+      if (node.length >= MIN_JSON_FIELD_LENGTH)
+        fields.push({ path, value: node });
+    } else if (Array.isArray(node)) {
+      node.forEach((item, index) => visit(item, `${path}[${index}]`));
+    } else if (node && typeof node === "object") {
+      for (const [key, value] of Object.entries(node)) {
+        visit(value, path ? `${path}.${key}` : key);
+      }
+    }
+  };
+  visit(json, "");
+
+  // Longest fields first: the interesting payload is usually the biggest one
+  fields.sort((a, b) => b.value.length - a.value.length);
+
+  return fields.flatMap(({ path, value }) =>
+    stringCandidates(value).map((candidate) => ({
+      ...candidate,
+      transform: "json-field" as const,
+      label: `JSON field ${path || "(root)"} → ${candidate.label}`,
+    }))
+  );
+}
+
+/**
+ * List every transform that could be applied to a layer, most likely first.
+ */
+export async function findCandidates(
+  bytes: Uint8Array
+): Promise<LayerCandidate[]> {
+  const text = decodeText(bytes);
+
+  if (text !== null) {
+    const candidates = stringCandidates(text);
+    const trimmed = text.trim();
+    if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+      try {
+        candidates.push(...jsonFieldCandidates(JSON.parse(trimmed)));
+      } catch {
+        // Not JSON
+      }
+    }
+    if (candidates.length > 0) return candidates;
+  }
+
+  const compression = await probeCompression(bytes);
+  if (compression) {
+    return [
+      {
+        transform: compression,
+        label: COMPRESSION_LABELS[compression],
+        apply: () => decompress(bytes, compression),
+      },
+    ];
+  }
+
+  return [];
+}
+
+/**
+ * Wrap raw user input as the first pipeline layer
+ */
+export function createInputLayer(input: string): PipelineLayer {
+  return createLayer("input", "input", new TextEncoder().encode(input.trim()));
+}
+
+/**
+ * Apply a candidate transform to produce the next layer.
+ * Returns null if the transform fails or doesn't change the content.
+ */
+export async function applyCandidate(
+  from: PipelineLayer,
+  candidate: LayerCandidate
+): Promise<PipelineLayer | null> {
+  try {
+    const bytes = await candidate.apply();
+    if (bytes.length === 0 || bytesEqual(bytes, from.bytes)) return null;
+    return createLayer(candidate.transform, candidate.label, bytes);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Peel layers starting from `start`, always taking the first candidate
+ * that succeeds, until nothing applies or `MAX_PIPELINE_DEPTH` is reached.
+ * Returns the new layers only (not including `start`).
+ */
+export async function peelLayers(
+  start: PipelineLayer,
+  depth = 0
+): Promise<PipelineLayer[]> {
+  const layers: PipelineLayer[] = [];
+  let current = start;
+
+  while (depth + layers.length < MAX_PIPELINE_DEPTH) {
+    let next: PipelineLayer | null = null;
+    for (const candidate of await findCandidates(current.bytes)) {
+      next = await applyCandidate(current, candidate);
+      if (next) break;
+    }
+    if (!next) break;
+    layers.push(next);
+    current = next;
+  }
+
+  return layers;
+}
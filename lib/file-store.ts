@@ -0,0 +1,296 @@
+/**
+ * IndexedDB-backed file persistence
+ * Files are kept as Blobs under the same `StorageKey`s as `storage`, so
+ * payloads far beyond localStorage's ~5 MB quota survive a reload
+ */
+
+import {
+  STORAGE_KEYS,
+  dataUrlToBytes,
+  fileToBase64,
+  formatBytes,
+  storage,
+  type StorageKey,
+  type StoredFile,
+} from "@/lib/file-utils";
+import {
+  beginSession,
+  clearsOnClose,
+  isExpired,
+  notifyStorageChange,
+  shouldPersist,
+} from "@/lib/persistence";
+
+export interface PersistedFile {
+  name: string;
+  type: string;
+  size: number;
+  blob: Blob;
+  timestamp: number;
+}
+
+/** Thrown by `fileStore.save` when the browser refuses to store more data */
+export class StorageQuotaError extends Error {
+  constructor(size: number) {
+    super(
+      `Not enough browser storage to keep this ${formatBytes(
+        size
+      )} file after a reload. It stays available until you leave the page.`
+    );
+    this.name = "StorageQuotaError";
+  }
+}
+
+const DB_NAME = "base64-utils";
+const DB_VERSION = 2;
+const FILE_STORE = "files";
+/** Object store for lib/history.ts, keyed by entry id */
+export const HISTORY_STORE = "history";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available in this browser"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      let isBlocked = false;
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(FILE_STORE)) {
+          db.createObjectStore(FILE_STORE);
+        }
+        if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+          db.createObjectStore(HISTORY_STORE, { keyPath: "id" });
+        }
+      };
+      // Another tab still has the old version open and didn't close it
+      request.onblocked = () => {
+        isBlocked = true;
+        reject(
+          new Error(
+            "Browser storage is being upgraded. Close this app's other tabs and reload."
+          )
+        );
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        if (isBlocked) {
+          // The caller has already been told; a later call reopens
+          db.close();
+          return;
+        }
+        // Let a newer version in another tab upgrade; the next call reopens
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        if (!(beginSession() && clearsOnClose())) {
+          resolve(db);
+          return;
+        }
+        // The wipe on tab close can't be relied on to commit, so files from
+        // a closed tab are removed here, before anything reads the store
+        const transaction = db.transaction(FILE_STORE, "readwrite");
+        transaction.objectStore(FILE_STORE).clear();
+        transaction.oncomplete = () => resolve(db);
+        transaction.onabort = () => resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry, e.g. after private browsing blocked the first one
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Run a request in its own transaction, resolving once the transaction
+ * has committed so that quota failures surface as rejections.
+ */
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = run(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onabort = () => reject(transaction.error ?? request.error);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+  });
+}
+
+export function isQuotaError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "QuotaExceededError";
+}
+
+/**
+ * Move a file saved by the localStorage-only versions of the app into
+ * IndexedDB. Returns null when there is nothing to migrate.
+ */
+async function migrateLegacyFile(
+  key: StorageKey
+): Promise<PersistedFile | null> {
+  const legacy = storage.load(key);
+  if (!legacy) return null;
+
+  let file: PersistedFile;
+  try {
+    file = {
+      name: legacy.name,
+      type: legacy.type,
+      size: legacy.size,
+      blob: new Blob([dataUrlToBytes(legacy.data) as BlobPart], {
+        type: legacy.type,
+      }),
+      timestamp: legacy.timestamp,
+    };
+  } catch {
+    // Corrupt entry; drop it rather than failing every load
+    storage.remove(key);
+    return null;
+  }
+
+  try {
+    await fileStore.save(key, file);
+    storage.remove(key);
+  } catch {
+    // Keep the legacy copy so nothing is lost; retry on the next load
+  }
+  return file;
+}
+
+export const fileStore = {
+  /**
+   * Persist a file under `key`, replacing any previous one.
+   * A no-op (apart from dropping the old copy) when persistence is off.
+   * Rejects with `StorageQuotaError` when the browser is out of space.
+   */
+  async save(key: StorageKey, file: PersistedFile): Promise<void> {
+    if (!shouldPersist()) {
+      await this.remove(key);
+      return;
+    }
+    try {
+      await withStore(FILE_STORE, "readwrite", (store) =>
+        store.put(file, STORAGE_KEYS[key])
+      );
+    } catch (error) {
+      if (isQuotaError(error)) throw new StorageQuotaError(file.size);
+      throw new Error(
+        "Browser storage is unavailable, so this file won't survive a reload."
+      );
+    }
+    notifyStorageChange();
+  },
+
+  /**
+   * Load the file saved under `key`, migrating a localStorage copy first
+   * if one is left over
+   */
+  async load(key: StorageKey): Promise<PersistedFile | null> {
+    try {
+      const file = await withStore<PersistedFile | undefined>(
+        FILE_STORE,
+        "readonly",
+        (store) => store.get(STORAGE_KEYS[key])
+      );
+      if (file && isExpired(file.timestamp)) {
+        await this.remove(key);
+        return null;
+      }
+      if (file) return file;
+    } catch {
+      // Fall through to the legacy copy, if any
+    }
+    return migrateLegacyFile(key);
+  },
+
+  /** `load`, with the Blob read back into an in-memory data URL */
+  async loadAsDataUrl(key: StorageKey): Promise<StoredFile | null> {
+    const file = await this.load(key);
+    if (!file) return null;
+    return {
+      name: file.name,
+      type: file.type,
+      size: file.size,
+      data: await fileToBase64(file.blob),
+      timestamp: file.timestamp,
+    };
+  },
+
+  async remove(key: StorageKey): Promise<void> {
+    storage.remove(key);
+    try {
+      await withStore(FILE_STORE, "readwrite", (store) =>
+        store.delete(STORAGE_KEYS[key])
+      );
+    } catch {
+      // Ignore storage errors
+    }
+    notifyStorageChange();
+  },
+
+  /**
+   * Drop every file that has outlived the auto-expire window, by its
+   * stored timestamp and without migrating legacy copies. ACTIVE_TAB is a
+   * preference rather than content, so it has no timestamp and is exempt.
+   */
+  async pruneExpired(): Promise<void> {
+    try {
+      await withStore(FILE_STORE, "readwrite", (store) => {
+        const request = store.openCursor();
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor) return;
+          if (isExpired((cursor.value as PersistedFile).timestamp)) {
+            cursor.delete();
+          }
+          cursor.continue();
+        };
+        return request;
+      });
+    } catch {
+      // Ignore storage errors
+    }
+    notifyStorageChange();
+  },
+
+  /** Total size of the stored files in bytes */
+  async usage(): Promise<number> {
+    try {
+      const files = await withStore<PersistedFile[]>(
+        FILE_STORE,
+        "readonly",
+        (store) => store.getAll()
+      );
+      return files.reduce((sum, file) => sum + file.size, 0);
+    } catch {
+      return 0;
+    }
+  },
+
+  /**
+   * Delete every stored file. History entries live in their own store
+   * and are left alone.
+   * Called alongside `storage.clearAll()` on tab close for privacy; the
+   * transaction may not finish there, so `openDatabase` repeats the wipe
+   * when the next tab starts.
+   */
+  async clearAll(): Promise<void> {
+    try {
+      await withStore(FILE_STORE, "readwrite", (store) => store.clear());
+    } catch {
+      // Ignore storage errors
+    }
+    notifyStorageChange();
+  },
+};
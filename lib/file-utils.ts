@@ -3,8 +3,10 @@
  * Handles MIME detection, local storage, and file conversion
  */
 
-// Local storage keys
-const STORAGE_KEYS = {
+import { notifyStorageChange, shouldPersist } from "@/lib/persistence";
+
+// Storage keys, shared by localStorage and the IndexedDB file store
+export const STORAGE_KEYS = {
   ENCODER_FILE: "b64_encoder_file",
   VIEWER_FILE: "b64_viewer_file",
   DECODER_INPUT: "b64_decoder_input",
@@ -14,116 +16,641 @@ const STORAGE_KEYS = {
 // Export keys for external access
 export type StorageKey = keyof typeof STORAGE_KEYS;
 
-// MIME type signatures for detection
-export const MIME_SIGNATURES: Record<string, { mime: string; ext: string }> = {
-  JVBERi0: { mime: "application/pdf", ext: "pdf" },
-  iVBORw0KGgo: { mime: "image/png", ext: "png" },
-  "/9j/": { mime: "image/jpeg", ext: "jpg" },
-  R0lGODlh: { mime: "image/gif", ext: "gif" },
-  R0lGODdh: { mime: "image/gif", ext: "gif" },
-  UEsDBBQA: { mime: "application/zip", ext: "zip" },
-  UEsFBgA: { mime: "application/zip", ext: "zip" },
-  PK: { mime: "application/zip", ext: "zip" },
-  AAAA: { mime: "video/mp4", ext: "mp4" },
-  GkXfo: { mime: "video/webm", ext: "webm" },
-  Qk0: { mime: "image/bmp", ext: "bmp" },
-  SUkqAA: { mime: "image/tiff", ext: "tiff" },
-  TU0AKg: { mime: "image/tiff", ext: "tiff" },
-  UklGR: { mime: "image/webp", ext: "webp" },
+/** How a MIME type was determined */
+export type MimeConfidence =
+  /** Matched a magic number in the decoded bytes */
+  | "sniffed"
+  /** Taken from a data URI prefix */
+  | "declared"
+  /** Inferred from content heuristics, or the octet-stream fallback */
+  | "guessed";
+
+export interface MimeInfo {
+  mime: string;
+  ext: string;
+  confidence: MimeConfidence;
+}
+
+/** A byte pattern expected at a fixed offset; `null` matches any byte */
+interface SignaturePart {
+  offset: number;
+  bytes: string | (number | null)[];
+}
+
+interface MimeSignature {
+  mime: string;
+  ext: string;
+  parts: SignaturePart[];
+  /** Extra check for formats whose magic number alone is too weak */
+  test?: (bytes: Uint8Array) => boolean;
+  /** Refine a container match (ZIP, ISO-BMFF, Matroska) by inspecting its contents */
+  refine?: (bytes: Uint8Array) => { mime: string; ext: string } | null;
+}
+
+/** Number of decoded bytes inspected for signatures */
+export const SNIFF_BYTES = 4096;
+
+// MIME type signatures for detection, matched against decoded bytes.
+// Order matters: more specific signatures must come before generic ones.
+export const MIME_SIGNATURES: MimeSignature[] = [
+  {
+    mime: "application/pdf",
+    ext: "pdf",
+    parts: [{ offset: 0, bytes: "%PDF-" }],
+  },
+  {
+    mime: "image/png",
+    ext: "png",
+    parts: [
+      { offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+    ],
+  },
+  {
+    mime: "image/jpeg",
+    ext: "jpg",
+    parts: [{ offset: 0, bytes: [0xff, 0xd8, 0xff] }],
+  },
+  { mime: "image/gif", ext: "gif", parts: [{ offset: 0, bytes: "GIF87a" }] },
+  { mime: "image/gif", ext: "gif", parts: [{ offset: 0, bytes: "GIF89a" }] },
+  {
+    mime: "image/webp",
+    ext: "webp",
+    parts: [
+      { offset: 0, bytes: "RIFF" },
+      { offset: 8, bytes: "WEBP" },
+    ],
+  },
+  {
+    mime: "audio/wav",
+    ext: "wav",
+    parts: [
+      { offset: 0, bytes: "RIFF" },
+      { offset: 8, bytes: "WAVE" },
+    ],
+  },
+  {
+    mime: "video/x-msvideo",
+    ext: "avi",
+    parts: [
+      { offset: 0, bytes: "RIFF" },
+      { offset: 8, bytes: "AVI " },
+    ],
+  },
+  {
+    mime: "image/tiff",
+    ext: "tiff",
+    parts: [{ offset: 0, bytes: [0x49, 0x49, 0x2a, 0x00] }],
+  },
+  {
+    mime: "image/tiff",
+    ext: "tiff",
+    parts: [{ offset: 0, bytes: [0x4d, 0x4d, 0x00, 0x2a] }],
+  },
+  {
+    mime: "image/bmp",
+    ext: "bmp",
+    parts: [{ offset: 0, bytes: "BM" }],
+    // DIB header size must be one of the known BITMAP*HEADER sizes
+    test: (bytes) =>
+      [12, 40, 52, 56, 64, 108, 124].includes(readUint32LE(bytes, 14)),
+  },
+  {
+    mime: "image/x-icon",
+    ext: "ico",
+    parts: [{ offset: 0, bytes: [0x00, 0x00, 0x01, 0x00] }],
+    // Non-zero image count and a zero reserved byte in the first directory entry
+    test: (bytes) =>
+      bytes.length > 9 && readUint16LE(bytes, 4) > 0 && bytes[9] === 0,
+  },
+  { mime: "audio/mpeg", ext: "mp3", parts: [{ offset: 0, bytes: "ID3" }] },
+  {
+    mime: "audio/mpeg",
+    ext: "mp3",
+    parts: [{ offset: 0, bytes: [0xff] }],
+    // MPEG audio frame sync (11 set bits) with layer III
+    test: (bytes) => (bytes[1] & 0xe0) === 0xe0 && (bytes[1] & 0x06) === 0x02,
+  },
+  { mime: "audio/ogg", ext: "ogg", parts: [{ offset: 0, bytes: "OggS" }] },
+  { mime: "audio/flac", ext: "flac", parts: [{ offset: 0, bytes: "fLaC" }] },
+  {
+    mime: "video/mp4",
+    ext: "mp4",
+    parts: [{ offset: 4, bytes: "ftyp" }],
+    refine: refineIsoMedia,
+  },
+  {
+    mime: "video/x-matroska",
+    ext: "mkv",
+    parts: [{ offset: 0, bytes: [0x1a, 0x45, 0xdf, 0xa3] }],
+    refine: (bytes) =>
+      indexOfAscii(bytes, "webm") !== -1
+        ? { mime: "video/webm", ext: "webm" }
+        : null,
+  },
+  {
+    mime: "application/gzip",
+    ext: "gz",
+    parts: [{ offset: 0, bytes: [0x1f, 0x8b, 0x08] }],
+  },
+  {
+    mime: "application/x-7z-compressed",
+    ext: "7z",
+    parts: [{ offset: 0, bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c] }],
+  },
+  {
+    mime: "application/vnd.rar",
+    ext: "rar",
+    parts: [{ offset: 0, bytes: [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07] }],
+  },
+  {
+    mime: "application/wasm",
+    ext: "wasm",
+    parts: [{ offset: 0, bytes: [0x00, 0x61, 0x73, 0x6d] }],
+  },
+  {
+    mime: "application/vnd.sqlite3",
+    ext: "sqlite",
+    parts: [{ offset: 0, bytes: "SQLite format 3\u0000" }],
+  },
+  {
+    mime: "application/x-elf",
+    ext: "elf",
+    parts: [{ offset: 0, bytes: [0x7f, 0x45, 0x4c, 0x46] }],
+  },
+  {
+    mime: "application/vnd.microsoft.portable-executable",
+    ext: "exe",
+    parts: [{ offset: 0, bytes: "MZ" }],
+    // e_lfanew points at the "PE\0\0" header
+    test: (bytes) =>
+      matchesAt(bytes, readUint32LE(bytes, 0x3c), "PE\u0000\u0000"),
+  },
+  {
+    mime: "application/zip",
+    ext: "zip",
+    parts: [{ offset: 0, bytes: [0x50, 0x4b, 0x03, 0x04] }],
+    refine: refineZipContainer,
+  },
+  {
+    mime: "application/zip",
+    ext: "zip",
+    parts: [{ offset: 0, bytes: [0x50, 0x4b, 0x05, 0x06] }],
+  },
+  {
+    mime: "application/zip",
+    ext: "zip",
+    parts: [{ offset: 0, bytes: [0x50, 0x4b, 0x07, 0x08] }],
+  },
+];
+
+/** ISO base media file format (MP4/MOV/M4A/AVIF/HEIC) major brands */
+const ISO_BRANDS: Record<string, { mime: string; ext: string }> = {
+  "qt  ": { mime: "video/quicktime", ext: "mov" },
+  "M4A ": { mime: "audio/mp4", ext: "m4a" },
+  "M4B ": { mime: "audio/mp4", ext: "m4b" },
+  avif: { mime: "image/avif", ext: "avif" },
+  avis: { mime: "image/avif", ext: "avif" },
+  heic: { mime: "image/heic", ext: "heic" },
+  heix: { mime: "image/heic", ext: "heic" },
+  mif1: { mime: "image/heif", ext: "heif" },
+  "3gp4": { mime: "video/3gpp", ext: "3gp" },
+  "3gp5": { mime: "video/3gpp", ext: "3gp" },
 };
 
-export interface StoredFile {
-  name: string;
-  type: string;
-  size: number;
-  data: string; // base64 data URL
-  timestamp: number;
+/** OpenDocument and EPUB MIME types as stored in their `mimetype` entry */
+const ZIP_MIMETYPE_EXTENSIONS: Record<string, string> = {
+  "application/vnd.oasis.opendocument.text": "odt",
+  "application/vnd.oasis.opendocument.spreadsheet": "ods",
+  "application/vnd.oasis.opendocument.presentation": "odp",
+  "application/vnd.oasis.opendocument.graphics": "odg",
+  "application/epub+zip": "epub",
+};
+
+/** OOXML part directories that identify the document kind */
+const OOXML_PARTS: { prefix: string; mime: string; ext: string }[] = [
+  {
+    prefix: "word/",
+    mime: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    ext: "docx",
+  },
+  {
+    prefix: "xl/",
+    mime: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    ext: "xlsx",
+  },
+  {
+    prefix: "ppt/",
+    mime: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+    ext: "pptx",
+  },
+];
+
+function readUint16LE(bytes: Uint8Array, offset: number): number {
+  return bytes[offset] | (bytes[offset + 1] << 8);
+}
+
+function readUint32LE(bytes: Uint8Array, offset: number): number {
+  return (
+    (bytes[offset] |
+      (bytes[offset + 1] << 8) |
+      (bytes[offset + 2] << 16) |
+      (bytes[offset + 3] << 24)) >>>
+    0
+  );
+}
+
+function asciiAt(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+function matchesAt(
+  bytes: Uint8Array,
+  offset: number,
+  pattern: SignaturePart["bytes"]
+): boolean {
+  if (offset + pattern.length > bytes.length) return false;
+  for (let i = 0; i < pattern.length; i++) {
+    const expected =
+      typeof pattern === "string" ? pattern.charCodeAt(i) : pattern[i];
+    if (expected !== null && bytes[offset + i] !== expected) return false;
+  }
+  return true;
+}
+
+function indexOfAscii(bytes: Uint8Array, needle: string): number {
+  const last = bytes.length - needle.length;
+  for (let i = 0; i <= last; i++) {
+    if (matchesAt(bytes, i, needle)) return i;
+  }
+  return -1;
+}
+
+function refineIsoMedia(
+  bytes: Uint8Array
+): { mime: string; ext: string } | null {
+  return ISO_BRANDS[asciiAt(bytes, 8, 4)] ?? null;
+}
+
+/** Distinguish OOXML, ODF and EPUB packages from plain ZIP archives */
+function refineZipContainer(
+  bytes: Uint8Array
+): { mime: string; ext: string } | null {
+  const nameLength = readUint16LE(bytes, 26);
+  const extraLength = readUint16LE(bytes, 28);
+  const firstName = asciiAt(bytes, 30, nameLength);
+
+  // ODF/EPUB: first entry is an uncompressed "mimetype" file holding the type
+  if (firstName === "mimetype") {
+    const mime = asciiAt(bytes, 30 + nameLength + extraLength, 80).match(
+      /^[\w.+-]+\/[\w.+-]+/
+    )?.[0];
+    if (mime && ZIP_MIMETYPE_EXTENSIONS[mime]) {
+      return { mime, ext: ZIP_MIMETYPE_EXTENSIONS[mime] };
+    }
+  }
+
+  // OOXML: look for the part directory among the local file headers we have
+  if (indexOfAscii(bytes, "[Content_Types].xml") !== -1) {
+    for (const part of OOXML_PARTS) {
+      if (indexOfAscii(bytes, part.prefix) !== -1) {
+        return { mime: part.mime, ext: part.ext };
+      }
+    }
+  }
+
+  return null;
 }
 
 /**
- * Detect MIME type from base64 string
+ * Decode a standard base64 string to bytes.
+ * When `maxBytes` is given, only the leading bytes are decoded.
  */
-export function detectMimeType(base64: string): { mime: string; ext: string } {
-  // Check for data URI prefix
-  const dataUriMatch = base64.match(/^data:([^;]+);base64,/);
-  if (dataUriMatch) {
-    const mime = dataUriMatch[1];
-    const ext = mime.split("/")[1]?.replace(/[^a-z0-9]/gi, "") || "bin";
-    return { mime, ext };
+export function base64ToBytes(base64: string, maxBytes?: number): Uint8Array {
+  const slice =
+    maxBytes === undefined
+      ? base64
+      : base64.slice(0, Math.ceil(maxBytes / 3) * 4);
+  const binary = atob(slice);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
   }
+  return bytes;
+}
 
-  // Check binary signatures
-  for (const [signature, typeInfo] of Object.entries(MIME_SIGNATURES)) {
-    if (base64.startsWith(signature)) {
-      return typeInfo;
-    }
+/**
+ * Encode bytes as standard base64
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  // Chunked to stay under the argument limit of String.fromCharCode
+  const CHUNK_SIZE = 0x8000;
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK_SIZE));
   }
+  return btoa(binary);
+}
 
-  // Try to detect text-based content
-  try {
-    const decoded = atob(base64.replace(/^data:[^;]+;base64,/, ""));
-    const trimmed = decoded.trim();
+/**
+ * Decode a base64 data URL (or bare base64 string) to bytes
+ */
+export function dataUrlToBytes(dataUrl: string): Uint8Array {
+  return base64ToBytes(getRawBase64(dataUrl));
+}
 
-    if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
-      JSON.parse(trimmed);
-      return { mime: "application/json", ext: "json" };
-    }
-    if (trimmed.startsWith("<?xml") || trimmed.startsWith("<")) {
-      return { mime: "application/xml", ext: "xml" };
+/**
+ * Classify text content. `complete` is false when only a prefix of the
+ * payload is available, in which case structured formats can't be validated.
+ */
+function sniffText(text: string, complete: boolean): MimeInfo | null {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    if (!complete) {
+      return { mime: "application/json", ext: "json", confidence: "guessed" };
     }
-    if (
-      trimmed.startsWith("<!DOCTYPE html") ||
-      trimmed.toLowerCase().includes("<html")
-    ) {
-      return { mime: "text/html", ext: "html" };
+    try {
+      JSON.parse(trimmed);
+      return { mime: "application/json", ext: "json", confidence: "sniffed" };
+    } catch {
+      // Fall through to plain text
     }
+  }
+  if (
+    /^<!DOCTYPE html/i.test(trimmed) ||
+    trimmed.slice(0, 1024).toLowerCase().includes("<html")
+  ) {
+    return { mime: "text/html", ext: "html", confidence: "guessed" };
+  }
+  if (trimmed.startsWith("<?xml")) {
+    return { mime: "application/xml", ext: "xml", confidence: "sniffed" };
+  }
+  if (trimmed.startsWith("<")) {
+    return { mime: "application/xml", ext: "xml", confidence: "guessed" };
+  }
+  if (
+    trimmed.includes("function") ||
+    trimmed.includes("const ") ||
+    trimmed.includes("let ")
+  ) {
+    return { mime: "application/javascript", ext: "js", confidence: "guessed" };
+  }
+  return { mime: "text/plain", ext: "txt", confidence: "guessed" };
+}
+
+/**
+ * Detect MIME type from decoded bytes.
+ * `bytes` may be a prefix of the payload; `totalLength` is the full size.
+ */
+export function sniffMimeType(
+  bytes: Uint8Array,
+  totalLength: number = bytes.length
+): MimeInfo {
+  for (const signature of MIME_SIGNATURES) {
     if (
-      trimmed.includes("function") ||
-      trimmed.includes("const ") ||
-      trimmed.includes("let ")
+      !signature.parts.every((part) =>
+        matchesAt(bytes, part.offset, part.bytes)
+      )
     ) {
-      return { mime: "application/javascript", ext: "js" };
+      continue;
     }
+    if (signature.test && !signature.test(bytes)) continue;
+
+    const refined = signature.refine?.(bytes);
+    const { mime, ext } = refined ?? signature;
+    return { mime, ext, confidence: "sniffed" };
+  }
+
+  // Text is anything that decodes as UTF-8 without unexpected control characters
+  try {
+    const complete = bytes.length >= totalLength;
+    const text = new TextDecoder("utf-8", { fatal: true }).decode(bytes, {
+      stream: !complete,
+    });
     // biome-ignore lint/suspicious/noControlCharactersInRegex: Binary detection
-    if (/^[\x20-\x7E\s]+$/.test(decoded)) {
-      return { mime: "text/plain", ext: "txt" };
+    if (!/[\x00-\x08\x0E-\x1F\x7F]/.test(text)) {
+      const textType = sniffText(text, complete);
+      if (textType) return textType;
     }
   } catch {
-    // Not valid base64 or binary content
+    // Not valid UTF-8
   }
 
-  return { mime: "application/octet-stream", ext: "bin" };
+  return {
+    mime: "application/octet-stream",
+    ext: "bin",
+    confidence: "guessed",
+  };
+}
+
+/** MIME type declared by a `data:<mime>;base64,` prefix, if any */
+export function parseDataUriMime(input: string): string | null {
+  const match = input.trimStart().match(/^data:([^;,]+);base64,/);
+  return match ? match[1].trim().toLowerCase() : null;
 }
 
 /**
- * Clean base64 string by removing whitespace and data URI prefix
+ * Combine a declared MIME type with what the bytes say. A matched magic
+ * number wins, since the declaration may be wrong; otherwise the declared
+ * type beats content heuristics and the octet-stream fallback.
  */
-export function cleanBase64(input: string): string {
+export function resolveMimeType(
+  declared: string | null,
+  sniffed: MimeInfo
+): MimeInfo {
+  if (!declared || sniffed.confidence === "sniffed") return sniffed;
+  const known = MIME_SIGNATURES.find(
+    (signature) => signature.mime === declared
+  );
+  const ext =
+    declared === sniffed.mime
+      ? sniffed.ext
+      : known?.ext ?? getExtension("", declared);
+  return { mime: declared, ext, confidence: "declared" };
+}
+
+/**
+ * Detect MIME type from base64 input, which may carry a data URI prefix.
+ * The first `SNIFF_BYTES` are decoded and sniffed, then combined with the
+ * declared type by `resolveMimeType`.
+ */
+export function detectMimeType(input: string): MimeInfo {
+  const declared = parseDataUriMime(input);
+  const base64 = cleanBase64(input);
+
+  let sniffed: MimeInfo;
+  try {
+    const bytes = base64ToBytes(base64, SNIFF_BYTES);
+    const padding = (base64.match(/=+$/) || [""])[0].length;
+    const totalLength = Math.floor((base64.length * 3) / 4) - padding;
+    sniffed = sniffMimeType(bytes, totalLength);
+  } catch {
+    // Not valid base64
+    sniffed = {
+      mime: "application/octet-stream",
+      ext: "bin",
+      confidence: "guessed",
+    };
+  }
+  return resolveMimeType(declared, sniffed);
+}
+
+/**
+ * Human readable description of how a MIME type was determined
+ */
+export function describeMimeConfidence(confidence: MimeConfidence): string {
+  switch (confidence) {
+    case "sniffed":
+      return "detected from file signature";
+    case "declared":
+      return "from data URI";
+    default:
+      return "guessed from content";
+  }
+}
+
+/** A file held in memory as a data URL */
+export interface StoredFile {
+  name: string;
+  type: string;
+  size: number;
+  data: string; // base64 data URL
+  timestamp: number;
+}
+
+/** Alphabet of a base64 string: standard (`+/`) or URL-safe (`-_`, RFC 4648 §5) */
+export type Base64Variant = "standard" | "url";
+
+export interface Base64Format {
+  variant: Base64Variant;
+  /** Whether the input carried its `=` padding */
+  padded: boolean;
+}
+
+/**
+ * Strip data URI prefix, PEM armor and whitespace without touching the alphabet.
+ * For PEM, only the first block's body is kept and RFC 1421 headers are dropped.
+ */
+function stripBase64Wrapping(input: string): string {
   let cleaned = input.trim();
-  const dataUriMatch = cleaned.match(/^data:[^;]+;base64,(.+)$/);
+  const dataUriMatch = cleaned.match(/^data:[^;]+;base64,([\s\S]+)$/);
   if (dataUriMatch) {
     cleaned = dataUriMatch[1];
   }
-  cleaned = cleaned.replace(/\s/g, "");
-  return cleaned;
+  const pemMatch = cleaned.match(
+    /-----BEGIN ([A-Z0-9 ]+)-----([\s\S]*?)-----END \1-----/
+  );
+  if (pemMatch) {
+    cleaned = pemMatch[2]
+      .split(/\r?\n/)
+      .filter((line) => !line.includes(":"))
+      .join("");
+  }
+  return cleaned.replace(/\s/g, "");
+}
+
+/**
+ * Detect whether a base64 string uses the URL-safe alphabet and/or omits padding
+ */
+export function detectBase64Format(input: string): Base64Format {
+  const stripped = stripBase64Wrapping(input);
+  const body = stripped.replace(/=+$/, "");
+  return {
+    variant: /[-_]/.test(body) ? "url" : "standard",
+    padded: stripped.length !== body.length || body.length % 4 === 0,
+  };
+}
+
+/**
+ * Human readable label for a detected base64 format
+ */
+export function describeBase64Format(format: Base64Format): string {
+  const name = format.variant === "url" ? "base64url" : "base64";
+  return format.padded ? name : `${name} (unpadded)`;
+}
+
+/**
+ * Clean base64 string by removing whitespace, data URI prefix and PEM armor.
+ * URL-safe characters are mapped to the standard alphabet and missing
+ * padding is restored, so the result can always be fed to `atob`.
+ */
+export function cleanBase64(input: string): string {
+  const body = stripBase64Wrapping(input)
+    .replace(/=+$/, "")
+    .replace(/-/g, "+")
+    .replace(/_/g, "/");
+  const remainder = body.length % 4;
+  return remainder === 0 ? body : body + "=".repeat(4 - remainder);
 }
 
 /**
- * Validate base64 string format
+ * Validate base64 string format.
+ * Accepts standard and URL-safe alphabets (not mixed), with or without padding.
  */
 export function isValidBase64(str: string): boolean {
   if (!str || str.length === 0) return false;
-  const cleaned = cleanBase64(str);
-  const base64Regex = /^[A-Za-z0-9+/]*={0,2}$/;
-  return base64Regex.test(cleaned) && cleaned.length % 4 === 0;
+  const stripped = stripBase64Wrapping(str);
+  if (stripped.length === 0) return false;
+
+  const standardRegex = /^[A-Za-z0-9+/]*={0,2}$/;
+  const urlSafeRegex = /^[A-Za-z0-9\-_]*={0,2}$/;
+  if (!standardRegex.test(stripped) && !urlSafeRegex.test(stripped)) {
+    return false;
+  }
+
+  const body = stripped.replace(/=+$/, "");
+  // Padded input must be a complete quantum; a single leftover char is never valid
+  if (body.length !== stripped.length && stripped.length % 4 !== 0) {
+    return false;
+  }
+  return body.length % 4 !== 1;
+}
+
+/**
+ * Convert standard base64 to base64url, optionally keeping padding
+ */
+export function toBase64Url(base64: string, padded = false): string {
+  const urlSafe = base64.replace(/\+/g, "-").replace(/\//g, "_");
+  return padded ? urlSafe : stripBase64Padding(urlSafe);
 }
 
 /**
- * Convert File to base64 data URL
+ * Remove trailing `=` padding from a base64 string
  */
-export function fileToBase64(file: File): Promise<string> {
+export function stripBase64Padding(base64: string): string {
+  return base64.replace(/=+$/, "");
+}
+
+export interface FileReadOptions {
+  /** Called with the fraction read so far (0–1) */
+  onProgress?: (fraction: number) => void;
+  /** Aborts the read; the promise rejects with an AbortError */
+  signal?: AbortSignal;
+}
+
+/**
+ * Convert a File or Blob to a base64 data URL
+ */
+export function fileToBase64(
+  file: Blob,
+  { onProgress, signal }: FileReadOptions = {}
+): Promise<string> {
   return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("File read cancelled", "AbortError"));
+      return;
+    }
+
     const reader = new FileReader();
+    const handleAbort = () => reader.abort();
+    signal?.addEventListener("abort", handleAbort);
+
+    reader.onprogress = (event) => {
+      if (event.lengthComputable && event.total > 0) {
+        onProgress?.(event.loaded / event.total);
+      }
+    };
     reader.onload = () => {
       if (typeof reader.result === "string") {
         resolve(reader.result);
@@ -132,10 +659,30 @@ export function fileToBase64(file: File): Promise<string> {
       }
     };
     reader.onerror = () => reject(new Error("Failed to read file"));
+    reader.onabort = () =>
+      reject(new DOMException("File read cancelled", "AbortError"));
+    reader.onloadend = () => signal?.removeEventListener("abort", handleAbort);
     reader.readAsDataURL(file);
   });
 }
 
+/**
+ * Whether an error comes from a cancelled operation rather than a failure
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+/**
+ * SHA-256 digest as lowercase hex
+ */
+export async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", bytes as BufferSource);
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+}
+
 /**
  * Get raw base64 string without data URI prefix
  */
@@ -171,21 +718,40 @@ export function getExtension(filename: string, mimeType?: string): string {
   return "bin";
 }
 
+/**
+ * Replace the extension of a file name, e.g. for a converted copy
+ */
+export function withExtension(
+  name: string,
+  ext: string,
+  fallback = "file"
+): string {
+  const base = name.replace(/\.[^./]+$/, "");
+  return `${base || fallback}.${ext}`;
+}
+
+/**
+ * Save a blob through a temporary download link
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
 // Local Storage utilities with error handling
+// Files are persisted by `fileStore` in IndexedDB; see lib/file-store.ts
 export const storage = {
-  save(key: keyof typeof STORAGE_KEYS, file: StoredFile): boolean {
-    try {
-      localStorage.setItem(STORAGE_KEYS[key], JSON.stringify(file));
-      return true;
-    } catch (error) {
-      console.warn("Failed to save to localStorage:", error);
-      return false;
-    }
-  },
-
   saveString(key: keyof typeof STORAGE_KEYS, value: string): boolean {
+    if (!shouldPersist()) return false;
     try {
       localStorage.setItem(STORAGE_KEYS[key], value);
+      notifyStorageChange();
       return true;
     } catch (error) {
       console.warn("Failed to save to localStorage:", error);
@@ -193,6 +759,7 @@ export const storage = {
     }
   },
 
+  /** Read a file saved by earlier versions, for migration to `fileStore` */
   load(key: keyof typeof STORAGE_KEYS): StoredFile | null {
     try {
       const data = localStorage.getItem(STORAGE_KEYS[key]);
@@ -221,7 +788,8 @@ export const storage = {
 
   /**
    * Clear all app-related localStorage data.
-   * Called on tab/window close to ensure privacy.
+   * Called on tab/window close (unless the persistence settings say
+   * otherwise) and by "Wipe now" to ensure privacy.
    */
   clearAll(): void {
     for (const key of Object.values(STORAGE_KEYS)) {
@@ -231,5 +799,6 @@ export const storage = {
         // Ignore storage errors
       }
     }
+    notifyStorageChange();
   },
 };
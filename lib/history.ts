@@ -0,0 +1,248 @@
+/**
+ * Opt-in history of recently decoded, encoded and viewed files
+ * Entries live in IndexedDB next to `fileStore`, but unlike it are kept
+ * across tab closes while history is enabled. Turning history off deletes
+ * every entry, so the default clear-on-close behaviour is unchanged.
+ */
+
+import { HISTORY_STORE, isQuotaError, withStore } from "@/lib/file-store";
+import { shouldPersist } from "@/lib/persistence";
+
+export type HistorySource = "decode" | "encode" | "view";
+
+export interface HistoryEntry {
+  id: string;
+  /** Tab the file came from, and the one it reopens in */
+  source: HistorySource;
+  name: string;
+  type: string;
+  size: number;
+  timestamp: number;
+  /** Pinned entries are exempt from the retention limit */
+  pinned: boolean;
+  /** Small JPEG data URL for images, null otherwise */
+  thumbnail: string | null;
+  blob: Blob;
+}
+
+/** A request from the history panel to load an entry back into its tab */
+export interface HistoryReopen {
+  entry: HistoryEntry;
+  /** Distinguishes repeated requests for the same entry */
+  nonce: number;
+}
+
+export interface HistorySettings {
+  enabled: boolean;
+  /** Maximum number of unpinned entries kept */
+  limit: number;
+}
+
+export const HISTORY_LIMITS = [10, 25, 50, 100];
+
+const DEFAULT_SETTINGS: HistorySettings = { enabled: false, limit: 25 };
+
+// Deliberately not one of STORAGE_KEYS, which are wiped on tab close
+const SETTINGS_KEY = "b64_history_settings";
+
+const THUMBNAIL_SIZE = 96;
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+function notify() {
+  for (const listener of listeners) listener();
+}
+
+/**
+ * Subscribe to history and settings changes; returns the unsubscribe function
+ */
+export function subscribeHistory(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function loadHistorySettings(): HistorySettings {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    if (!saved) return DEFAULT_SETTINGS;
+    return { ...DEFAULT_SETTINGS, ...(JSON.parse(saved) as HistorySettings) };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+/** Readable replacement for an IndexedDB failure, shown by the history panel */
+function storageFailure(error: unknown): Error {
+  return new Error(
+    isQuotaError(error)
+      ? "Not enough browser storage to update the history."
+      : "Browser storage is unavailable, so the history couldn't be updated."
+  );
+}
+
+/**
+ * Save the settings and apply the new limit, or delete every entry when
+ * history is turned off. Rejects with a readable message if storage fails.
+ */
+export async function saveHistorySettings(
+  settings: HistorySettings
+): Promise<void> {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    // Ignore storage errors
+  }
+  try {
+    if (settings.enabled) {
+      await applyRetention(settings.limit);
+    } else {
+      await historyStore.clear();
+    }
+  } catch (error) {
+    throw storageFailure(error);
+  } finally {
+    notify();
+  }
+}
+
+/** Pinned first, then newest first */
+function compareEntries(a: HistoryEntry, b: HistoryEntry): number {
+  if (a.pinned !== b.pinned) return a.pinned ? -1 : 1;
+  return b.timestamp - a.timestamp;
+}
+
+async function applyRetention(limit: number): Promise<void> {
+  const expired = (await historyStore.list())
+    .filter((entry) => !entry.pinned)
+    .slice(limit);
+  for (const entry of expired) {
+    await withStore(HISTORY_STORE, "readwrite", (store) =>
+      store.delete(entry.id)
+    );
+  }
+}
+
+/**
+ * Downscaled JPEG preview of an image, or null if it can't be drawn
+ */
+async function createThumbnail(blob: Blob): Promise<string | null> {
+  if (!blob.type.startsWith("image/")) return null;
+
+  const url = URL.createObjectURL(blob);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+
+    const scale = Math.min(
+      1,
+      THUMBNAIL_SIZE / Math.max(image.naturalWidth, image.naturalHeight)
+    );
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+    const context = canvas.getContext("2d");
+    if (!context) return null;
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL("image/jpeg", 0.8);
+  } catch {
+    return null;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+export const historyStore = {
+  async list(): Promise<HistoryEntry[]> {
+    try {
+      const entries = await withStore<HistoryEntry[]>(
+        HISTORY_STORE,
+        "readonly",
+        (store) => store.getAll()
+      );
+      return entries.sort(compareEntries);
+    } catch {
+      return [];
+    }
+  },
+
+  /** Rename or (un)pin an entry; rejects with a readable message on failure */
+  async update(
+    id: string,
+    changes: Partial<Pick<HistoryEntry, "name" | "pinned">>
+  ): Promise<void> {
+    try {
+      const entry = await withStore<HistoryEntry | undefined>(
+        HISTORY_STORE,
+        "readonly",
+        (store) => store.get(id)
+      );
+      if (!entry) return;
+      await withStore(HISTORY_STORE, "readwrite", (store) =>
+        store.put({ ...entry, ...changes })
+      );
+      if (changes.pinned === false) {
+        await applyRetention(loadHistorySettings().limit);
+      }
+    } catch (error) {
+      throw storageFailure(error);
+    } finally {
+      notify();
+    }
+  },
+
+  /** Delete an entry; rejects with a readable message on failure */
+  async remove(id: string): Promise<void> {
+    try {
+      await withStore(HISTORY_STORE, "readwrite", (store) => store.delete(id));
+    } catch (error) {
+      throw storageFailure(error);
+    } finally {
+      notify();
+    }
+  },
+
+  async clear(): Promise<void> {
+    try {
+      await withStore(HISTORY_STORE, "readwrite", (store) => store.clear());
+    } catch {
+      // Ignore storage errors
+    }
+    notify();
+  },
+};
+
+/**
+ * Add a file to the history if the user has opted in and hasn't chosen
+ * "Never persist"; a no-op otherwise.
+ * Failures (e.g. quota) only mean the entry isn't kept, so they are ignored.
+ */
+export async function recordHistory(
+  source: HistorySource,
+  file: { name: string; type: string; blob: Blob }
+): Promise<void> {
+  const settings = loadHistorySettings();
+  if (!settings.enabled || !shouldPersist()) return;
+
+  try {
+    const entry: HistoryEntry = {
+      id: crypto.randomUUID(),
+      source,
+      name: file.name,
+      type: file.type,
+      size: file.blob.size,
+      timestamp: Date.now(),
+      pinned: false,
+      thumbnail: await createThumbnail(file.blob),
+      blob: file.blob,
+    };
+    await withStore(HISTORY_STORE, "readwrite", (store) => store.put(entry));
+    await applyRetention(settings.limit);
+    notify();
+  } catch {
+    // Not recorded
+  }
+}
@@ -0,0 +1,294 @@
+/**
+ * Header-level details of common image formats: dimensions, bit depth,
+ * color type and animation frame count. Only headers and chunk lists are
+ * read; pixel data is never decoded.
+ */
+
+import {
+  TIFF_COMPRESSION_NAMES,
+  TIFF_PHOTOMETRIC_NAMES,
+  isTiff,
+  readTiffInfo,
+} from "@/lib/tiff";
+
+export interface ImageFormatInfo {
+  format: string;
+  width: number;
+  height: number;
+  /** e.g. "8 bits per channel" */
+  bitDepth: string | null;
+  /** e.g. "RGBA", "Indexed" */
+  colorType: string | null;
+  /** Frame count for animations, 1 for still images */
+  frames: number;
+  /** Other notable header flags, e.g. "Interlaced" */
+  notes: string[];
+}
+
+const PNG_COLOR_TYPES: Record<number, string> = {
+  0: "Grayscale",
+  2: "RGB",
+  3: "Indexed",
+  4: "Grayscale + alpha",
+  6: "RGBA",
+};
+
+const JPEG_COMPONENTS: Record<number, string> = {
+  1: "Grayscale",
+  3: "YCbCr",
+  4: "CMYK",
+};
+
+function readTiff(bytes: Uint8Array): ImageFormatInfo | null {
+  const info = readTiffInfo(bytes);
+  if (!info) return null;
+  const { compression, photometric, samplesPerPixel, pages } = info;
+  const colorChannels = photometric === 2 ? 3 : photometric === 5 ? 4 : 1;
+  const colorType =
+    TIFF_PHOTOMETRIC_NAMES[photometric] ?? `Photometric ${photometric}`;
+  const notes = [
+    TIFF_COMPRESSION_NAMES[compression] ?? `Compression ${compression}`,
+  ];
+  // Only the first page is shown or converted
+  if (pages > 1) notes.push(`${pages} pages`);
+  return {
+    format: "TIFF",
+    width: info.width,
+    height: info.height,
+    bitDepth: `${info.bitsPerSample} bits per ${
+      photometric === 3 ? "pixel" : "channel"
+    }`,
+    colorType:
+      samplesPerPixel > colorChannels ? `${colorType} + alpha` : colorType,
+    frames: 1,
+    notes,
+  };
+}
+
+function ascii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+function readPng(bytes: Uint8Array, view: DataView): ImageFormatInfo | null {
+  if (bytes.length < 33 || ascii(bytes, 12, 4) !== "IHDR") return null;
+  const bitDepth = bytes[24];
+  const colorType = bytes[25];
+  const notes: string[] = [];
+  if (bytes[28] === 1) notes.push("Interlaced (Adam7)");
+
+  // acTL and tRNS come before the image data
+  let frames = 1;
+  let offset = 8;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = ascii(bytes, offset + 4, 4);
+    if (type === "IDAT" || type === "IEND") break;
+    if (type === "acTL" && offset + 12 <= bytes.length) {
+      frames = view.getUint32(offset + 8);
+    }
+    if (type === "tRNS") notes.push("Transparency chunk (tRNS)");
+    offset += 12 + length;
+  }
+
+  return {
+    format: frames > 1 ? "APNG" : "PNG",
+    width: view.getUint32(16),
+    height: view.getUint32(20),
+    bitDepth: `${bitDepth} bits per ${colorType === 3 ? "index" : "channel"}`,
+    colorType: PNG_COLOR_TYPES[colorType] ?? `Unknown (${colorType})`,
+    frames,
+    notes,
+  };
+}
+
+/** Skip GIF data sub-blocks, returning the offset after the terminator */
+function skipGifSubBlocks(bytes: Uint8Array, offset: number): number {
+  while (offset < bytes.length && bytes[offset] !== 0) {
+    offset += bytes[offset] + 1;
+  }
+  return offset + 1;
+}
+
+function readGif(bytes: Uint8Array, view: DataView): ImageFormatInfo | null {
+  if (bytes.length < 13) return null;
+  const packed = bytes[10];
+  const notes: string[] = [];
+  let offset = 13;
+  if (packed & 0x80) {
+    const size = 2 ** ((packed & 0x07) + 1);
+    notes.push(`Global palette, ${size} colors`);
+    offset += size * 3;
+  }
+
+  let frames = 0;
+  while (offset < bytes.length) {
+    const block = bytes[offset];
+    if (block === 0x3b) break;
+    if (block === 0x21) {
+      offset = skipGifSubBlocks(bytes, offset + 2);
+    } else if (block === 0x2c) {
+      frames++;
+      const localPacked = bytes[offset + 9];
+      offset += 10;
+      if (localPacked & 0x80) offset += 2 ** ((localPacked & 0x07) + 1) * 3;
+      // LZW minimum code size, then the image data
+      offset = skipGifSubBlocks(bytes, offset + 1);
+    } else {
+      break;
+    }
+  }
+
+  return {
+    format: ascii(bytes, 0, 6),
+    width: view.getUint16(6, true),
+    height: view.getUint16(8, true),
+    bitDepth: `${((packed >> 4) & 0x07) + 1} bits per channel`,
+    colorType: "Indexed",
+    frames: Math.max(frames, 1),
+    notes,
+  };
+}
+
+function readUint24LE(bytes: Uint8Array, offset: number): number {
+  return bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+}
+
+function readWebp(bytes: Uint8Array, view: DataView): ImageFormatInfo | null {
+  let width = 0;
+  let height = 0;
+  let lossless = false;
+  let hasAlpha = false;
+  let frames = 0;
+
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const type = ascii(bytes, offset, 4);
+    const length = view.getUint32(offset + 4, true);
+    const data = offset + 8;
+
+    if (type === "VP8X" && data + 10 <= bytes.length) {
+      hasAlpha = (bytes[data] & 0x10) !== 0;
+      width = readUint24LE(bytes, data + 4) + 1;
+      height = readUint24LE(bytes, data + 7) + 1;
+    } else if (type === "VP8 " && data + 10 <= bytes.length && !width) {
+      width = view.getUint16(data + 6, true) & 0x3fff;
+      height = view.getUint16(data + 8, true) & 0x3fff;
+    } else if (type === "VP8L" && data + 5 <= bytes.length) {
+      lossless = true;
+      if (!width) {
+        const bits = view.getUint32(data + 1, true);
+        width = (bits & 0x3fff) + 1;
+        height = ((bits >> 14) & 0x3fff) + 1;
+        hasAlpha = ((bits >> 28) & 1) === 1;
+      }
+    } else if (type === "ALPH") {
+      hasAlpha = true;
+    } else if (type === "ANMF") {
+      frames++;
+    }
+    // Chunks are padded to an even length
+    offset = data + length + (length & 1);
+  }
+
+  if (!width) return null;
+  return {
+    format: "WebP",
+    width,
+    height,
+    bitDepth: "8 bits per channel",
+    colorType: hasAlpha ? "RGBA" : "RGB",
+    frames: Math.max(frames, 1),
+    notes: [lossless ? "Lossless (VP8L)" : "Lossy (VP8)"],
+  };
+}
+
+function readJpeg(bytes: Uint8Array, view: DataView): ImageFormatInfo | null {
+  let offset = 2;
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    // Fill bytes and standalone markers have no length
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0xd8 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2;
+      continue;
+    }
+    if (marker === 0xda || marker === 0xd9) return null;
+
+    const isFrame =
+      marker >= 0xc0 &&
+      marker <= 0xcf &&
+      marker !== 0xc4 &&
+      marker !== 0xc8 &&
+      marker !== 0xcc;
+    if (isFrame && offset + 10 <= bytes.length) {
+      const components = bytes[offset + 9];
+      const notes: string[] = [];
+      if ((marker & 0x03) === 0x02) notes.push("Progressive");
+      if ((marker & 0x03) === 0x03) notes.push("Lossless");
+      if (marker >= 0xc9) notes.push("Arithmetic coding");
+      return {
+        format: "JPEG",
+        width: view.getUint16(offset + 7),
+        height: view.getUint16(offset + 5),
+        bitDepth: `${bytes[offset + 4]} bits per channel`,
+        colorType: JPEG_COMPONENTS[components] ?? `${components} components`,
+        frames: 1,
+        notes,
+      };
+    }
+    offset += 2 + view.getUint16(offset + 2);
+  }
+  return null;
+}
+
+function readBmp(bytes: Uint8Array, view: DataView): ImageFormatInfo | null {
+  if (bytes.length < 30) return null;
+  const bitCount = view.getUint16(28, true);
+  return {
+    format: "BMP",
+    width: Math.abs(view.getInt32(18, true)),
+    height: Math.abs(view.getInt32(22, true)),
+    bitDepth: `${bitCount} bits per pixel`,
+    colorType:
+      bitCount <= 8 ? "Indexed" : bitCount === 32 ? "RGBA or RGBX" : "RGB",
+    frames: 1,
+    notes: [],
+  };
+}
+
+/**
+ * Read what the header says about an image, or null for formats this
+ * doesn't parse (SVG, AVIF, ICO...) and truncated files
+ */
+export function getImageInfo(bytes: Uint8Array): ImageFormatInfo | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  try {
+    if (bytes.length >= 8 && ascii(bytes, 1, 3) === "PNG") {
+      return readPng(bytes, view);
+    }
+    if (bytes.length >= 6 && ascii(bytes, 0, 4) === "GIF8") {
+      return readGif(bytes, view);
+    }
+    if (
+      bytes.length >= 16 &&
+      ascii(bytes, 0, 4) === "RIFF" &&
+      ascii(bytes, 8, 4) === "WEBP"
+    ) {
+      return readWebp(bytes, view);
+    }
+    if (bytes.length >= 4 && bytes[0] === 0xff && bytes[1] === 0xd8) {
+      return readJpeg(bytes, view);
+    }
+    if (bytes.length >= 2 && ascii(bytes, 0, 2) === "BM") {
+      return readBmp(bytes, view);
+    }
+    if (isTiff(bytes)) return readTiff(bytes);
+  } catch {
+    // A header field pointed past the end of the data
+  }
+  return null;
+}
@@ -0,0 +1,300 @@
+import { describe, expect, it } from "vitest";
+import {
+  canStripImageMetadata,
+  readImageMetadata,
+  stripImageMetadata,
+} from "@/lib/image-metadata";
+import { crc32 } from "@/lib/zip";
+
+type IfdValue =
+  | { tag: number; type: 2; value: string }
+  | { tag: number; type: 3 | 4; value: number }
+  | { tag: number; type: 5; value: [number, number][] };
+
+const ascii = (text: string) => Array.from(text, (c) => c.charCodeAt(0));
+
+function concat(...parts: (Uint8Array | number[])[]): Uint8Array {
+  return Uint8Array.from(parts.flatMap((part) => Array.from(part)));
+}
+
+/** A big-endian IFD at `offset`, with out-of-line values after it */
+function ifd(entries: IfdValue[], offset: number): number[] {
+  const head: number[] = [];
+  const data: number[] = [];
+  const dataStart = offset + 2 + entries.length * 12 + 4;
+  const u16 = (out: number[], v: number) => out.push(v >> 8, v & 0xff);
+  const u32 = (out: number[], v: number) =>
+    out.push(v >>> 24, (v >> 16) & 0xff, (v >> 8) & 0xff, v & 0xff);
+
+  u16(head, entries.length);
+  for (const entry of entries) {
+    const bytes: number[] = [];
+    let count: number;
+    if (entry.type === 2) {
+      bytes.push(...ascii(entry.value), 0);
+      count = bytes.length;
+    } else if (entry.type === 5) {
+      for (const [num, den] of entry.value) {
+        u32(bytes, num);
+        u32(bytes, den);
+      }
+      count = entry.value.length;
+    } else {
+      if (entry.type === 3) u16(bytes, entry.value);
+      else u32(bytes, entry.value);
+      count = 1;
+    }
+    u16(head, entry.tag);
+    u16(head, entry.type);
+    u32(head, count);
+    if (bytes.length <= 4) {
+      head.push(...bytes, ...new Array(4 - bytes.length).fill(0));
+    } else {
+      u32(head, dataStart + data.length);
+      data.push(...bytes);
+      if (data.length % 2) data.push(0);
+    }
+  }
+  u32(head, 0); // no next IFD
+  return [...head, ...data];
+}
+
+/** EXIF with a camera, orientation 6 and a GPS position */
+function exifTiff(): Uint8Array {
+  const gps: IfdValue[] = [
+    { tag: 1, type: 2, value: "N" },
+    {
+      tag: 2,
+      type: 5,
+      value: [
+        [51, 1],
+        [30, 1],
+        [0, 1],
+      ],
+    },
+    { tag: 3, type: 2, value: "W" },
+    {
+      tag: 4,
+      type: 5,
+      value: [
+        [0, 1],
+        [7, 1],
+        [30, 1],
+      ],
+    },
+  ];
+  const ifd0 = (gpsOffset: number): IfdValue[] => [
+    { tag: 0x010f, type: 2, value: "Canon" },
+    { tag: 0x0110, type: 2, value: "Canon EOS R5" },
+    { tag: 0x0112, type: 3, value: 6 },
+    { tag: 0x0131, type: 2, value: "Editor 1.0" },
+    { tag: 0x8825, type: 4, value: gpsOffset },
+  ];
+  const gpsOffset = 8 + ifd(ifd0(0), 8).length;
+  return concat(
+    [0x4d, 0x4d, 0, 42, 0, 0, 0, 8],
+    ifd(ifd0(gpsOffset), 8),
+    ifd(gps, gpsOffset)
+  );
+}
+
+/** A minimal ICC header naming the color space, with no tags */
+function iccProfile(): Uint8Array {
+  const icc = new Uint8Array(132);
+  icc.set(ascii("RGB "), 16);
+  return icc;
+}
+
+function jpegSegment(marker: number, data: Uint8Array | number[]) {
+  const length = data.length + 2;
+  return concat([0xff, marker, length >> 8, length & 0xff], data);
+}
+
+function jpeg(): Uint8Array {
+  return concat(
+    [0xff, 0xd8],
+    jpegSegment(0xe0, concat(ascii("JFIF\0"), [1, 1, 0, 0, 1, 0, 1, 0, 0])),
+    jpegSegment(0xe1, concat(ascii("Exif\0\0"), exifTiff())),
+    jpegSegment(
+      0xe1,
+      concat(
+        ascii("http://ns.adobe.com/xap/1.0/\0"),
+        ascii('<x:xmpmeta dc:rights="(c) Example"/>')
+      )
+    ),
+    jpegSegment(0xe2, concat(ascii("ICC_PROFILE\0"), [1, 1], iccProfile())),
+    jpegSegment(0xfe, ascii("shot on holiday")),
+    jpegSegment(0xda, [0]),
+    [0x12, 0x34, 0xff, 0x00, 0x56],
+    [0xff, 0xd9],
+    ascii("trailing")
+  );
+}
+
+function pngChunk(type: string, data: Uint8Array | number[]): Uint8Array {
+  const body = concat(ascii(type), data);
+  const checksum = crc32(body);
+  const u32 = (v: number) => [
+    v >>> 24,
+    (v >> 16) & 0xff,
+    (v >> 8) & 0xff,
+    v & 0xff,
+  ];
+  return concat(u32(data.length), body, u32(checksum));
+}
+
+function png(): Uint8Array {
+  return concat(
+    [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+    pngChunk("IHDR", [0, 0, 0, 1, 0, 0, 0, 1, 8, 2, 0, 0, 0]),
+    pngChunk("iCCP", concat(ascii("sRGB built-in\0"), [0, 0x78, 0x9c])),
+    pngChunk("tEXt", concat(ascii("Author\0"), ascii("Ada"))),
+    pngChunk("eXIf", exifTiff()),
+    pngChunk("IDAT", [0x78, 0x9c, 0x63, 0, 0, 0, 1, 0, 1]),
+    pngChunk("IEND", [])
+  );
+}
+
+function webpChunk(type: string, data: Uint8Array | number[]): Uint8Array {
+  const length = data.length;
+  return concat(
+    ascii(type),
+    [length & 0xff, (length >> 8) & 0xff, (length >> 16) & 0xff, length >>> 24],
+    data,
+    length % 2 ? [0] : []
+  );
+}
+
+function webp(): Uint8Array {
+  const body = concat(
+    ascii("WEBP"),
+    // ICC, EXIF and XMP flags set
+    webpChunk("VP8X", [0x2c, 0, 0, 0, 0, 0, 0, 0, 0, 0]),
+    webpChunk("ICCP", iccProfile()),
+    webpChunk("VP8L", [0x2f, 0, 0, 0, 0]),
+    webpChunk("EXIF", exifTiff()),
+    webpChunk("XMP ", ascii('<x:xmpmeta xmp:CreatorTool="Editor"/>'))
+  );
+  const size = body.length;
+  return concat(
+    ascii("RIFF"),
+    [size & 0xff, (size >> 8) & 0xff, (size >> 16) & 0xff, size >>> 24],
+    body
+  );
+}
+
+describe("readImageMetadata", () => {
+  it("reads EXIF, GPS, XMP, ICC and comments from a JPEG", () => {
+    const meta = readImageMetadata(jpeg());
+    expect(meta).toMatchObject({
+      blocks: ["EXIF", "XMP", "Comment", "ICC profile"],
+      camera: "Canon EOS R5",
+      orientation: 6,
+      software: "Editor 1.0",
+      copyright: "(c) Example",
+      hasLocation: true,
+      colorProfile: "RGB profile",
+      comments: ["shot on holiday"],
+    });
+    expect(meta?.gps?.latitude).toBeCloseTo(51.5);
+    expect(meta?.gps?.longitude).toBeCloseTo(-0.125);
+  });
+
+  it("reads text chunks and the profile name from a PNG", () => {
+    expect(readImageMetadata(png())).toMatchObject({
+      blocks: ["ICC profile", "Text", "EXIF"],
+      colorProfile: "sRGB built-in",
+      comments: ["Author: Ada"],
+      camera: "Canon EOS R5",
+    });
+  });
+
+  it("reads the chunks of an extended WebP", () => {
+    expect(readImageMetadata(webp())).toMatchObject({
+      blocks: ["ICC profile", "EXIF", "XMP"],
+      orientation: 6,
+      software: "Editor 1.0",
+    });
+  });
+
+  it("returns null for formats it doesn't parse", () => {
+    expect(
+      readImageMetadata(Uint8Array.from(ascii("GIF89a......")))
+    ).toBeNull();
+  });
+});
+
+describe("stripImageMetadata", () => {
+  it("removes everything from a JPEG by default", () => {
+    const stripped = stripImageMetadata(jpeg());
+    expect(stripped?.removed).toEqual([
+      "EXIF",
+      "GPS location",
+      "XMP",
+      "Comment",
+      "ICC profile",
+      "Trailing data",
+    ]);
+    const meta = readImageMetadata(stripped!.bytes);
+    expect(meta?.blocks).toEqual([]);
+    expect(meta?.orientation).toBeNull();
+  });
+
+  it("keeps the color profile and orientation when asked", () => {
+    const stripped = stripImageMetadata(jpeg(), {
+      keepColorProfile: true,
+      keepOrientation: true,
+    });
+    expect(stripped?.removed).not.toContain("ICC profile");
+    expect(readImageMetadata(stripped!.bytes)).toMatchObject({
+      blocks: ["EXIF", "ICC profile"],
+      orientation: 6,
+      camera: null,
+      gps: null,
+      hasLocation: false,
+    });
+  });
+
+  it("copies the JPEG scan data through untouched", () => {
+    const original = jpeg();
+    const stripped = stripImageMetadata(original)!.bytes;
+    const scan = [
+      0xff, 0xda, 0, 3, 0, 0x12, 0x34, 0xff, 0x00, 0x56, 0xff, 0xd9,
+    ];
+    expect(Array.from(stripped.slice(-scan.length))).toEqual(scan);
+  });
+
+  it("drops PNG metadata chunks with valid output", () => {
+    const stripped = stripImageMetadata(png())!;
+    expect(readImageMetadata(stripped.bytes)?.blocks).toEqual([]);
+    expect(
+      readImageMetadata(
+        stripImageMetadata(png(), { keepColorProfile: true })!.bytes
+      )?.blocks
+    ).toEqual(["ICC profile"]);
+  });
+
+  it("clears the WebP feature flags of removed chunks", () => {
+    const stripped = stripImageMetadata(webp())!.bytes;
+    expect(readImageMetadata(stripped)?.blocks).toEqual([]);
+    // VP8X flags follow the RIFF header and the chunk header
+    expect(stripped[20]).toBe(0);
+    const size = new DataView(stripped.buffer).getUint32(4, true);
+    expect(size).toBe(stripped.length - 8);
+
+    const kept = stripImageMetadata(webp(), {
+      keepColorProfile: true,
+      keepOrientation: true,
+    })!.bytes;
+    expect(kept[20]).toBe(0x28);
+    expect(readImageMetadata(kept)?.orientation).toBe(6);
+  });
+
+  it("only handles JPEG, PNG and WebP", () => {
+    expect(canStripImageMetadata("image/png")).toBe(true);
+    expect(canStripImageMetadata("image/tiff")).toBe(false);
+    expect(
+      stripImageMetadata(concat([0x4d, 0x4d, 0, 42], [0, 0, 0, 8, 0, 0]))
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,870 @@
+/**
+ * EXIF, XMP and ICC metadata embedded in JPEG, PNG, WebP and TIFF images,
+ * and lossless removal of it. Only metadata blocks are read or dropped;
+ * compressed pixel data is copied through untouched.
+ */
+
+import { crc32 } from "@/lib/zip";
+
+export interface GpsPosition {
+  /** Decimal degrees, negative south of the equator */
+  latitude: number;
+  /** Decimal degrees, negative west of Greenwich */
+  longitude: number;
+  /** Meters above sea level */
+  altitude: number | null;
+}
+
+export interface ImageMetadata {
+  /** Metadata blocks found, e.g. "EXIF", "XMP", "ICC profile" */
+  blocks: string[];
+  camera: string | null;
+  lens: string | null;
+  /** Capture time as written by the camera, which is usually local time */
+  taken: string | null;
+  modified: string | null;
+  /** EXIF orientation, 1-8 */
+  orientation: number | null;
+  software: string | null;
+  artist: string | null;
+  copyright: string | null;
+  /** Shutter, aperture, ISO and focal length, e.g. "1/125 s · f/2.8" */
+  exposure: string | null;
+  gps: GpsPosition | null;
+  /** Location tags are present, even if they don't parse to a position */
+  hasLocation: boolean;
+  /** ICC profile description */
+  colorProfile: string | null;
+  /** JPEG comments and PNG text chunks */
+  comments: string[];
+}
+
+export interface StrippedImage {
+  bytes: Uint8Array;
+  /** What was removed, e.g. "EXIF", "GPS location", "XMP" */
+  removed: string[];
+}
+
+/** What `stripImageMetadata` may keep; by default everything goes */
+export interface StripOptions {
+  /** Keep the ICC profile, so wide-gamut colors don't shift */
+  keepColorProfile?: boolean;
+  /** Write a non-default orientation back, so the photo isn't sideways */
+  keepOrientation?: boolean;
+}
+
+export const ORIENTATION_LABELS: Record<number, string> = {
+  1: "Normal",
+  2: "Mirrored",
+  3: "Rotated 180°",
+  4: "Flipped vertically",
+  5: "Mirrored, rotated 90° counterclockwise",
+  6: "Rotated 90° clockwise",
+  7: "Mirrored, rotated 90° clockwise",
+  8: "Rotated 90° counterclockwise",
+};
+
+const XMP_NAMESPACE = "http://ns.adobe.com/xap/1.0/\0";
+const XMP_EXTENSION_NAMESPACE = "http://ns.adobe.com/xmp/extension/\0";
+const EXIF_HEADER = "Exif\0\0";
+const ICC_HEADER = "ICC_PROFILE\0";
+
+/** Bytes per value for each TIFF field type */
+const TIFF_TYPE_SIZES: Record<number, number> = {
+  1: 1, // BYTE
+  2: 1, // ASCII
+  3: 2, // SHORT
+  4: 4, // LONG
+  5: 8, // RATIONAL
+  6: 1, // SBYTE
+  7: 1, // UNDEFINED
+  8: 2, // SSHORT
+  9: 4, // SLONG
+  10: 8, // SRATIONAL
+  11: 4, // FLOAT
+  12: 8, // DOUBLE
+};
+
+const TAG = {
+  make: 0x010f,
+  model: 0x0110,
+  orientation: 0x0112,
+  software: 0x0131,
+  dateTime: 0x0132,
+  artist: 0x013b,
+  xmp: 0x02bc,
+  copyright: 0x8298,
+  exposureTime: 0x829a,
+  fNumber: 0x829d,
+  exifIfd: 0x8769,
+  iccProfile: 0x8773,
+  gpsIfd: 0x8825,
+  iso: 0x8827,
+  dateTimeOriginal: 0x9003,
+  offsetTimeOriginal: 0x9011,
+  focalLength: 0x920a,
+  lensModel: 0xa434,
+  gpsLatitudeRef: 1,
+  gpsLatitude: 2,
+  gpsLongitudeRef: 3,
+  gpsLongitude: 4,
+  gpsAltitudeRef: 5,
+  gpsAltitude: 6,
+};
+
+/** PNG chunks that carry metadata rather than anything needed to draw */
+const PNG_METADATA_CHUNKS = new Set(["tEXt", "zTXt", "iTXt", "eXIf", "tIME"]);
+
+interface TiffReader {
+  view: DataView;
+  /** Offset of the TIFF header, which IFD offsets are relative to */
+  start: number;
+  little: boolean;
+}
+
+interface IfdEntry {
+  type: number;
+  count: number;
+  /** Absolute offset of the value */
+  offset: number;
+}
+
+type Ifd = Map<number, IfdEntry>;
+
+function ascii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+function startsWith(bytes: Uint8Array, prefix: string): boolean {
+  return (
+    bytes.length >= prefix.length && ascii(bytes, 0, prefix.length) === prefix
+  );
+}
+
+function decodeText(bytes: Uint8Array, encoding = "utf-8"): string {
+  return new TextDecoder(encoding).decode(bytes);
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function emptyMetadata(): ImageMetadata {
+  return {
+    blocks: [],
+    camera: null,
+    lens: null,
+    taken: null,
+    modified: null,
+    orientation: null,
+    software: null,
+    artist: null,
+    copyright: null,
+    exposure: null,
+    gps: null,
+    hasLocation: false,
+    colorProfile: null,
+    comments: [],
+  };
+}
+
+function addBlock(meta: ImageMetadata, block: string) {
+  if (!meta.blocks.includes(block)) meta.blocks.push(block);
+}
+
+function readIfd(tiff: TiffReader, offset: number): Ifd {
+  const { view, start, little } = tiff;
+  const entries: Ifd = new Map();
+  const base = start + offset;
+  const count = view.getUint16(base, little);
+  for (let i = 0; i < count; i++) {
+    const at = base + 2 + i * 12;
+    const type = view.getUint16(at + 2, little);
+    const valueCount = view.getUint32(at + 4, little);
+    const size = (TIFF_TYPE_SIZES[type] ?? 0) * valueCount;
+    if (size === 0) continue;
+    // Values of up to four bytes are stored in the entry itself
+    const valueOffset =
+      size <= 4 ? at + 8 : start + view.getUint32(at + 8, little);
+    if (valueOffset + size > view.byteLength) continue;
+    entries.set(view.getUint16(at, little), {
+      type,
+      count: valueCount,
+      offset: valueOffset,
+    });
+  }
+  return entries;
+}
+
+function readSubIfd(tiff: TiffReader, ifd: Ifd, tag: number): Ifd | null {
+  const pointer = readNumbers(tiff, ifd.get(tag))[0];
+  if (pointer === undefined) return null;
+  try {
+    return readIfd(tiff, pointer);
+  } catch {
+    return null;
+  }
+}
+
+function readBytes(tiff: TiffReader, entry: IfdEntry): Uint8Array {
+  const size = TIFF_TYPE_SIZES[entry.type] * entry.count;
+  return new Uint8Array(
+    tiff.view.buffer,
+    tiff.view.byteOffset + entry.offset,
+    size
+  );
+}
+
+function readString(tiff: TiffReader, entry?: IfdEntry): string | null {
+  if (!entry || ![1, 2, 7].includes(entry.type)) return null;
+  // Drop the NUL terminator and any padding after it
+  const value = decodeText(readBytes(tiff, entry)).split("\0")[0];
+  return value.trim() || null;
+}
+
+function readNumbers(tiff: TiffReader, entry?: IfdEntry): number[] {
+  if (!entry) return [];
+  const { view, little } = tiff;
+  const size = TIFF_TYPE_SIZES[entry.type];
+  const values: number[] = [];
+  for (let i = 0; i < entry.count; i++) {
+    const at = entry.offset + i * size;
+    switch (entry.type) {
+      case 1:
+      case 7:
+        values.push(view.getUint8(at));
+        break;
+      case 3:
+        values.push(view.getUint16(at, little));
+        break;
+      case 4:
+        values.push(view.getUint32(at, little));
+        break;
+      case 5:
+        values.push(
+          view.getUint32(at, little) / view.getUint32(at + 4, little)
+        );
+        break;
+      case 6:
+        values.push(view.getInt8(at));
+        break;
+      case 8:
+        values.push(view.getInt16(at, little));
+        break;
+      case 9:
+        values.push(view.getInt32(at, little));
+        break;
+      case 10:
+        values.push(view.getInt32(at, little) / view.getInt32(at + 4, little));
+        break;
+      case 11:
+        values.push(view.getFloat32(at, little));
+        break;
+      case 12:
+        values.push(view.getFloat64(at, little));
+        break;
+    }
+  }
+  return values;
+}
+
+/** "2024:05:01 12:34:56" to "2024-05-01 12:34:56" */
+function formatExifDate(value: string | null): string | null {
+  if (!value || /^[0\s:]*$/.test(value)) return null;
+  return value.replace(/^(\d{4}):(\d{2}):(\d{2})/, "$1-$2-$3");
+}
+
+function formatExposure(
+  time?: number,
+  fNumber?: number,
+  iso?: number,
+  focalLength?: number
+): string | null {
+  const parts: string[] = [];
+  if (time && isFinite(time)) {
+    parts.push(
+      time >= 1 ? `${+time.toFixed(1)} s` : `1/${Math.round(1 / time)} s`
+    );
+  }
+  if (fNumber && isFinite(fNumber)) parts.push(`f/${+fNumber.toFixed(1)}`);
+  if (iso) parts.push(`ISO ${iso}`);
+  if (focalLength && isFinite(focalLength)) {
+    parts.push(`${+focalLength.toFixed(1)} mm`);
+  }
+  return parts.length > 0 ? parts.join(" · ") : null;
+}
+
+/** Degrees, minutes and seconds to signed decimal degrees */
+function dmsToDegrees(dms: number[], ref: string | null): number | null {
+  if (dms.length < 3 || !dms.every(isFinite)) return null;
+  const degrees = dms[0] + dms[1] / 60 + dms[2] / 3600;
+  return ref === "S" || ref === "W" ? -degrees : degrees;
+}
+
+function readGps(tiff: TiffReader, gps: Ifd): GpsPosition | null {
+  const latitude = dmsToDegrees(
+    readNumbers(tiff, gps.get(TAG.gpsLatitude)),
+    readString(tiff, gps.get(TAG.gpsLatitudeRef))
+  );
+  const longitude = dmsToDegrees(
+    readNumbers(tiff, gps.get(TAG.gpsLongitude)),
+    readString(tiff, gps.get(TAG.gpsLongitudeRef))
+  );
+  if (latitude === null || longitude === null) return null;
+  const altitude = readNumbers(tiff, gps.get(TAG.gpsAltitude))[0];
+  const belowSeaLevel = readNumbers(tiff, gps.get(TAG.gpsAltitudeRef))[0] === 1;
+  return {
+    latitude,
+    longitude,
+    altitude:
+      altitude !== undefined && isFinite(altitude)
+        ? belowSeaLevel
+          ? -altitude
+          : altitude
+        : null,
+  };
+}
+
+/**
+ * Read the EXIF tags of a TIFF structure starting at `start`. Returns the
+ * reader and first IFD, which TIFF files also use for XMP and ICC data.
+ */
+function readExif(
+  bytes: Uint8Array,
+  start: number,
+  meta: ImageMetadata
+): { tiff: TiffReader; ifd0: Ifd } | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const order = view.getUint16(start);
+  if (order !== 0x4949 && order !== 0x4d4d) return null;
+  const tiff: TiffReader = { view, start, little: order === 0x4949 };
+  const ifd0 = readIfd(tiff, view.getUint32(start + 4, tiff.little));
+  addBlock(meta, "EXIF");
+
+  const make = readString(tiff, ifd0.get(TAG.make));
+  const model = readString(tiff, ifd0.get(TAG.model));
+  // Many models already start with the make ("Canon EOS R5")
+  meta.camera =
+    make && model && !model.toLowerCase().startsWith(make.toLowerCase())
+      ? `${make} ${model}`
+      : model ?? make;
+  meta.orientation = readNumbers(tiff, ifd0.get(TAG.orientation))[0] ?? null;
+  meta.software = readString(tiff, ifd0.get(TAG.software));
+  meta.modified = formatExifDate(readString(tiff, ifd0.get(TAG.dateTime)));
+  meta.artist = readString(tiff, ifd0.get(TAG.artist));
+  meta.copyright = readString(tiff, ifd0.get(TAG.copyright));
+
+  const exif = readSubIfd(tiff, ifd0, TAG.exifIfd);
+  if (exif) {
+    const taken = formatExifDate(
+      readString(tiff, exif.get(TAG.dateTimeOriginal))
+    );
+    const offset = readString(tiff, exif.get(TAG.offsetTimeOriginal));
+    meta.taken = taken && offset ? `${taken} ${offset}` : taken;
+    meta.lens = readString(tiff, exif.get(TAG.lensModel));
+    meta.exposure = formatExposure(
+      readNumbers(tiff, exif.get(TAG.exposureTime))[0],
+      readNumbers(tiff, exif.get(TAG.fNumber))[0],
+      readNumbers(tiff, exif.get(TAG.iso))[0],
+      readNumbers(tiff, exif.get(TAG.focalLength))[0]
+    );
+  }
+
+  const gps = readSubIfd(tiff, ifd0, TAG.gpsIfd);
+  if (gps && gps.size > 0) {
+    meta.hasLocation = true;
+    meta.gps = readGps(tiff, gps);
+  }
+
+  return { tiff, ifd0 };
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/** A property written as an attribute, a plain element or an rdf list */
+function xmpProperty(xmp: string, name: string): string | null {
+  const escaped = name.replace(".", "\\.");
+  const match =
+    new RegExp(`${escaped}="([^"]*)"`).exec(xmp) ??
+    new RegExp(`<${escaped}>([^<]+)</${escaped}>`).exec(xmp) ??
+    new RegExp(
+      `<${escaped}>\\s*<rdf:(?:Alt|Seq|Bag)>\\s*<rdf:li[^>]*>([^<]*)<`
+    ).exec(xmp);
+  const value = match ? decodeXmlEntities(match[1]).trim() : "";
+  return value || null;
+}
+
+/** XMP GPS coordinates look like "51,30.1234N" or "51,30,7.4N" */
+function xmpDegrees(value: string | null): number | null {
+  const match = value && /^([\d.,]+)([NSEW])$/.exec(value.trim());
+  if (!match) return null;
+  const [degrees, minutes = 0, seconds = 0] = match[1].split(",").map(Number);
+  return dmsToDegrees([degrees, minutes, seconds], match[2]);
+}
+
+/** Fill in what EXIF didn't provide from an XMP packet */
+function readXmp(xmp: string, meta: ImageMetadata) {
+  addBlock(meta, "XMP");
+  const make = xmpProperty(xmp, "tiff:Make");
+  const model = xmpProperty(xmp, "tiff:Model");
+  meta.camera ??= model ?? make;
+  meta.lens ??=
+    xmpProperty(xmp, "aux:Lens") ?? xmpProperty(xmp, "exifEX:LensModel");
+  meta.taken ??=
+    xmpProperty(xmp, "exif:DateTimeOriginal") ??
+    xmpProperty(xmp, "photoshop:DateCreated") ??
+    xmpProperty(xmp, "xmp:CreateDate");
+  meta.modified ??= xmpProperty(xmp, "xmp:ModifyDate");
+  meta.software ??= xmpProperty(xmp, "xmp:CreatorTool");
+  meta.artist ??= xmpProperty(xmp, "dc:creator");
+  meta.copyright ??= xmpProperty(xmp, "dc:rights");
+  const orientation = Number(xmpProperty(xmp, "tiff:Orientation"));
+  if (meta.orientation === null && orientation) meta.orientation = orientation;
+
+  const latitude = xmpProperty(xmp, "exif:GPSLatitude");
+  const longitude = xmpProperty(xmp, "exif:GPSLongitude");
+  if (latitude || longitude) {
+    meta.hasLocation = true;
+    const lat = xmpDegrees(latitude);
+    const lon = xmpDegrees(longitude);
+    if (!meta.gps && lat !== null && lon !== null) {
+      meta.gps = { latitude: lat, longitude: lon, altitude: null };
+    }
+  }
+}
+
+/** The profile's own description, or its color space */
+function readIccDescription(icc: Uint8Array): string | null {
+  if (icc.length < 132) return null;
+  const view = new DataView(icc.buffer, icc.byteOffset, icc.byteLength);
+  const fallback = `${ascii(icc, 16, 4).trim()} profile`;
+  try {
+    const tagCount = view.getUint32(128);
+    for (let i = 0; i < tagCount; i++) {
+      const at = 132 + i * 12;
+      if (ascii(icc, at, 4) !== "desc") continue;
+      const offset = view.getUint32(at + 4);
+      const type = ascii(icc, offset, 4);
+      if (type === "desc") {
+        // ICC v2: ASCII with a length that includes the NUL
+        const length = view.getUint32(offset + 8);
+        const text = ascii(icc, offset + 12, length).split("\0")[0];
+        return text.trim() || fallback;
+      }
+      if (type === "mluc") {
+        // ICC v4: UTF-16 records per language; take the first
+        const length = view.getUint32(offset + 20);
+        const start = offset + view.getUint32(offset + 24);
+        const text = decodeText(
+          icc.subarray(start, start + length),
+          "utf-16be"
+        );
+        return text.trim() || fallback;
+      }
+    }
+  } catch {
+    // Malformed tag table
+  }
+  return fallback;
+}
+
+function readJpegMetadata(bytes: Uint8Array, meta: ImageMetadata) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const iccChunks: { sequence: number; data: Uint8Array }[] = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    // Metadata always precedes the first scan
+    if (marker === 0xda || marker === 0xd9) break;
+    const end = offset + 2 + view.getUint16(offset + 2);
+    const data = bytes.subarray(offset + 4, end);
+
+    if (marker === 0xe1 && startsWith(data, EXIF_HEADER)) {
+      readExif(data, EXIF_HEADER.length, meta);
+    } else if (marker === 0xe1 && startsWith(data, XMP_NAMESPACE)) {
+      readXmp(decodeText(data.subarray(XMP_NAMESPACE.length)), meta);
+    } else if (marker === 0xe1 && startsWith(data, XMP_EXTENSION_NAMESPACE)) {
+      addBlock(meta, "XMP");
+    } else if (marker === 0xe2 && startsWith(data, ICC_HEADER)) {
+      // Profiles over 64 KB are split across numbered segments
+      iccChunks.push({
+        sequence: data[ICC_HEADER.length],
+        data: data.subarray(ICC_HEADER.length + 2),
+      });
+    } else if (marker === 0xed) {
+      addBlock(meta, "IPTC");
+    } else if (marker === 0xfe) {
+      addBlock(meta, "Comment");
+      meta.comments.push(decodeText(data).trim());
+    }
+    offset = end;
+  }
+
+  if (iccChunks.length > 0) {
+    iccChunks.sort((a, b) => a.sequence - b.sequence);
+    addBlock(meta, "ICC profile");
+    meta.colorProfile = readIccDescription(
+      concat(iccChunks.map((chunk) => chunk.data))
+    );
+  }
+}
+
+function readPngMetadata(bytes: Uint8Array, meta: ImageMetadata) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 8;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = ascii(bytes, offset + 4, 4);
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    if (type === "IEND") break;
+
+    if (type === "eXIf") {
+      readExif(data, 0, meta);
+    } else if (type === "iCCP") {
+      // The profile itself is zlib-compressed; its name is enough here
+      addBlock(meta, "ICC profile");
+      meta.colorProfile = ascii(data, 0, data.indexOf(0));
+    } else if (type === "tIME" && length === 7) {
+      const pad = (value: number) => String(value).padStart(2, "0");
+      meta.modified ??= `${view.getUint16(offset + 8)}-${pad(data[2])}-${pad(
+        data[3]
+      )} ${pad(data[4])}:${pad(data[5])}:${pad(data[6])} UTC`;
+    } else if (type === "tEXt" || type === "zTXt" || type === "iTXt") {
+      const keywordEnd = data.indexOf(0);
+      const keyword = ascii(data, 0, keywordEnd);
+      let text: string | null = null;
+      if (type === "tEXt") {
+        text = decodeText(data.subarray(keywordEnd + 1), "latin1");
+      } else if (type === "iTXt" && data[keywordEnd + 1] === 0) {
+        // Uncompressed: skip the language tag and translated keyword
+        const languageEnd = data.indexOf(0, keywordEnd + 3);
+        const translatedEnd = data.indexOf(0, languageEnd + 1);
+        text = decodeText(data.subarray(translatedEnd + 1));
+      }
+      if (keyword === "XML:com.adobe.xmp") {
+        if (text) readXmp(text, meta);
+        else addBlock(meta, "XMP");
+      } else {
+        addBlock(meta, "Text");
+        meta.comments.push(`${keyword}: ${text?.trim() ?? "(compressed)"}`);
+      }
+    }
+    offset += 12 + length;
+  }
+}
+
+function readWebpMetadata(bytes: Uint8Array, meta: ImageMetadata) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const type = ascii(bytes, offset, 4);
+    const length = view.getUint32(offset + 4, true);
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    if (type === "EXIF") {
+      // Some encoders keep the JPEG-style "Exif" prefix
+      readExif(
+        data,
+        startsWith(data, EXIF_HEADER) ? EXIF_HEADER.length : 0,
+        meta
+      );
+    } else if (type === "XMP ") {
+      readXmp(decodeText(data), meta);
+    } else if (type === "ICCP") {
+      addBlock(meta, "ICC profile");
+      meta.colorProfile = readIccDescription(data);
+    }
+    offset += 8 + length + (length & 1);
+  }
+}
+
+function readTiffMetadata(bytes: Uint8Array, meta: ImageMetadata) {
+  const exif = readExif(bytes, 0, meta);
+  if (!exif) return;
+  const { tiff, ifd0 } = exif;
+  const xmp = ifd0.get(TAG.xmp);
+  if (xmp) readXmp(decodeText(readBytes(tiff, xmp)), meta);
+  const icc = ifd0.get(TAG.iccProfile);
+  if (icc) {
+    addBlock(meta, "ICC profile");
+    meta.colorProfile = readIccDescription(readBytes(tiff, icc));
+  }
+}
+
+type MetadataFormat = "jpeg" | "png" | "webp" | "tiff";
+
+function detectFormat(bytes: Uint8Array): MetadataFormat | null {
+  if (bytes.length >= 4 && bytes[0] === 0xff && bytes[1] === 0xd8) {
+    return "jpeg";
+  }
+  if (bytes.length >= 8 && ascii(bytes, 0, 8) === "\x89PNG\r\n\x1a\n") {
+    return "png";
+  }
+  if (
+    bytes.length >= 12 &&
+    ascii(bytes, 0, 4) === "RIFF" &&
+    ascii(bytes, 8, 4) === "WEBP"
+  ) {
+    return "webp";
+  }
+  const order = bytes.length >= 8 ? ascii(bytes, 0, 4) : "";
+  if (order === "II*\0" || order === "MM\0*") return "tiff";
+  return null;
+}
+
+/**
+ * Read camera, time, location, software and color profile details.
+ * Returns null for formats this doesn't parse. Blocks that fail to parse
+ * are skipped; whatever was read before them is kept.
+ */
+export function readImageMetadata(bytes: Uint8Array): ImageMetadata | null {
+  const format = detectFormat(bytes);
+  if (!format) return null;
+  const meta = emptyMetadata();
+  try {
+    if (format === "jpeg") readJpegMetadata(bytes, meta);
+    else if (format === "png") readPngMetadata(bytes, meta);
+    else if (format === "webp") readWebpMetadata(bytes, meta);
+    else readTiffMetadata(bytes, meta);
+  } catch {
+    // Truncated or malformed block
+  }
+  if (meta.orientation !== null && !ORIENTATION_LABELS[meta.orientation]) {
+    meta.orientation = null;
+  }
+  return meta;
+}
+
+/** Whether `stripImageMetadata` handles this MIME type */
+export function canStripImageMetadata(mimeType: string): boolean {
+  return ["image/jpeg", "image/png", "image/webp"].includes(mimeType);
+}
+
+/**
+ * A minimal big-endian TIFF holding only the Orientation tag, so a
+ * stripped photo isn't shown sideways
+ */
+function orientationTiff(orientation: number): Uint8Array {
+  const tiff = new Uint8Array(26);
+  const view = new DataView(tiff.buffer);
+  view.setUint16(0, 0x4d4d); // "MM", big-endian
+  view.setUint16(2, 42);
+  view.setUint32(4, 8); // first IFD
+  view.setUint16(8, 1); // entry count
+  view.setUint16(10, TAG.orientation);
+  view.setUint16(12, 3); // SHORT
+  view.setUint32(14, 1);
+  view.setUint16(18, orientation);
+  // The last four bytes stay zero: no next IFD
+  return tiff;
+}
+
+function jpegSegment(marker: number, data: Uint8Array): Uint8Array {
+  const length = data.length + 2;
+  return concat([
+    new Uint8Array([0xff, marker, length >> 8, length & 0xff]),
+    data,
+  ]);
+}
+
+/**
+ * Keep JFIF, Adobe color transform info, the image itself and, if asked,
+ * ICC profiles; drop every other APPn segment, comments and anything after
+ * EOI (where phones append extra images with their own EXIF)
+ */
+function stripJpeg(
+  bytes: Uint8Array,
+  orientation: Uint8Array | null,
+  keepIcc: boolean,
+  removed: string[]
+): Uint8Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+  let pendingOrientation = orientation;
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) throw new Error("Malformed JPEG segment");
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    // Exif goes straight after JFIF, where readers look for it
+    if (pendingOrientation && marker !== 0xe0) {
+      const header = new TextEncoder().encode(EXIF_HEADER);
+      parts.push(jpegSegment(0xe1, concat([header, pendingOrientation])));
+      pendingOrientation = null;
+    }
+    if (marker === 0xda || marker === 0xd9) break;
+
+    const end = offset + 2 + view.getUint16(offset + 2);
+    const data = bytes.subarray(offset + 4, end);
+    const isApp = marker >= 0xe0 && marker <= 0xef;
+    const keep =
+      (!isApp && marker !== 0xfe) ||
+      marker === 0xe0 ||
+      marker === 0xee ||
+      (keepIcc && marker === 0xe2 && startsWith(data, ICC_HEADER));
+    if (keep) parts.push(bytes.subarray(offset, end));
+    offset = end;
+  }
+
+  // Copy scans up to EOI. In entropy-coded data 0xFF is always followed by
+  // 0x00 or a restart marker, so any other marker is a real segment.
+  let end = offset;
+  while (end + 1 < bytes.length) {
+    const next = bytes[end + 1];
+    if (
+      bytes[end] !== 0xff ||
+      next === 0x00 ||
+      next === 0xff ||
+      (next >= 0xd0 && next <= 0xd7)
+    ) {
+      end++;
+    } else if (next === 0xd9) {
+      end += 2;
+      break;
+    } else {
+      end += 2 + view.getUint16(end + 2);
+    }
+  }
+  end = Math.min(end, bytes.length);
+  parts.push(bytes.subarray(offset, end));
+  if (end < bytes.length) removed.push("Trailing data");
+
+  return concat(parts);
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+function stripPng(
+  bytes: Uint8Array,
+  orientation: Uint8Array | null,
+  keepIcc: boolean
+) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+  let pendingOrientation = orientation;
+  let offset = 8;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = ascii(bytes, offset + 4, 4);
+    const end = offset + 12 + length;
+    // eXIf has to come before the image data
+    if (pendingOrientation && (type === "IDAT" || type === "acTL")) {
+      parts.push(pngChunk("eXIf", pendingOrientation));
+      pendingOrientation = null;
+    }
+    if (!PNG_METADATA_CHUNKS.has(type) && (keepIcc || type !== "iCCP")) {
+      parts.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+    if (type === "IEND") break;
+  }
+  return concat(parts);
+}
+
+function stripWebp(
+  bytes: Uint8Array,
+  orientation: Uint8Array | null,
+  keepIcc: boolean
+) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts: Uint8Array[] = [];
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const type = ascii(bytes, offset, 4);
+    const length = view.getUint32(offset + 4, true);
+    const end = Math.min(offset + 8 + length + (length & 1), bytes.length);
+    if (type === "VP8X") {
+      // Clear the EXIF, XMP and (unless kept) ICC flags, setting EXIF again
+      // for orientation
+      const chunk = bytes.slice(offset, end);
+      chunk[8] =
+        (chunk[8] & ~(keepIcc ? 0x0c : 0x2c)) | (orientation ? 0x08 : 0);
+      parts.push(chunk);
+    } else if (
+      type !== "EXIF" &&
+      type !== "XMP " &&
+      (keepIcc || type !== "ICCP")
+    ) {
+      parts.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  // Extended-format files only; simple ones have nowhere to flag EXIF
+  if (orientation && ascii(bytes, 12, 4) === "VP8X") {
+    const chunk = new Uint8Array(8 + orientation.length);
+    chunk.set(new TextEncoder().encode("EXIF"));
+    new DataView(chunk.buffer).setUint32(4, orientation.length, true);
+    chunk.set(orientation, 8);
+    parts.push(chunk);
+  }
+
+  const body = concat(parts);
+  const out = new Uint8Array(12 + body.length);
+  out.set(bytes.subarray(0, 12));
+  new DataView(out.buffer).setUint32(4, 4 + body.length, true);
+  out.set(body, 12);
+  return out;
+}
+
+/**
+ * Remove EXIF, GPS, XMP, IPTC, comments and the ICC profile from a JPEG,
+ * PNG or WebP. The profile and a non-default orientation (written back as
+ * a one-tag EXIF block) can be kept with `options`. Returns null for other
+ * formats.
+ */
+export function stripImageMetadata(
+  bytes: Uint8Array,
+  { keepColorProfile = false, keepOrientation = false }: StripOptions = {}
+): StrippedImage | null {
+  const format = detectFormat(bytes);
+  const meta = readImageMetadata(bytes);
+  if (!format || format === "tiff" || !meta) return null;
+
+  const removed = meta.blocks.filter(
+    (block) => !(keepColorProfile && block === "ICC profile")
+  );
+  if (meta.hasLocation) {
+    removed.splice(removed.indexOf("EXIF") + 1, 0, "GPS location");
+  }
+  const orientation =
+    keepOrientation && meta.orientation && meta.orientation !== 1
+      ? orientationTiff(meta.orientation)
+      : null;
+
+  const stripped =
+    format === "jpeg"
+      ? stripJpeg(bytes, orientation, keepColorProfile, removed)
+      : format === "png"
+      ? stripPng(bytes, orientation, keepColorProfile)
+      : stripWebp(bytes, orientation, keepColorProfile);
+  return { bytes: stripped, removed };
+}
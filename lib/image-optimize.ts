@@ -0,0 +1,147 @@
+/**
+ * Resize and re-encode images in the browser before they are inlined
+ * Decoding goes through createImageBitmap, which applies EXIF orientation;
+ * re-encoding through a canvas drops all metadata. TIFF, which browsers
+ * can't decode, goes through the JavaScript decoder in lib/tiff instead.
+ */
+
+import { decodeTiff, isTiff } from "@/lib/tiff";
+
+export type ImageOutputFormat = "png" | "jpeg" | "webp" | "avif";
+
+export const IMAGE_OUTPUT_FORMATS: Record<
+  ImageOutputFormat,
+  { label: string; mime: string; ext: string; lossy: boolean }
+> = {
+  png: { label: "PNG", mime: "image/png", ext: "png", lossy: false },
+  jpeg: { label: "JPEG", mime: "image/jpeg", ext: "jpg", lossy: true },
+  webp: { label: "WebP", mime: "image/webp", ext: "webp", lossy: true },
+  avif: { label: "AVIF", mime: "image/avif", ext: "avif", lossy: true },
+};
+
+export interface ImageOptimizeOptions {
+  format: ImageOutputFormat;
+  /** 0-1, for lossy formats */
+  quality: number;
+  /** Largest output width in pixels, or null for no limit */
+  maxWidth: number | null;
+  /** Largest output height in pixels, or null for no limit */
+  maxHeight: number | null;
+}
+
+export interface OptimizedImage {
+  blob: Blob;
+  width: number;
+  height: number;
+  /** Size of the decoded source, after orientation */
+  sourceWidth: number;
+  sourceHeight: number;
+}
+
+const encoderSupport = new Map<ImageOutputFormat, Promise<boolean>>();
+
+/** Encode a canvas, rejecting when the browser can't produce `mime` */
+export function canvasToBlob(
+  canvas: HTMLCanvasElement,
+  mime: string,
+  quality?: number
+): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        // Browsers fall back to PNG for formats they can't encode
+        if (!blob || blob.type !== mime) {
+          reject(new Error(`This browser can't create ${mime} images`));
+        } else {
+          resolve(blob);
+        }
+      },
+      mime,
+      quality
+    );
+  });
+}
+
+/** Whether this browser's canvas can encode the format */
+export function canEncodeImageFormat(
+  format: ImageOutputFormat
+): Promise<boolean> {
+  let supported = encoderSupport.get(format);
+  if (!supported) {
+    const canvas = document.createElement("canvas");
+    canvas.width = 1;
+    canvas.height = 1;
+    supported = canvasToBlob(canvas, IMAGE_OUTPUT_FORMATS[format].mime).then(
+      () => true,
+      () => false
+    );
+    encoderSupport.set(format, supported);
+  }
+  return supported;
+}
+
+/** Scale a size down, never up, to fit within the limits */
+export function fitWithin(
+  width: number,
+  height: number,
+  maxWidth: number | null,
+  maxHeight: number | null
+): { width: number; height: number } {
+  const scale = Math.min(
+    1,
+    maxWidth ? maxWidth / width : 1,
+    maxHeight ? maxHeight / height : 1
+  );
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+/** Decode any image the browser can, plus TIFF */
+export async function decodeImage(source: Blob): Promise<ImageBitmap> {
+  const header = new Uint8Array(await source.slice(0, 8).arrayBuffer());
+  if (!isTiff(header)) return createImageBitmap(source);
+  const tiff = await decodeTiff(new Uint8Array(await source.arrayBuffer()));
+  return createImageBitmap(new ImageData(tiff.data, tiff.width, tiff.height));
+}
+
+/**
+ * Decode an image, scale it to fit the size limits and encode it in the
+ * chosen format. Rejects if the browser can't decode the source or encode
+ * the target format.
+ */
+export async function optimizeImage(
+  source: Blob,
+  { format, quality, maxWidth, maxHeight }: ImageOptimizeOptions
+): Promise<OptimizedImage> {
+  const bitmap = await decodeImage(source);
+  const size = fitWithin(bitmap.width, bitmap.height, maxWidth, maxHeight);
+  const canvas = document.createElement("canvas");
+  canvas.width = size.width;
+  canvas.height = size.height;
+
+  try {
+    const context = canvas.getContext("2d");
+    if (!context) throw new Error("Canvas is not available");
+    const { mime } = IMAGE_OUTPUT_FORMATS[format];
+    // JPEG has no alpha channel; transparent pixels would turn black
+    if (format === "jpeg") {
+      context.fillStyle = "#ffffff";
+      context.fillRect(0, 0, size.width, size.height);
+    }
+    context.imageSmoothingQuality = "high";
+    context.drawImage(bitmap, 0, 0, size.width, size.height);
+    return {
+      blob: await canvasToBlob(canvas, mime, quality),
+      ...size,
+      sourceWidth: bitmap.width,
+      sourceHeight: bitmap.height,
+    };
+  } finally {
+    bitmap.close();
+    // Release the bitmap now rather than when the canvas is collected
+    canvas.width = 0;
+    canvas.height = 0;
+  }
+}
@@ -0,0 +1,163 @@
+import { createHmac } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import {
+  getJwtTimeClaims,
+  getJwtTimeStatus,
+  isUnsecuredJwt,
+  looksLikeJwt,
+  parseJwt,
+  verifyJwtSignature,
+} from "@/lib/jwt";
+
+function base64url(value: string | Uint8Array): string {
+  return Buffer.from(value).toString("base64url");
+}
+
+function unsignedToken(header: object, payload: unknown): string {
+  return `${base64url(JSON.stringify(header))}.${base64url(
+    JSON.stringify(payload)
+  )}`;
+}
+
+function hs256Token(payload: unknown, secret: string): string {
+  const input = unsignedToken({ alg: "HS256", typ: "JWT" }, payload);
+  const signature = createHmac("sha256", secret).update(input).digest();
+  return `${input}.${base64url(signature)}`;
+}
+
+async function es256Token(payload: unknown) {
+  const { privateKey, publicKey } = await crypto.subtle.generateKey(
+    { name: "ECDSA", namedCurve: "P-256" },
+    true,
+    ["sign", "verify"]
+  );
+  const input = unsignedToken({ alg: "ES256", kid: "key-1" }, payload);
+  const signature = await crypto.subtle.sign(
+    { name: "ECDSA", hash: "SHA-256" },
+    privateKey,
+    new TextEncoder().encode(input)
+  );
+  return {
+    token: `${input}.${base64url(new Uint8Array(signature))}`,
+    jwk: await crypto.subtle.exportKey("jwk", publicKey),
+    spki: new Uint8Array(await crypto.subtle.exportKey("spki", publicKey)),
+  };
+}
+
+describe("looksLikeJwt", () => {
+  it("accepts three base64url segments, with or without a Bearer prefix", () => {
+    const token = hs256Token({ sub: "1" }, "secret");
+    expect(looksLikeJwt(token)).toBe(true);
+    expect(looksLikeJwt(`Bearer ${token}`)).toBe(true);
+    expect(looksLikeJwt(`${unsignedToken({ alg: "none" }, {})}.`)).toBe(true);
+  });
+
+  it("rejects other text", () => {
+    expect(looksLikeJwt("hello world")).toBe(false);
+    expect(looksLikeJwt("a.b")).toBe(false);
+  });
+});
+
+describe("parseJwt", () => {
+  it("decodes the header, payload and signature", () => {
+    const token = hs256Token({ sub: "1234", name: "Ada" }, "secret");
+    const jwt = parseJwt(token);
+    expect(jwt.header).toEqual({ alg: "HS256", typ: "JWT" });
+    expect(jwt.payload).toEqual({ sub: "1234", name: "Ada" });
+    expect(jwt.signature).toHaveLength(32);
+    expect(jwt.signingInput).toBe(token.split(".").slice(0, 2).join("."));
+  });
+
+  it("allows an empty signature for unsecured tokens", () => {
+    const jwt = parseJwt(`${unsignedToken({ alg: "none" }, { a: 1 })}.`);
+    expect(jwt.signature).toHaveLength(0);
+    expect(isUnsecuredJwt(jwt)).toBe(true);
+  });
+
+  it("explains why a token can't be parsed", () => {
+    expect(() => parseJwt("a.b.c.d.e")).toThrow("(JWE)");
+    expect(() => parseJwt("a.b")).toThrow("exactly three");
+    expect(() => parseJwt("e30.!!!.x")).toThrow(
+      "JWT payload is not valid base64url-encoded JSON"
+    );
+    expect(() => parseJwt(`${base64url("[1]")}.e30.`)).toThrow(
+      "JWT header must be a JSON object"
+    );
+    expect(() => parseJwt("e30.e30.abcde")).toThrow(
+      "JWT signature is not valid base64url"
+    );
+    expect(() => parseJwt("e30.e30.ab+c")).toThrow(
+      "JWT signature is not valid base64url"
+    );
+  });
+});
+
+describe("time claims", () => {
+  const jwt = parseJwt(
+    hs256Token({ iat: 1700000000, nbf: 1700000000, exp: 1700003600 }, "s")
+  );
+
+  it("reads iat, nbf and exp as dates", () => {
+    expect(getJwtTimeClaims(jwt)).toEqual([
+      { name: "iat", date: new Date(1700000000000) },
+      { name: "nbf", date: new Date(1700000000000) },
+      { name: "exp", date: new Date(1700003600000) },
+    ]);
+  });
+
+  it("reports the status of the time window", () => {
+    expect(getJwtTimeStatus(jwt, new Date(1699999999000))).toBe(
+      "not-yet-valid"
+    );
+    expect(getJwtTimeStatus(jwt, new Date(1700001000000))).toBe("valid");
+    expect(getJwtTimeStatus(jwt, new Date(1700003600000))).toBe("expired");
+  });
+
+  it("ignores payloads without claims", () => {
+    const other = parseJwt(hs256Token("just a string", "s"));
+    expect(getJwtTimeClaims(other)).toEqual([]);
+    expect(getJwtTimeStatus(other)).toBe("valid");
+  });
+});
+
+describe("verifyJwtSignature", () => {
+  it("checks HMAC signatures against the shared secret", async () => {
+    const jwt = parseJwt(hs256Token({ sub: "1" }, "correct horse"));
+    await expect(verifyJwtSignature(jwt, "correct horse")).resolves.toBe(true);
+    await expect(verifyJwtSignature(jwt, "wrong")).resolves.toBe(false);
+  });
+
+  it("checks ECDSA signatures with a JWK, JWKS or PEM public key", async () => {
+    const { token, jwk, spki } = await es256Token({ sub: "1" });
+    const jwt = parseJwt(token);
+    const pem = `-----BEGIN PUBLIC KEY-----\n${Buffer.from(spki).toString(
+      "base64"
+    )}\n-----END PUBLIC KEY-----`;
+
+    await expect(verifyJwtSignature(jwt, JSON.stringify(jwk))).resolves.toBe(
+      true
+    );
+    await expect(
+      verifyJwtSignature(
+        jwt,
+        JSON.stringify({ keys: [{ ...jwk, kid: "key-1", use: "sig" }] })
+      )
+    ).resolves.toBe(true);
+    await expect(verifyJwtSignature(jwt, pem)).resolves.toBe(true);
+  });
+
+  it("rejects a signature made by another key", async () => {
+    const { token } = await es256Token({ sub: "1" });
+    const { jwk } = await es256Token({ sub: "1" });
+    await expect(
+      verifyJwtSignature(parseJwt(token), JSON.stringify(jwk))
+    ).resolves.toBe(false);
+  });
+
+  it("refuses unsecured tokens", async () => {
+    const jwt = parseJwt(`${unsignedToken({ alg: "none" }, {})}.`);
+    await expect(verifyJwtSignature(jwt, "secret")).rejects.toThrow(
+      "have no signature to verify"
+    );
+  });
+});
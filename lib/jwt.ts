@@ -0,0 +1,292 @@
+/**
+ * JSON Web Token parsing and local signature verification
+ * Verification uses WebCrypto; secrets and keys never leave the browser
+ */
+
+import { base64ToBytes, cleanBase64 } from "@/lib/file-utils";
+import { hasPemArmor, parsePem } from "@/lib/pem";
+import { getCertificateSpki } from "@/lib/x509";
+
+export interface JwtHeader {
+  alg?: string;
+  typ?: string;
+  kid?: string;
+  [key: string]: unknown;
+}
+
+export interface ParsedJwt {
+  header: JwtHeader;
+  /** Usually a claims object, but JWS payloads may be any JSON value */
+  payload: unknown;
+  /** Signature bytes (empty for unsecured tokens) */
+  signature: Uint8Array;
+  /** `header.payload` exactly as received, used for verification */
+  signingInput: string;
+}
+
+export type JwtTimeStatus = "valid" | "expired" | "not-yet-valid";
+
+export interface JwtTimeClaim {
+  name: "exp" | "iat" | "nbf";
+  date: Date;
+}
+
+/** WebCrypto parameters for each supported JWS algorithm */
+const JWS_ALGORITHMS: Record<
+  string,
+  {
+    import:
+      | RsaHashedImportParams
+      | EcKeyImportParams
+      | HmacImportParams
+      | Algorithm;
+    verify: AlgorithmIdentifier | RsaPssParams | EcdsaParams;
+  }
+> = {
+  HS256: {
+    import: { name: "HMAC", hash: "SHA-256" },
+    verify: { name: "HMAC" },
+  },
+  HS384: {
+    import: { name: "HMAC", hash: "SHA-384" },
+    verify: { name: "HMAC" },
+  },
+  HS512: {
+    import: { name: "HMAC", hash: "SHA-512" },
+    verify: { name: "HMAC" },
+  },
+  RS256: {
+    import: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+    verify: { name: "RSASSA-PKCS1-v1_5" },
+  },
+  RS384: {
+    import: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-384" },
+    verify: { name: "RSASSA-PKCS1-v1_5" },
+  },
+  RS512: {
+    import: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-512" },
+    verify: { name: "RSASSA-PKCS1-v1_5" },
+  },
+  PS256: {
+    import: { name: "RSA-PSS", hash: "SHA-256" },
+    verify: { name: "RSA-PSS", saltLength: 32 },
+  },
+  PS384: {
+    import: { name: "RSA-PSS", hash: "SHA-384" },
+    verify: { name: "RSA-PSS", saltLength: 48 },
+  },
+  PS512: {
+    import: { name: "RSA-PSS", hash: "SHA-512" },
+    verify: { name: "RSA-PSS", saltLength: 64 },
+  },
+  ES256: {
+    import: { name: "ECDSA", namedCurve: "P-256" },
+    verify: { name: "ECDSA", hash: "SHA-256" },
+  },
+  ES384: {
+    import: { name: "ECDSA", namedCurve: "P-384" },
+    verify: { name: "ECDSA", hash: "SHA-384" },
+  },
+  ES512: {
+    import: { name: "ECDSA", namedCurve: "P-521" },
+    verify: { name: "ECDSA", hash: "SHA-512" },
+  },
+  EdDSA: {
+    import: { name: "Ed25519" },
+    verify: { name: "Ed25519" },
+  },
+};
+
+/**
+ * Strip an optional "Bearer " prefix and surrounding whitespace
+ */
+function normalizeToken(input: string): string {
+  return input.trim().replace(/^Bearer\s+/i, "");
+}
+
+/**
+ * Whether input has the three dot-separated base64url segments of a JWS
+ */
+export function looksLikeJwt(input: string): boolean {
+  return /^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*$/.test(
+    normalizeToken(input)
+  );
+}
+
+function decodeSegment(segment: string, name: string): unknown {
+  try {
+    const json = new TextDecoder("utf-8", { fatal: true }).decode(
+      base64ToBytes(cleanBase64(segment))
+    );
+    return JSON.parse(json);
+  } catch {
+    throw new Error(`JWT ${name} is not valid base64url-encoded JSON`);
+  }
+}
+
+/**
+ * Split and decode a compact JWS. Does not verify anything.
+ */
+export function parseJwt(input: string): ParsedJwt {
+  const parts = normalizeToken(input).split(".");
+  if (parts.length === 5) {
+    throw new Error(
+      "Encrypted tokens (JWE) can't be inspected without the key"
+    );
+  }
+  if (parts.length !== 3) {
+    throw new Error("A JWT must have exactly three dot-separated parts");
+  }
+
+  const header = decodeSegment(parts[0], "header");
+  if (!header || typeof header !== "object" || Array.isArray(header)) {
+    throw new Error("JWT header must be a JSON object");
+  }
+
+  const payload = decodeSegment(parts[1], "payload");
+
+  // A base64url length of 1 mod 4 can't come from any byte string
+  if (!/^[A-Za-z0-9_-]*$/.test(parts[2]) || parts[2].length % 4 === 1) {
+    throw new Error("JWT signature is not valid base64url");
+  }
+
+  return {
+    header: header as JwtHeader,
+    payload,
+    signature: parts[2]
+      ? base64ToBytes(cleanBase64(parts[2]))
+      : new Uint8Array(),
+    signingInput: `${parts[0]}.${parts[1]}`,
+  };
+}
+
+/**
+ * Whether the token is unsecured (`alg: none`) and must not be trusted
+ */
+export function isUnsecuredJwt(jwt: ParsedJwt): boolean {
+  return String(jwt.header.alg ?? "").toLowerCase() === "none";
+}
+
+/**
+ * Extract the registered NumericDate claims present in the payload
+ */
+export function getJwtTimeClaims(jwt: ParsedJwt): JwtTimeClaim[] {
+  if (!jwt.payload || typeof jwt.payload !== "object") return [];
+  const claims = jwt.payload as Record<string, unknown>;
+
+  return (["iat", "nbf", "exp"] as const).flatMap((name) =>
+    typeof claims[name] === "number"
+      ? [{ name, date: new Date((claims[name] as number) * 1000) }]
+      : []
+  );
+}
+
+/**
+ * Validity of the token's time window at `now`
+ */
+export function getJwtTimeStatus(
+  jwt: ParsedJwt,
+  now: Date = new Date()
+): JwtTimeStatus {
+  const claims = getJwtTimeClaims(jwt);
+  const exp = claims.find((claim) => claim.name === "exp");
+  const nbf = claims.find((claim) => claim.name === "nbf");
+
+  if (exp && now >= exp.date) return "expired";
+  if (nbf && now < nbf.date) return "not-yet-valid";
+  return "valid";
+}
+
+/** Import a JWK, JWKS (matched by `kid`), SPKI PEM or certificate public key */
+async function importVerificationKey(
+  keyText: string,
+  jwt: ParsedJwt,
+  params: (typeof JWS_ALGORITHMS)[string]["import"]
+): Promise<CryptoKey> {
+  const trimmed = keyText.trim();
+
+  if (trimmed.startsWith("{")) {
+    let jwk: JsonWebKey & {
+      kid?: string;
+      keys?: (JsonWebKey & { kid?: string })[];
+    };
+    try {
+      jwk = JSON.parse(trimmed);
+    } catch {
+      throw new Error("Key looks like JSON but could not be parsed");
+    }
+    if (Array.isArray(jwk.keys)) {
+      const match =
+        jwk.keys.find((key) => key.kid === jwt.header.kid) ??
+        (jwk.keys.length === 1 ? jwk.keys[0] : undefined);
+      if (!match) throw new Error("No key in the JWKS matches the token's kid");
+      jwk = match;
+    }
+    // Drop fields WebCrypto rejects when they disagree with the import params
+    const { alg: _alg, key_ops: _ops, use: _use, ...cleanJwk } = jwk;
+    return crypto.subtle.importKey("jwk", cleanJwk, params, false, ["verify"]);
+  }
+
+  if (hasPemArmor(trimmed)) {
+    const block = parsePem(trimmed)[0];
+    let spki: Uint8Array;
+    if (block?.label === "PUBLIC KEY") {
+      spki = block.der;
+    } else if (block?.label === "CERTIFICATE") {
+      spki = getCertificateSpki(block.der);
+    } else {
+      throw new Error(
+        `Unsupported PEM type "${block?.label}". Paste a "PUBLIC KEY" or "CERTIFICATE" block.`
+      );
+    }
+    return crypto.subtle.importKey(
+      "spki",
+      spki as BufferSource,
+      params,
+      false,
+      ["verify"]
+    );
+  }
+
+  throw new Error("Paste a public key as JWK, JWKS or PEM");
+}
+
+/**
+ * Verify the token signature with a shared secret (HS*) or public key.
+ * Resolves to true/false; throws for unsupported algorithms or unusable keys.
+ */
+export async function verifyJwtSignature(
+  jwt: ParsedJwt,
+  keyText: string
+): Promise<boolean> {
+  const alg = String(jwt.header.alg ?? "");
+  if (isUnsecuredJwt(jwt)) {
+    throw new Error(
+      'Unsecured tokens (alg "none") have no signature to verify'
+    );
+  }
+  const algorithm = JWS_ALGORITHMS[alg];
+  if (!algorithm) {
+    throw new Error(`Unsupported algorithm "${alg}"`);
+  }
+  if (typeof crypto === "undefined" || !crypto.subtle) {
+    throw new Error("WebCrypto is only available on secure (HTTPS) pages");
+  }
+
+  const key = alg.startsWith("HS")
+    ? await crypto.subtle.importKey(
+        "raw",
+        new TextEncoder().encode(keyText),
+        algorithm.import,
+        false,
+        ["verify"]
+      )
+    : await importVerificationKey(keyText, jwt, algorithm.import);
+
+  return crypto.subtle.verify(
+    algorithm.verify,
+    key,
+    jwt.signature as BufferSource,
+    new TextEncoder().encode(jwt.signingInput)
+  );
+}
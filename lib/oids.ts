@@ -0,0 +1,165 @@
+/**
+ * Names for object identifiers found in certificates, keys and CMS
+ * Not exhaustive; unknown OIDs are shown in dotted form
+ */
+
+export const OID_NAMES: Record<string, string> = {
+  // X.520 attribute types
+  "2.5.4.3": "commonName",
+  "2.5.4.4": "surname",
+  "2.5.4.5": "serialNumber",
+  "2.5.4.6": "countryName",
+  "2.5.4.7": "localityName",
+  "2.5.4.8": "stateOrProvinceName",
+  "2.5.4.9": "streetAddress",
+  "2.5.4.10": "organizationName",
+  "2.5.4.11": "organizationalUnitName",
+  "2.5.4.12": "title",
+  "2.5.4.15": "businessCategory",
+  "2.5.4.17": "postalCode",
+  "2.5.4.42": "givenName",
+  "2.5.4.43": "initials",
+  "2.5.4.46": "dnQualifier",
+  "2.5.4.97": "organizationIdentifier",
+  "0.9.2342.19200300.100.1.1": "userId",
+  "0.9.2342.19200300.100.1.25": "domainComponent",
+  "1.3.6.1.4.1.311.60.2.1.1": "jurisdictionLocalityName",
+  "1.3.6.1.4.1.311.60.2.1.2": "jurisdictionStateOrProvinceName",
+  "1.3.6.1.4.1.311.60.2.1.3": "jurisdictionCountryName",
+
+  // PKCS #1 and key algorithms
+  "1.2.840.113549.1.1.1": "rsaEncryption",
+  "1.2.840.113549.1.1.4": "md5WithRSAEncryption",
+  "1.2.840.113549.1.1.5": "sha1WithRSAEncryption",
+  "1.2.840.113549.1.1.10": "RSASSA-PSS",
+  "1.2.840.113549.1.1.11": "sha256WithRSAEncryption",
+  "1.2.840.113549.1.1.12": "sha384WithRSAEncryption",
+  "1.2.840.113549.1.1.13": "sha512WithRSAEncryption",
+  "1.2.840.10040.4.1": "dsa",
+  "1.2.840.10040.4.3": "dsaWithSHA1",
+  "1.2.840.10045.2.1": "ecPublicKey",
+  "1.2.840.10045.4.1": "ecdsaWithSHA1",
+  "1.2.840.10045.4.3.2": "ecdsaWithSHA256",
+  "1.2.840.10045.4.3.3": "ecdsaWithSHA384",
+  "1.2.840.10045.4.3.4": "ecdsaWithSHA512",
+  "1.3.101.110": "X25519",
+  "1.3.101.111": "X448",
+  "1.3.101.112": "Ed25519",
+  "1.3.101.113": "Ed448",
+
+  // Named curves
+  "1.2.840.10045.3.1.7": "prime256v1",
+  "1.3.132.0.10": "secp256k1",
+  "1.3.132.0.34": "secp384r1",
+  "1.3.132.0.35": "secp521r1",
+  "1.3.36.3.3.2.8.1.1.7": "brainpoolP256r1",
+  "1.3.36.3.3.2.8.1.1.11": "brainpoolP384r1",
+  "1.3.36.3.3.2.8.1.1.13": "brainpoolP512r1",
+
+  // Hashes
+  "1.2.840.113549.2.5": "md5",
+  "1.3.14.3.2.26": "sha1",
+  "2.16.840.1.101.3.4.2.1": "sha256",
+  "2.16.840.1.101.3.4.2.2": "sha384",
+  "2.16.840.1.101.3.4.2.3": "sha512",
+
+  // PKCS #5 / #8 / #12 encryption
+  "1.2.840.113549.1.5.13": "PBES2",
+  "1.2.840.113549.1.5.12": "PBKDF2",
+  "2.16.840.1.101.3.4.1.2": "aes128-CBC",
+  "2.16.840.1.101.3.4.1.42": "aes256-CBC",
+  "1.2.840.113549.3.7": "des-ede3-cbc",
+
+  // PKCS #7 / CMS
+  "1.2.840.113549.1.7.1": "data",
+  "1.2.840.113549.1.7.2": "signedData",
+  "1.2.840.113549.1.7.3": "envelopedData",
+  "1.2.840.113549.1.7.6": "encryptedData",
+
+  // PKCS #9 attributes
+  "1.2.840.113549.1.9.1": "emailAddress",
+  "1.2.840.113549.1.9.2": "unstructuredName",
+  "1.2.840.113549.1.9.3": "contentType",
+  "1.2.840.113549.1.9.4": "messageDigest",
+  "1.2.840.113549.1.9.5": "signingTime",
+  "1.2.840.113549.1.9.7": "challengePassword",
+  "1.2.840.113549.1.9.14": "extensionRequest",
+
+  // Certificate extensions
+  "2.5.29.9": "subjectDirectoryAttributes",
+  "2.5.29.14": "subjectKeyIdentifier",
+  "2.5.29.15": "keyUsage",
+  "2.5.29.16": "privateKeyUsagePeriod",
+  "2.5.29.17": "subjectAltName",
+  "2.5.29.18": "issuerAltName",
+  "2.5.29.19": "basicConstraints",
+  "2.5.29.30": "nameConstraints",
+  "2.5.29.31": "cRLDistributionPoints",
+  "2.5.29.32": "certificatePolicies",
+  "2.5.29.32.0": "anyPolicy",
+  "2.5.29.33": "policyMappings",
+  "2.5.29.35": "authorityKeyIdentifier",
+  "2.5.29.36": "policyConstraints",
+  "2.5.29.37": "extKeyUsage",
+  "2.5.29.54": "inhibitAnyPolicy",
+  "1.3.6.1.5.5.7.1.1": "authorityInfoAccess",
+  "1.3.6.1.5.5.7.1.3": "qcStatements",
+  "1.3.6.1.5.5.7.1.11": "subjectInfoAccess",
+  "1.3.6.1.5.5.7.1.24": "tlsFeature",
+  "1.3.6.1.4.1.11129.2.4.2": "signedCertificateTimestampList",
+  "1.3.6.1.4.1.11129.2.4.3": "precertificatePoison",
+  "2.16.840.1.113730.1.1": "netscapeCertType",
+  "2.16.840.1.113730.1.13": "netscapeComment",
+
+  // Extended key usages
+  "2.5.29.37.0": "anyExtendedKeyUsage",
+  "1.3.6.1.5.5.7.3.1": "serverAuth",
+  "1.3.6.1.5.5.7.3.2": "clientAuth",
+  "1.3.6.1.5.5.7.3.3": "codeSigning",
+  "1.3.6.1.5.5.7.3.4": "emailProtection",
+  "1.3.6.1.5.5.7.3.8": "timeStamping",
+  "1.3.6.1.5.5.7.3.9": "OCSPSigning",
+  "1.3.6.1.4.1.311.10.3.3": "serverGatedCrypto",
+  "1.3.6.1.4.1.311.20.2.2": "smartcardLogon",
+
+  // Access methods
+  "1.3.6.1.5.5.7.48.1": "ocsp",
+  "1.3.6.1.5.5.7.48.2": "caIssuers",
+
+  // Policies
+  "1.3.6.1.5.5.7.2.1": "cps",
+  "1.3.6.1.5.5.7.2.2": "userNotice",
+  "2.23.140.1.1": "extendedValidation",
+  "2.23.140.1.2.1": "domainValidated",
+  "2.23.140.1.2.2": "organizationValidated",
+  "2.23.140.1.2.3": "individualValidated",
+};
+
+/** Short attribute names used when formatting distinguished names */
+const ATTRIBUTE_SHORT_NAMES: Record<string, string> = {
+  "2.5.4.3": "CN",
+  "2.5.4.6": "C",
+  "2.5.4.7": "L",
+  "2.5.4.8": "ST",
+  "2.5.4.9": "STREET",
+  "2.5.4.10": "O",
+  "2.5.4.11": "OU",
+  "0.9.2342.19200300.100.1.1": "UID",
+  "0.9.2342.19200300.100.1.25": "DC",
+  "1.2.840.113549.1.9.1": "E",
+};
+
+/**
+ * Friendly name for an OID, or the OID itself if unknown
+ */
+export function describeOid(oid: string): string {
+  return OID_NAMES[oid] ?? oid;
+}
+
+/**
+ * Short name for a distinguished name attribute (e.g. "CN"), falling back
+ * to the long name or the dotted OID
+ */
+export function attributeShortName(oid: string): string {
+  return ATTRIBUTE_SHORT_NAMES[oid] ?? describeOid(oid);
+}
@@ -0,0 +1,175 @@
+import { describe, expect, it } from "vitest";
+import {
+  describeAnnotationSize,
+  exportAnnotations,
+  nextAnnotationName,
+  parseAnnotations,
+  type PdfAnnotation,
+} from "@/lib/pdf-annotations";
+
+const ANNOTATIONS: PdfAnnotation[] = [
+  {
+    id: "b",
+    kind: "measure",
+    page: 2,
+    x: 10,
+    y: 20,
+    width: 30,
+    height: -40,
+    name: "Gap",
+  },
+  {
+    id: "a",
+    kind: "region",
+    page: 1,
+    x: 72.123,
+    y: 144.456,
+    width: 200,
+    height: 50,
+    name: "Signature box",
+  },
+  {
+    id: "c",
+    kind: "marker",
+    page: 2,
+    x: 5,
+    y: 6,
+    width: 0,
+    height: 0,
+    name: "Stamp",
+  },
+];
+
+/** Annotations without their generated ids */
+function withoutIds(annotations: PdfAnnotation[]) {
+  return annotations.map(({ id: _id, ...rest }) => rest);
+}
+
+describe("exportAnnotations and parseAnnotations", () => {
+  it("round-trips annotations in page order", () => {
+    const json = exportAnnotations(ANNOTATIONS);
+    const parsed = JSON.parse(json);
+    expect(parsed).toMatchObject({ unit: "pt", origin: "bottom-left" });
+    expect(
+      parsed.annotations.map((entry: { name: string }) => entry.name)
+    ).toEqual(["Signature box", "Gap", "Stamp"]);
+    expect(parsed.annotations[1].length).toBe(50);
+
+    expect(withoutIds(parseAnnotations(json, 2))).toEqual([
+      {
+        kind: "region",
+        page: 1,
+        x: 72.12,
+        y: 144.46,
+        width: 200,
+        height: 50,
+        name: "Signature box",
+      },
+      {
+        kind: "measure",
+        page: 2,
+        x: 10,
+        y: 20,
+        width: 30,
+        height: -40,
+        name: "Gap",
+      },
+      {
+        kind: "marker",
+        page: 2,
+        x: 5,
+        y: 6,
+        width: 0,
+        height: 0,
+        name: "Stamp",
+      },
+    ]);
+  });
+
+  it("reads a bare list of rects as regions and markers", () => {
+    const parsed = parseAnnotations(
+      JSON.stringify([
+        { page: 1, x: 100, y: 100, width: -20, height: -10 },
+        { page: 1, x: 5, y: 5 },
+      ]),
+      1
+    );
+    expect(withoutIds(parsed)).toEqual([
+      {
+        kind: "region",
+        page: 1,
+        x: 80,
+        y: 90,
+        width: 20,
+        height: 10,
+        name: "Region 1",
+      },
+      {
+        kind: "marker",
+        page: 1,
+        x: 5,
+        y: 5,
+        width: 0,
+        height: 0,
+        name: "Marker 2",
+      },
+    ]);
+    expect(parsed[0].id).not.toBe(parsed[1].id);
+  });
+
+  it("rejects files that aren't annotation lists", () => {
+    expect(() => parseAnnotations("{", 1)).toThrow(
+      "The file is not valid JSON"
+    );
+    expect(() => parseAnnotations('{"fields": []}', 1)).toThrow(
+      "Expected an array of annotations"
+    );
+  });
+
+  it("rejects entries without numeric coordinates", () => {
+    for (const entry of [
+      null,
+      { page: "1", x: 0, y: 0 },
+      { page: 1, x: 0 },
+      { page: 1, x: 0, y: 0, width: "wide" },
+    ]) {
+      expect(() => parseAnnotations(JSON.stringify([entry]), 3)).toThrow(
+        "Entry 1 needs numeric page, x and y"
+      );
+    }
+  });
+
+  it("rejects pages outside the document", () => {
+    const entries = (page: number) =>
+      JSON.stringify([
+        { page: 1, x: 0, y: 0 },
+        { page, x: 0, y: 0 },
+      ]);
+    expect(() => parseAnnotations(entries(4), 3)).toThrow(
+      "Entry 2 is on page 4, but the document has 3 pages"
+    );
+    expect(() => parseAnnotations(entries(0), 1)).toThrow(
+      "Entry 2 is on page 0, but the document has 1 page"
+    );
+    expect(() => parseAnnotations(entries(1.5), 3)).toThrow(
+      "Entry 2 is on page 1.5"
+    );
+  });
+});
+
+describe("describeAnnotationSize", () => {
+  it("reads out each kind", () => {
+    expect(ANNOTATIONS.map(describeAnnotationSize)).toEqual([
+      "50.0 pt (17.6 mm)",
+      "200.0 × 50.0 pt",
+      "5.0, 6.0 pt",
+    ]);
+  });
+});
+
+describe("nextAnnotationName", () => {
+  it("numbers by kind across the document", () => {
+    expect(nextAnnotationName("marker", ANNOTATIONS)).toBe("Marker 2");
+    expect(nextAnnotationName("region", [])).toBe("Region 1");
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Regions, measurements and markers placed on PDF pages
+ * Positions are PDF points (1pt = 1/72 inch) with the page's bottom-left
+ * origin, the same space form-fill and signing tools use for field rects
+ */
+
+/** Points to millimeters conversion factor (1 pt = 25.4/72 mm) */
+export const PT_TO_MM = 25.4 / 72;
+
+export type PdfAnnotationKind = "region" | "measure" | "marker";
+
+export interface PdfAnnotation {
+  id: string;
+  kind: PdfAnnotationKind;
+  /** 1-based page number */
+  page: number;
+  /** Bottom-left corner of a region, or where a measurement or marker starts */
+  x: number;
+  y: number;
+  /**
+   * Size of a region, or the offset from start to end of a measurement
+   * (negative when it runs left or down); zero for markers
+   */
+  width: number;
+  height: number;
+  name: string;
+}
+
+export const PDF_ANNOTATION_LABELS: Record<PdfAnnotationKind, string> = {
+  region: "Region",
+  measure: "Measurement",
+  marker: "Marker",
+};
+
+/** Length of a measurement, in points */
+export function measureLength({ width, height }: PdfAnnotation): number {
+  return Math.hypot(width, height);
+}
+
+/** Short size readout, e.g. "120.0 × 48.5 pt" or "96.2 pt (33.9 mm)" */
+export function describeAnnotationSize(annotation: PdfAnnotation): string {
+  const { width, height } = annotation;
+  if (annotation.kind === "region") {
+    return `${width.toFixed(1)} × ${height.toFixed(1)} pt`;
+  }
+  if (annotation.kind === "measure") {
+    const length = measureLength(annotation);
+    return `${length.toFixed(1)} pt (${(length * PT_TO_MM).toFixed(1)} mm)`;
+  }
+  return `${annotation.x.toFixed(1)}, ${annotation.y.toFixed(1)} pt`;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * JSON listing every annotation in page order, rounded to 0.01pt
+ */
+export function exportAnnotations(annotations: PdfAnnotation[]): string {
+  const entries = [...annotations]
+    .sort((a, b) => a.page - b.page)
+    .map((annotation) => ({
+      name: annotation.name,
+      kind: annotation.kind,
+      page: annotation.page,
+      x: round(annotation.x),
+      y: round(annotation.y),
+      width: round(annotation.width),
+      height: round(annotation.height),
+      ...(annotation.kind === "measure"
+        ? { length: round(measureLength(annotation)) }
+        : {}),
+    }));
+
+  return JSON.stringify(
+    { unit: "pt", origin: "bottom-left", annotations: entries },
+    null,
+    2
+  );
+}
+
+function isAnnotationKind(value: unknown): value is PdfAnnotationKind {
+  return value === "region" || value === "measure" || value === "marker";
+}
+
+/**
+ * Read annotations back from an exported file. A bare array of
+ * `{ page, x, y, width, height }` objects, such as a list of form fields,
+ * works too: entries with a size become regions, the rest markers.
+ */
+export function parseAnnotations(
+  json: string,
+  pageCount: number
+): PdfAnnotation[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+
+  const entries = Array.isArray(parsed)
+    ? parsed
+    : parsed && typeof parsed === "object" && "annotations" in parsed
+    ? (parsed as { annotations: unknown }).annotations
+    : null;
+  if (!Array.isArray(entries)) {
+    throw new Error("Expected an array of annotations");
+  }
+
+  return entries.map((entry: unknown, index) => {
+    const fields = (entry ?? {}) as Record<string, unknown>;
+    const label = `Entry ${index + 1}`;
+    const { page, x, y } = fields;
+    const width = fields.width ?? 0;
+    const height = fields.height ?? 0;
+
+    if (
+      typeof page !== "number" ||
+      typeof x !== "number" ||
+      typeof y !== "number" ||
+      typeof width !== "number" ||
+      typeof height !== "number" ||
+      ![x, y, width, height].every(Number.isFinite)
+    ) {
+      throw new Error(
+        `${label} needs numeric page, x and y (and optionally width and height)`
+      );
+    }
+    if (!Number.isInteger(page) || page < 1 || page > pageCount) {
+      throw new Error(
+        `${label} is on page ${page}, but the document has ${pageCount} ${
+          pageCount === 1 ? "page" : "pages"
+        }`
+      );
+    }
+
+    const kind = isAnnotationKind(fields.kind)
+      ? fields.kind
+      : width || height
+      ? "region"
+      : "marker";
+
+    if (kind === "region") {
+      // Regions are stored from their bottom-left corner
+      return {
+        id: crypto.randomUUID(),
+        kind,
+        page,
+        x: Math.min(x, x + width),
+        y: Math.min(y, y + height),
+        width: Math.abs(width),
+        height: Math.abs(height),
+        name: annotationName(fields.name, kind, index),
+      };
+    }
+
+    return {
+      id: crypto.randomUUID(),
+      kind,
+      page,
+      x,
+      y,
+      width: kind === "marker" ? 0 : width,
+      height: kind === "marker" ? 0 : height,
+      name: annotationName(fields.name, kind, index),
+    };
+  });
+}
+
+function annotationName(
+  name: unknown,
+  kind: PdfAnnotationKind,
+  index: number
+): string {
+  return typeof name === "string" && name
+    ? name
+    : `${PDF_ANNOTATION_LABELS[kind]} ${index + 1}`;
+}
+
+/**
+ * Name for a new annotation, numbered after those of the same kind across
+ * the whole document, e.g. "Marker 3"
+ */
+export function nextAnnotationName(
+  kind: PdfAnnotationKind,
+  annotations: PdfAnnotation[]
+): string {
+  const count = annotations.filter((a) => a.kind === kind).length;
+  return annotationName(null, kind, count);
+}
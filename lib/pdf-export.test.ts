@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { parsePageRange } from "@/lib/pdf-export";
+
+describe("parsePageRange", () => {
+  it("parses single pages and ranges into sorted, unique pages", () => {
+    expect(parsePageRange("5, 1-3, 2", 10)).toEqual([1, 2, 3, 5]);
+  });
+
+  it("runs open ends to the first or last page", () => {
+    expect(parsePageRange("8-", 10)).toEqual([8, 9, 10]);
+    expect(parsePageRange("-2", 10)).toEqual([1, 2]);
+  });
+
+  it("accepts en dashes and spaces around the dash", () => {
+    expect(parsePageRange("2 – 4", 5)).toEqual([2, 3, 4]);
+  });
+
+  it("ignores empty parts", () => {
+    expect(parsePageRange("1,,3,", 3)).toEqual([1, 3]);
+  });
+
+  it("rejects empty input", () => {
+    expect(() => parsePageRange(" , ", 3)).toThrow("Enter the pages to export");
+  });
+
+  it("rejects parts that aren't pages or ranges", () => {
+    expect(() => parsePageRange("abc", 3)).toThrow(
+      '"abc" is not a page or a range like 2-5'
+    );
+    expect(() => parsePageRange("-", 3)).toThrow("is not a page");
+  });
+
+  it("rejects backwards and out-of-range pages", () => {
+    expect(() => parsePageRange("3-1", 5)).toThrow('"3-1" runs backwards');
+    expect(() => parsePageRange("4-6", 5)).toThrow(
+      '"4-6" is outside pages 1-5 of this document'
+    );
+    expect(() => parsePageRange("0", 5)).toThrow("is outside pages");
+  });
+});
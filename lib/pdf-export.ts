@@ -0,0 +1,170 @@
+/**
+ * Render PDF pages to PNG, JPEG or WebP images
+ * Pages are drawn by PDF.js into a detached canvas at the requested DPI,
+ * one at a time so a long export never holds more than one bitmap
+ */
+
+import {
+  IMAGE_OUTPUT_FORMATS,
+  canvasToBlob,
+  type ImageOutputFormat,
+} from "@/lib/image-optimize";
+import type { PDFDocumentProxy } from "@/lib/pdfjs";
+import { createZip, type ZipInputFile } from "@/lib/zip";
+
+export type PdfImageFormat = Exclude<ImageOutputFormat, "avif">;
+
+/** Formats offered for page images, described in `IMAGE_OUTPUT_FORMATS` */
+export const PDF_IMAGE_FORMATS: PdfImageFormat[] = ["png", "jpeg", "webp"];
+
+export const PDF_EXPORT_DPIS = [72, 96, 150, 300, 600];
+
+/** PDF user space is 72 units per inch */
+const POINTS_PER_INCH = 72;
+
+/**
+ * Largest bitmap rendered, in pixels. Safari refuses canvases above
+ * 16.7 megapixels; pages that would exceed it are scaled down to fit.
+ */
+const MAX_CANVAS_PIXELS = 4096 * 4096;
+
+export interface PdfImageOptions {
+  format: PdfImageFormat;
+  dpi: number;
+  /** 0-1, for JPEG and WebP */
+  quality: number;
+}
+
+export interface PdfExportProgress {
+  /** Pages finished so far */
+  done: number;
+  total: number;
+}
+
+export interface PdfExportResult {
+  blob: Blob;
+  filename: string;
+}
+
+/**
+ * Parse a page selection such as "1-3, 5, 8-" into sorted, unique page
+ * numbers. An open end runs to the last page.
+ */
+export function parsePageRange(input: string, pageCount: number): number[] {
+  const pages = new Set<number>();
+  const parts = input
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean);
+  if (parts.length === 0) throw new Error("Enter the pages to export");
+
+  for (const part of parts) {
+    const match = /^(\d*)\s*[-–]\s*(\d*)$|^(\d+)$/.exec(part);
+    if (!match || (match[1] === "" && match[2] === "")) {
+      throw new Error(`"${part}" is not a page or a range like 2-5`);
+    }
+    const from = Number(match[3] ?? (match[1] || 1));
+    const to = Number(match[3] ?? (match[2] || pageCount));
+    if (from > to) throw new Error(`"${part}" runs backwards`);
+    if (from < 1 || to > pageCount) {
+      throw new Error(
+        `"${part}" is outside pages 1-${pageCount} of this document`
+      );
+    }
+    for (let page = from; page <= to; page++) pages.add(page);
+  }
+
+  return [...pages].sort((a, b) => a - b);
+}
+
+/**
+ * Render one page to an image. `rotation` is added to the page's own
+ * /Rotate, matching what the viewer shows.
+ */
+export async function renderPageImage(
+  pdf: PDFDocumentProxy,
+  pageNumber: number,
+  { format, dpi, quality }: PdfImageOptions,
+  rotation = 0
+): Promise<Blob> {
+  const page = await pdf.getPage(pageNumber);
+  const rotate = (page.rotate + rotation) % 360;
+  let scale = dpi / POINTS_PER_INCH;
+  const base = page.getViewport({ scale: 1, rotation: rotate });
+  const pixels = base.width * scale * base.height * scale;
+  if (pixels > MAX_CANVAS_PIXELS) {
+    scale *= Math.sqrt(MAX_CANVAS_PIXELS / pixels);
+  }
+  const viewport = page.getViewport({ scale, rotation: rotate });
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.floor(viewport.width);
+  canvas.height = Math.floor(viewport.height);
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas is not available");
+
+  try {
+    // PDF.js paints an opaque white background, which JPEG needs anyway
+    await page.render({ canvasContext: context, viewport }).promise;
+    return await canvasToBlob(
+      canvas,
+      IMAGE_OUTPUT_FORMATS[format].mime,
+      quality
+    );
+  } finally {
+    // Release the bitmap now rather than when the canvas is collected
+    canvas.width = 0;
+    canvas.height = 0;
+  }
+}
+
+/**
+ * Render the given pages. One page downloads as a single image; several
+ * are bundled into a ZIP.
+ */
+export async function exportPdfPages(
+  pdf: PDFDocumentProxy,
+  pages: number[],
+  options: PdfImageOptions,
+  {
+    rotations = [],
+    onProgress,
+    signal,
+  }: {
+    /** Extra rotation per page (index 0 is page 1), as set in the viewer */
+    rotations?: number[];
+    onProgress?: (progress: PdfExportProgress) => void;
+    signal?: AbortSignal;
+  } = {}
+): Promise<PdfExportResult> {
+  const { ext } = IMAGE_OUTPUT_FORMATS[options.format];
+  const files: ZipInputFile[] = [];
+  const digits = String(pdf.numPages).length;
+
+  for (const [index, pageNumber] of pages.entries()) {
+    if (signal?.aborted) {
+      throw new DOMException("Export cancelled", "AbortError");
+    }
+    onProgress?.({ done: index, total: pages.length });
+    const blob = await renderPageImage(
+      pdf,
+      pageNumber,
+      options,
+      rotations[pageNumber - 1] ?? 0
+    );
+    const filename = `page-${String(pageNumber).padStart(digits, "0")}.${ext}`;
+    if (pages.length === 1) return { blob, filename };
+    files.push({
+      path: filename,
+      data: new Uint8Array(await blob.arrayBuffer()),
+    });
+  }
+  onProgress?.({ done: pages.length, total: pages.length });
+
+  return {
+    blob: new Blob([createZip(files) as BlobPart], {
+      type: "application/zip",
+    }),
+    filename: "pdf-pages.zip",
+  };
+}
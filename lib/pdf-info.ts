@@ -0,0 +1,227 @@
+/**
+ * Document properties and structure of an opened PDF
+ * Everything is read through PDF.js from the already-loaded document
+ */
+
+import { loadPdfJs, type PDFDocumentProxy } from "@/lib/pdfjs";
+
+export interface PdfPageInfo {
+  /** Size in points, before rotation */
+  width: number;
+  height: number;
+  /** /Rotate of the page, in degrees */
+  rotation: number;
+}
+
+export interface PdfAttachment {
+  filename: string;
+  description: string;
+  content: Uint8Array;
+}
+
+export interface PdfOutlineItem {
+  title: string;
+  /** 1-based target page, when the destination resolves to one */
+  page: number | null;
+  /** External link, for outline entries that point outside the document */
+  url: string | null;
+  items: PdfOutlineItem[];
+}
+
+export interface PdfFormField {
+  name: string;
+  /** PDF.js field type: text, checkbox, radiobutton, combobox, listbox, button */
+  type: string;
+  value: string;
+  /** 1-based page of the field's first widget */
+  page: number | null;
+}
+
+export interface PdfInfo {
+  title: string | null;
+  author: string | null;
+  subject: string | null;
+  keywords: string | null;
+  creator: string | null;
+  producer: string | null;
+  created: Date | null;
+  modified: Date | null;
+  version: string | null;
+  /** Security handler name (e.g. "Standard") when encrypted, else null */
+  encryption: string | null;
+  linearized: boolean;
+  pages: PdfPageInfo[];
+  attachments: PdfAttachment[];
+  outline: PdfOutlineItem[];
+  fields: PdfFormField[];
+}
+
+/** Outline entries resolved at most, so a huge outline can't stall the panel */
+const MAX_OUTLINE_ITEMS = 2000;
+
+type OutlineNode = Awaited<ReturnType<PDFDocumentProxy["getOutline"]>>[number];
+
+function text(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+async function resolveDestinationPage(
+  pdf: PDFDocumentProxy,
+  dest: OutlineNode["dest"]
+): Promise<number | null> {
+  try {
+    const explicit =
+      typeof dest === "string" ? await pdf.getDestination(dest) : dest;
+    if (!Array.isArray(explicit) || explicit[0] == null) return null;
+    const target = explicit[0];
+    // Either a page reference or, in some files, a bare page index
+    if (typeof target === "number") return target + 1;
+    return (await pdf.getPageIndex(target)) + 1;
+  } catch {
+    return null;
+  }
+}
+
+async function readOutline(
+  pdf: PDFDocumentProxy,
+  nodes: OutlineNode[],
+  budget: { remaining: number }
+): Promise<PdfOutlineItem[]> {
+  const items: PdfOutlineItem[] = [];
+  for (const node of nodes) {
+    if (budget.remaining-- <= 0) break;
+    items.push({
+      title: node.title,
+      page: node.dest ? await resolveDestinationPage(pdf, node.dest) : null,
+      url: node.url,
+      items: await readOutline(pdf, node.items, budget),
+    });
+  }
+  return items;
+}
+
+function formatFieldValue(value: unknown): string {
+  if (Array.isArray(value)) return value.join(", ");
+  if (value === null || value === undefined) return "";
+  return String(value);
+}
+
+async function readFields(pdf: PDFDocumentProxy): Promise<PdfFormField[]> {
+  const objects = await pdf.getFieldObjects();
+  if (!objects) return [];
+
+  const fields: PdfFormField[] = [];
+  for (const [name, widgets] of Object.entries(objects)) {
+    // Parent fields only group their kids and have no type of their own
+    const widget = (widgets as Record<string, unknown>[]).find(
+      (candidate) => candidate.type
+    );
+    if (!widget) continue;
+    fields.push({
+      name,
+      type: String(widget.type),
+      value: formatFieldValue(widget.value),
+      page: typeof widget.page === "number" ? widget.page + 1 : null,
+    });
+  }
+  return fields;
+}
+
+async function readAttachments(
+  pdf: PDFDocumentProxy
+): Promise<PdfAttachment[]> {
+  const attachments: Record<
+    string,
+    { filename: string; description?: string; content: Uint8Array }
+  > | null = await pdf.getAttachments();
+  if (!attachments) return [];
+  return Object.values(attachments).map((attachment) => ({
+    filename: attachment.filename || "attachment",
+    description: attachment.description ?? "",
+    content: attachment.content,
+  }));
+}
+
+/**
+ * Read the info dictionary, XMP fallbacks, page boxes, attachments,
+ * outline and form fields. Parts that fail to parse are left empty.
+ */
+export async function getPdfInfo(pdf: PDFDocumentProxy): Promise<PdfInfo> {
+  const pdfjs = await loadPdfJs();
+  const [metadata, pages, attachments, outline, fields] = await Promise.all([
+    pdf.getMetadata(),
+    Promise.all(
+      Array.from({ length: pdf.numPages }, async (_, i) => {
+        const page = await pdf.getPage(i + 1);
+        const [x1, y1, x2, y2] = page.view;
+        return {
+          width: x2 - x1,
+          height: y2 - y1,
+          rotation: page.rotate,
+        };
+      })
+    ),
+    readAttachments(pdf).catch(() => []),
+    pdf
+      .getOutline()
+      .then((nodes) =>
+        nodes ? readOutline(pdf, nodes, { remaining: MAX_OUTLINE_ITEMS }) : []
+      )
+      .catch(() => []),
+    readFields(pdf).catch(() => []),
+  ]);
+
+  const info = metadata.info as Record<string, unknown>;
+  // XMP names are lowercased by PDF.js; dc:creator is a list
+  const xmp = (name: string) => {
+    const value = metadata.metadata?.get(name);
+    return text(Array.isArray(value) ? value.join(", ") : value);
+  };
+  const date = (value: unknown) =>
+    typeof value === "string" ? pdfjs.PDFDateString.toDateObject(value) : null;
+
+  return {
+    title: text(info.Title) ?? xmp("dc:title"),
+    author: text(info.Author) ?? xmp("dc:creator"),
+    subject: text(info.Subject) ?? xmp("dc:description"),
+    keywords: text(info.Keywords) ?? xmp("pdf:keywords"),
+    creator: text(info.Creator) ?? xmp("xmp:creatortool"),
+    producer: text(info.Producer) ?? xmp("pdf:producer"),
+    created: date(info.CreationDate),
+    modified: date(info.ModDate),
+    version: text(info.PDFFormatVersion),
+    encryption: info.EncryptFilterName ? String(info.EncryptFilterName) : null,
+    linearized: info.IsLinearized === true,
+    pages,
+    attachments,
+    outline,
+    fields,
+  };
+}
+
+export interface PdfPageRange extends PdfPageInfo {
+  from: number;
+  to: number;
+}
+
+/**
+ * Runs of consecutive pages sharing a size and rotation, so a 300-page
+ * A4 document reads as one line
+ */
+export function groupPageSizes(pages: PdfPageInfo[]): PdfPageRange[] {
+  const ranges: PdfPageRange[] = [];
+  pages.forEach((page, i) => {
+    const last = ranges[ranges.length - 1];
+    if (
+      last &&
+      Math.abs(last.width - page.width) < 0.5 &&
+      Math.abs(last.height - page.height) < 0.5 &&
+      last.rotation === page.rotation
+    ) {
+      last.to = i + 1;
+    } else {
+      ranges.push({ ...page, from: i + 1, to: i + 1 });
+    }
+  });
+  return ranges;
+}
@@ -0,0 +1,71 @@
+/**
+ * Plain-text search over PDF pages
+ * Page text is the concatenation of the page's text items, in the same
+ * order PDF.js lays them out in its text layer, so match offsets map
+ * straight onto text layer spans
+ */
+
+import type { PDFDocumentProxy, PDFPageProxy } from "@/lib/pdfjs";
+
+export interface PdfTextMatch {
+  /** 1-based page number */
+  page: number;
+  /** Offset into the page text */
+  start: number;
+  end: number;
+}
+
+/** Upper bound so a one-letter query can't produce millions of hits */
+export const MAX_PDF_MATCHES = 10000;
+
+/**
+ * Text of every item on a page, in text layer order
+ */
+export async function getPageTextItems(page: PDFPageProxy): Promise<string[]> {
+  const content = await page.getTextContent();
+  const items: string[] = [];
+  for (const item of content.items) {
+    if ("str" in item) items.push(item.str);
+  }
+  return items;
+}
+
+/**
+ * Text of every page, one string per page
+ */
+export async function getDocumentText(
+  pdf: PDFDocumentProxy,
+  signal?: AbortSignal
+): Promise<string[]> {
+  const pages: string[] = [];
+  for (let number = 1; number <= pdf.numPages; number++) {
+    if (signal?.aborted) {
+      throw new DOMException("Text extraction cancelled", "AbortError");
+    }
+    const page = await pdf.getPage(number);
+    pages.push((await getPageTextItems(page)).join(""));
+  }
+  return pages;
+}
+
+/**
+ * Case-insensitive occurrences of `query` across all pages, in reading order
+ */
+export function findTextMatches(
+  pageTexts: string[],
+  query: string
+): PdfTextMatch[] {
+  const needle = query.toLowerCase();
+  const matches: PdfTextMatch[] = [];
+  if (!needle) return matches;
+
+  pageTexts.forEach((text, index) => {
+    const haystack = text.toLowerCase();
+    let start = haystack.indexOf(needle);
+    while (start !== -1 && matches.length < MAX_PDF_MATCHES) {
+      matches.push({ page: index + 1, start, end: start + needle.length });
+      start = haystack.indexOf(needle, start + needle.length);
+    }
+  });
+  return matches;
+}
@@ -0,0 +1,48 @@
+/**
+ * Lazy loader for the bundled PDF.js
+ * The library is code-split and its worker is copied to public/ by
+ * scripts/copy-pdf-worker.mjs, so both are served by the app itself and
+ * previewing a PDF makes no third-party requests
+ */
+
+export type {
+  PDFDocumentProxy,
+  PDFPageProxy,
+  PageViewport,
+  RenderTask,
+  TextLayer,
+} from "pdfjs-dist";
+
+type PdfjsModule = typeof import("pdfjs-dist/legacy/build/pdf.mjs");
+
+/** Where scripts/copy-pdf-worker.mjs puts the worker */
+const PDF_WORKER_PATH = "/pdf.worker.min.mjs";
+
+let pdfjsPromise: Promise<PdfjsModule> | null = null;
+
+/**
+ * Load PDF.js on first use and cache it.
+ * The legacy build keeps the browsers listed in the README working.
+ */
+export function loadPdfJs(): Promise<PdfjsModule> {
+  if (!pdfjsPromise) {
+    pdfjsPromise = import("pdfjs-dist/legacy/build/pdf.mjs").then((pdfjs) => {
+      pdfjs.GlobalWorkerOptions.workerSrc = PDF_WORKER_PATH;
+      return pdfjs;
+    });
+    // Allow a retry after a failed chunk load
+    pdfjsPromise.catch(() => {
+      pdfjsPromise = null;
+    });
+  }
+  return pdfjsPromise;
+}
+
+/**
+ * Open a PDF from raw bytes.
+ * Font eval is disabled; with no CMap or font URLs set, nothing is fetched.
+ */
+export async function openPdf(bytes: Uint8Array) {
+  const pdfjs = await loadPdfJs();
+  return pdfjs.getDocument({ data: bytes, isEvalSupported: false }).promise;
+}
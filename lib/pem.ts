@@ -0,0 +1,36 @@
+/**
+ * PEM armor parsing
+ * Extracts the DER payload from "-----BEGIN ...-----" blocks
+ */
+
+import { base64ToBytes, cleanBase64 } from "@/lib/file-utils";
+
+export interface PemBlock {
+  /** Label from the armor line, e.g. "CERTIFICATE" or "PUBLIC KEY" */
+  label: string;
+  /** Decoded DER bytes */
+  der: Uint8Array;
+}
+
+const PEM_BLOCK_REGEX =
+  /-----BEGIN ([A-Z0-9 ]+)-----([\s\S]*?)-----END \1-----/g;
+
+/**
+ * Whether text contains at least one PEM block
+ */
+export function hasPemArmor(text: string): boolean {
+  return /-----BEGIN [A-Z0-9 ]+-----/.test(text);
+}
+
+/**
+ * Parse every PEM block in a piece of text, in order.
+ * RFC 1421 headers (e.g. "Proc-Type:") inside a block are skipped.
+ */
+export function parsePem(text: string): PemBlock[] {
+  const blocks: PemBlock[] = [];
+  for (const match of text.matchAll(PEM_BLOCK_REGEX)) {
+    // cleanBase64 unwraps a single block, headers included
+    blocks.push({ label: match[1], der: base64ToBytes(cleanBase64(match[0])) });
+  }
+  return blocks;
+}
@@ -0,0 +1,96 @@
+/**
+ * User-chosen persistence policy for stored files and inputs
+ * Enforced by `storage` and `fileStore`, and by `Base64App` on tab close.
+ * History has its own opt-in (lib/history.ts); "never" only pauses it.
+ */
+
+export type PersistenceMode = "never" | "session" | "expire" | "forever";
+
+export interface PersistenceSettings {
+  mode: PersistenceMode;
+  /** Lifetime of stored data in "expire" mode */
+  expireMinutes: number;
+}
+
+/** Matches the app's original behaviour: kept until the tab closes */
+const DEFAULT_SETTINGS: PersistenceSettings = {
+  mode: "session",
+  expireMinutes: 30,
+};
+
+// Deliberately not one of STORAGE_KEYS, which may be wiped
+const SETTINGS_KEY = "b64_persistence_settings";
+/** sessionStorage flag set once per tab; the browser drops it on close */
+const SESSION_KEY = "b64_session_alive";
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+/**
+ * Subscribe to settings changes and writes to stored data; returns the
+ * unsubscribe function
+ */
+export function subscribeStorage(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Tell subscribers that stored data or settings changed */
+export function notifyStorageChange(): void {
+  for (const listener of listeners) listener();
+}
+
+export function loadPersistenceSettings(): PersistenceSettings {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    if (!saved) return DEFAULT_SETTINGS;
+    return {
+      ...DEFAULT_SETTINGS,
+      ...(JSON.parse(saved) as PersistenceSettings),
+    };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function savePersistenceSettings(settings: PersistenceSettings): void {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    // Ignore storage errors
+  }
+  notifyStorageChange();
+}
+
+/** Whether anything may be written at all */
+export function shouldPersist(): boolean {
+  return loadPersistenceSettings().mode !== "never";
+}
+
+/** Whether stored data is wiped when the tab closes */
+export function clearsOnClose(): boolean {
+  const { mode } = loadPersistenceSettings();
+  return mode === "never" || mode === "session";
+}
+
+/**
+ * Whether this page load is the first in its tab, i.e. the previous tab
+ * was closed rather than reloaded. Marks the tab as seen.
+ */
+export function beginSession(): boolean {
+  try {
+    if (sessionStorage.getItem(SESSION_KEY)) return false;
+    sessionStorage.setItem(SESSION_KEY, "1");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Whether data saved at `timestamp` has outlived the expiry window */
+export function isExpired(timestamp: number, now = Date.now()): boolean {
+  const { mode, expireMinutes } = loadPersistenceSettings();
+  return mode === "expire" && now - timestamp > expireMinutes * 60000;
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import { decodeTiff, isTiff, readTiffInfo, TiffError } from "@/lib/tiff";
+
+/** Little-endian single-strip 8-bit grayscale TIFF */
+function grayTiff(
+  width: number,
+  height: number,
+  strip: number[],
+  { compression = 1, predictor = 1 } = {}
+): Uint8Array {
+  const entries: [number, number, number][] = [
+    [256, 3, width],
+    [257, 3, height],
+    [258, 3, 8],
+    [259, 3, compression],
+    [262, 3, 1],
+    [273, 4, 0], // strip offset, patched below
+    [277, 3, 1],
+    [278, 3, height],
+    [279, 4, strip.length],
+    [317, 3, predictor],
+  ];
+  const ifdSize = 2 + entries.length * 12 + 4;
+  const dataOffset = 8 + ifdSize;
+  const bytes = new Uint8Array(dataOffset + strip.length);
+  const view = new DataView(bytes.buffer);
+  bytes.set([0x49, 0x49, 42, 0]);
+  view.setUint32(4, 8, true);
+  view.setUint16(8, entries.length, true);
+  entries.forEach(([tag, type, value], i) => {
+    const at = 10 + i * 12;
+    view.setUint16(at, tag, true);
+    view.setUint16(at + 2, type, true);
+    view.setUint32(at + 4, 1, true);
+    if (type === 3) view.setUint16(at + 8, value, true);
+    else view.setUint32(at + 8, tag === 273 ? dataOffset : value, true);
+  });
+  bytes.set(strip, dataOffset);
+  return bytes;
+}
+
+/** Pack 9-bit codes MSB-first, as TIFF LZW stores them */
+function lzwCodes(codes: number[]): number[] {
+  const out: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const code of codes) {
+    buffer = (buffer << 9) | code;
+    bits += 9;
+    while (bits >= 8) {
+      out.push((buffer >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  if (bits > 0) out.push((buffer << (8 - bits)) & 0xff);
+  return out;
+}
+
+/** The gray channel of each RGBA pixel */
+function grays({ data }: { data: Uint8ClampedArray }): number[] {
+  return Array.from(data.filter((_, i) => i % 4 === 0));
+}
+
+describe("decodeTiff", () => {
+  it("undoes the predictor on uncompressed strips without touching the input", async () => {
+    const bytes = grayTiff(3, 2, [10, 5, 5, 100, 255, 255], { predictor: 2 });
+    const original = bytes.slice();
+
+    const image = await decodeTiff(bytes);
+    expect(image).toMatchObject({ width: 3, height: 2 });
+    expect(grays(image)).toEqual([10, 15, 20, 100, 99, 98]);
+    expect(Array.from(image.data.subarray(0, 4))).toEqual([10, 10, 10, 255]);
+    expect(bytes).toEqual(original);
+  });
+
+  it("decodes PackBits", async () => {
+    // A three-byte literal run, then 40 repeated three times
+    const bytes = grayTiff(3, 2, [0x02, 10, 20, 30, 0xfe, 40], {
+      compression: 32773,
+    });
+    expect(grays(await decodeTiff(bytes))).toEqual([10, 20, 30, 40, 40, 40]);
+  });
+
+  it("decodes LZW, including codes from the string table", async () => {
+    // Clear, 1, 2, then code 258 (the "1 2" just added), 7, 8, end
+    const strip = lzwCodes([256, 1, 2, 258, 7, 8, 257]);
+    const bytes = grayTiff(3, 2, strip, { compression: 5 });
+    expect(grays(await decodeTiff(bytes))).toEqual([1, 2, 1, 2, 7, 8]);
+  });
+
+  it("names unsupported compressions", async () => {
+    await expect(
+      decodeTiff(grayTiff(1, 1, [0], { compression: 7 }))
+    ).rejects.toThrow("JPEG TIFFs aren't supported");
+    await expect(
+      decodeTiff(grayTiff(1, 1, [0], { compression: 12345 }))
+    ).rejects.toThrow("Compression 12345 TIFFs aren't supported");
+  });
+
+  it("rejects truncated IFDs and strips with a TiffError", async () => {
+    const bytes = grayTiff(3, 2, [1, 2, 3, 4, 5, 6]);
+
+    const noIfd = bytes.subarray(0, 40);
+    await expect(decodeTiff(noIfd)).rejects.toBeInstanceOf(TiffError);
+    await expect(decodeTiff(noIfd)).rejects.toThrow("TIFF is truncated");
+    expect(readTiffInfo(noIfd)).toBeNull();
+
+    const noStrip = bytes.subarray(0, bytes.length - 6);
+    await expect(decodeTiff(noStrip)).rejects.toThrow(
+      "TIFF image data is truncated"
+    );
+  });
+
+  it("rejects files that aren't TIFFs", async () => {
+    const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 13, 10, 26, 10]);
+    expect(isTiff(png)).toBe(false);
+    await expect(decodeTiff(png)).rejects.toThrow("Not a TIFF file");
+  });
+});
+
+describe("readTiffInfo", () => {
+  it("reads the first IFD", () => {
+    expect(readTiffInfo(grayTiff(3, 2, [0, 0, 0, 0, 0, 0]))).toEqual({
+      width: 3,
+      height: 2,
+      bitsPerSample: 8,
+      samplesPerPixel: 1,
+      photometric: 1,
+      compression: 1,
+      pages: 1,
+    });
+  });
+});
@@ -0,0 +1,539 @@
+/**
+ * Baseline TIFF decoding, for the browsers that can't display TIFF
+ * Reads the first image in the file: strips or tiles, uncompressed, LZW,
+ * PackBits or Deflate, in bilevel, grayscale, palette, RGB(A) or CMYK
+ */
+
+import { decompress } from "@/lib/compression";
+
+export interface TiffInfo {
+  width: number;
+  height: number;
+  bitsPerSample: number;
+  samplesPerPixel: number;
+  /** PhotometricInterpretation, e.g. 2 for RGB */
+  photometric: number;
+  compression: number;
+  /** Images (IFDs) in the file */
+  pages: number;
+}
+
+export interface DecodedTiff {
+  width: number;
+  height: number;
+  /** RGBA with straight alpha, ready for ImageData */
+  data: Uint8ClampedArray<ArrayBuffer>;
+}
+
+export const TIFF_COMPRESSION_NAMES: Record<number, string> = {
+  1: "Uncompressed",
+  2: "CCITT RLE",
+  3: "CCITT Group 3",
+  4: "CCITT Group 4",
+  5: "LZW",
+  6: "Old-style JPEG",
+  7: "JPEG",
+  8: "Deflate",
+  32773: "PackBits",
+  32946: "Deflate",
+  34925: "LZMA",
+  50000: "Zstandard",
+};
+
+export const TIFF_PHOTOMETRIC_NAMES: Record<number, string> = {
+  0: "Grayscale (white is zero)",
+  1: "Grayscale",
+  2: "RGB",
+  3: "Indexed",
+  4: "Transparency mask",
+  5: "CMYK",
+  6: "YCbCr",
+  8: "CIELab",
+};
+
+/** Thrown for files the decoder can't read, with a message fit to show */
+export class TiffError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TiffError";
+  }
+}
+
+/** Largest image decoded; the RGBA buffer alone is 4 bytes per pixel */
+const MAX_PIXELS = 8192 * 8192;
+
+/** Bytes per value for each TIFF field type */
+const TYPE_SIZES: Record<number, number> = {
+  1: 1,
+  2: 1,
+  3: 2,
+  4: 4,
+  5: 8,
+  6: 1,
+  7: 1,
+  8: 2,
+  9: 4,
+  10: 8,
+  11: 4,
+  12: 8,
+};
+
+const TAG = {
+  width: 256,
+  height: 257,
+  bitsPerSample: 258,
+  compression: 259,
+  photometric: 262,
+  stripOffsets: 273,
+  samplesPerPixel: 277,
+  rowsPerStrip: 278,
+  stripByteCounts: 279,
+  planarConfiguration: 284,
+  predictor: 317,
+  colorMap: 320,
+  tileWidth: 322,
+  tileLength: 323,
+  tileOffsets: 324,
+  tileByteCounts: 325,
+  extraSamples: 338,
+  sampleFormat: 339,
+};
+
+interface TiffReader {
+  view: DataView;
+  little: boolean;
+}
+
+/** Integer tag values; rationals, floats and strings aren't needed here */
+type Tags = Map<number, number[]>;
+
+export function isTiff(bytes: Uint8Array): boolean {
+  return (
+    bytes.length >= 8 &&
+    ((bytes[0] === 0x49 && bytes[1] === 0x49 && bytes[2] === 42) ||
+      (bytes[0] === 0x4d && bytes[1] === 0x4d && bytes[3] === 42))
+  );
+}
+
+function openTiff(bytes: Uint8Array): TiffReader {
+  if (!isTiff(bytes)) throw new TiffError("Not a TIFF file");
+  return {
+    view: new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength),
+    little: bytes[0] === 0x49,
+  };
+}
+
+function readIfd(
+  { view, little }: TiffReader,
+  offset: number
+): { tags: Tags; next: number } {
+  if (offset + 2 > view.byteLength) throw new TiffError("TIFF is truncated");
+  const tags: Tags = new Map();
+  const count = view.getUint16(offset, little);
+  // Entry count, 12-byte entries and the next-IFD offset
+  if (offset + 2 + count * 12 + 4 > view.byteLength) {
+    throw new TiffError("TIFF is truncated");
+  }
+  for (let i = 0; i < count; i++) {
+    const at = offset + 2 + i * 12;
+    const type = view.getUint16(at + 2, little);
+    const valueCount = view.getUint32(at + 4, little);
+    const size = (TYPE_SIZES[type] ?? 0) * valueCount;
+    if (![1, 3, 4, 6, 8, 9].includes(type) || size === 0) continue;
+    // Values of up to four bytes are stored in the entry itself
+    const valueOffset = size <= 4 ? at + 8 : view.getUint32(at + 8, little);
+    if (valueOffset + size > view.byteLength) continue;
+    const values: number[] = [];
+    for (let j = 0; j < valueCount; j++) {
+      const p = valueOffset + j * TYPE_SIZES[type];
+      values.push(
+        type === 1
+          ? view.getUint8(p)
+          : type === 3
+          ? view.getUint16(p, little)
+          : type === 4
+          ? view.getUint32(p, little)
+          : type === 6
+          ? view.getInt8(p)
+          : type === 8
+          ? view.getInt16(p, little)
+          : view.getInt32(p, little)
+      );
+    }
+    tags.set(view.getUint16(at, little), values);
+  }
+  return { tags, next: view.getUint32(offset + 2 + count * 12, little) };
+}
+
+function firstIfd(tiff: TiffReader) {
+  return readIfd(tiff, tiff.view.getUint32(4, tiff.little));
+}
+
+/** Dimensions, sample layout, compression and page count, or null */
+export function readTiffInfo(bytes: Uint8Array): TiffInfo | null {
+  try {
+    const tiff = openTiff(bytes);
+    const { tags, next } = firstIfd(tiff);
+    let pages = 1;
+    // Guard against IFD chains that loop back on themselves
+    const seen = new Set<number>();
+    for (let offset = next; offset && !seen.has(offset) && pages < 1000; ) {
+      seen.add(offset);
+      offset = readIfd(tiff, offset).next;
+      pages++;
+    }
+    const samplesPerPixel = tags.get(TAG.samplesPerPixel)?.[0] ?? 1;
+    return {
+      width: tags.get(TAG.width)?.[0] ?? 0,
+      height: tags.get(TAG.height)?.[0] ?? 0,
+      bitsPerSample: tags.get(TAG.bitsPerSample)?.[0] ?? 1,
+      samplesPerPixel,
+      photometric:
+        tags.get(TAG.photometric)?.[0] ?? (samplesPerPixel >= 3 ? 2 : 1),
+      compression: tags.get(TAG.compression)?.[0] ?? 1,
+      pages,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/** TIFF LZW: MSB-first codes with the "early change" code width bump */
+function decodeLzw(input: Uint8Array, expected: number): Uint8Array {
+  const out = new Uint8Array(expected);
+  const prefix = new Int16Array(4096);
+  const suffix = new Uint8Array(4096);
+  const first = new Uint8Array(4096);
+  const lengths = new Uint16Array(4096);
+  for (let i = 0; i < 256; i++) {
+    prefix[i] = -1;
+    suffix[i] = i;
+    first[i] = i;
+    lengths[i] = 1;
+  }
+
+  let next = 258;
+  let codeLength = 9;
+  let previous = -1;
+  let bitPos = 0;
+  let outPos = 0;
+  const totalBits = input.length * 8;
+
+  const write = (code: number) => {
+    const length = lengths[code];
+    // Walk the prefix chain backwards, dropping what doesn't fit
+    for (let i = length - 1, c = code; i >= 0; i--, c = prefix[c]) {
+      if (outPos + i < expected) out[outPos + i] = suffix[c];
+    }
+    outPos += length;
+  };
+  const add = (code: number, byte: number) => {
+    if (next >= 4096) return;
+    prefix[next] = code;
+    suffix[next] = byte;
+    first[next] = first[code];
+    lengths[next] = lengths[code] + 1;
+    next++;
+  };
+
+  while (bitPos + codeLength <= totalBits && outPos < expected) {
+    const byte = bitPos >>> 3;
+    const window =
+      (input[byte] << 16) |
+      ((input[byte + 1] ?? 0) << 8) |
+      (input[byte + 2] ?? 0);
+    const code =
+      (window >>> (24 - (bitPos & 7) - codeLength)) & ((1 << codeLength) - 1);
+    bitPos += codeLength;
+
+    if (code === 257) break;
+    if (code === 256) {
+      next = 258;
+      codeLength = 9;
+      previous = -1;
+      continue;
+    }
+    if (previous === -1) {
+      if (code > 255) throw new TiffError("Corrupt LZW data");
+      write(code);
+    } else if (code < next) {
+      write(code);
+      add(previous, first[code]);
+    } else if (code === next) {
+      add(previous, first[previous]);
+      write(code);
+    } else {
+      throw new TiffError("Corrupt LZW data");
+    }
+    previous = code;
+    if (next >= (1 << codeLength) - 1 && codeLength < 12) codeLength++;
+  }
+
+  return out.subarray(0, Math.min(outPos, expected));
+}
+
+function decodePackBits(input: Uint8Array, expected: number): Uint8Array {
+  const out = new Uint8Array(expected);
+  let i = 0;
+  let o = 0;
+  while (i < input.length && o < expected) {
+    const header = (input[i++] << 24) >> 24;
+    if (header >= 0) {
+      const run = input.subarray(i, i + header + 1).subarray(0, expected - o);
+      out.set(run, o);
+      o += run.length;
+      i += header + 1;
+    } else if (header !== -128) {
+      const end = Math.min(o + 1 - header, expected);
+      out.fill(input[i++], o, end);
+      o = end;
+    }
+  }
+  return out.subarray(0, o);
+}
+
+async function decodeChunk(
+  raw: Uint8Array,
+  compression: number,
+  expected: number
+): Promise<Uint8Array> {
+  switch (compression) {
+    case 1:
+      // The predictor is undone in place, so don't hand back the file's bytes
+      return raw.slice();
+    case 5:
+      return decodeLzw(raw, expected);
+    case 8:
+    case 32946:
+      return decompress(raw, "zlib");
+    case 32773:
+      return decodePackBits(raw, expected);
+    default:
+      throw new TiffError(
+        `${
+          TIFF_COMPRESSION_NAMES[compression] ?? `Compression ${compression}`
+        } TIFFs aren't supported`
+      );
+  }
+}
+
+/** Reverse horizontal differencing (Predictor 2) in place */
+function undoPredictor(
+  chunk: Uint8Array,
+  rowBytes: number,
+  samplesPerPixel: number,
+  bitsPerSample: number,
+  little: boolean
+) {
+  const rows = Math.floor(chunk.length / rowBytes);
+  if (bitsPerSample === 8) {
+    for (let row = 0; row < rows; row++) {
+      const start = row * rowBytes;
+      for (let i = start + samplesPerPixel; i < start + rowBytes; i++) {
+        chunk[i] += chunk[i - samplesPerPixel];
+      }
+    }
+  } else if (bitsPerSample === 16) {
+    const view = new DataView(chunk.buffer, chunk.byteOffset, chunk.length);
+    const stride = samplesPerPixel * 2;
+    for (let row = 0; row < rows; row++) {
+      const start = row * rowBytes;
+      for (let i = start + stride; i + 1 < start + rowBytes; i += 2) {
+        const value =
+          view.getUint16(i, little) + view.getUint16(i - stride, little);
+        view.setUint16(i, value & 0xffff, little);
+      }
+    }
+  } else {
+    throw new TiffError("Predictor with sub-byte samples isn't supported");
+  }
+}
+
+/** Read sample `index` of a row as an unscaled integer */
+function readSample(
+  chunk: Uint8Array,
+  rowStart: number,
+  index: number,
+  bitsPerSample: number,
+  little: boolean
+): number {
+  if (bitsPerSample === 8) return chunk[rowStart + index];
+  if (bitsPerSample === 16) {
+    const at = rowStart + index * 2;
+    return little
+      ? chunk[at] | (chunk[at + 1] << 8)
+      : (chunk[at] << 8) | chunk[at + 1];
+  }
+  const bit = index * bitsPerSample;
+  const byte = chunk[rowStart + (bit >> 3)];
+  return (byte >> (8 - bitsPerSample - (bit & 7))) & ((1 << bitsPerSample) - 1);
+}
+
+/**
+ * Decode the first image of a TIFF to RGBA. Throws with a readable
+ * message for layouts and compressions outside the baseline set.
+ */
+export async function decodeTiff(bytes: Uint8Array): Promise<DecodedTiff> {
+  const tiff = openTiff(bytes);
+  const { tags } = firstIfd(tiff);
+  const get = (tag: number) => tags.get(tag)?.[0];
+
+  const width = get(TAG.width) ?? 0;
+  const height = get(TAG.height) ?? 0;
+  const bitsPerSample = get(TAG.bitsPerSample) ?? 1;
+  const samplesPerPixel = get(TAG.samplesPerPixel) ?? 1;
+  const compression = get(TAG.compression) ?? 1;
+  const photometric = get(TAG.photometric) ?? (samplesPerPixel >= 3 ? 2 : 1);
+  const predictor = get(TAG.predictor) ?? 1;
+
+  if (width === 0 || height === 0)
+    throw new TiffError("TIFF has no image size");
+  if (width * height > MAX_PIXELS) {
+    throw new TiffError(`${width} × ${height} is too large to decode here`);
+  }
+  if (![1, 2, 4, 8, 16].includes(bitsPerSample)) {
+    throw new TiffError(`${bitsPerSample}-bit TIFFs aren't supported`);
+  }
+  if ((get(TAG.sampleFormat) ?? 1) === 3) {
+    throw new TiffError("Floating-point TIFFs aren't supported");
+  }
+  if (samplesPerPixel > 1 && (get(TAG.planarConfiguration) ?? 1) !== 1) {
+    throw new TiffError("Planar TIFFs aren't supported");
+  }
+  if (![0, 1, 2, 3, 5].includes(photometric)) {
+    throw new TiffError(
+      `${
+        TIFF_PHOTOMETRIC_NAMES[photometric] ?? `Photometric ${photometric}`
+      } TIFFs aren't supported`
+    );
+  }
+
+  const tiled = tags.has(TAG.tileWidth);
+  const chunkWidth = tiled ? get(TAG.tileWidth)! : width;
+  const chunkHeight = tiled
+    ? get(TAG.tileLength) ?? height
+    : Math.min(get(TAG.rowsPerStrip) ?? height, height);
+  const offsets = tags.get(tiled ? TAG.tileOffsets : TAG.stripOffsets);
+  const byteCounts = tags.get(tiled ? TAG.tileByteCounts : TAG.stripByteCounts);
+  if (!offsets) throw new TiffError("TIFF has no image data");
+
+  const rowBytes = Math.ceil(
+    (chunkWidth * samplesPerPixel * bitsPerSample) / 8
+  );
+  const chunksAcross = Math.ceil(width / chunkWidth);
+  const samples = new Uint16Array(width * height * samplesPerPixel);
+
+  for (let i = 0; i < offsets.length; i++) {
+    const start = offsets[i];
+    const end = byteCounts ? start + byteCounts[i] : bytes.length;
+    if (start >= bytes.length || end > bytes.length) {
+      throw new TiffError("TIFF image data is truncated");
+    }
+    const chunk = await decodeChunk(
+      bytes.subarray(start, end),
+      compression,
+      rowBytes * chunkHeight
+    );
+    if (predictor === 2) {
+      undoPredictor(
+        chunk,
+        rowBytes,
+        samplesPerPixel,
+        bitsPerSample,
+        tiff.little
+      );
+    }
+
+    const x0 = (i % chunksAcross) * chunkWidth;
+    const y0 = Math.floor(i / chunksAcross) * chunkHeight;
+    const rows = Math.min(chunkHeight, Math.floor(chunk.length / rowBytes));
+    const columns = Math.min(chunkWidth, width - x0);
+    for (let row = 0; row < rows && y0 + row < height; row++) {
+      const rowStart = row * rowBytes;
+      let target = ((y0 + row) * width + x0) * samplesPerPixel;
+      for (let index = 0; index < columns * samplesPerPixel; index++) {
+        samples[target++] = readSample(
+          chunk,
+          rowStart,
+          index,
+          bitsPerSample,
+          tiff.little
+        );
+      }
+    }
+  }
+
+  return {
+    width,
+    height,
+    data: toRgba(samples, tags, {
+      width,
+      height,
+      bitsPerSample,
+      samplesPerPixel,
+      photometric,
+    }),
+  };
+}
+
+function toRgba(
+  samples: Uint16Array,
+  tags: Tags,
+  {
+    width,
+    height,
+    bitsPerSample,
+    samplesPerPixel,
+    photometric,
+  }: Omit<TiffInfo, "compression" | "pages">
+): Uint8ClampedArray<ArrayBuffer> {
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  const max = 2 ** bitsPerSample - 1;
+  const colorChannels = photometric === 2 ? 3 : photometric === 5 ? 4 : 1;
+  const alphaIndex = samplesPerPixel > colorChannels ? colorChannels : -1;
+  // ExtraSamples 1 is premultiplied alpha; ImageData wants it straight
+  const premultiplied = tags.get(TAG.extraSamples)?.[0] === 1;
+  const colorMap = tags.get(TAG.colorMap);
+  const paletteSize = 2 ** bitsPerSample;
+  if (photometric === 3 && (!colorMap || colorMap.length < paletteSize * 3)) {
+    throw new TiffError("Indexed TIFF has no color map");
+  }
+
+  for (let p = 0, s = 0; p < rgba.length; p += 4, s += samplesPerPixel) {
+    const to8 = (value: number) => (value * 255) / max;
+    let r: number;
+    let g: number;
+    let b: number;
+    if (photometric === 0 || photometric === 1) {
+      const gray = to8(samples[s]);
+      r = g = b = photometric === 0 ? 255 - gray : gray;
+    } else if (photometric === 3) {
+      // Color map entries are 16-bit
+      const index = samples[s];
+      r = colorMap![index] / 257;
+      g = colorMap![paletteSize + index] / 257;
+      b = colorMap![paletteSize * 2 + index] / 257;
+    } else if (photometric === 5) {
+      const k = 1 - to8(samples[s + 3]) / 255;
+      r = (255 - to8(samples[s])) * k;
+      g = (255 - to8(samples[s + 1])) * k;
+      b = (255 - to8(samples[s + 2])) * k;
+    } else {
+      r = to8(samples[s]);
+      g = to8(samples[s + 1]);
+      b = to8(samples[s + 2]);
+    }
+
+    const alpha = alphaIndex >= 0 ? to8(samples[s + alphaIndex]) : 255;
+    if (premultiplied && alpha > 0 && alpha < 255) {
+      r = (r * 255) / alpha;
+      g = (g * 255) / alpha;
+      b = (b * 255) / alpha;
+    }
+    rgba[p] = r;
+    rgba[p + 1] = g;
+    rgba[p + 2] = b;
+    rgba[p + 3] = alpha;
+  }
+  return rgba;
+}
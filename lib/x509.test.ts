@@ -0,0 +1,185 @@
+import { describe, expect, it } from "vitest";
+import { parsePem } from "@/lib/pem";
+import {
+  describePublicKey,
+  getCertificateSpki,
+  getCertificateStatus,
+  inspectPem,
+  isIssuedBy,
+  parseCertificate,
+  parseKey,
+} from "@/lib/x509";
+
+// A P-256 root and a leaf it issued for example.com, made with OpenSSL
+const ROOT_PEM = `-----BEGIN CERTIFICATE-----
+MIIBrzCCAVWgAwIBAgICEAEwCgYIKoZIzj0EAwIwNjELMAkGA1UEBhMCVVMxEDAO
+BgNVBAoMB0V4YW1wbGUxFTATBgNVBAMMDEV4YW1wbGUgUm9vdDAeFw0yNjEwMTkx
+OTMyMDRaFw0zNjEwMTYxOTMyMDRaMDYxCzAJBgNVBAYTAlVTMRAwDgYDVQQKDAdF
+eGFtcGxlMRUwEwYDVQQDDAxFeGFtcGxlIFJvb3QwWTATBgcqhkjOPQIBBggqhkjO
+PQMBBwNCAAQoWENbTQfdbVExvrIL0MUpHPKIUVaOuMNe379sW5uckeDwuxM9JRUD
+9HOj9XWeW+VKTMHrnTd+pT/nurFzmn3to1MwUTAdBgNVHQ4EFgQUt/Mz0lEgnPEd
+ysIdC0xtuRZO7JwwHwYDVR0jBBgwFoAUt/Mz0lEgnPEdysIdC0xtuRZO7JwwDwYD
+VR0TAQH/BAUwAwEB/zAKBggqhkjOPQQDAgNIADBFAiB8V8KS5aPPPS3KvwYZztnJ
+FKloC1g337j+LZltxAxe/AIhALvEUHYn5/nGr9aopsgSHldgfDdnKEdZz6/orout
+CMON
+-----END CERTIFICATE-----`;
+
+const LEAF_PEM = `-----BEGIN CERTIFICATE-----
+MIIBpjCCAU2gAwIBAgICIAIwCgYIKoZIzj0EAwIwNjELMAkGA1UEBhMCVVMxEDAO
+BgNVBAoMB0V4YW1wbGUxFTATBgNVBAMMDEV4YW1wbGUgUm9vdDAeFw0yNjEwMTkx
+OTMyMDRaFw0zNjEwMTYxOTMyMDRaMBYxFDASBgNVBAMMC2V4YW1wbGUuY29tMFkw
+EwYHKoZIzj0CAQYIKoZIzj0DAQcDQgAEMz7xMvkaZHcBMveq9ecx5n4GQdIj/Tfx
+7Jv4sCBxcE/58TDAr3uQz8QPzHvY/WkzBKJmicRy07cRFa594GhOyaNrMGkwJwYD
+VR0RBCAwHoILZXhhbXBsZS5jb22CD3d3dy5leGFtcGxlLmNvbTAdBgNVHQ4EFgQU
+I4HGuL3uj2jupli8D+Hl+XUvrWswHwYDVR0jBBgwFoAUt/Mz0lEgnPEdysIdC0xt
+uRZO7JwwCgYIKoZIzj0EAwIDRwAwRAIgdDdcEnHtHqK57PONyZr0vqCIOpwo86P2
+nuMomZm7gtkCIGqQ93TKQjAiS+k4h0DwZ+iXLCvDbEddzgTMGedRGLxW
+-----END CERTIFICATE-----`;
+
+const LEAF_CSR_PEM = `-----BEGIN CERTIFICATE REQUEST-----
+MIIBDDCBsgIBADAWMRQwEgYDVQQDDAtleGFtcGxlLmNvbTBZMBMGByqGSM49AgEG
+CCqGSM49AwEHA0IABDM+8TL5GmR3ATL3qvXnMeZ+BkHSI/038eyb+LAgcXBP+fEw
+wK97kM/ED8x72P1pMwSiZonEctO3ERWufeBoTsmgOjA4BgkqhkiG9w0BCQ4xKzAp
+MCcGA1UdEQQgMB6CC2V4YW1wbGUuY29tgg93d3cuZXhhbXBsZS5jb20wCgYIKoZI
+zj0EAwIDSQAwRgIhAK8LdofDrEgnLi4Xt1kEYYjRGK9kwA7GWkY2LTw+fexYAiEA
+rpwi7n3ZiUtTPKJ2othNa4jFeraJr2C8u/BwcL/iqlQ=
+-----END CERTIFICATE REQUEST-----`;
+
+const LEAF_PUBLIC_KEY_PEM = `-----BEGIN PUBLIC KEY-----
+MFkwEwYHKoZIzj0CAQYIKoZIzj0DAQcDQgAEMz7xMvkaZHcBMveq9ecx5n4GQdIj
+/Tfx7Jv4sCBxcE/58TDAr3uQz8QPzHvY/WkzBKJmicRy07cRFa594GhOyQ==
+-----END PUBLIC KEY-----`;
+
+function der(pem: string): Uint8Array {
+  return parsePem(pem)[0].der;
+}
+
+describe("parseCertificate", () => {
+  it("reads the subject, issuer, validity and key of a root", async () => {
+    const root = await parseCertificate(der(ROOT_PEM));
+    expect(root).toMatchObject({
+      version: 3,
+      serialNumber: "10:01",
+      signatureAlgorithm: "ecdsaWithSHA256",
+      notBefore: new Date("2026-10-19T19:32:04Z"),
+      notAfter: new Date("2036-10-16T19:32:04Z"),
+      publicKey: { algorithm: "ecPublicKey", size: 256, curve: "prime256v1" },
+      isCa: true,
+      isSelfIssued: true,
+      fingerprintSha256:
+        "16:FA:F6:C9:25:33:87:7F:02:0E:8F:8D:24:F0:54:8B:9A:4A:C5:30:37:A3:F9:68:3A:3E:4C:5D:B5:43:CF:D6",
+    });
+    expect(root.subject.text).toBe("CN=Example Root, O=Example, C=US");
+    expect(root.subject.attributes.map((a) => a.name)).toEqual([
+      "C",
+      "O",
+      "CN",
+    ]);
+    expect(root.extensions).toContainEqual({
+      oid: "2.5.29.19",
+      name: "basicConstraints",
+      critical: true,
+      values: ["CA: true"],
+    });
+  });
+
+  it("reads subject alternative names of a leaf", async () => {
+    const leaf = await parseCertificate(der(LEAF_PEM));
+    expect(leaf.subject.text).toBe("CN=example.com");
+    expect(leaf.subjectAltNames).toEqual([
+      "DNS:example.com",
+      "DNS:www.example.com",
+    ]);
+    expect(leaf.isCa).toBe(false);
+    expect(leaf.isSelfIssued).toBe(false);
+  });
+
+  it("rejects data that isn't a certificate", async () => {
+    await expect(parseCertificate(der(LEAF_PUBLIC_KEY_PEM))).rejects.toThrow();
+  });
+});
+
+describe("certificate helpers", () => {
+  it("reports validity at a given time", async () => {
+    const leaf = await parseCertificate(der(LEAF_PEM));
+    expect(getCertificateStatus(leaf, new Date("2026-01-01"))).toBe(
+      "not-yet-valid"
+    );
+    expect(getCertificateStatus(leaf, new Date("2030-01-01"))).toBe("valid");
+    expect(getCertificateStatus(leaf, new Date("2040-01-01"))).toBe("expired");
+  });
+
+  it("matches issuers by name", async () => {
+    const root = await parseCertificate(der(ROOT_PEM));
+    const leaf = await parseCertificate(der(LEAF_PEM));
+    expect(isIssuedBy(leaf, root)).toBe(true);
+    expect(isIssuedBy(root, leaf)).toBe(false);
+  });
+
+  it("extracts the SubjectPublicKeyInfo", () => {
+    expect(getCertificateSpki(der(LEAF_PEM))).toEqual(der(LEAF_PUBLIC_KEY_PEM));
+  });
+
+  it("describes public keys", () => {
+    expect(
+      describePublicKey({ algorithm: "rsaEncryption", size: 2048, curve: null })
+    ).toBe("RSA · 2048-bit");
+    expect(
+      describePublicKey({
+        algorithm: "ecPublicKey",
+        size: 256,
+        curve: "prime256v1",
+      })
+    ).toBe("EC prime256v1 · 256-bit");
+  });
+});
+
+describe("parseKey", () => {
+  it("describes an SPKI public key", () => {
+    expect(parseKey("PUBLIC KEY", der(LEAF_PUBLIC_KEY_PEM))).toEqual({
+      format: "SPKI",
+      isPrivate: false,
+      publicKey: { algorithm: "ecPublicKey", size: 256, curve: "prime256v1" },
+      encryption: null,
+    });
+  });
+
+  it("rejects unknown labels", () => {
+    expect(() => parseKey("SSH KEY", der(LEAF_PUBLIC_KEY_PEM))).toThrow(
+      'Unsupported key type "SSH KEY"'
+    );
+  });
+});
+
+describe("inspectPem", () => {
+  it("parses every block in order", async () => {
+    const objects = await inspectPem(
+      [ROOT_PEM, LEAF_PEM, LEAF_CSR_PEM, LEAF_PUBLIC_KEY_PEM].join("\n")
+    );
+    expect(objects.map((object) => object.type)).toEqual([
+      "certificate",
+      "certificate",
+      "csr",
+      "key",
+    ]);
+
+    const csr = objects[2];
+    expect(csr.type === "csr" && csr.request).toMatchObject({
+      subject: { text: "CN=example.com" },
+      signatureAlgorithm: "ecdsaWithSHA256",
+      extensions: [
+        {
+          name: "subjectAltName",
+          values: ["DNS:example.com", "DNS:www.example.com"],
+        },
+      ],
+    });
+  });
+
+  it("keeps blocks that fail to parse as unsupported", async () => {
+    const broken = LEAF_PEM.replace("MIIBpjCC", "MIIBpjDD");
+    const [object] = await inspectPem(broken);
+    expect(object.type).toBe("unsupported");
+    expect(object.label).toBe("CERTIFICATE");
+  });
+});
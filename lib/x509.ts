@@ -0,0 +1,629 @@
+/**
+ * X.509 certificate, CSR and key inspection
+ * Parses the DER inside PEM blocks; fingerprints use WebCrypto locally
+ */
+
+import {
+  ASN1_TAGS,
+  decodeAsn1String,
+  decodeAsn1Time,
+  decodeInteger,
+  decodeOid,
+  integerBitLength,
+  parseAsn1,
+  toHexString,
+  type Asn1Node,
+} from "@/lib/asn1";
+import { attributeShortName, describeOid } from "@/lib/oids";
+import { parsePem } from "@/lib/pem";
+
+export interface NameAttribute {
+  oid: string;
+  /** Short name such as "CN", or the long name if there is none */
+  name: string;
+  value: string;
+}
+
+export interface DistinguishedName {
+  attributes: NameAttribute[];
+  /** RFC 4514 style string, most specific attribute first */
+  text: string;
+}
+
+export interface PublicKeyInfo {
+  algorithm: string;
+  /** Key size in bits, when it can be determined */
+  size: number | null;
+  /** Named curve for EC keys */
+  curve: string | null;
+}
+
+export interface CertificateExtension {
+  oid: string;
+  name: string;
+  critical: boolean;
+  /** Decoded values, one per line */
+  values: string[];
+}
+
+export interface X509Certificate {
+  version: number;
+  /** Colon-separated hex */
+  serialNumber: string;
+  signatureAlgorithm: string;
+  subject: DistinguishedName;
+  issuer: DistinguishedName;
+  notBefore: Date;
+  notAfter: Date;
+  publicKey: PublicKeyInfo;
+  subjectAltNames: string[];
+  extensions: CertificateExtension[];
+  isCa: boolean;
+  /** Subject and issuer are identical (a root or self-signed leaf) */
+  isSelfIssued: boolean;
+  /** SHA-256 over the DER, colon-separated uppercase hex */
+  fingerprintSha256: string;
+  der: Uint8Array;
+}
+
+export interface CertificateRequest {
+  subject: DistinguishedName;
+  publicKey: PublicKeyInfo;
+  signatureAlgorithm: string;
+  /** Extensions requested through the PKCS #9 extensionRequest attribute */
+  extensions: CertificateExtension[];
+}
+
+export interface KeyInfo {
+  /** Encoding, e.g. "SPKI", "PKCS #1", "PKCS #8" or "SEC 1" */
+  format: string;
+  isPrivate: boolean;
+  /** Null when the key is encrypted */
+  publicKey: PublicKeyInfo | null;
+  /** Encryption scheme of an encrypted private key */
+  encryption: string | null;
+}
+
+export type PemObject =
+  | { type: "certificate"; label: string; certificate: X509Certificate }
+  | { type: "csr"; label: string; request: CertificateRequest }
+  | { type: "key"; label: string; key: KeyInfo }
+  | { type: "unsupported"; label: string; error: string };
+
+export type CertificateStatus = "valid" | "expired" | "not-yet-valid";
+
+/** Key sizes of named curves */
+const CURVE_SIZES: Record<string, number> = {
+  prime256v1: 256,
+  secp256k1: 256,
+  secp384r1: 384,
+  secp521r1: 521,
+  brainpoolP256r1: 256,
+  brainpoolP384r1: 384,
+  brainpoolP512r1: 512,
+};
+
+/** Fixed sizes for algorithms without parameters */
+const FIXED_KEY_SIZES: Record<string, number> = {
+  Ed25519: 256,
+  Ed448: 456,
+  X25519: 256,
+  X448: 448,
+};
+
+/** keyUsage bit names in bit order (RFC 5280 §4.2.1.3) */
+const KEY_USAGE_BITS = [
+  "digitalSignature",
+  "nonRepudiation",
+  "keyEncipherment",
+  "dataEncipherment",
+  "keyAgreement",
+  "keyCertSign",
+  "cRLSign",
+  "encipherOnly",
+  "decipherOnly",
+];
+
+/** Extension values longer than this are shown truncated */
+const MAX_RAW_EXTENSION_BYTES = 48;
+
+function child(node: Asn1Node, index: number, what: string): Asn1Node {
+  const found = node.children?.[index];
+  if (!found) throw new Error(`Malformed ${what}`);
+  return found;
+}
+
+function isUniversal(node: Asn1Node | undefined, tag: number): boolean {
+  return node?.tagClass === "universal" && node.tagNumber === tag;
+}
+
+function isContext(node: Asn1Node | undefined, tag: number): boolean {
+  return node?.tagClass === "context" && node.tagNumber === tag;
+}
+
+function formatHex(bytes: Uint8Array): string {
+  return toHexString(bytes, ":").toUpperCase();
+}
+
+/** Bytes covered by a node, including its header */
+function nodeBytes(source: Uint8Array, node: Asn1Node): Uint8Array {
+  return source.subarray(
+    node.offset,
+    node.offset + node.headerLength + node.length
+  );
+}
+
+function parseName(node: Asn1Node): DistinguishedName {
+  const attributes: NameAttribute[] = [];
+  for (const rdn of node.children ?? []) {
+    for (const pair of rdn.children ?? []) {
+      const oid = decodeOid(child(pair, 0, "name").content);
+      attributes.push({
+        oid,
+        name: attributeShortName(oid),
+        value: decodeAsn1String(child(pair, 1, "name")),
+      });
+    }
+  }
+  return {
+    attributes,
+    text: [...attributes]
+      .reverse()
+      .map((attribute) => `${attribute.name}=${attribute.value}`)
+      .join(", "),
+  };
+}
+
+function parseAlgorithm(node: Asn1Node): string {
+  return describeOid(decodeOid(child(node, 0, "algorithm").content));
+}
+
+/** Size of an RSA key from its PKCS #1 structure (modulus at `index`) */
+function rsaModulusSize(sequence: Asn1Node, index: number): number {
+  return integerBitLength(child(sequence, index, "RSA key").content);
+}
+
+/**
+ * Describe a key from its AlgorithmIdentifier and, for RSA, the PKCS #1
+ * structure carrying the modulus
+ */
+function describeKey(
+  algorithmNode: Asn1Node,
+  rsaKey: (() => number) | null
+): PublicKeyInfo {
+  const algorithm = parseAlgorithm(algorithmNode);
+  const params = algorithmNode.children?.[1];
+
+  if (algorithm === "rsaEncryption" || algorithm === "RSASSA-PSS") {
+    return { algorithm, size: rsaKey ? rsaKey() : null, curve: null };
+  }
+  if (algorithm === "ecPublicKey") {
+    const curve = isUniversal(params, ASN1_TAGS.OBJECT_IDENTIFIER)
+      ? describeOid(decodeOid(params!.content))
+      : null;
+    return {
+      algorithm,
+      size: curve ? CURVE_SIZES[curve] ?? null : null,
+      curve,
+    };
+  }
+  if (algorithm === "dsa" && params?.children?.[0]) {
+    return {
+      algorithm,
+      size: integerBitLength(params.children[0].content),
+      curve: null,
+    };
+  }
+  return { algorithm, size: FIXED_KEY_SIZES[algorithm] ?? null, curve: null };
+}
+
+function parseSubjectPublicKeyInfo(node: Asn1Node): PublicKeyInfo {
+  const bitString = child(node, 1, "public key");
+  return describeKey(child(node, 0, "public key"), () =>
+    rsaModulusSize(parseAsn1(bitString.content.subarray(1)), 0)
+  );
+}
+
+function formatIpAddress(bytes: Uint8Array): string {
+  if (bytes.length === 4) return Array.from(bytes).join(".");
+  if (bytes.length === 16) {
+    const groups: string[] = [];
+    for (let i = 0; i < 16; i += 2) {
+      groups.push(((bytes[i] << 8) | bytes[i + 1]).toString(16));
+    }
+    return groups.join(":");
+  }
+  // Name constraints use address + mask pairs
+  return formatHex(bytes);
+}
+
+function formatGeneralName(node: Asn1Node): string {
+  const text = () => String.fromCharCode(...node.content);
+  switch (node.tagClass === "context" ? node.tagNumber : -1) {
+    case 1:
+      return `email:${text()}`;
+    case 2:
+      return `DNS:${text()}`;
+    case 4:
+      return `DirName:${parseName(child(node, 0, "directory name")).text}`;
+    case 6:
+      return `URI:${text()}`;
+    case 7:
+      return `IP:${formatIpAddress(node.content)}`;
+    case 8:
+      return `RID:${describeOid(decodeOid(node.content))}`;
+    case 0:
+      return "otherName";
+    default:
+      return `[${node.tagNumber}] ${formatHex(node.content)}`;
+  }
+}
+
+/** Every URI GeneralName anywhere below a node */
+function collectUris(node: Asn1Node): string[] {
+  if (isContext(node, 6) && !node.constructed) {
+    return [String.fromCharCode(...node.content)];
+  }
+  return (node.children ?? []).flatMap(collectUris);
+}
+
+function describeExtensionValue(oid: string, value: Asn1Node): string[] {
+  switch (oid) {
+    case "2.5.29.19": {
+      const [first, second] = value.children ?? [];
+      const isCa = isUniversal(first, ASN1_TAGS.BOOLEAN) && first.content[0];
+      const pathLength = isUniversal(first, ASN1_TAGS.INTEGER) ? first : second;
+      return [
+        `CA: ${isCa ? "true" : "false"}`,
+        ...(pathLength
+          ? [`Path length: ${decodeInteger(pathLength.content)}`]
+          : []),
+      ];
+    }
+    case "2.5.29.15": {
+      const bits = value.content.subarray(1);
+      return KEY_USAGE_BITS.filter(
+        (_, bit) => (bits[bit >> 3] ?? 0) & (0x80 >> (bit & 7))
+      );
+    }
+    case "2.5.29.37":
+      return (value.children ?? []).map((node) =>
+        describeOid(decodeOid(node.content))
+      );
+    case "2.5.29.17":
+    case "2.5.29.18":
+      return (value.children ?? []).map(formatGeneralName);
+    case "2.5.29.14":
+      return [formatHex(value.content)];
+    case "2.5.29.35": {
+      const keyId = value.children?.find((node) => isContext(node, 0));
+      return keyId ? [`Key ID: ${formatHex(keyId.content)}`] : [];
+    }
+    case "2.5.29.31":
+      return collectUris(value);
+    case "1.3.6.1.5.5.7.1.1":
+    case "1.3.6.1.5.5.7.1.11":
+      return (value.children ?? []).map(
+        (description) =>
+          `${describeOid(
+            decodeOid(child(description, 0, "access description").content)
+          )}: ${formatGeneralName(child(description, 1, "access location"))}`
+      );
+    case "2.5.29.32":
+      return (value.children ?? []).map((policy) =>
+        describeOid(decodeOid(child(policy, 0, "policy").content))
+      );
+    default: {
+      const raw = formatHex(value.content.subarray(0, MAX_RAW_EXTENSION_BYTES));
+      return [value.content.length > MAX_RAW_EXTENSION_BYTES ? `${raw}…` : raw];
+    }
+  }
+}
+
+function parseExtensions(node: Asn1Node): CertificateExtension[] {
+  return (node.children ?? []).map((extension) => {
+    const oid = decodeOid(child(extension, 0, "extension").content);
+    const critical =
+      isUniversal(extension.children?.[1], ASN1_TAGS.BOOLEAN) &&
+      extension.children![1].content[0] !== 0;
+    const octets = child(
+      extension,
+      extension.children!.length - 1,
+      "extension"
+    ).content;
+
+    let values: string[];
+    try {
+      values = describeExtensionValue(oid, parseAsn1(octets));
+    } catch {
+      values = [formatHex(octets.subarray(0, MAX_RAW_EXTENSION_BYTES))];
+    }
+    return { oid, name: describeOid(oid), critical, values };
+  });
+}
+
+async function sha256Fingerprint(der: Uint8Array): Promise<string> {
+  if (typeof crypto === "undefined" || !crypto.subtle) return "";
+  const digest = await crypto.subtle.digest("SHA-256", der as BufferSource);
+  return formatHex(new Uint8Array(digest));
+}
+
+async function parseCertificateNode(
+  node: Asn1Node,
+  der: Uint8Array
+): Promise<X509Certificate> {
+  const tbs = child(node, 0, "certificate");
+  // Version is an optional explicit [0]; v1 certificates omit it
+  const hasVersion = isContext(tbs.children?.[0], 0);
+  const field = (index: number) =>
+    child(tbs, index + (hasVersion ? 1 : 0), "certificate");
+
+  const validity = field(3);
+  const notBefore = decodeAsn1Time(child(validity, 0, "validity"));
+  const notAfter = decodeAsn1Time(child(validity, 1, "validity"));
+  if (!notBefore || !notAfter) throw new Error("Invalid certificate validity");
+
+  const extensionsNode = tbs.children?.find((item) => isContext(item, 3));
+  const extensions = extensionsNode?.children?.[0]
+    ? parseExtensions(extensionsNode.children[0])
+    : [];
+  const subject = parseName(field(4));
+  const issuer = parseName(field(2));
+
+  return {
+    version: hasVersion
+      ? Number(decodeInteger(child(tbs.children![0], 0, "version").content)) + 1
+      : 1,
+    serialNumber: formatHex(field(0).content),
+    signatureAlgorithm: parseAlgorithm(child(node, 1, "certificate")),
+    subject,
+    issuer,
+    notBefore,
+    notAfter,
+    publicKey: parseSubjectPublicKeyInfo(field(5)),
+    subjectAltNames:
+      extensions.find((extension) => extension.oid === "2.5.29.17")?.values ??
+      [],
+    extensions,
+    isCa: extensions.some(
+      (extension) =>
+        extension.oid === "2.5.29.19" && extension.values[0] === "CA: true"
+    ),
+    isSelfIssued: subject.text === issuer.text,
+    fingerprintSha256: await sha256Fingerprint(der),
+    der,
+  };
+}
+
+/**
+ * Parse a DER-encoded X.509 certificate
+ */
+export async function parseCertificate(
+  der: Uint8Array
+): Promise<X509Certificate> {
+  // Trailing data is allowed for OpenSSL "TRUSTED CERTIFICATE" blocks
+  const node = parseAsn1(der, false);
+  return parseCertificateNode(node, nodeBytes(der, node));
+}
+
+/**
+ * Extract every certificate from a PKCS #7 / CMS SignedData structure
+ * (the ".p7b" chain format)
+ */
+export async function parsePkcs7Certificates(
+  der: Uint8Array
+): Promise<X509Certificate[]> {
+  const contentInfo = parseAsn1(der, false);
+  const contentType = decodeOid(child(contentInfo, 0, "PKCS #7").content);
+  if (contentType !== "1.2.840.113549.1.7.2") {
+    throw new Error(
+      `Unsupported PKCS #7 content type ${describeOid(contentType)}`
+    );
+  }
+  const signedData = child(child(contentInfo, 1, "PKCS #7"), 0, "SignedData");
+  const certificates = signedData.children?.find((item) => isContext(item, 0));
+
+  return Promise.all(
+    (certificates?.children ?? []).map((node) =>
+      parseCertificateNode(node, nodeBytes(der, node))
+    )
+  );
+}
+
+/**
+ * Parse a DER-encoded PKCS #10 certificate signing request
+ */
+export function parseCertificateRequest(der: Uint8Array): CertificateRequest {
+  const node = parseAsn1(der);
+  const info = child(node, 0, "certificate request");
+  const attributes = info.children?.find((item) => isContext(item, 0));
+
+  const extensions: CertificateExtension[] = [];
+  for (const attribute of attributes?.children ?? []) {
+    const oid = decodeOid(child(attribute, 0, "attribute").content);
+    const values = child(attribute, 1, "attribute");
+    if (oid === "1.2.840.113549.1.9.14" && values.children?.[0]) {
+      extensions.push(...parseExtensions(values.children[0]));
+    }
+  }
+
+  return {
+    subject: parseName(child(info, 1, "certificate request")),
+    publicKey: parseSubjectPublicKeyInfo(child(info, 2, "certificate request")),
+    signatureAlgorithm: parseAlgorithm(child(node, 1, "certificate request")),
+    extensions,
+  };
+}
+
+/**
+ * Describe a public or private key from its PEM label and DER body
+ */
+export function parseKey(label: string, der: Uint8Array): KeyInfo {
+  const node = parseAsn1(der);
+
+  switch (label) {
+    case "PUBLIC KEY":
+      return {
+        format: "SPKI",
+        isPrivate: false,
+        publicKey: parseSubjectPublicKeyInfo(node),
+        encryption: null,
+      };
+    case "RSA PUBLIC KEY":
+      return {
+        format: "PKCS #1",
+        isPrivate: false,
+        publicKey: {
+          algorithm: "rsaEncryption",
+          size: rsaModulusSize(node, 0),
+          curve: null,
+        },
+        encryption: null,
+      };
+    case "RSA PRIVATE KEY":
+      return {
+        format: "PKCS #1",
+        isPrivate: true,
+        publicKey: {
+          algorithm: "rsaEncryption",
+          size: rsaModulusSize(node, 1),
+          curve: null,
+        },
+        encryption: null,
+      };
+    case "EC PRIVATE KEY": {
+      const params = node.children?.find((item) => isContext(item, 0));
+      const curve = params?.children?.[0]
+        ? describeOid(decodeOid(params.children[0].content))
+        : null;
+      return {
+        format: "SEC 1",
+        isPrivate: true,
+        publicKey: {
+          algorithm: "ecPublicKey",
+          size: curve ? CURVE_SIZES[curve] ?? null : null,
+          curve,
+        },
+        encryption: null,
+      };
+    }
+    case "PRIVATE KEY": {
+      const privateKey = child(node, 2, "private key");
+      return {
+        format: "PKCS #8",
+        isPrivate: true,
+        publicKey: describeKey(child(node, 1, "private key"), () =>
+          rsaModulusSize(parseAsn1(privateKey.content), 1)
+        ),
+        encryption: null,
+      };
+    }
+    case "ENCRYPTED PRIVATE KEY":
+      return {
+        format: "PKCS #8",
+        isPrivate: true,
+        publicKey: null,
+        encryption: parseAlgorithm(child(node, 0, "encrypted private key")),
+      };
+    default:
+      throw new Error(`Unsupported key type "${label}"`);
+  }
+}
+
+/**
+ * Extract the SubjectPublicKeyInfo DER from a certificate, for importing
+ * its key with WebCrypto
+ */
+export function getCertificateSpki(der: Uint8Array): Uint8Array {
+  const tbs = child(parseAsn1(der, false), 0, "certificate");
+  const offset = isContext(tbs.children?.[0], 0) ? 1 : 0;
+  return nodeBytes(der, child(tbs, 5 + offset, "certificate"));
+}
+
+/**
+ * Validity of a certificate at `now`
+ */
+export function getCertificateStatus(
+  certificate: X509Certificate,
+  now: Date = new Date()
+): CertificateStatus {
+  if (now > certificate.notAfter) return "expired";
+  if (now < certificate.notBefore) return "not-yet-valid";
+  return "valid";
+}
+
+/**
+ * Whether `issuer` plausibly issued `certificate`, by name only.
+ * Signatures are not checked.
+ */
+export function isIssuedBy(
+  certificate: X509Certificate,
+  issuer: X509Certificate
+): boolean {
+  return certificate.issuer.text === issuer.subject.text;
+}
+
+/**
+ * Human readable key description, e.g. "RSA 2048-bit" or "EC prime256v1"
+ */
+export function describePublicKey(key: PublicKeyInfo): string {
+  const names: Record<string, string> = {
+    rsaEncryption: "RSA",
+    "RSASSA-PSS": "RSA-PSS",
+    ecPublicKey: "EC",
+    dsa: "DSA",
+  };
+  const name = names[key.algorithm] ?? key.algorithm;
+  const parts = [key.curve ? `${name} ${key.curve}` : name];
+  if (key.size) parts.push(`${key.size}-bit`);
+  return parts.join(" · ");
+}
+
+/**
+ * Parse every PEM block in `text` into certificates, CSRs and keys.
+ * PKCS #7 bundles expand to one entry per certificate. Blocks that fail to
+ * parse are returned as "unsupported" with the reason, in place.
+ */
+export async function inspectPem(text: string): Promise<PemObject[]> {
+  const objects: PemObject[] = [];
+
+  for (const { label, der } of parsePem(text)) {
+    try {
+      switch (label) {
+        case "CERTIFICATE":
+        case "X509 CERTIFICATE":
+        case "TRUSTED CERTIFICATE":
+          objects.push({
+            type: "certificate",
+            label,
+            certificate: await parseCertificate(der),
+          });
+          break;
+        case "PKCS7":
+        case "CMS":
+          for (const certificate of await parsePkcs7Certificates(der)) {
+            objects.push({ type: "certificate", label, certificate });
+          }
+          break;
+        case "CERTIFICATE REQUEST":
+        case "NEW CERTIFICATE REQUEST":
+          objects.push({
+            type: "csr",
+            label,
+            request: parseCertificateRequest(der),
+          });
+          break;
+        default:
+          objects.push({ type: "key", label, key: parseKey(label, der) });
+      }
+    } catch (err) {
+      objects.push({
+        type: "unsupported",
+        label,
+        error: err instanceof Error ? err.message : "Could not parse block",
+      });
+    }
+  }
+
+  return objects;
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import {
+  crc32,
+  createZip,
+  describeZipMethod,
+  extractZipEntry,
+  isZipContainer,
+  readZip,
+} from "@/lib/zip";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/** Written by Python's zipfile: a directory and a deflated text file */
+const DEFLATE_ZIP = Buffer.from(
+  "UEsDBBQAAAAAAABgoVgAAAAAAAAAAAAAAAAFAAAAZG9jcy9QSwMEFAAAAAgAXGShWGhCqrcQAAAAeAAAAA8AAABkb2NzL3JlYWRtZS50eHTLSM3JyVfIwE5y4RCngiwAUEsBAhQDFAAAAAAAAGChWAAAAAAAAAAAAAAAAAUAAAAAAAAAAAAAAIABAAAAAGRvY3MvUEsBAhQDFAAAAAgAXGShWGhCqrcQAAAAeAAAAA8AAAAAAAAAAAAAAIABIwAAAGRvY3MvcmVhZG1lLnR4dFBLBQYAAAAAAgACAHAAAABgAAAAAAA=",
+  "base64"
+);
+
+describe("crc32", () => {
+  it("matches the standard check value", () => {
+    expect(crc32(encoder.encode("123456789"))).toBe(0xcbf43926);
+  });
+
+  it("is zero for no input", () => {
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+});
+
+describe("createZip and readZip", () => {
+  it("round-trips stored entries", async () => {
+    const modified = new Date(2024, 4, 1, 12, 34, 56);
+    const bytes = createZip([
+      { path: "a.txt", data: encoder.encode("first"), modified },
+      { path: "dir/b.txt", data: encoder.encode("second"), modified },
+    ]);
+
+    const entries = readZip(bytes);
+    expect(entries.map((entry) => entry.path)).toEqual(["a.txt", "dir/b.txt"]);
+    expect(entries[0]).toMatchObject({
+      size: 5,
+      compressedSize: 5,
+      method: 0,
+      isDirectory: false,
+      isEncrypted: false,
+      crc32: crc32(encoder.encode("first")),
+    });
+    expect(entries[0].modified).toEqual(modified);
+
+    const data = await extractZipEntry(bytes, entries[1]);
+    expect(decoder.decode(data)).toBe("second");
+  });
+
+  it("keeps UTF-8 file names", () => {
+    const bytes = createZip([{ path: "résumé.txt", data: new Uint8Array() }]);
+    expect(readZip(bytes)[0].path).toBe("résumé.txt");
+  });
+
+  it("reads directories and inflates deflate entries", async () => {
+    const entries = readZip(DEFLATE_ZIP);
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({ path: "docs/", isDirectory: true });
+    expect(entries[1]).toMatchObject({
+      path: "docs/readme.txt",
+      method: 8,
+      size: 120,
+    });
+
+    const data = await extractZipEntry(DEFLATE_ZIP, entries[1]);
+    expect(decoder.decode(data)).toBe(
+      "hello hello hello hello hello\n".repeat(4)
+    );
+  });
+
+  it("rejects data that isn't a ZIP archive", () => {
+    expect(() => readZip(encoder.encode("not a zip file at all"))).toThrow();
+  });
+
+  it("refuses encrypted entries", async () => {
+    const bytes = createZip([{ path: "a.txt", data: encoder.encode("x") }]);
+    const entry = { ...readZip(bytes)[0], isEncrypted: true };
+    await expect(extractZipEntry(bytes, entry)).rejects.toThrow(
+      "Encrypted ZIP entries are not supported"
+    );
+  });
+});
+
+describe("describeZipMethod", () => {
+  it("names known methods and numbers the rest", () => {
+    expect(describeZipMethod(8)).toBe("Deflate");
+    expect(describeZipMethod(42)).toBe("Method 42");
+  });
+});
+
+describe("isZipContainer", () => {
+  it("recognises ZIP-based formats", () => {
+    expect(isZipContainer("application/zip")).toBe(true);
+    expect(isZipContainer("application/epub+zip")).toBe(true);
+    expect(
+      isZipContainer(
+        "application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+      )
+    ).toBe(true);
+    expect(isZipContainer("application/pdf")).toBe(false);
+  });
+});
@@ -0,0 +1,348 @@
+/**
+ * Minimal ZIP archive reader and writer
+ * Reads the central directory (including ZIP64), inflates deflate entries
+ * with the browser's DecompressionStream, and writes stored-only archives
+ */
+
+import { decompress } from "@/lib/compression";
+
+export interface ZipEntry {
+  /** Full path inside the archive, directories end with "/" */
+  path: string;
+  /** Uncompressed size in bytes */
+  size: number;
+  compressedSize: number;
+  /** Modification time from the DOS timestamp (local time) */
+  modified: Date;
+  /** Compression method id (0 = stored, 8 = deflate) */
+  method: number;
+  isDirectory: boolean;
+  isEncrypted: boolean;
+  crc32: number;
+  /** Offset of the local file header */
+  localHeaderOffset: number;
+}
+
+export interface ZipInputFile {
+  path: string;
+  data: Uint8Array;
+  modified?: Date;
+}
+
+/** Human readable names for ZIP compression methods */
+const COMPRESSION_METHODS: Record<number, string> = {
+  0: "Stored",
+  8: "Deflate",
+  9: "Deflate64",
+  12: "BZIP2",
+  14: "LZMA",
+  93: "Zstandard",
+  95: "XZ",
+  99: "AES",
+};
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_EOCD_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+/** EOCD is 22 bytes plus a comment of up to 65535 bytes */
+const MAX_EOCD_SEARCH = 22 + 0xffff;
+/** General purpose flag bit 11: file name is UTF-8 */
+const FLAG_UTF8 = 0x0800;
+
+/**
+ * Whether a MIME type is a ZIP-based container the browser can list
+ */
+export function isZipContainer(mimeType: string): boolean {
+  return (
+    mimeType === "application/zip" ||
+    mimeType === "application/epub+zip" ||
+    mimeType.startsWith("application/vnd.openxmlformats-officedocument.") ||
+    mimeType.startsWith("application/vnd.oasis.opendocument.")
+  );
+}
+
+/**
+ * Human readable compression method name
+ */
+export function describeZipMethod(method: number): string {
+  return COMPRESSION_METHODS[method] ?? `Method ${method}`;
+}
+
+function dosDateTimeToDate(date: number, time: number): Date {
+  return new Date(
+    ((date >> 9) & 0x7f) + 1980,
+    ((date >> 5) & 0x0f) - 1,
+    date & 0x1f,
+    (time >> 11) & 0x1f,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2
+  );
+}
+
+function dateToDosDateTime(value: Date): { date: number; time: number } {
+  const year = Math.max(1980, value.getFullYear());
+  return {
+    date:
+      ((year - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate(),
+    time:
+      (value.getHours() << 11) |
+      (value.getMinutes() << 5) |
+      Math.floor(value.getSeconds() / 2),
+  };
+}
+
+/** Read a little-endian 64-bit value; sizes beyond 2^53 are not supported */
+function getUint64(view: DataView, offset: number): number {
+  return (
+    view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 2 ** 32
+  );
+}
+
+function decodeName(bytes: Uint8Array, utf8: boolean): string {
+  if (utf8) return new TextDecoder("utf-8").decode(bytes);
+  // Legacy archives use CP437; Latin-1 is a close enough approximation
+  return String.fromCharCode(...bytes);
+}
+
+/**
+ * List the entries of a ZIP archive from its central directory.
+ * Throws if the archive is truncated or not a ZIP file.
+ */
+export function readZip(bytes: Uint8Array): ZipEntry[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // Find the end of central directory record, scanning back over the comment
+  let eocd = -1;
+  const searchStart = Math.max(0, bytes.length - MAX_EOCD_SEARCH);
+  for (let i = bytes.length - 22; i >= searchStart; i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error("Not a ZIP archive or the archive is truncated");
+  }
+
+  let entryCount = view.getUint16(eocd + 10, true);
+  let directoryOffset = view.getUint32(eocd + 16, true);
+
+  // ZIP64 archives store the real values in a separate record
+  const locator = eocd - 20;
+  if (
+    locator >= 0 &&
+    view.getUint32(locator, true) === ZIP64_EOCD_LOCATOR_SIGNATURE
+  ) {
+    const zip64Eocd = getUint64(view, locator + 8);
+    if (view.getUint32(zip64Eocd, true) === ZIP64_EOCD_SIGNATURE) {
+      entryCount = getUint64(view, zip64Eocd + 32);
+      directoryOffset = getUint64(view, zip64Eocd + 48);
+    }
+  }
+
+  const entries: ZipEntry[] = [];
+  let offset = directoryOffset;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (
+      offset + 46 > bytes.length ||
+      view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE
+    ) {
+      throw new Error("Corrupt ZIP central directory");
+    }
+
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const time = view.getUint16(offset + 12, true);
+    const date = view.getUint16(offset + 14, true);
+    const crc32 = view.getUint32(offset + 16, true);
+    let compressedSize = view.getUint32(offset + 20, true);
+    let size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    let localHeaderOffset = view.getUint32(offset + 42, true);
+
+    const nameStart = offset + 46;
+    const path = decodeName(
+      bytes.subarray(nameStart, nameStart + nameLength),
+      (flags & FLAG_UTF8) !== 0
+    );
+
+    // ZIP64 extended information: only the saturated fields are present, in order
+    let extra = nameStart + nameLength;
+    const extraEnd = extra + extraLength;
+    while (extra + 4 <= extraEnd) {
+      const headerId = view.getUint16(extra, true);
+      const dataSize = view.getUint16(extra + 2, true);
+      if (headerId === 0x0001) {
+        let field = extra + 4;
+        if (size === 0xffffffff) {
+          size = getUint64(view, field);
+          field += 8;
+        }
+        if (compressedSize === 0xffffffff) {
+          compressedSize = getUint64(view, field);
+          field += 8;
+        }
+        if (localHeaderOffset === 0xffffffff) {
+          localHeaderOffset = getUint64(view, field);
+        }
+      }
+      extra += 4 + dataSize;
+    }
+
+    entries.push({
+      path,
+      size,
+      compressedSize,
+      modified: dosDateTimeToDate(date, time),
+      method,
+      isDirectory: path.endsWith("/"),
+      isEncrypted: (flags & 0x0001) !== 0,
+      crc32,
+      localHeaderOffset,
+    });
+
+    offset = extraEnd + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Extract and decompress a single entry.
+ * Supports stored and deflate entries; anything else throws.
+ */
+export async function extractZipEntry(
+  bytes: Uint8Array,
+  entry: ZipEntry
+): Promise<Uint8Array> {
+  if (entry.isEncrypted) {
+    throw new Error("Encrypted ZIP entries are not supported");
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const header = entry.localHeaderOffset;
+  if (view.getUint32(header, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error(`Corrupt local header for ${entry.path}`);
+  }
+
+  // Local name/extra lengths can differ from the central directory copy
+  const dataStart =
+    header +
+    30 +
+    view.getUint16(header + 26, true) +
+    view.getUint16(header + 28, true);
+  const data = bytes.subarray(dataStart, dataStart + entry.compressedSize);
+
+  switch (entry.method) {
+    case 0:
+      return data;
+    case 8:
+      return decompress(data, "deflate-raw");
+    default:
+      throw new Error(
+        `${describeZipMethod(entry.method)} compression is not supported`
+      );
+  }
+}
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * CRC-32 (IEEE 802.3) as used by ZIP and gzip
+ */
+export function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Build a ZIP archive with stored (uncompressed) entries.
+ * Payloads here are usually already-compressed media, so deflating again
+ * would cost time for little gain.
+ */
+export function createZip(files: ZipInputFile[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.path);
+    const { date, time } = dateToDosDateTime(file.modified ?? new Date());
+    const checksum = crc32(file.data);
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    localView.setUint16(4, 20, true); // version needed
+    localView.setUint16(6, FLAG_UTF8, true);
+    localView.setUint16(8, 0, true); // stored
+    localView.setUint16(10, time, true);
+    localView.setUint16(12, date, true);
+    localView.setUint32(14, checksum, true);
+    localView.setUint32(18, file.data.length, true);
+    localView.setUint32(22, file.data.length, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+    centralView.setUint16(4, 20, true); // version made by
+    centralView.setUint16(6, 20, true); // version needed
+    centralView.setUint16(8, FLAG_UTF8, true);
+    centralView.setUint16(10, 0, true);
+    centralView.setUint16(12, time, true);
+    centralView.setUint16(14, date, true);
+    centralView.setUint32(16, checksum, true);
+    centralView.setUint32(20, file.data.length, true);
+    centralView.setUint32(24, file.data.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    localParts.push(local, file.data);
+    centralParts.push(central);
+    offset += local.length + file.data.length;
+  }
+
+  const directorySize = centralParts.reduce(
+    (sum, part) => sum + part.length,
+    0
+  );
+  const eocd = new Uint8Array(22);
+  const eocdView = new DataView(eocd.buffer);
+  eocdView.setUint32(0, EOCD_SIGNATURE, true);
+  eocdView.setUint16(8, files.length, true);
+  eocdView.setUint16(10, files.length, true);
+  eocdView.setUint32(12, directorySize, true);
+  eocdView.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, eocd];
+  const result = new Uint8Array(offset + directorySize + eocd.length);
+  let position = 0;
+  for (const part of parts) {
+    result.set(part, position);
+    position += part.length;
+  }
+  return result;
+}
@@ -0,0 +1,14 @@
+/**
+ * Copy the PDF.js worker into public/, so it is served from a fixed path
+ * and always matches the installed pdfjs-dist. Runs before dev and build.
+ */
+
+import { copyFileSync } from "node:fs";
+import { createRequire } from "node:module";
+
+const require = createRequire(import.meta.url);
+
+copyFileSync(
+  require.resolve("pdfjs-dist/legacy/build/pdf.worker.min.mjs"),
+  new URL("../public/pdf.worker.min.mjs", import.meta.url)
+);